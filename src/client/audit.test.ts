@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, existsSync, mkdtempSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuditLog, diffFields, runAudited } from './audit.js';
+
+describe('diffFields', () => {
+  it('reports changed leaf fields, matching lines by line id', () => {
+    const before = {
+      orderRemarks: 'old',
+      timestamp: '1',
+      lines: [
+        { salesOrderLineId: 'l1', unitPrice: 10, product: { name: 'Widget' } },
+        { salesOrderLineId: 'l2', unitPrice: 5 },
+      ],
+    };
+    const after = {
+      orderRemarks: 'new',
+      timestamp: '2',
+      lines: [{ salesOrderLineId: 'l1', unitPrice: 12 }],
+    };
+
+    expect(diffFields(before, after)).toEqual([
+      { path: 'orderRemarks', before: 'old', after: 'new' },
+      { path: 'lines[l1].unitPrice', before: 10, after: 12 },
+      { path: 'lines[l2]', before: { salesOrderLineId: 'l2', unitPrice: 5 } },
+    ]);
+  });
+
+  it('treats every field as added when there is no snapshot', () => {
+    expect(diffFields({}, { productId: 'p1', name: 'Widget' })).toEqual([
+      { path: 'productId', after: 'p1' },
+      { path: 'name', after: 'Widget' },
+    ]);
+  });
+});
+
+describe('AuditLog', () => {
+  let dir: string;
+  let log: AuditLog;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'inflow-audit-'));
+    log = new AuditLog(join(dir, 'logs', 'audit.jsonl'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ignores writes made outside an audited tool call', async () => {
+    expect(
+      log.recordWrite({ companyId: 'c1', method: 'PUT', path: '/products', body: {}, durationMs: 1 })
+    ).toBeUndefined();
+    expect(await log.query()).toEqual([]);
+  });
+
+  it('records the snapshot, body, response and diff for a write', async () => {
+    await runAudited('upsert_webhook', { url: 'https://example.com', secret: 's3cret' }, async () => {
+      log.rememberSnapshot('/webhooks/w1', { id: 'w1', url: 'https://old.example.com' });
+      log.recordWrite({
+        companyId: 'c1',
+        method: 'PUT',
+        path: '/webhooks',
+        body: { id: 'w1', url: 'https://example.com' },
+        response: { id: 'w1', url: 'https://example.com', secret: 'abc' },
+        durationMs: 12,
+      });
+    });
+
+    const [entry] = await log.query();
+    expect(entry).toMatchObject({
+      tool: 'upsert_webhook',
+      args: { url: 'https://example.com', secret: '[redacted]' },
+      companyId: 'c1',
+      entityType: 'webhooks',
+      entityId: 'w1',
+      before: { url: 'https://old.example.com' },
+      response: { secret: '[redacted]' },
+      diff: [
+        { path: 'url', before: 'https://old.example.com', after: 'https://example.com' },
+        { path: 'secret', after: '[redacted]' },
+      ],
+    });
+  });
+
+  it('filters by entity, tool, company and time, newest first', async () => {
+    await runAudited('upsert_product', {}, async () => {
+      log.recordWrite({ companyId: 'c1', method: 'PUT', path: '/products', body: { productId: 'p1' }, response: {}, durationMs: 1 });
+      log.recordWrite({ companyId: 'c1', method: 'PUT', path: '/products', body: { productId: 'p2' }, response: {}, durationMs: 1 });
+    });
+    await runAudited('delete_webhook', {}, async () => {
+      log.recordWrite({ companyId: 'c2', method: 'DELETE', path: '/webhooks/w1', response: {}, durationMs: 1 });
+    });
+    // A torn line from a crashed process is skipped
+    appendFileSync(log.file, '{"id":');
+
+    expect((await log.query()).map((e) => e.entityId)).toEqual(['w1', 'p2', 'p1']);
+    expect(await log.query({ entityId: 'p1' })).toHaveLength(1);
+    expect((await log.query({ tool: 'upsert_product', limit: 1 })).map((e) => e.entityId)).toEqual(['p2']);
+    expect(await log.query({ companyId: 'c2' })).toHaveLength(1);
+    expect(await log.query({ from: new Date(Date.now() + 60000).toISOString() })).toEqual([]);
+  });
+
+  it('rotates past maxBytes and queries across rotated files, newest first', async () => {
+    const small = new AuditLog(join(dir, 'rotating.jsonl'), 600);
+    await runAudited('upsert_product', {}, async () => {
+      for (let i = 1; i <= 12; i++) {
+        small.recordWrite({
+          companyId: 'c1',
+          method: 'PUT',
+          path: '/products',
+          body: { productId: `p${i}` },
+          response: {},
+          durationMs: 1,
+        });
+      }
+    });
+
+    expect(existsSync(`${small.file}.1`)).toBe(true);
+    expect(statSync(small.file).size).toBeLessThanOrEqual(600);
+    expect((await small.query({ limit: 4 })).map((e) => e.entityId)).toEqual(['p12', 'p11', 'p10', 'p9']);
+
+    const all = (await small.query()).map((e) => e.entityId);
+    // Only AUDIT_LOG_KEEP_FILES rotated files are kept, so the oldest may be gone
+    expect(all[0]).toBe('p12');
+    expect(all).toEqual([...all].sort((a, b) => Number(b!.slice(1)) - Number(a!.slice(1))));
+  });
+});
@@ -0,0 +1,302 @@
+// Append-only audit log of the writes made by mutating tools
+//
+// Mutating tools run inside an audit context (see `runAudited`). While it is
+// active, the client remembers every GET response as a pre-change snapshot,
+// and each PUT/POST/DELETE appends one JSON line with the tool call, the
+// snapshot of the entity being written, the request body, the response and a
+// field-level diff. Writes made outside an audit context are not logged.
+//
+// The log rotates once it would grow past `maxBytes`: `audit.jsonl` becomes
+// `audit.jsonl.1`, and so on up to AUDIT_LOG_KEEP_FILES older files. Queries
+// stream the files newest first and stop once `limit` entries are found.
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { appendFileSync, createReadStream, mkdirSync, renameSync, statSync } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { createInterface } from 'node:readline';
+
+import { endpointRoot } from './cache.js';
+
+// Fields that change on every save and would only add noise to a diff
+const VOLATILE_FIELDS = new Set(['timestamp', 'modifiedDate', 'lastModifiedById', 'lastModifiedBy']);
+
+// Never written to the log
+const REDACTED_FIELDS = new Set(['secret', 'apiKey', 'password']);
+
+export const DEFAULT_AUDIT_LOG_MAX_BYTES = 10 * 1024 * 1024;
+// Rotated files kept besides the live one
+export const AUDIT_LOG_KEEP_FILES = 5;
+
+interface AuditContext {
+  tool: string;
+  args: Record<string, unknown>;
+  // Latest GET response per API path during this tool call
+  snapshots: Map<string, unknown>;
+}
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+/** Run one tool call with auditing; nested calls reuse the outer context. */
+export function runAudited<R>(tool: string, args: Record<string, unknown>, fn: () => Promise<R>): Promise<R> {
+  if (auditContext.getStore()) return fn();
+  return auditContext.run({ tool, args, snapshots: new Map() }, fn);
+}
+
+export interface FieldChange {
+  // Dotted path; array elements are addressed by line id when they have one, e.g. `lines[<id>].unitPrice`
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  args: Record<string, unknown>;
+  companyId: string;
+  method: string;
+  path: string;
+  entityType: string;
+  entityId?: string;
+  // GET snapshot of the entity taken earlier in the same tool call
+  before?: unknown;
+  body?: unknown;
+  response?: unknown;
+  error?: { status?: number; message: string };
+  diff: FieldChange[];
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  entityId?: string;
+  tool?: string;
+  companyId?: string;
+  // ISO 8601 bounds, inclusive
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface WriteRecord {
+  companyId: string;
+  method: string;
+  path: string;
+  body?: unknown;
+  response?: unknown;
+  error?: { status?: number; message: string };
+  durationMs: number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, REDACTED_FIELDS.has(key) ? '[redacted]' : redact(item)])
+  );
+}
+
+/** Key for matching array elements across snapshots: a `*LineId` or `id` present on every element. */
+function elementKey(items: unknown[]): string | undefined {
+  const objects = items.filter(isPlainObject);
+  if (objects.length === 0 || objects.length !== items.length) return undefined;
+  const candidates = Object.keys(objects[0]).filter((key) => key.endsWith('LineId') || key === 'id');
+  return candidates.find((key) =>
+    objects.every((item) => typeof item[key] === 'string' || typeof item[key] === 'number')
+  );
+}
+
+/**
+ * Field-level changes from `before` to `after`. Only fields present in `after`
+ * are compared, so expansions that a GET returned but a PUT response omits
+ * (e.g. `lines.product`) don't show up as removals; array elements that
+ * disappeared are reported.
+ */
+export function diffFields(before: unknown, after: unknown, path = ''): FieldChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: FieldChange[] = [];
+    for (const key of Object.keys(after)) {
+      if (VOLATILE_FIELDS.has(key)) continue;
+      changes.push(...diffFields(before[key], after[key], path ? `${path}.${key}` : key));
+    }
+    return changes;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const key = elementKey([...before, ...after]);
+    if (key) {
+      const beforeById = new Map(before.map((item) => [String((item as Record<string, unknown>)[key]), item]));
+      const changes: FieldChange[] = [];
+      for (const item of after) {
+        const id = String((item as Record<string, unknown>)[key]);
+        changes.push(...diffFields(beforeById.get(id), item, `${path}[${id}]`));
+        beforeById.delete(id);
+      }
+      for (const [id, item] of beforeById) {
+        changes.push({ path: `${path}[${id}]`, before: item });
+      }
+      return changes;
+    }
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ path, ...(before !== undefined ? { before } : {}), ...(after !== undefined ? { after } : {}) }];
+}
+
+/** `/sales-orders` → `salesOrderId`, the id field inFlow uses for that entity. */
+function idFieldFor(root: string): string {
+  const singular = root.replace(/^\//, '').replace(/s$/, '');
+  return `${singular.replace(/-(\w)/g, (_, c: string) => c.toUpperCase())}Id`;
+}
+
+/**
+ * The record a write targets: its ID, and the GET snapshot of it when one was
+ * taken. Matched by the write's own path (`DELETE /webhooks/{id}`) or by the
+ * entity's ID field in the request body or response.
+ */
+export function findEntity(
+  snapshots: ReadonlyMap<string, unknown>,
+  path: string,
+  body: unknown,
+  response?: unknown
+): { entityId?: string; before?: unknown } {
+  if (snapshots.has(path) || path.split('/').length > 2) {
+    return { entityId: path.split('/').pop(), before: snapshots.get(path) };
+  }
+
+  const idField = idFieldFor(endpointRoot(path));
+  for (const source of [body, response]) {
+    if (!isPlainObject(source)) continue;
+    const id = source[idField] ?? source.id;
+    if (typeof id === 'string' && id) {
+      return { entityId: id, before: snapshots.get(`${path}/${id}`) };
+    }
+  }
+  return {};
+}
+
+export class AuditLog {
+  constructor(
+    readonly file: string,
+    private readonly maxBytes: number = DEFAULT_AUDIT_LOG_MAX_BYTES
+  ) {
+    mkdirSync(dirname(file), { recursive: true });
+  }
+
+  /** Remember a GET response as the pre-change snapshot for `path`. */
+  rememberSnapshot(path: string, value: unknown): void {
+    const context = auditContext.getStore();
+    if (!context) return;
+    const [pathname] = path.split('?');
+    context.snapshots.set(pathname, structuredClone(value));
+  }
+
+  /** Append an entry for one write, when made inside an audited tool call. */
+  recordWrite(write: WriteRecord): AuditEntry | undefined {
+    const context = auditContext.getStore();
+    if (!context) return undefined;
+
+    const [pathname] = write.path.split('?');
+    const entityType = endpointRoot(pathname).slice(1);
+    const { entityId, before } = findEntity(context.snapshots, pathname, write.body, write.response);
+
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      tool: context.tool,
+      args: redact(context.args) as Record<string, unknown>,
+      companyId: write.companyId,
+      method: write.method,
+      path: pathname,
+      entityType,
+      ...(entityId ? { entityId } : {}),
+      ...(before !== undefined ? { before: redact(before) } : {}),
+      ...(write.body !== undefined ? { body: redact(write.body) } : {}),
+      ...(write.response !== undefined ? { response: redact(write.response) } : {}),
+      ...(write.error ? { error: write.error } : {}),
+      diff:
+        write.error || write.response === undefined
+          ? []
+          : diffFields(redact(before ?? {}), redact(write.response)),
+      durationMs: write.durationMs,
+    };
+
+    const line = `${JSON.stringify(entry)}\n`;
+    const size = this.size();
+    if (size > 0 && size + Buffer.byteLength(line) > this.maxBytes) this.rotate();
+    appendFileSync(this.file, line);
+    return entry;
+  }
+
+  /** Matching entries, newest first. */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const limit = query.limit ?? Infinity;
+    const matches: AuditEntry[] = [];
+    // Newer files first; a file's entries are all newer than the next file's
+    for (let index = 0; index <= AUDIT_LOG_KEEP_FILES && matches.length < limit; index++) {
+      const file = index === 0 ? this.file : `${this.file}.${index}`;
+      const newest = await this.scan(file, query, limit - matches.length);
+      matches.push(...newest.reverse());
+    }
+    return matches;
+  }
+
+  /** Stream one log file, keeping its last `limit` matching entries in order. */
+  private async scan(file: string, query: AuditQuery, limit: number): Promise<AuditEntry[]> {
+    try {
+      await stat(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const from = query.from ? Date.parse(query.from) : -Infinity;
+    const to = query.to ? Date.parse(query.to) : Infinity;
+    const matches: AuditEntry[] = [];
+    const lines = createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        // Torn write from a crashed process
+        continue;
+      }
+      const at = Date.parse(entry.timestamp);
+      if (query.entityId && entry.entityId !== query.entityId) continue;
+      if (query.tool && entry.tool !== query.tool) continue;
+      if (query.companyId && entry.companyId !== query.companyId) continue;
+      if (at < from || at > to) continue;
+      matches.push(entry);
+      if (matches.length > limit) matches.shift();
+    }
+    return matches;
+  }
+
+  private size(): number {
+    try {
+      return statSync(this.file).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  /** Shift `file` to `file.1`, `file.1` to `file.2`, ..., dropping the oldest. */
+  private rotate(): void {
+    for (let index = AUDIT_LOG_KEEP_FILES; index >= 1; index--) {
+      const from = index === 1 ? this.file : `${this.file}.${index - 1}`;
+      try {
+        renameSync(from, `${this.file}.${index}`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+  }
+}
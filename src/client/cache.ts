@@ -0,0 +1,78 @@
+// In-memory TTL cache for slow-changing inFlow reference data
+
+/**
+ * Endpoint roots whose responses change rarely enough to serve from memory.
+ * Writes to any of these roots (PUT/POST/DELETE) invalidate the root.
+ */
+export const CACHEABLE_ENDPOINTS = [
+  '/categories',
+  '/locations',
+  '/currencies',
+  '/tax-codes',
+  '/taxing-schemes',
+  '/pricing-schemes',
+  '/payment-terms',
+  '/adjustment-reasons',
+  '/custom-field-definitions',
+  '/custom-field-dropdown-options',
+  '/team-members',
+] as const;
+
+export type CacheableEndpoint = (typeof CACHEABLE_ENDPOINTS)[number];
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/** Return the `/root` segment of an API path, e.g. `/locations/abc` → `/locations`. */
+export function endpointRoot(path: string): string {
+  const [root] = path.replace(/^\/+/, '').split(/[/?]/);
+  return `/${root}`;
+}
+
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Hand out copies so callers can't mutate the cached value
+    return structuredClone(entry.value) as T;
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    this.entries.set(key, {
+      value: structuredClone(value),
+      expiresAt: Date.now() + ttlMs,
+    });
+  }
+
+  /** Drop entries for one endpoint root, or everything when no root is given. Returns the count removed. */
+  invalidate(root?: string): number {
+    if (!root) {
+      const count = this.entries.size;
+      this.entries.clear();
+      return count;
+    }
+
+    let count = 0;
+    for (const key of this.entries.keys()) {
+      if (endpointRoot(key) === root) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
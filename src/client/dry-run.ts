@@ -0,0 +1,78 @@
+// Dry runs of mutating tools
+//
+// Every mutating tool runs inside a dry-run scope (see `runDryRunScope`).
+// When the scope is enabled, or the client is configured for dry runs, the
+// first PUT/POST/DELETE made in it is not sent: the client throws a
+// DryRunWrite carrying the exact request and a diff against the current
+// record, and the tool wrapper turns that into the tool result.
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { diffFields, type FieldChange } from './audit.js';
+
+interface DryRunScope {
+  enabled: boolean;
+  // Latest GET response per API path during this tool call
+  snapshots: Map<string, unknown>;
+}
+
+const dryRunScope = new AsyncLocalStorage<DryRunScope>();
+
+/** Run one tool call in a dry-run scope; nested calls reuse the outer scope. */
+export function runDryRunScope<R>(enabled: boolean, fn: () => Promise<R>): Promise<R> {
+  if (dryRunScope.getStore()) return fn();
+  return dryRunScope.run({ enabled, snapshots: new Map() }, fn);
+}
+
+/**
+ * True when writes in the current tool call must not be sent. `configured` is
+ * the server-wide setting; it only applies inside a mutating tool's scope, so
+ * reads made with POST elsewhere still go through.
+ */
+export function isDryRun(configured: boolean): boolean {
+  const scope = dryRunScope.getStore();
+  return scope ? scope.enabled || configured : false;
+}
+
+/** Remember a GET response so a later dry-run write can diff against it. */
+export function rememberDryRunSnapshot(path: string, value: unknown): void {
+  const scope = dryRunScope.getStore();
+  if (!scope) return;
+  const [pathname] = path.split('?');
+  scope.snapshots.set(pathname, structuredClone(value));
+}
+
+/** GET snapshots taken so far in the current tool call. */
+export function dryRunSnapshots(): ReadonlyMap<string, unknown> {
+  return dryRunScope.getStore()?.snapshots ?? new Map();
+}
+
+export interface DryRunResult {
+  dryRun: true;
+  method: string;
+  path: string;
+  // Exactly what would have been sent
+  body?: unknown;
+  // The record as it is now; absent for creates
+  current?: unknown;
+  // Fields the write would change, relative to `current`
+  diff: FieldChange[];
+}
+
+/** Thrown in place of a write during a dry run; unwound by the tool wrapper. */
+export class DryRunWrite extends Error {
+  readonly result: DryRunResult;
+
+  constructor(method: string, path: string, body: unknown, current: unknown) {
+    super(`Dry run: ${method} ${path} was not sent`);
+    this.name = 'DryRunWrite';
+    this.result = {
+      dryRun: true,
+      method,
+      path,
+      ...(body !== undefined ? { body } : {}),
+      ...(current !== undefined ? { current } : {}),
+      diff: method === 'DELETE' ? [] : diffFields(current ?? {}, body ?? {}),
+    };
+  }
+}
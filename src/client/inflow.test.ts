@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { RateLimiter, InflowClient, InflowApiError } from './inflow.js';
+import { RateLimiter, InflowClient, InflowApiError, parseRetryAfter } from './inflow.js';
 import type { InflowConfig } from '../config.js';
+import { RequestCancelledError, runToolCallScope, type ProgressUpdate } from './tool-call.js';
 
 describe('RateLimiter', () => {
   it('should allow immediate request when tokens available', async () => {
@@ -48,6 +49,25 @@ describe('InflowApiError', () => {
   });
 });
 
+describe('parseRetryAfter', () => {
+  it('should parse delay-seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('should parse an HTTP-date relative to now', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:03 GMT', now)).toBe(3000);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
 describe('InflowClient', () => {
   const mockConfig: InflowConfig = {
     apiKey: 'test-api-key',
@@ -55,10 +75,13 @@ describe('InflowClient', () => {
     baseUrl: 'https://api.inflowinventory.com/v1',
     apiVersion: '2023-01-01',
     rateLimitPerMinute: 60,
+    maxConcurrentRequests: 4,
     maxRetries: 2,
     retryDelayMs: 100,
     requestTimeoutMs: 5000,
     debug: false,
+    cacheTtlMs: 60000,
+    cacheTtlOverrides: {},
   };
 
   let client: InflowClient;
@@ -226,6 +249,177 @@ describe('InflowClient', () => {
     });
   });
 
+  const listResponse = (data: unknown[], listCount?: number) => {
+    const headers = new Headers();
+    if (listCount !== undefined) headers.set('X-listCount', String(listCount));
+    return {
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(data),
+      headers,
+    };
+  };
+
+  describe('paginate', () => {
+    it('should walk pages until a short page is returned', async () => {
+      fetchMock
+        .mockResolvedValueOnce(listResponse([{ id: '1' }, { id: '2' }], 3))
+        .mockResolvedValueOnce(listResponse([{ id: '3' }]));
+
+      const pages = [];
+      for await (const page of client.paginate('/products', { pageSize: 2 })) {
+        pages.push(page);
+      }
+
+      expect(pages).toHaveLength(2);
+      expect(pages[0]).toMatchObject({ skip: 0, totalCount: 3, hasMore: true });
+      expect(pages[1]).toMatchObject({ skip: 2, totalCount: 3, hasMore: false });
+
+      const [firstUrl] = fetchMock.mock.calls[0];
+      const [secondUrl] = fetchMock.mock.calls[1];
+      expect(firstUrl).toContain('skip=0');
+      expect(firstUrl).toContain('count=2');
+      expect(firstUrl).toContain('includeCount=true');
+      expect(secondUrl).toContain('skip=2');
+      expect(secondUrl).not.toContain('includeCount');
+    });
+
+    it('should stop without an extra request when X-listCount is reached', async () => {
+      fetchMock.mockResolvedValueOnce(listResponse([{ id: '1' }, { id: '2' }], 2));
+
+      const pages = [];
+      for await (const page of client.paginate('/products', { pageSize: 2 })) {
+        pages.push(page);
+      }
+
+      expect(pages).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+
+    it('should start from pagination.skip', async () => {
+      fetchMock.mockResolvedValueOnce(listResponse([]));
+
+      for await (const page of client.paginate('/products', { pagination: { skip: 40 } })) {
+        expect(page.skip).toBe(40);
+      }
+
+      const [url] = fetchMock.mock.calls[0];
+      expect(url).toContain('skip=40');
+      expect(url).toContain('count=100');
+    });
+  });
+
+  describe('getAll', () => {
+    it('should collect every page', async () => {
+      fetchMock
+        .mockResolvedValueOnce(listResponse([{ id: '1' }, { id: '2' }], 3))
+        .mockResolvedValueOnce(listResponse([{ id: '3' }]));
+
+      const result = await client.getAll('/products', { pageSize: 2 });
+
+      expect(result).toEqual({
+        data: [{ id: '1' }, { id: '2' }, { id: '3' }],
+        totalCount: 3,
+        truncated: false,
+      });
+    });
+
+    it('should cap at maxRecords and flag truncation', async () => {
+      fetchMock
+        .mockResolvedValueOnce(listResponse([{ id: '1' }, { id: '2' }], 5))
+        .mockResolvedValueOnce(listResponse([{ id: '3' }, { id: '4' }]));
+
+      const result = await client.getAll('/products', { pageSize: 2, maxRecords: 3 });
+
+      expect(result.data).toEqual([{ id: '1' }, { id: '2' }, { id: '3' }]);
+      expect(result.totalCount).toBe(5);
+      expect(result.truncated).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not flag truncation when the cap matches the total exactly', async () => {
+      fetchMock.mockResolvedValueOnce(listResponse([{ id: '1' }, { id: '2' }], 2));
+
+      const result = await client.getAll('/products', { pageSize: 2, maxRecords: 2 });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.truncated).toBe(false);
+    });
+  });
+
+  describe('progress and cancellation', () => {
+    it('should report each page as progress of the tool call', async () => {
+      fetchMock
+        .mockResolvedValueOnce(listResponse([{ id: '1' }, { id: '2' }], 5))
+        .mockResolvedValueOnce(listResponse([{ id: '3' }, { id: '4' }]));
+
+      const updates: ProgressUpdate[] = [];
+      await runToolCallScope({ onProgress: (update) => updates.push(update) }, () =>
+        client.getAll('/products', { pageSize: 2, maxRecords: 3 })
+      );
+
+      expect(updates).toEqual([
+        { progress: 2, total: 3, message: 'Fetched 1 page, 2 records (/products)' },
+        { progress: 4, total: 4, message: 'Fetched 2 pages, 4 records (/products)' },
+      ]);
+    });
+
+    it('should abort an in-flight fetch when the tool call is cancelled', async () => {
+      const controller = new AbortController();
+      fetchMock.mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+            controller.abort();
+          })
+      );
+
+      await expect(
+        runToolCallScope({ signal: controller.signal }, () => client.get('/products/123'))
+      ).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+
+    it('should give up its rate-limit slot when cancelled while queued', async () => {
+      const limited = new InflowClient({ ...mockConfig, maxConcurrentRequests: 1 });
+      let finishFirst!: () => void;
+      fetchMock.mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finishFirst = () => resolve({ ok: true, status: 200, json: () => Promise.resolve({ id: '1' }) });
+          })
+      );
+      const first = limited.get('/products/1');
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledOnce());
+
+      const controller = new AbortController();
+      const queued = runToolCallScope({ signal: controller.signal }, () => limited.get('/products/2'));
+      await vi.waitFor(() => expect(limited.getStats().rateLimiter.queued.normal).toBe(1));
+      controller.abort();
+
+      await expect(queued).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(limited.getStats().rateLimiter.queued.normal).toBe(0);
+      finishFirst();
+      await first;
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+
+    it('should stop retrying and paging once cancelled', async () => {
+      const controller = new AbortController();
+      fetchMock.mockImplementationOnce(async () => {
+        controller.abort();
+        return { ok: false, status: 503, statusText: 'Service Unavailable', json: () => Promise.resolve({}) };
+      });
+
+      await expect(
+        runToolCallScope({ signal: controller.signal }, async () => {
+          for await (const page of client.paginate('/sales-orders')) void page;
+        })
+      ).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+  });
+
   describe('put', () => {
     it('should make PUT request with body', async () => {
       const requestBody = { name: 'Updated Product' };
@@ -369,6 +563,166 @@ describe('InflowClient', () => {
     });
   });
 
+  describe('retry pipeline', () => {
+    it('should retry getList on 429', async () => {
+      fetchMock
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: 'Too Many Requests',
+          json: () => Promise.resolve({ message: 'Rate limited' }),
+          headers: new Headers(),
+        })
+        .mockResolvedValueOnce(listResponse([{ id: '1' }]));
+
+      const result = await client.getList('/products');
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(result.data).toEqual([{ id: '1' }]);
+    });
+
+    it('should not retry getList on 4xx errors', async () => {
+      fetchMock.mockResolvedValue({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: () => Promise.resolve({ message: 'Invalid filter' }),
+        headers: new Headers(),
+      });
+
+      await expect(client.getList('/products')).rejects.toThrow(InflowApiError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honor Retry-After before retrying', async () => {
+      vi.useFakeTimers();
+      try {
+        const headers = new Headers();
+        headers.set('Retry-After', '2');
+        fetchMock
+          .mockResolvedValueOnce({
+            ok: false,
+            status: 429,
+            statusText: 'Too Many Requests',
+            json: () => Promise.resolve({ message: 'Rate limited' }),
+            headers,
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            status: 200,
+            json: () => Promise.resolve({ id: '123' }),
+          });
+
+        const pending = client.get('/products/123');
+
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(pending).resolves.toEqual({ id: '123' });
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should expose Retry-After on the thrown error', async () => {
+      const headers = new Headers();
+      headers.set('Retry-After', '1');
+      fetchMock.mockResolvedValue({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: () => Promise.resolve({ message: 'Invalid request' }),
+        headers,
+      });
+
+      const error = await client.get('/products').catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(InflowApiError);
+      expect((error as InflowApiError).retryAfterMs).toBe(1000);
+    });
+  });
+
+  describe('reference data cache', () => {
+    it('should serve repeated reference lookups from memory', async () => {
+      fetchMock.mockResolvedValueOnce(listResponse([{ categoryId: 'cat-1', name: 'Widgets' }]));
+
+      const first = await client.getList('/categories', { pagination: { count: 100 } });
+      const second = await client.getList('/categories', { pagination: { count: 100 } });
+
+      expect(fetchMock).toHaveBeenCalledOnce();
+      expect(second).toEqual(first);
+    });
+
+    it('should not cache transactional endpoints', async () => {
+      fetchMock
+        .mockResolvedValueOnce(listResponse([{ id: '1' }]))
+        .mockResolvedValueOnce(listResponse([{ id: '2' }]));
+
+      await client.getList('/sales-orders');
+      const second = await client.getList('/sales-orders');
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(second.data).toEqual([{ id: '2' }]);
+    });
+
+    it('should invalidate an endpoint after a write to it', async () => {
+      fetchMock
+        .mockResolvedValueOnce(listResponse([{ id: 'ts-1', name: 'Old' }]))
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ id: 'ts-1', name: 'New' }),
+        })
+        .mockResolvedValueOnce(listResponse([{ id: 'ts-1', name: 'New' }]));
+
+      await client.getList('/taxing-schemes');
+      await client.put('/taxing-schemes', { id: 'ts-1', name: 'New' });
+      const after = await client.getList('/taxing-schemes');
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(after.data).toEqual([{ id: 'ts-1', name: 'New' }]);
+    });
+
+    it('should honor per-endpoint TTL overrides', async () => {
+      client = new InflowClient({ ...mockConfig, cacheTtlOverrides: { '/currencies': 0 } });
+      fetchMock
+        .mockResolvedValueOnce(listResponse([{ code: 'USD' }]))
+        .mockResolvedValueOnce(listResponse([{ code: 'USD' }]));
+
+      await client.getList('/currencies');
+      await client.getList('/currencies');
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return copies so callers cannot mutate cached data', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ id: 'loc-1', name: 'Main' }),
+      });
+
+      const first = await client.get<{ name: string }>('/locations/loc-1');
+      first.name = 'Mutated';
+      const second = await client.get<{ name: string }>('/locations/loc-1');
+
+      expect(second.name).toBe('Main');
+    });
+
+    it('should clear everything through invalidateCache', async () => {
+      fetchMock
+        .mockResolvedValueOnce(listResponse([{ id: 'loc-1' }]))
+        .mockResolvedValueOnce(listResponse([{ id: 'loc-1' }]));
+
+      await client.getList('/locations');
+      expect(client.invalidateCache()).toBe(1);
+      await client.getList('/locations');
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('filter serialization', () => {
     it('should serialize array filters as JSON', async () => {
       fetchMock.mockResolvedValueOnce({
@@ -402,4 +756,52 @@ describe('InflowClient', () => {
       expect(url).not.toContain('vendor');
     });
   });
+
+  describe('stats', () => {
+    it('should count attempts, retries and errors per endpoint template', async () => {
+      fetchMock
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 500,
+          statusText: 'Internal Server Error',
+          json: () => Promise.resolve({ message: 'Server error' }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ id: '123' }),
+        });
+
+      await client.get('/products/123');
+
+      const stats = client.getStats();
+      expect(stats.endpoints['GET /products/{id}']).toMatchObject({
+        requests: 2,
+        retries: 1,
+        errors: { '500': 1 },
+        latency: { count: 2 },
+      });
+      expect(stats.totals).toEqual({ requests: 2, retries: 1, errors: 1 });
+      expect(stats.rateLimiter).toMatchObject({ capacity: 60, acquired: 2, waited: 0 });
+    });
+
+    it('should count cache hits and misses, and reset', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve([]),
+        headers: new Headers(),
+      });
+
+      await client.getList('/categories');
+      await client.getList('/categories');
+      expect(client.getStats().cache).toEqual({ hits: 1, misses: 1, entries: 1 });
+
+      client.resetStats();
+      const stats = client.getStats();
+      expect(stats.cache).toMatchObject({ hits: 0, misses: 0 });
+      expect(stats.endpoints).toEqual({});
+      expect(stats.rateLimiter.acquired).toBe(0);
+    });
+  });
 });
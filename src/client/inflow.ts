@@ -1,50 +1,100 @@
 // inFlow API HTTP Client with rate limiting
 
 import type { InflowConfig } from '../config.js';
-import type { PaginationParams, ApiError } from '../types/inflow.js';
+import { ResponseCache, CACHEABLE_ENDPOINTS, endpointRoot } from './cache.js';
+import { createRecordingFetch, createReplayFetch, type FetchLike } from './recorder.js';
+import { ClientMetrics, type ClientStats } from './metrics.js';
+import { AuditLog, findEntity } from './audit.js';
+import { DryRunWrite, dryRunSnapshots, isDryRun, rememberDryRunSnapshot } from './dry-run.js';
+import { RateLimiter, observeRateLimitHeaders, type RequestPriority } from './rate-limiter.js';
+import { RequestCancelledError, reportPageFetched, throwIfCancelled, toolCallSignal } from './tool-call.js';
+import type {
+  PaginationParams,
+  ApiError,
+  ListPage,
+  FetchAllResponse,
+} from '../types/inflow.js';
+
+export { RateLimiter, type RequestPriority } from './rate-limiter.js';
+
+/** inFlow caps `count` at 100 records per list request. */
+export const MAX_PAGE_SIZE = 100;
+
+/** Default and hard ceiling for records collected by `getAll`. */
+export const DEFAULT_MAX_RECORDS = 1000;
+export const MAX_RECORDS_LIMIT = 10000;
+
+/** Upper bound on how long a server-supplied Retry-After can stall a request. */
+const MAX_RETRY_AFTER_MS = 60000;
+
+type HttpMethod = 'GET' | 'PUT' | 'POST' | 'DELETE';
+
+export interface ListRequestOptions {
+  params?: Record<string, string | number | boolean | undefined>;
+  filters?: Record<string, unknown>;
+  pagination?: PaginationParams;
+  include?: string[];
+  sort?: string;
+  sortDesc?: boolean;
+  includeCount?: boolean;
+  // Scheduling priority; defaults to `high` for writes and `normal` for reads
+  priority?: RequestPriority;
+}
 
-export class RateLimiter {
-  private tokens: number;
-  private lastRefill: number;
-  private readonly maxTokens: number;
-  private readonly refillRate: number; // tokens per ms
+export interface RequestOptions extends ListRequestOptions {
+  body?: unknown;
+  headers?: Record<string, string>;
+}
 
-  constructor(requestsPerMinute: number) {
-    this.maxTokens = requestsPerMinute;
-    this.tokens = requestsPerMinute;
-    this.lastRefill = Date.now();
-    this.refillRate = requestsPerMinute / 60000; // per millisecond
-  }
+/** A write that succeeded; see InflowClient.onWrite. */
+export interface WriteEvent {
+  method: Exclude<HttpMethod, 'GET'>;
+  path: string;
+  body?: unknown;
+  response?: unknown;
+}
 
-  async acquire(): Promise<void> {
-    this.refill();
+export type WriteListener = (event: WriteEvent) => void;
 
-    if (this.tokens < 1) {
-      const waitTime = Math.ceil((1 - this.tokens) / this.refillRate);
-      await this.sleep(waitTime);
-      this.refill();
-    }
+export interface PaginateOptions extends Omit<ListRequestOptions, 'includeCount'> {
+  // Records per request; clamped to MAX_PAGE_SIZE. `pagination.skip` sets the
+  // starting offset, `pagination.count` is ignored.
+  pageSize?: number;
+  // Records the caller means to read when it stops early; caps the total
+  // reported in progress notifications
+  expectedRecords?: number;
+}
 
-    this.tokens -= 1;
-  }
+export interface GetAllOptions extends PaginateOptions {
+  maxRecords?: number;
+}
 
-  private refill(): void {
-    const now = Date.now();
-    const elapsed = now - this.lastRefill;
-    this.tokens = Math.min(this.maxTokens, this.tokens + elapsed * this.refillRate);
-    this.lastRefill = now;
+/**
+ * Parse a Retry-After header (delay-seconds or HTTP-date) into milliseconds.
+ * Returns undefined when the header is absent or unparseable.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
 }
 
 export class InflowApiError extends Error {
   constructor(
     message: string,
     public statusCode: number,
-    public apiError?: ApiError
+    public apiError?: ApiError,
+    public retryAfterMs?: number
   ) {
     super(message);
     this.name = 'InflowApiError';
@@ -54,10 +104,104 @@ export class InflowApiError extends Error {
 export class InflowClient {
   private readonly config: InflowConfig;
   private readonly rateLimiter: RateLimiter;
+  private readonly cache = new ResponseCache();
+  private readonly metrics = new ClientMetrics();
+  private readonly transport: FetchLike;
+  private readonly writeListeners = new Set<WriteListener>();
+  // Set when INFLOW_AUDIT_LOG is configured
+  readonly auditLog?: AuditLog;
 
   constructor(config: InflowConfig) {
     this.config = config;
-    this.rateLimiter = new RateLimiter(config.rateLimitPerMinute);
+    this.auditLog = config.auditLogFile ? new AuditLog(config.auditLogFile, config.auditLogMaxBytes) : undefined;
+    this.rateLimiter = new RateLimiter(config.rateLimitPerMinute, {
+      maxConcurrent: config.maxConcurrentRequests,
+      sharedStateFile: config.rateLimitStateFile,
+      sharedKey: config.companyId,
+    });
+    this.transport = this.createTransport();
+  }
+
+  get companyId(): string {
+    return this.config.companyId;
+  }
+
+  /** Plain fetch, or the record/replay wrapper when INFLOW_RECORD / INFLOW_REPLAY is set. */
+  private createTransport(): FetchLike {
+    const transportOptions = {
+      urlPrefix: `${this.config.baseUrl}/${this.config.companyId}`,
+      apiKey: this.config.apiKey,
+    };
+
+    if (this.config.replayDir) {
+      return createReplayFetch(this.config.replayDir, transportOptions);
+    }
+    if (this.config.recordDir) {
+      return createRecordingFetch(this.config.recordDir, transportOptions);
+    }
+    // Resolve the global at call time so tests can stub fetch after construction
+    return (url, init) => fetch(url, init);
+  }
+
+  /** TTL for a cacheable GET, or 0 when the path should always hit the API. */
+  private getCacheTtl(path: string): number {
+    const root = endpointRoot(path);
+    if (!(CACHEABLE_ENDPOINTS as readonly string[]).includes(root)) {
+      return 0;
+    }
+    return this.config.cacheTtlOverrides[root] ?? this.config.cacheTtlMs;
+  }
+
+  private getCacheKey(kind: 'get' | 'list', path: string, options?: RequestOptions): string {
+    return `${path}?${kind}:${JSON.stringify(options ?? {})}`;
+  }
+
+  /**
+   * Serve a GET from the reference-data cache when possible, otherwise run
+   * `load` and remember the result for the endpoint's TTL.
+   */
+  private async cached<R>(
+    kind: 'get' | 'list',
+    path: string,
+    options: RequestOptions | undefined,
+    load: () => Promise<R>
+  ): Promise<R> {
+    const ttl = this.getCacheTtl(path);
+    if (ttl <= 0) {
+      return load();
+    }
+
+    const key = this.getCacheKey(kind, path, options);
+    const hit = this.cache.get<R>(key);
+    this.metrics.recordCache(hit !== undefined);
+    if (hit !== undefined) {
+      this.log(`Cache hit ${path}`);
+      return hit;
+    }
+
+    const result = await load();
+    this.cache.set(key, result, ttl);
+    return result;
+  }
+
+  /**
+   * Drop cached reference data for one endpoint root (e.g. `/currencies`), or
+   * everything when no endpoint is given. Returns the number of entries removed.
+   */
+  invalidateCache(endpoint?: string): number {
+    const removed = this.cache.invalidate(endpoint ? endpointRoot(endpoint) : undefined);
+    this.log(`Cache invalidated ${endpoint ?? '(all)'}`, { removed });
+    return removed;
+  }
+
+  /** Request, retry, rate-limit and cache counters since startup (or the last reset). */
+  getStats(): ClientStats {
+    return this.metrics.snapshot(this.rateLimiter.stats(), this.cache.size);
+  }
+
+  resetStats(): void {
+    this.metrics.reset();
+    this.rateLimiter.resetStats();
   }
 
   private buildUrl(
@@ -128,41 +272,82 @@ export class InflowClient {
     return false;
   }
 
+  /**
+   * Delay before the next attempt. A server-supplied Retry-After wins;
+   * otherwise exponential backoff (1s, 2s, 4s, ...) plus up to 25% jitter so
+   * concurrent callers don't retry in lockstep.
+   */
+  private getRetryDelay(error: unknown, attempt: number): number {
+    if (error instanceof InflowApiError && error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, MAX_RETRY_AFTER_MS);
+    }
+    const backoff = this.config.retryDelayMs * Math.pow(2, attempt);
+    return Math.round(backoff + backoff * 0.25 * Math.random());
+  }
+
+  /** Wait between retries; cut short when the tool call is cancelled. */
   private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    const signal = toolCallSignal();
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestCancelledError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new RequestCancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
-  async request<T>(
-    method: 'GET' | 'PUT' | 'POST' | 'DELETE',
+  /**
+   * Run one logical request through the retry pipeline. Every attempt goes
+   * through `send`, so rate limiting, timeouts and error mapping are shared by
+   * single-record and list calls alike.
+   */
+  private async withRetry<R>(
+    method: HttpMethod,
     path: string,
-    options?: {
-      params?: Record<string, string | number | boolean | undefined>;
-      filters?: Record<string, unknown>;
-      pagination?: PaginationParams;
-      include?: string[];
-      body?: unknown;
-      headers?: Record<string, string>;
-      sort?: string;
-      sortDesc?: boolean;
-    }
-  ): Promise<T> {
+    attemptFn: () => Promise<R>
+  ): Promise<R> {
     const maxRetries = this.config.maxRetries;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        return await this.executeRequest<T>(method, path, options);
+        throwIfCancelled();
+        const result = await attemptFn();
+        if (attempt > 0) {
+          this.log(`${method} ${path} succeeded after ${attempt} ${attempt === 1 ? 'retry' : 'retries'}`);
+        }
+        return result;
       } catch (error) {
+        // Cancelling also aborts reading a response body, which surfaces as an AbortError
+        if (toolCallSignal()?.aborted) {
+          throw error instanceof RequestCancelledError ? error : new RequestCancelledError();
+        }
         const isLastAttempt = attempt === maxRetries;
 
         if (isLastAttempt || !this.isRetryableError(error)) {
+          if (attempt > 0) {
+            this.log(`${method} ${path} failed after ${attempt} ${attempt === 1 ? 'retry' : 'retries'}`, {
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
           throw error;
         }
 
-        // Exponential backoff: 1s, 2s, 4s, ...
-        const delayMs = this.config.retryDelayMs * Math.pow(2, attempt);
+        const delayMs = this.getRetryDelay(error, attempt);
+        this.metrics.recordRetry(method, path);
         this.log(`Retrying ${method} ${path} (attempt ${attempt + 2}/${maxRetries + 1})`, {
           error: error instanceof Error ? error.message : String(error),
+          retry: attempt + 1,
           delayMs,
+          retryAfter: error instanceof InflowApiError && error.retryAfterMs !== undefined,
         });
         await this.delay(delayMs);
       }
@@ -172,21 +357,152 @@ export class InflowClient {
     throw new Error('Unexpected retry loop exit');
   }
 
-  private async executeRequest<T>(
-    method: 'GET' | 'PUT' | 'POST' | 'DELETE',
+  async request<T>(
+    method: HttpMethod,
     path: string,
-    options?: {
-      params?: Record<string, string | number | boolean | undefined>;
-      filters?: Record<string, unknown>;
-      pagination?: PaginationParams;
-      include?: string[];
-      body?: unknown;
-      headers?: Record<string, string>;
-      sort?: string;
-      sortDesc?: boolean;
+    options?: RequestOptions
+  ): Promise<T> {
+    if (method === 'GET') {
+      const result = await this.cached('get', path, options, () => this.fetchJson<T>(method, path, options));
+      this.auditLog?.rememberSnapshot(path, result);
+      rememberDryRunSnapshot(path, result);
+      return result;
     }
+
+    if (isDryRun(this.config.dryRun ?? false)) {
+      throw await this.dryRunWrite(method, path, options?.body);
+    }
+
+    // Write-through invalidation: any write to a reference endpoint (e.g.
+    // PUT /taxing-schemes) makes its cached reads stale, even if it failed
+    // part-way through.
+    const startedAt = Date.now();
+    try {
+      const result = await this.fetchJson<T>(method, path, options);
+      this.auditWrite(method, path, options, startedAt, { response: result });
+      this.notifyWrite({ method, path, body: options?.body, response: result });
+      return result;
+    } catch (error) {
+      this.auditWrite(method, path, options, startedAt, {
+        error: {
+          ...(error instanceof InflowApiError ? { status: error.statusCode } : {}),
+          message: error instanceof Error ? error.message : String(error),
+        },
+      });
+      throw error;
+    } finally {
+      this.cache.invalidate(endpointRoot(path));
+    }
+  }
+
+  /**
+   * Build the DryRunWrite for a write that won't be sent, loading the current
+   * record when the tool didn't read it first.
+   */
+  private async dryRunWrite(method: HttpMethod, path: string, body: unknown): Promise<DryRunWrite> {
+    const [pathname] = path.split('?');
+    const { entityId, before } = findEntity(dryRunSnapshots(), pathname, body);
+    let current = before;
+    if (current === undefined && entityId) {
+      const recordPath = pathname.split('/').length > 2 ? pathname : `${pathname}/${entityId}`;
+      try {
+        current = await this.get(recordPath);
+      } catch (error) {
+        // A client-chosen ID for a record that doesn't exist yet: this is a create
+        if (!(error instanceof InflowApiError && error.statusCode === 404)) throw error;
+      }
+    }
+    return new DryRunWrite(method, pathname, body, current);
+  }
+
+  /**
+   * Call `listener` after every successful write made through this client,
+   * from any session. Returns a function that removes the listener.
+   */
+  onWrite(listener: WriteListener): () => void {
+    this.writeListeners.add(listener);
+    return () => {
+      this.writeListeners.delete(listener);
+    };
+  }
+
+  private notifyWrite(event: WriteEvent): void {
+    for (const listener of this.writeListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        // A broken listener shouldn't turn a successful write into a failed tool call
+        console.error('Write listener failed:', error);
+      }
+    }
+  }
+
+  private auditWrite(
+    method: HttpMethod,
+    path: string,
+    options: RequestOptions | undefined,
+    startedAt: number,
+    outcome: { response?: unknown; error?: { status?: number; message: string } }
+  ): void {
+    if (!this.auditLog) return;
+    try {
+      this.auditLog.recordWrite({
+        companyId: this.config.companyId,
+        method,
+        path,
+        body: options?.body,
+        ...outcome,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      // A full disk shouldn't turn a successful write into a failed tool call
+      console.error('Failed to write audit log entry:', error);
+    }
+  }
+
+  private async fetchJson<T>(
+    method: HttpMethod,
+    path: string,
+    options?: RequestOptions
   ): Promise<T> {
-    await this.rateLimiter.acquire();
+    return this.withRetry(method, path, async () => {
+      const response = await this.send(method, path, options);
+
+      // Handle 204 No Content
+      if (response.status === 204) {
+        return {} as T;
+      }
+
+      return (await response.json()) as T;
+    });
+  }
+
+  /**
+   * Single HTTP attempt: acquire a rate-limit token and in-flight slot, build
+   * the URL, fetch with a timeout, and throw InflowApiError for non-2xx
+   * responses. The slot is held until the response headers arrive.
+   */
+  private async send(
+    method: HttpMethod,
+    path: string,
+    options?: RequestOptions
+  ): Promise<Response> {
+    const priority = options?.priority ?? (method === 'GET' ? 'normal' : 'high');
+    const release = await this.rateLimiter.acquire(priority, toolCallSignal());
+    try {
+      // The call may have been cancelled as the slot was granted
+      throwIfCancelled();
+      return await this.sendAttempt(method, path, options);
+    } finally {
+      release();
+    }
+  }
+
+  private async sendAttempt(
+    method: HttpMethod,
+    path: string,
+    options?: RequestOptions
+  ): Promise<Response> {
 
     const allParams: Record<string, string | number | boolean | undefined> = {
       ...options?.params,
@@ -225,6 +541,11 @@ export class InflowClient {
       allParams.sortDesc = options.sortDesc;
     }
 
+    // Add includeCount param
+    if (options?.includeCount) {
+      allParams.includeCount = true;
+    }
+
     const url = this.buildUrl(path, allParams);
     this.log(`${method} ${path}`, { params: allParams });
 
@@ -233,6 +554,10 @@ export class InflowClient {
       () => controller.abort(),
       this.config.requestTimeoutMs
     );
+    // Cancelling the tool call aborts the fetch too
+    const signal = toolCallSignal();
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel, { once: true });
 
     const fetchOptions: RequestInit = {
       method,
@@ -248,11 +573,17 @@ export class InflowClient {
     }
 
     let response: Response;
+    const startedAt = Date.now();
     try {
-      response = await fetch(url, fetchOptions);
+      response = await this.transport(url, fetchOptions);
     } catch (error) {
       clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
+      signal?.removeEventListener('abort', cancel);
+      // Not an API failure, so not counted in the metrics
+      if (signal?.aborted) throw new RequestCancelledError();
+      const timedOut = error instanceof Error && error.name === 'AbortError';
+      this.metrics.recordAttempt(method, path, timedOut ? 408 : undefined, Date.now() - startedAt);
+      if (timedOut) {
         throw new InflowApiError(
           `Request timed out after ${this.config.requestTimeoutMs}ms`,
           408
@@ -262,8 +593,13 @@ export class InflowClient {
     }
 
     clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', cancel);
+    this.metrics.recordAttempt(method, path, response.status, Date.now() - startedAt);
     this.log(`Response ${response.status}`, { path });
 
+    const retryAfterMs = parseRetryAfter(response.headers?.get('Retry-After'));
+    this.rateLimiter.observe(observeRateLimitHeaders(response.status, response.headers, retryAfterMs));
+
     if (!response.ok) {
       let apiError: ApiError | undefined;
       try {
@@ -275,16 +611,12 @@ export class InflowClient {
       throw new InflowApiError(
         apiError?.message || `HTTP ${response.status}: ${response.statusText}`,
         response.status,
-        apiError
+        apiError,
+        retryAfterMs
       );
     }
 
-    // Handle 204 No Content
-    if (response.status === 204) {
-      return {} as T;
-    }
-
-    return (await response.json()) as T;
+    return response;
   }
 
   // Convenience methods
@@ -297,6 +629,7 @@ export class InflowClient {
       include?: string[];
       sort?: string;
       sortDesc?: boolean;
+      priority?: RequestPriority;
     }
   ): Promise<T> {
     return this.request<T>('GET', path, options);
@@ -304,102 +637,95 @@ export class InflowClient {
 
   async getList<T>(
     path: string,
-    options?: {
-      params?: Record<string, string | number | boolean | undefined>;
-      filters?: Record<string, unknown>;
-      pagination?: PaginationParams;
-      include?: string[];
-      sort?: string;
-      sortDesc?: boolean;
-      includeCount?: boolean;
-    }
+    options?: ListRequestOptions
   ): Promise<{ data: T[]; totalCount?: number }> {
-    await this.rateLimiter.acquire();
+    return this.cached('list', path, options, () =>
+      this.withRetry('GET', path, async () => {
+        const response = await this.send('GET', path, options);
 
-    const allParams: Record<string, string | number | boolean | undefined> = {
-      ...options?.params,
-      ...this.buildFilterParams(options?.filters),
-    };
+        const data = (await response.json()) as T[];
+        const totalCount = options?.includeCount
+          ? parseInt(response.headers.get('X-listCount') ?? '0', 10)
+          : undefined;
 
-    // Add pagination params
-    if (options?.pagination) {
-      if (options.pagination.skip !== undefined) {
-        allParams.skip = options.pagination.skip;
-      }
-      if (options.pagination.count !== undefined) {
-        allParams.count = options.pagination.count;
+        return { data, totalCount };
+      })
+    );
+  }
+
+  /**
+   * Iterate a list endpoint page by page using skip/count.
+   *
+   * The first request asks for `includeCount` so callers get the X-listCount
+   * total; iteration stops on a short page or once the total is reached.
+   * Breaking out of a `for await` loop stops further requests. Each page is
+   * reported as progress of the current tool call, and a cancelled call stops
+   * before the next page.
+   */
+  async *paginate<T>(
+    path: string,
+    options: PaginateOptions = {}
+  ): AsyncGenerator<ListPage<T>, void, undefined> {
+    const { pageSize: requestedPageSize, pagination, expectedRecords, ...listOptions } = options;
+    const pageSize = Math.max(1, Math.min(requestedPageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE));
+    const start = pagination?.skip ?? 0;
+    let skip = start;
+    let totalCount: number | undefined;
+
+    while (true) {
+      // Pages can come from the cache, so don't rely on send() to notice
+      throwIfCancelled();
+      const page = await this.getList<T>(path, {
+        ...listOptions,
+        pagination: { skip, count: pageSize },
+        includeCount: totalCount === undefined,
+      });
+      if (page.totalCount !== undefined) {
+        totalCount = page.totalCount;
       }
-    }
 
-    // Add include param
-    if (options?.include && options.include.length > 0) {
-      allParams.include = options.include.join(',');
-    }
+      const nextSkip = skip + page.data.length;
+      // A missing X-listCount header parses as 0, so only trust a positive total
+      const hasMore =
+        page.data.length === pageSize && !(totalCount && nextSkip >= totalCount);
 
-    // Add sorting params
-    if (options?.sort) {
-      allParams.sort = options.sort;
-    }
-    if (options?.sortDesc !== undefined) {
-      allParams.sortDesc = options.sortDesc;
-    }
+      const expected = Math.min(totalCount ? totalCount - start : Infinity, expectedRecords ?? Infinity);
+      const remaining = !hasMore ? 0 : Number.isFinite(expected) ? expected - (nextSkip - start) : undefined;
+      reportPageFetched(path, page.data.length, remaining);
 
-    // Add includeCount param
-    if (options?.includeCount) {
-      allParams.includeCount = true;
-    }
+      yield { data: page.data, totalCount, skip, hasMore };
 
-    const url = this.buildUrl(path, allParams);
-    this.log(`GET ${path} (list)`, { params: allParams });
+      if (!hasMore) return;
+      skip = nextSkip;
+    }
+  }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      this.config.requestTimeoutMs
+  /**
+   * Collect every page of a list endpoint, stopping at `maxRecords`
+   * (default DEFAULT_MAX_RECORDS, never above MAX_RECORDS_LIMIT).
+   * `truncated` is set when records beyond the cap were left unfetched.
+   */
+  async getAll<T>(path: string, options: GetAllOptions = {}): Promise<FetchAllResponse<T>> {
+    const { maxRecords: requestedMax, ...paginateOptions } = options;
+    const maxRecords = Math.max(
+      1,
+      Math.min(requestedMax ?? DEFAULT_MAX_RECORDS, MAX_RECORDS_LIMIT)
     );
 
-    let response: Response;
-    try {
-      response = await fetch(url, {
-        method: 'GET',
-        headers: this.getHeaders(),
-        signal: controller.signal,
-      });
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new InflowApiError(
-          `Request timed out after ${this.config.requestTimeoutMs}ms`,
-          408
-        );
-      }
-      throw error;
-    }
+    const data: T[] = [];
+    let totalCount: number | undefined;
+    let truncated = false;
 
-    clearTimeout(timeoutId);
-    this.log(`Response ${response.status}`, { path });
-
-    if (!response.ok) {
-      let apiError: ApiError | undefined;
-      try {
-        apiError = (await response.json()) as ApiError;
-      } catch {
-        // Response body is not JSON
+    for await (const page of this.paginate<T>(path, { expectedRecords: maxRecords, ...paginateOptions })) {
+      totalCount = page.totalCount;
+      data.push(...page.data);
+      if (data.length >= maxRecords) {
+        truncated = data.length > maxRecords || page.hasMore;
+        break;
       }
-
-      throw new InflowApiError(
-        apiError?.message || `HTTP ${response.status}: ${response.statusText}`,
-        response.status,
-        apiError
-      );
     }
 
-    const data = (await response.json()) as T[];
-    const totalCount = options?.includeCount
-      ? parseInt(response.headers.get('X-listCount') ?? '0', 10)
-      : undefined;
-
-    return { data, totalCount };
+    return { data: data.slice(0, maxRecords), totalCount, truncated };
   }
 
   async put<T>(
@@ -424,6 +750,21 @@ export class InflowClient {
     return this.request<T>('POST', path, { ...options, body });
   }
 
+  /**
+   * A POST that only reads, such as /products/summary. Sent even in dry-run
+   * mode, and never audited, cache-invalidating or reported to onWrite.
+   */
+  async query<T>(
+    path: string,
+    body: unknown,
+    options?: {
+      params?: Record<string, string | number | boolean | undefined>;
+      headers?: Record<string, string>;
+    }
+  ): Promise<T> {
+    return this.fetchJson<T>('POST', path, { ...options, body });
+  }
+
   async delete<T>(
     path: string,
     options?: {
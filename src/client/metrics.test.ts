@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { ClientMetrics, endpointTemplate, formatPrometheus } from './metrics.js';
+
+const rateLimiter = {
+  capacity: 60,
+  availableTokens: 58,
+  acquired: 2,
+  acquiredByPriority: { high: 1, normal: 0, low: 1 },
+  waited: 1,
+  totalWaitMs: 1500,
+  maxWaitMs: 1500,
+  inFlight: 0,
+  maxConcurrent: 4,
+  queued: { high: 0, normal: 0, low: 0 },
+  pauses: 0,
+};
+
+describe('endpointTemplate', () => {
+  it('replaces GUID and numeric segments with {id}', () => {
+    expect(endpointTemplate('/products/00000000-0000-4000-8000-000000000301/summary')).toBe(
+      '/products/{id}/summary'
+    );
+    expect(endpointTemplate('/sales-orders/42?include=lines')).toBe('/sales-orders/{id}');
+    expect(endpointTemplate('/products/summary')).toBe('/products/summary');
+  });
+});
+
+describe('ClientMetrics', () => {
+  it('fills cumulative latency buckets', () => {
+    const metrics = new ClientMetrics();
+    metrics.recordAttempt('GET', '/products', 200, 80);
+    metrics.recordAttempt('GET', '/products', 200, 3000);
+    metrics.recordAttempt('GET', '/products', undefined, 20);
+
+    const { endpoints } = metrics.snapshot(rateLimiter, 0);
+    const stats = endpoints['GET /products'];
+    expect(stats.errors).toEqual({ network: 1 });
+    expect(stats.latency).toMatchObject({ count: 3, sumMs: 3100, maxMs: 3000 });
+    expect(stats.latency.buckets).toMatchObject({ '50': 1, '100': 2, '2500': 2, '5000': 3, '+Inf': 3 });
+  });
+});
+
+describe('formatPrometheus', () => {
+  it('renders counters, histograms and rate limiter gauges per company', () => {
+    const metrics = new ClientMetrics();
+    metrics.recordAttempt('PUT', '/sales-orders', 409, 120);
+    metrics.recordRetry('PUT', '/sales-orders');
+
+    const text = formatPrometheus({ production: metrics.snapshot(rateLimiter, 3) });
+
+    expect(text).toContain('# TYPE inflow_requests_total counter');
+    expect(text).toContain(
+      'inflow_requests_total{company="production",method="PUT",endpoint="/sales-orders"} 1'
+    );
+    expect(text).toContain(
+      'inflow_errors_total{company="production",method="PUT",endpoint="/sales-orders",status="409"} 1'
+    );
+    expect(text).toContain(
+      'inflow_request_duration_seconds_bucket{company="production",method="PUT",endpoint="/sales-orders",le="0.25"} 1'
+    );
+    expect(text).toContain('inflow_rate_limit_wait_seconds_total{company="production"} 1.5');
+    expect(text).toContain('inflow_rate_limit_acquired_total{company="production",priority="low"} 1');
+    expect(text).toContain('inflow_cache_entries{company="production"} 3');
+  });
+});
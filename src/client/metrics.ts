@@ -0,0 +1,231 @@
+// Request metrics for one InflowClient
+//
+// Counts are kept per endpoint template (`GET /sales-orders/{id}`), so the
+// stats stay bounded no matter how many distinct records are touched.
+
+import type { RequestPriority } from './rate-limiter.js';
+
+/** Upper bounds (ms) of the latency histogram buckets; the last bucket is +Inf. */
+export const LATENCY_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10000] as const;
+
+const ID_SEGMENT = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|\d+)$/i;
+
+/** Replace record IDs in an API path with `{id}`, e.g. `/products/<guid>/summary` → `/products/{id}/summary`. */
+export function endpointTemplate(path: string): string {
+  const [pathname] = path.split('?');
+  return pathname
+    .split('/')
+    .map((segment) => (ID_SEGMENT.test(segment) ? '{id}' : segment))
+    .join('/');
+}
+
+export interface LatencyHistogram {
+  // Cumulative counts per bucket upper bound, Prometheus style; `+Inf` equals `count`
+  buckets: Record<string, number>;
+  count: number;
+  sumMs: number;
+  maxMs: number;
+}
+
+export interface EndpointStats {
+  requests: number;
+  retries: number;
+  // Failed attempts keyed by HTTP status ("network" for transport failures)
+  errors: Record<string, number>;
+  latency: LatencyHistogram;
+}
+
+export interface RateLimiterStats {
+  capacity: number;
+  availableTokens: number;
+  acquired: number;
+  acquiredByPriority: Record<RequestPriority, number>;
+  // Acquisitions that had to queue for a token or slot, and how long they waited in total
+  waited: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+  inFlight: number;
+  // null when concurrency is unlimited
+  maxConcurrent: number | null;
+  queued: Record<RequestPriority, number>;
+  // Times the bucket was paused after a 429
+  pauses: number;
+  // Syncs with the shared state file; absent when the bucket is local
+  sharedStateSyncs?: number;
+  pausedUntil?: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+}
+
+export interface ClientStats {
+  since: string;
+  totals: { requests: number; retries: number; errors: number };
+  endpoints: Record<string, EndpointStats>;
+  rateLimiter: RateLimiterStats;
+  cache: CacheStats;
+}
+
+function emptyHistogram(): LatencyHistogram {
+  const buckets: Record<string, number> = {};
+  for (const bound of LATENCY_BUCKETS_MS) buckets[String(bound)] = 0;
+  buckets['+Inf'] = 0;
+  return { buckets, count: 0, sumMs: 0, maxMs: 0 };
+}
+
+export class ClientMetrics {
+  private readonly endpoints = new Map<string, EndpointStats>();
+  private cacheHits = 0;
+  private cacheMisses = 0;
+  private since = new Date();
+
+  private endpoint(method: string, path: string): EndpointStats {
+    const key = `${method} ${endpointTemplate(path)}`;
+    let stats = this.endpoints.get(key);
+    if (!stats) {
+      stats = { requests: 0, retries: 0, errors: {}, latency: emptyHistogram() };
+      this.endpoints.set(key, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Record one HTTP attempt. `status` is the response status, or undefined
+   * when the request never got a response (network failure).
+   */
+  recordAttempt(method: string, path: string, status: number | undefined, durationMs: number): void {
+    const stats = this.endpoint(method, path);
+    stats.requests++;
+
+    if (status === undefined || status >= 400) {
+      const key = status === undefined ? 'network' : String(status);
+      stats.errors[key] = (stats.errors[key] ?? 0) + 1;
+    }
+
+    const { latency } = stats;
+    latency.count++;
+    latency.sumMs += durationMs;
+    latency.maxMs = Math.max(latency.maxMs, durationMs);
+    for (const bound of LATENCY_BUCKETS_MS) {
+      if (durationMs <= bound) latency.buckets[String(bound)]++;
+    }
+    latency.buckets['+Inf']++;
+  }
+
+  recordRetry(method: string, path: string): void {
+    this.endpoint(method, path).retries++;
+  }
+
+  recordCache(hit: boolean): void {
+    if (hit) this.cacheHits++;
+    else this.cacheMisses++;
+  }
+
+  snapshot(rateLimiter: RateLimiterStats, cacheEntries: number): ClientStats {
+    const endpoints: Record<string, EndpointStats> = {};
+    const totals = { requests: 0, retries: 0, errors: 0 };
+    for (const [key, stats] of [...this.endpoints].sort(([a], [b]) => a.localeCompare(b))) {
+      endpoints[key] = structuredClone(stats);
+      totals.requests += stats.requests;
+      totals.retries += stats.retries;
+      totals.errors += Object.values(stats.errors).reduce((sum, n) => sum + n, 0);
+    }
+
+    return {
+      since: this.since.toISOString(),
+      totals,
+      endpoints,
+      rateLimiter,
+      cache: { hits: this.cacheHits, misses: this.cacheMisses, entries: cacheEntries },
+    };
+  }
+
+  reset(): void {
+    this.endpoints.clear();
+    this.cacheHits = 0;
+    this.cacheMisses = 0;
+    this.since = new Date();
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function labels(values: Record<string, string>): string {
+  const parts = Object.entries(values).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return `{${parts.join(',')}}`;
+}
+
+/** Render per-company stats in the Prometheus text exposition format. */
+export function formatPrometheus(stats: Record<string, ClientStats>): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  };
+  const companies = Object.entries(stats);
+  const perEndpoint = (fn: (base: Record<string, string>, endpoint: EndpointStats) => void) => {
+    for (const [company, clientStats] of companies) {
+      for (const [key, endpoint] of Object.entries(clientStats.endpoints)) {
+        const [method, path] = key.split(' ');
+        fn({ company, method, endpoint: path }, endpoint);
+      }
+    }
+  };
+
+  metric('inflow_requests_total', 'counter', 'HTTP attempts sent to the inFlow API');
+  perEndpoint((base, endpoint) => lines.push(`inflow_requests_total${labels(base)} ${endpoint.requests}`));
+
+  metric('inflow_retries_total', 'counter', 'Requests retried after a retryable failure');
+  perEndpoint((base, endpoint) => lines.push(`inflow_retries_total${labels(base)} ${endpoint.retries}`));
+
+  metric('inflow_errors_total', 'counter', 'Failed attempts by HTTP status');
+  perEndpoint((base, endpoint) => {
+    for (const [status, count] of Object.entries(endpoint.errors)) {
+      lines.push(`inflow_errors_total${labels({ ...base, status })} ${count}`);
+    }
+  });
+
+  metric('inflow_request_duration_seconds', 'histogram', 'inFlow API request latency');
+  perEndpoint((base, endpoint) => {
+    for (const [bound, count] of Object.entries(endpoint.latency.buckets)) {
+      const le = bound === '+Inf' ? bound : String(Number(bound) / 1000);
+      lines.push(`inflow_request_duration_seconds_bucket${labels({ ...base, le })} ${count}`);
+    }
+    lines.push(`inflow_request_duration_seconds_sum${labels(base)} ${endpoint.latency.sumMs / 1000}`);
+    lines.push(`inflow_request_duration_seconds_count${labels(base)} ${endpoint.latency.count}`);
+  });
+
+  const perCompany = (name: string, type: string, help: string, value: (s: ClientStats) => number) => {
+    metric(name, type, help);
+    for (const [company, clientStats] of companies) {
+      lines.push(`${name}${labels({ company })} ${value(clientStats)}`);
+    }
+  };
+  perCompany('inflow_rate_limit_capacity', 'gauge', 'Rate limiter bucket size (requests per minute)', (s) => s.rateLimiter.capacity);
+  perCompany('inflow_rate_limit_tokens', 'gauge', 'Rate limiter tokens currently available', (s) => s.rateLimiter.availableTokens);
+  metric('inflow_rate_limit_acquired_total', 'counter', 'Rate limiter tokens handed out by request priority');
+  for (const [company, clientStats] of companies) {
+    for (const [priority, count] of Object.entries(clientStats.rateLimiter.acquiredByPriority)) {
+      lines.push(`inflow_rate_limit_acquired_total${labels({ company, priority })} ${count}`);
+    }
+  }
+  metric('inflow_rate_limit_queued', 'gauge', 'Requests waiting for a rate limiter token or slot by priority');
+  for (const [company, clientStats] of companies) {
+    for (const [priority, count] of Object.entries(clientStats.rateLimiter.queued)) {
+      lines.push(`inflow_rate_limit_queued${labels({ company, priority })} ${count}`);
+    }
+  }
+  perCompany('inflow_requests_in_flight', 'gauge', 'Requests currently in flight', (s) => s.rateLimiter.inFlight);
+  perCompany('inflow_rate_limit_pauses_total', 'counter', 'Times the rate limiter paused after a 429', (s) => s.rateLimiter.pauses);
+  perCompany('inflow_rate_limit_waits_total', 'counter', 'Requests that waited for a rate limiter token', (s) => s.rateLimiter.waited);
+  perCompany('inflow_rate_limit_wait_seconds_total', 'counter', 'Time spent waiting for rate limiter tokens', (s) => s.rateLimiter.totalWaitMs / 1000);
+  perCompany('inflow_cache_hits_total', 'counter', 'Reference-data cache hits', (s) => s.cache.hits);
+  perCompany('inflow_cache_misses_total', 'counter', 'Reference-data cache misses', (s) => s.cache.misses);
+  perCompany('inflow_cache_entries', 'gauge', 'Reference-data cache entries', (s) => s.cache.entries);
+
+  return `${lines.join('\n')}\n`;
+}
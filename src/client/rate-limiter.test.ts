@@ -0,0 +1,246 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync, unlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { RateLimiter, observeRateLimitHeaders, type RequestPriority } from './rate-limiter.js';
+import { RequestCancelledError } from './tool-call.js';
+
+/** Take every token so the next acquire has to queue. */
+async function drain(limiter: RateLimiter): Promise<void> {
+  const tokens = limiter.stats().availableTokens;
+  for (let i = 0; i < tokens; i++) {
+    (await limiter.acquire())();
+  }
+}
+
+describe('RateLimiter scheduling', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves queued writes before interactive reads before background scans', async () => {
+    const limiter = new RateLimiter(60); // one token per second
+    await drain(limiter);
+
+    const order: RequestPriority[] = [];
+    for (const priority of ['low', 'normal', 'high'] as const) {
+      limiter.acquire(priority).then((release) => {
+        order.push(priority);
+        release();
+      });
+    }
+    expect(limiter.stats().queued).toEqual({ high: 1, normal: 1, low: 1 });
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(order).toEqual(['high', 'normal', 'low']);
+    expect(limiter.stats()).toMatchObject({
+      acquiredByPriority: { high: 1, low: 1 },
+      waited: 3,
+    });
+  });
+
+  it('drops a queued request whose signal aborts, and serves the next one', async () => {
+    const limiter = new RateLimiter(60);
+    await drain(limiter);
+
+    const controller = new AbortController();
+    const cancelled = limiter.acquire('high', controller.signal);
+    let granted = false;
+    limiter.acquire('normal').then((release) => {
+      granted = true;
+      release();
+    });
+    expect(limiter.stats().queued).toMatchObject({ high: 1, normal: 1 });
+
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(limiter.stats().queued).toMatchObject({ high: 0, normal: 1 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toBe(true);
+    expect(limiter.stats().acquiredByPriority.high).toBe(0);
+    await expect(limiter.acquire('normal', controller.signal)).rejects.toBeInstanceOf(RequestCancelledError);
+  });
+
+  it('caps requests in flight', async () => {
+    const limiter = new RateLimiter(60, { maxConcurrent: 2 });
+    const first = await limiter.acquire();
+    await limiter.acquire();
+
+    let granted = false;
+    limiter.acquire().then(() => {
+      granted = true;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toBe(false);
+    expect(limiter.stats()).toMatchObject({ inFlight: 2, maxConcurrent: 2 });
+
+    first();
+    first(); // releasing twice is harmless
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toBe(true);
+    expect(limiter.stats().inFlight).toBe(2);
+  });
+
+  it('adopts the limit and remaining budget reported by the server', async () => {
+    const limiter = new RateLimiter(60);
+    limiter.observe({ status: 200, limit: 30, remaining: 0, resetMs: 5000 });
+    expect(limiter.stats()).toMatchObject({ capacity: 30, availableTokens: 0 });
+
+    let granted = false;
+    limiter.acquire().then(() => {
+      granted = true;
+    });
+    await vi.advanceTimersByTimeAsync(4900);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(granted).toBe(true);
+  });
+
+  it('pauses the whole bucket after a 429', async () => {
+    const limiter = new RateLimiter(60);
+    limiter.observe({ status: 429, retryAfterMs: 2000 });
+    expect(limiter.stats()).toMatchObject({ availableTokens: 0, pauses: 1 });
+    expect(limiter.stats().pausedUntil).toBeDefined();
+
+    let granted = false;
+    limiter.acquire('high').then(() => {
+      granted = true;
+    });
+    await vi.advanceTimersByTimeAsync(1900);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(granted).toBe(true);
+  });
+});
+
+describe('RateLimiter shared state file', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'inflow-rate-limit-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('draws two limiters for the same company from one budget', async () => {
+    const file = join(dir, 'budget.json');
+    const a = new RateLimiter(3, { sharedStateFile: file, sharedKey: 'company-1' });
+    const b = new RateLimiter(3, { sharedStateFile: file, sharedKey: 'company-1' });
+    const other = new RateLimiter(3, { sharedStateFile: file, sharedKey: 'company-2' });
+
+    (await a.acquire())();
+    (await a.acquire())();
+    (await b.acquire())();
+
+    await Promise.all([a.refresh(), b.refresh(), other.refresh()]);
+    expect(a.stats().availableTokens).toBe(0);
+    expect(b.stats().availableTokens).toBe(0);
+    expect(other.stats().availableTokens).toBe(3);
+  });
+
+  it('leases tokens for requests queued together in one sync', async () => {
+    const file = join(dir, 'budget.json');
+    const a = new RateLimiter(10, { sharedStateFile: file, sharedKey: 'company-1' });
+    const b = new RateLimiter(10, { sharedStateFile: file, sharedKey: 'company-1' });
+
+    const releases = await Promise.all([a.acquire(), a.acquire(), a.acquire()]);
+    releases.forEach((release) => release());
+    expect(a.stats().sharedStateSyncs).toBe(1);
+    await a.refresh();
+    await b.refresh();
+    expect(b.stats().availableTokens).toBe(7);
+  });
+
+  it('serves sequential requests from one lease and keeps it across observed headers', async () => {
+    const file = join(dir, 'budget.json');
+    const limiter = new RateLimiter(600, { sharedStateFile: file, sharedKey: 'company-1' });
+
+    for (let i = 0; i < 10; i++) {
+      const release = await limiter.acquire();
+      limiter.observe({ status: 200 });
+      release();
+    }
+    expect(limiter.stats()).toMatchObject({ acquired: 10, sharedStateSyncs: 1 });
+
+    limiter.observe({ status: 200, limit: 600, remaining: 550 });
+    await limiter.refresh();
+    const syncs = limiter.stats().sharedStateSyncs!;
+    (await limiter.acquire())();
+    expect(limiter.stats().sharedStateSyncs).toBe(syncs);
+  });
+
+  it('keeps the event loop running while another store holds the lock', async () => {
+    const file = join(dir, 'budget.json');
+    const a = new RateLimiter(60, { sharedStateFile: file, sharedKey: 'company-1' });
+    const b = new RateLimiter(60, { sharedStateFile: file, sharedKey: 'company-1' });
+
+    // Another process holds the lock
+    writeFileSync(`${file}.lock`, '');
+    let ticks = 0;
+    const ticker = setInterval(() => ticks++, 5);
+
+    let granted = 0;
+    const requests = [a.acquire(), b.acquire(), a.acquire()].map((request) =>
+      request.then((release) => {
+        granted++;
+        release();
+      })
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(granted).toBe(0);
+    expect(ticks).toBeGreaterThan(5);
+
+    unlinkSync(`${file}.lock`);
+    await Promise.all(requests);
+    clearInterval(ticker);
+
+    expect(granted).toBe(3);
+    await Promise.all([a.refresh(), b.refresh()]);
+    expect(existsSync(`${file}.lock`)).toBe(false);
+    // Each leased 3 tokens (the minimum lease) and spent 2 and 1; a keeps its spare one
+    expect(a.stats().availableTokens).toBe(55);
+  });
+});
+
+describe('observeRateLimitHeaders', () => {
+  it('reads X-RateLimit headers with relative or epoch resets', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    const relative = new Headers({
+      'X-RateLimit-Limit': '60',
+      'X-RateLimit-Remaining': '12',
+      'X-RateLimit-Reset': '30',
+    });
+    expect(observeRateLimitHeaders(200, relative, undefined, now)).toEqual({
+      status: 200,
+      limit: 60,
+      remaining: 12,
+      resetMs: 30000,
+      retryAfterMs: undefined,
+    });
+
+    const epoch = new Headers({ 'X-RateLimit-Reset': String(now / 1000 + 10) });
+    expect(observeRateLimitHeaders(429, epoch, 5000, now)).toMatchObject({
+      status: 429,
+      resetMs: 10000,
+      retryAfterMs: 5000,
+    });
+  });
+
+  it('ignores missing headers', () => {
+    expect(observeRateLimitHeaders(200, undefined)).toEqual({
+      status: 200,
+      limit: undefined,
+      remaining: undefined,
+      resetMs: undefined,
+      retryAfterMs: undefined,
+    });
+  });
+});
@@ -0,0 +1,551 @@
+// Request scheduler for the inFlow API
+//
+// A token bucket sized to the per-minute limit, plus:
+// - priorities: writes and interactive reads are served before background
+//   scans whenever requests are queued for a token
+// - a cap on requests in flight at once
+// - adaptation to the limit inFlow reports in rate-limit headers, and a pause
+//   of the whole bucket after a 429
+// - optionally, a bucket shared by every server process on the machine,
+//   stored in a JSON state file guarded by a lock file
+
+import { open, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+
+import type { RateLimiterStats } from './metrics.js';
+import { RequestCancelledError } from './tool-call.js';
+
+/**
+ * `high` for writes, `normal` for interactive reads, `low` for bulk scans
+ * (e.g. list_all_serials) that can wait.
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export const REQUEST_PRIORITIES: readonly RequestPriority[] = ['high', 'normal', 'low'];
+
+/** A lock file older than this is assumed to belong to a crashed process. */
+const STALE_LOCK_MS = 2000;
+const LOCK_TIMEOUT_MS = 5000;
+// Backoff between lock attempts doubles from the first value up to the second
+const LOCK_RETRY_MS = 1;
+const LOCK_MAX_RETRY_MS = 50;
+// Wait before trying the state file again after a failed sync
+const SYNC_RETRY_MS = 1000;
+// Smallest lease, as a share of capacity, so a process sending one request
+// at a time doesn't sync before each
+const MIN_LEASE_SHARE = 0.05;
+
+export interface RateLimiterOptions {
+  // Requests allowed in flight at once (default: unlimited)
+  maxConcurrent?: number;
+  // Share the bucket with other processes through this state file
+  sharedStateFile?: string;
+  // Key for this bucket within the shared state file (e.g. the company id)
+  sharedKey?: string;
+}
+
+/** Rate-limit information from one response. */
+export interface RateLimitObservation {
+  status: number;
+  limit?: number;
+  remaining?: number;
+  // Milliseconds until the server's window resets
+  resetMs?: number;
+  retryAfterMs?: number;
+}
+
+interface BucketState {
+  tokens: number;
+  capacity: number;
+  lastRefill: number;
+  pausedUntil: number;
+}
+
+/** Where the bucket lives. Every call is synchronous; only `refresh` waits. */
+interface BucketStore {
+  /**
+   * Take one token: 0 when taken, otherwise milliseconds until it is worth
+   * asking again. `wanted` is how many requests are queued for a token.
+   */
+  take(wanted: number): number;
+  /** Adapt the bucket to what the server said about its limits. */
+  observe(observation: RateLimitObservation): void;
+  /** The bucket as currently known, refilled to now. */
+  snapshot(): BucketState;
+  /** Bring the known state up to date (a no-op for a local bucket). */
+  refresh(): Promise<void>;
+}
+
+function refill(state: BucketState, now: number): void {
+  const elapsed = Math.max(0, now - state.lastRefill);
+  state.tokens = Math.min(state.capacity, state.tokens + (elapsed * state.capacity) / 60000);
+  state.lastRefill = now;
+}
+
+/** Milliseconds until `state` can hand out a token; 0 if it can now. */
+function waitForToken(state: BucketState, now: number): number {
+  if (state.pausedUntil > now) return state.pausedUntil - now;
+  if (state.tokens >= 1) return 0;
+  return Math.ceil(((1 - state.tokens) * 60000) / state.capacity);
+}
+
+function applyObservation(state: BucketState, observation: RateLimitObservation, now: number): void {
+  if (observation.limit !== undefined && observation.limit > 0 && observation.limit !== state.capacity) {
+    state.capacity = observation.limit;
+    state.tokens = Math.min(state.tokens, state.capacity);
+  }
+  if (observation.remaining !== undefined) {
+    state.tokens = Math.min(state.tokens, observation.remaining);
+    if (observation.remaining <= 0 && observation.resetMs !== undefined) {
+      state.pausedUntil = Math.max(state.pausedUntil, now + observation.resetMs);
+    }
+  }
+  if (observation.status === 429) {
+    // The server disagrees with our count: drain the bucket and back off
+    state.tokens = 0;
+    const pauseMs = observation.retryAfterMs ?? observation.resetMs ?? 60000 / state.capacity;
+    state.pausedUntil = Math.max(state.pausedUntil, now + pauseMs);
+  }
+}
+
+class LocalBucketStore implements BucketStore {
+  private readonly state: BucketState;
+
+  constructor(capacity: number) {
+    this.state = { tokens: capacity, capacity, lastRefill: Date.now(), pausedUntil: 0 };
+  }
+
+  take(): number {
+    const now = Date.now();
+    refill(this.state, now);
+    const waitMs = waitForToken(this.state, now);
+    if (waitMs === 0) this.state.tokens -= 1;
+    return waitMs;
+  }
+
+  observe(observation: RateLimitObservation): void {
+    const now = Date.now();
+    refill(this.state, now);
+    applyObservation(this.state, observation, now);
+  }
+
+  snapshot(): BucketState {
+    refill(this.state, Date.now());
+    return { ...this.state };
+  }
+
+  async refresh(): Promise<void> {}
+}
+
+/**
+ * A bucket stored in a JSON file holding one entry per key, so every process
+ * talking to the same company draws from the same budget.
+ *
+ * The file stays off the request path: requests spend tokens this process has
+ * leased from the shared bucket. When the lease runs out, one async sync
+ * (holding `<file>.lock`, created with O_EXCL) hands back what is left,
+ * applies the limits observed since the last sync, and leases as many tokens
+ * as there are queued requests, but at least MIN_LEASE_SHARE of the capacity.
+ * A response carrying rate-limit headers or a 429 also syncs, but keeps the
+ * lease. A sync that finds no tokens sets the time the next one is worth
+ * trying, so an empty bucket isn't polled.
+ */
+class SharedBucketStore implements BucketStore {
+  private readonly lockFile: string;
+  // The shared bucket as of the last sync, minus what was leased then
+  private view: BucketState;
+  private leased = 0;
+  private wanted = 0;
+  private pending: RateLimitObservation[] = [];
+  private notBefore = 0;
+  private syncing: Promise<void> | undefined;
+  private resync = false;
+
+  constructor(
+    private readonly file: string,
+    private readonly key: string,
+    private readonly initialCapacity: number,
+    // Called after every sync, so queued requests can use the new lease
+    private readonly onSync: () => void
+  ) {
+    this.lockFile = `${file}.lock`;
+    this.view = this.initialState(Date.now());
+  }
+
+  take(wanted: number): number {
+    const now = Date.now();
+    if (this.view.pausedUntil > now) return this.view.pausedUntil - now;
+    if (this.leased >= 1) {
+      this.leased -= 1;
+      return 0;
+    }
+
+    this.wanted = Math.max(this.wanted, wanted);
+    if (now < this.notBefore) return this.notBefore - now;
+    // A sync already running pumps again when done, which asks afresh
+    if (!this.syncing) void this.requestSync();
+    // onSync pumps as soon as the sync is done; this is only a fallback
+    return SYNC_RETRY_MS;
+  }
+
+  observe(observation: RateLimitObservation): void {
+    // Most responses say nothing about the limit; don't touch the file for them
+    const informative =
+      observation.status === 429 ||
+      observation.limit !== undefined ||
+      observation.remaining !== undefined ||
+      observation.resetMs !== undefined;
+    if (!informative) return;
+
+    const now = Date.now();
+    refill(this.view, now);
+    applyObservation(this.view, observation, now);
+    // A 429 means the budget is gone, leased tokens included
+    if (observation.status === 429) this.leased = 0;
+    this.pending.push(observation);
+    void this.requestSync();
+  }
+
+  snapshot(): BucketState {
+    const state = { ...this.view };
+    refill(state, Date.now());
+    return { ...state, tokens: Math.min(state.capacity, state.tokens + this.leased) };
+  }
+
+  async refresh(): Promise<void> {
+    // A sync already running may have read the file before the caller's
+    // writes landed; wait for it (and any queued behind it), then start afresh
+    while (this.syncing) await this.syncing;
+    await this.requestSync();
+  }
+
+  private initialState(now: number): BucketState {
+    return { tokens: this.initialCapacity, capacity: this.initialCapacity, lastRefill: now, pausedUntil: 0 };
+  }
+
+  /** Start a sync, or queue one behind the sync already running. */
+  private requestSync(): Promise<void> {
+    if (this.syncing) {
+      this.resync = true;
+      return this.syncing;
+    }
+    // Start on the next microtask, so requests queued together share a lease
+    this.syncing = Promise.resolve()
+      .then(() => this.sync())
+      .catch((error: unknown) => {
+        console.error(`Failed to sync shared rate limit state ${this.file}:`, error);
+      })
+      .finally(() => {
+        this.syncing = undefined;
+        // Requests still queued after the pump ask again for what they need
+        this.wanted = 0;
+        this.onSync();
+        if (this.resync) {
+          this.resync = false;
+          if (!this.syncing) void this.requestSync();
+        }
+      });
+    return this.syncing;
+  }
+
+  private async sync(): Promise<void> {
+    const pending = this.pending.splice(0);
+    const wanted = this.wanted;
+    this.wanted = 0;
+
+    try {
+      await this.lock();
+    } catch (error) {
+      this.pending.unshift(...pending);
+      this.notBefore = Date.now() + SYNC_RETRY_MS;
+      throw error;
+    }
+
+    try {
+      const all = await this.read();
+      const now = Date.now();
+      const state = all[this.key] ?? this.initialState(now);
+      refill(state, now);
+
+      if (wanted > 0) {
+        // Hand back what this process didn't use, then take a new lease
+        state.tokens = Math.min(state.capacity, state.tokens + this.leased);
+        this.leased = 0;
+        for (const observation of pending) applyObservation(state, observation, now);
+
+        const minLease = Math.max(1, Math.floor(state.capacity * MIN_LEASE_SHARE));
+        const lease = state.pausedUntil > now ? 0 : Math.min(Math.floor(state.tokens), Math.max(wanted, minLease));
+        state.tokens -= lease;
+        this.leased = lease;
+        this.notBefore = lease < wanted ? now + waitForToken(state, now) : 0;
+      } else {
+        // Only reporting observations (or refreshing): the lease stays usable
+        for (const observation of pending) applyObservation(state, observation, now);
+      }
+
+      all[this.key] = state;
+      const tmp = `${this.file}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(all));
+      await rename(tmp, this.file);
+      this.view = { ...state };
+    } finally {
+      await this.unlock();
+    }
+  }
+
+  private async read(): Promise<Record<string, BucketState>> {
+    try {
+      return JSON.parse(await readFile(this.file, 'utf8')) as Record<string, BucketState>;
+    } catch {
+      // Missing or half-written by a crashed process: start over
+      return {};
+    }
+  }
+
+  private async lock(): Promise<void> {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    let retryMs = LOCK_RETRY_MS;
+    for (;;) {
+      try {
+        await (await open(this.lockFile, 'wx')).close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+      try {
+        if (Date.now() - (await stat(this.lockFile)).mtimeMs > STALE_LOCK_MS) {
+          await unlink(this.lockFile);
+          continue;
+        }
+      } catch {
+        // Released (or removed as stale by someone else) meanwhile; try again
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for rate limit lock ${this.lockFile}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, retryMs));
+      retryMs = Math.min(retryMs * 2, LOCK_MAX_RETRY_MS);
+    }
+  }
+
+  private async unlock(): Promise<void> {
+    try {
+      await unlink(this.lockFile);
+    } catch {
+      // Already removed as stale by another process
+    }
+  }
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  enqueuedAt: number;
+  // Set when the request could not be granted straight away
+  queued?: boolean;
+  resolve: (release: () => void) => void;
+}
+
+/** Parse X-RateLimit-* and Retry-After style headers into an observation. */
+export function observeRateLimitHeaders(
+  status: number,
+  headers: { get(name: string): string | null } | undefined,
+  retryAfterMs?: number,
+  now: number = Date.now()
+): RateLimitObservation {
+  const number = (name: string) => {
+    const value = headers?.get(name);
+    if (value === null || value === undefined || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+
+  const reset = number('X-RateLimit-Reset');
+  return {
+    status,
+    limit: number('X-RateLimit-Limit'),
+    remaining: number('X-RateLimit-Remaining'),
+    // Either seconds until reset or a Unix epoch in seconds
+    resetMs: reset === undefined ? undefined : reset > 1e9 ? Math.max(0, reset * 1000 - now) : reset * 1000,
+    retryAfterMs,
+  };
+}
+
+export class RateLimiter {
+  private readonly store: BucketStore;
+  private readonly maxConcurrent: number;
+  private readonly queues = new Map<RequestPriority, Waiter[]>(
+    REQUEST_PRIORITIES.map((priority) => [priority, []])
+  );
+  private inFlight = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private timerAt = 0;
+
+  private acquired = 0;
+  private acquiredByPriority: Record<RequestPriority, number> = { high: 0, normal: 0, low: 0 };
+  private waited = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+  private pauses = 0;
+  // undefined for a local bucket
+  private syncs: number | undefined;
+
+  constructor(requestsPerMinute: number, options: RateLimiterOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent && options.maxConcurrent > 0 ? options.maxConcurrent : Infinity;
+    if (options.sharedStateFile) this.syncs = 0;
+    this.store = options.sharedStateFile
+      ? new SharedBucketStore(options.sharedStateFile, options.sharedKey ?? 'default', requestsPerMinute, () => {
+          this.syncs!++;
+          this.pump();
+        })
+      : new LocalBucketStore(requestsPerMinute);
+  }
+
+  /**
+   * Wait for a token and an in-flight slot. Resolves with a `release`
+   * function that must be called once the request has completed. Aborting
+   * `signal` while the request is queued gives up its place and rejects with
+   * RequestCancelledError.
+   */
+  acquire(priority: RequestPriority = 'normal', signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestCancelledError());
+        return;
+      }
+
+      const queue = this.queues.get(priority)!;
+      const onAbort = () => {
+        const index = queue.indexOf(waiter);
+        if (index === -1) return;
+        queue.splice(index, 1);
+        reject(new RequestCancelledError());
+        // The cancelled request may have been the one waiting at the front
+        this.pump();
+      };
+      const waiter: Waiter = {
+        priority,
+        enqueuedAt: Date.now(),
+        resolve: (release) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(release);
+        },
+      };
+      queue.push(waiter);
+      this.pump();
+      if (queue.includes(waiter)) {
+        waiter.queued = true;
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+  }
+
+  /** Adapt the bucket to what the server said about its limits. */
+  observe(observation: RateLimitObservation): void {
+    this.store.observe(observation);
+    if (observation.status === 429) this.pauses++;
+    this.pump();
+  }
+
+  /** Re-read a shared bucket so stats() reflects other processes' use. */
+  refresh(): Promise<void> {
+    return this.store.refresh();
+  }
+
+  stats(): RateLimiterStats {
+    const { tokens, capacity, pausedUntil } = this.store.snapshot();
+    const queued = Object.fromEntries(
+      REQUEST_PRIORITIES.map((priority) => [priority, this.queues.get(priority)!.length])
+    ) as Record<RequestPriority, number>;
+
+    return {
+      capacity,
+      availableTokens: Math.floor(tokens),
+      acquired: this.acquired,
+      acquiredByPriority: { ...this.acquiredByPriority },
+      waited: this.waited,
+      totalWaitMs: this.totalWaitMs,
+      maxWaitMs: this.maxWaitMs,
+      inFlight: this.inFlight,
+      maxConcurrent: Number.isFinite(this.maxConcurrent) ? this.maxConcurrent : null,
+      queued,
+      pauses: this.pauses,
+      ...(this.syncs !== undefined ? { sharedStateSyncs: this.syncs } : {}),
+      ...(pausedUntil > Date.now() ? { pausedUntil: new Date(pausedUntil).toISOString() } : {}),
+    };
+  }
+
+  resetStats(): void {
+    this.acquired = 0;
+    this.acquiredByPriority = { high: 0, normal: 0, low: 0 };
+    this.waited = 0;
+    this.totalWaitMs = 0;
+    this.maxWaitMs = 0;
+    this.pauses = 0;
+    if (this.syncs !== undefined) this.syncs = 0;
+  }
+
+  private queuedCount(): number {
+    let count = 0;
+    for (const queue of this.queues.values()) count += queue.length;
+    return count;
+  }
+
+  private nextWaiter(): Waiter | undefined {
+    for (const priority of REQUEST_PRIORITIES) {
+      const queue = this.queues.get(priority)!;
+      if (queue.length > 0) return queue[0];
+    }
+    return undefined;
+  }
+
+  /** Grant tokens to queued requests, highest priority first, until blocked. */
+  private pump(): void {
+    for (;;) {
+      const waiter = this.nextWaiter();
+      if (!waiter || this.inFlight >= this.maxConcurrent) return;
+
+      // 0 when a token was taken, otherwise how long until one is available
+      const waitMs = this.store.take(this.queuedCount());
+
+      if (waitMs > 0) {
+        this.schedule(waitMs);
+        return;
+      }
+
+      this.queues.get(waiter.priority)!.shift();
+      this.grant(waiter);
+    }
+  }
+
+  private grant(waiter: Waiter): void {
+    this.inFlight++;
+    this.acquired++;
+    this.acquiredByPriority[waiter.priority]++;
+
+    if (waiter.queued) {
+      const waitedMs = Date.now() - waiter.enqueuedAt;
+      this.waited++;
+      this.totalWaitMs += waitedMs;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waitedMs);
+    }
+
+    let released = false;
+    waiter.resolve(() => {
+      if (released) return;
+      released = true;
+      this.inFlight--;
+      this.pump();
+    });
+  }
+
+  private schedule(ms: number): void {
+    const at = Date.now() + ms;
+    if (this.timer && this.timerAt <= at) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timerAt = at;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.pump();
+    }, ms);
+  }
+}
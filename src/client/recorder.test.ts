@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InflowClient } from './inflow.js';
+import type { InflowConfig } from '../config.js';
+
+const baseConfig: InflowConfig = {
+  apiKey: 'secret-api-key',
+  companyId: 'test-company',
+  baseUrl: 'https://api.inflowinventory.com/v1',
+  apiVersion: '2023-01-01',
+  rateLimitPerMinute: 60,
+  maxConcurrentRequests: 4,
+  maxRetries: 0,
+  retryDelayMs: 10,
+  requestTimeoutMs: 5000,
+  debug: false,
+  cacheTtlMs: 0,
+  cacheTtlOverrides: {},
+};
+
+const jsonResponse = (body: unknown, headers?: Record<string, string>) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    statusText: 'OK',
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+describe('record/replay transport', () => {
+  let dir: string;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'inflow-fixtures-'));
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.resetAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes one fixture per exchange with the API key redacted', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ purchaseOrderId: 'po-1', status: 'Open' }));
+
+    const client = new InflowClient({ ...baseConfig, recordDir: dir });
+    await client.get('/purchase-orders/po-1', { include: ['lines'] });
+
+    const files = await readdir(dir);
+    expect(files).toEqual(['0001-GET-purchase-orders-po-1.json']);
+
+    const raw = await readFile(join(dir, files[0]), 'utf8');
+    expect(raw).not.toContain('secret-api-key');
+
+    const fixture = JSON.parse(raw);
+    expect(fixture.request.method).toBe('GET');
+    expect(fixture.request.path).toBe('/purchase-orders/po-1?include=lines');
+    expect(fixture.request.headers.authorization).toBe('Bearer [REDACTED]');
+    expect(fixture.response.status).toBe(200);
+    expect(fixture.response.body).toEqual({ purchaseOrderId: 'po-1', status: 'Open' });
+  });
+
+  it('replays a recorded GET → PUT → GET workflow offline, in order', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ purchaseOrderId: 'po-1', status: 'Open' }))
+      .mockResolvedValueOnce(jsonResponse({ purchaseOrderId: 'po-1', status: 'Received' }))
+      .mockResolvedValueOnce(jsonResponse({ purchaseOrderId: 'po-1', status: 'Received' }));
+
+    const recorder = new InflowClient({ ...baseConfig, recordDir: dir });
+    await recorder.get('/purchase-orders/po-1');
+    await recorder.put('/purchase-orders', { purchaseOrderId: 'po-1', receiveLines: [] });
+    await recorder.get('/purchase-orders/po-1');
+
+    fetchMock.mockReset();
+    fetchMock.mockRejectedValue(new Error('network access during replay'));
+
+    const replayer = new InflowClient({ ...baseConfig, replayDir: dir });
+    const before = await replayer.get('/purchase-orders/po-1');
+    const written = await replayer.put('/purchase-orders', { purchaseOrderId: 'po-1', receiveLines: ['new-id'] });
+    const after = await replayer.get('/purchase-orders/po-1');
+
+    expect(before).toEqual({ purchaseOrderId: 'po-1', status: 'Open' });
+    expect(written).toEqual({ purchaseOrderId: 'po-1', status: 'Received' });
+    expect(after).toEqual({ purchaseOrderId: 'po-1', status: 'Received' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('replays list headers such as X-listCount', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse([{ productId: 'p-1' }], { 'X-listCount': '7' }));
+
+    const recorder = new InflowClient({ ...baseConfig, recordDir: dir });
+    await recorder.getList('/products', { includeCount: true });
+
+    const replayer = new InflowClient({ ...baseConfig, replayDir: dir });
+    const result = await replayer.getList('/products', { includeCount: true });
+
+    expect(result).toEqual({ data: [{ productId: 'p-1' }], totalCount: 7 });
+  });
+
+  it('fails clearly when no fixture matches', async () => {
+    const replayer = new InflowClient({ ...baseConfig, replayDir: dir });
+
+    await expect(replayer.get('/products/missing')).rejects.toThrow(
+      /No recorded fixture for GET \/products\/missing/
+    );
+  });
+});
@@ -0,0 +1,179 @@
+// HTTP record/replay transport for offline development and deterministic tests
+//
+// Record mode wraps `fetch` and writes every request/response pair made by
+// InflowClient to a numbered JSON fixture file. Replay mode serves those
+// fixtures back without touching the network.
+
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+const REDACTED = '[REDACTED]';
+
+export interface HttpFixture {
+  request: {
+    method: string;
+    // Path and query relative to `{baseUrl}/{companyId}`, so fixtures are
+    // portable between companies and environments.
+    path: string;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+}
+
+interface TransportOptions {
+  // `{baseUrl}/{companyId}` prefix stripped from recorded URLs
+  urlPrefix: string;
+  apiKey: string;
+}
+
+function toRelativePath(url: string, urlPrefix: string): string {
+  return url.startsWith(urlPrefix) ? url.slice(urlPrefix.length) : url;
+}
+
+function fixtureKey(method: string, path: string): string {
+  return `${method.toUpperCase()} ${path}`;
+}
+
+function parseBody(text: string): unknown {
+  if (text === '') return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/** Replace every occurrence of the API key so fixtures are safe to commit. */
+function redact<T>(value: T, apiKey: string): T {
+  if (!apiKey) return value;
+  const json = JSON.stringify(value);
+  if (json === undefined) return value;
+  return JSON.parse(json.split(apiKey).join(REDACTED)) as T;
+}
+
+function headersToRecord(headers: RequestInit['headers']): Record<string, string> {
+  return Object.fromEntries(new Headers(headers).entries());
+}
+
+/**
+ * Wrap the global `fetch` so each exchange is written to `dir` as
+ * `NNNN-METHOD-path.json`. Numbering continues after any fixtures already in
+ * the directory, so several sessions can record into the same folder.
+ */
+export function createRecordingFetch(dir: string, options: TransportOptions): FetchLike {
+  let sequence: Promise<number> | undefined;
+
+  const initSequence = async (): Promise<number> => {
+    await mkdir(dir, { recursive: true });
+    const files = await readdir(dir);
+    return files.filter((file) => file.endsWith('.json')).length;
+  };
+
+  const nextSequence = async (): Promise<number> => {
+    sequence = (sequence ?? initSequence()).then((n) => n + 1);
+    return sequence;
+  };
+
+  return async (url, init) => {
+    const response = await fetch(url, init);
+    // Read the body once and hand back a fresh Response; Response.clone() can
+    // leave the original unreadable on some Node versions.
+    const bodyText = await response.text();
+    const method = (init.method ?? 'GET').toUpperCase();
+    const path = toRelativePath(url, options.urlPrefix);
+
+    const fixture: HttpFixture = redact(
+      {
+        request: {
+          method,
+          path,
+          headers: headersToRecord(init.headers),
+          body: typeof init.body === 'string' ? parseBody(init.body) : undefined,
+        },
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          headers: headersToRecord(response.headers),
+          body: parseBody(bodyText),
+        },
+      },
+      options.apiKey
+    );
+
+    const n = await nextSequence();
+    const slug = path.split('?')[0].replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const fileName = `${String(n).padStart(4, '0')}-${method}-${slug || 'root'}.json`;
+    await writeFile(join(dir, fileName), `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+
+    return new Response(response.status === 204 ? null : bodyText, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
+
+/**
+ * Serve recorded fixtures from `dir` instead of calling the network.
+ *
+ * Requests match on method + path/query; request bodies are ignored because
+ * PUT payloads carry freshly generated ids and dates. Repeated requests for the
+ * same key replay in recorded order (e.g. a GET before and after a PUT), and
+ * the last fixture is reused once the sequence is exhausted.
+ */
+export function createReplayFetch(dir: string, options: TransportOptions): FetchLike {
+  let fixtures: Promise<Map<string, HttpFixture[]>> | undefined;
+  const served = new Map<string, number>();
+
+  const loadFixtures = async (): Promise<Map<string, HttpFixture[]>> => {
+    const byKey = new Map<string, HttpFixture[]>();
+    const files = (await readdir(dir)).filter((file) => file.endsWith('.json')).sort();
+    for (const file of files) {
+      const fixture = JSON.parse(await readFile(join(dir, file), 'utf8')) as HttpFixture;
+      const key = fixtureKey(fixture.request.method, fixture.request.path);
+      const list = byKey.get(key) ?? [];
+      list.push(fixture);
+      byKey.set(key, list);
+    }
+    return byKey;
+  };
+
+  return async (url, init) => {
+    fixtures ??= loadFixtures();
+    const byKey = await fixtures;
+
+    const key = fixtureKey(init.method ?? 'GET', toRelativePath(url, options.urlPrefix));
+    const candidates = byKey.get(key);
+    if (!candidates || candidates.length === 0) {
+      // TypeError would be treated as a retryable network error; a plain
+      // Error surfaces immediately.
+      throw new Error(`No recorded fixture for ${key} in ${dir}`);
+    }
+
+    const index = served.get(key) ?? 0;
+    served.set(key, index + 1);
+    const { response } = candidates[Math.min(index, candidates.length - 1)];
+
+    const hasBody = response.body !== undefined && response.status !== 204;
+    return new Response(
+      hasBody
+        ? typeof response.body === 'string'
+          ? response.body
+          : JSON.stringify(response.body)
+        : null,
+      {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      }
+    );
+  };
+}
@@ -0,0 +1,110 @@
+// One InflowClient per company profile
+//
+// Each client owns its own rate limiter, retry state and reference-data cache,
+// so traffic against a sandbox company never eats into production's budget.
+// Each MCP session works through its own view of the registry (`forSession`):
+// same clients, but its own name-to-ID resolvers.
+
+import { InflowClient, type WriteEvent } from './inflow.js';
+import { EntityResolver } from './resolver.js';
+import type { ClientStats } from './metrics.js';
+import type { CompanyProfile, ProfilesConfig } from '../config.js';
+
+export interface CompanySummary {
+  name: string;
+  label?: string;
+  companyId: string;
+  baseUrl: string;
+  isDefault: boolean;
+}
+
+export class UnknownCompanyError extends Error {
+  constructor(
+    public company: string,
+    public available: string[]
+  ) {
+    super(`Unknown company "${company}". Available companies: ${available.join(', ')}`);
+    this.name = 'UnknownCompanyError';
+  }
+}
+
+export class InflowClientRegistry {
+  private readonly clients = new Map<string, InflowClient>();
+  private readonly profiles = new Map<string, CompanyProfile>();
+  private readonly resolvers = new Map<string, EntityResolver>();
+  readonly defaultCompany: string;
+
+  /** `shared` reuses existing clients instead of creating new ones (see forSession). */
+  constructor(
+    private readonly config: ProfilesConfig,
+    shared?: ReadonlyMap<string, InflowClient>
+  ) {
+    for (const profile of config.profiles) {
+      this.profiles.set(profile.name, profile);
+      this.clients.set(profile.name, shared?.get(profile.name) ?? new InflowClient(profile.config));
+    }
+    this.defaultCompany = config.defaultProfile;
+  }
+
+  /** A registry sharing these clients, with resolvers of its own. */
+  forSession(): InflowClientRegistry {
+    return new InflowClientRegistry(this.config, this.clients);
+  }
+
+  /**
+   * Resolve the client for a profile name, falling back to the default
+   * profile when `company` is omitted.
+   */
+  get(company?: string): InflowClient {
+    const name = company || this.defaultCompany;
+    const client = this.clients.get(name);
+    if (!client) {
+      throw new UnknownCompanyError(name, [...this.clients.keys()]);
+    }
+    return client;
+  }
+
+  /** Name-to-ID resolver for a profile; lookups are remembered for this registry's lifetime. */
+  resolver(company?: string): EntityResolver {
+    const name = company || this.defaultCompany;
+    let resolver = this.resolvers.get(name);
+    if (!resolver) {
+      resolver = new EntityResolver(this.get(name));
+      this.resolvers.set(name, resolver);
+    }
+    return resolver;
+  }
+
+  /**
+   * Call `listener` after every successful write made through any profile's
+   * client, from any session. Returns a function that removes the listener.
+   */
+  onWrite(listener: (event: WriteEvent, company: string) => void): () => void {
+    const unsubscribes = [...this.clients].map(([name, client]) =>
+      client.onWrite((event) => listener(event, name))
+    );
+    return () => {
+      for (const unsubscribe of unsubscribes) unsubscribe();
+    };
+  }
+
+  /** Request metrics for every profile, keyed by profile name. */
+  stats(): Record<string, ClientStats> {
+    const stats: Record<string, ClientStats> = {};
+    for (const [name, client] of this.clients) {
+      stats[name] = client.getStats();
+    }
+    return stats;
+  }
+
+  /** Profiles without credentials, safe to show to the assistant. */
+  list(): CompanySummary[] {
+    return [...this.profiles.values()].map((profile) => ({
+      name: profile.name,
+      ...(profile.label ? { label: profile.label } : {}),
+      companyId: profile.config.companyId,
+      baseUrl: profile.config.baseUrl,
+      isDefault: profile.name === this.defaultCompany,
+    }));
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { InflowClient } from './inflow.js';
+import { AmbiguousReferenceError, EntityResolver, UnresolvedReferenceError } from './resolver.js';
+import { startSimulator, type RunningSimulator } from '../simulator/server.js';
+import { createDefaultSeed, SEED_IDS } from '../simulator/seed.js';
+
+describe('EntityResolver', () => {
+  let simulator: RunningSimulator;
+  let client: InflowClient;
+  let resolver: EntityResolver;
+
+  beforeEach(async () => {
+    simulator = await startSimulator(0, { seed: createDefaultSeed() });
+    client = new InflowClient({
+      apiKey: 'sim-key',
+      companyId: 'sim-company',
+      baseUrl: simulator.url,
+      apiVersion: '2025-06-24',
+      rateLimitPerMinute: 6000,
+      maxConcurrentRequests: 4,
+      maxRetries: 0,
+      retryDelayMs: 10,
+      requestTimeoutMs: 5000,
+      debug: false,
+      cacheTtlMs: 0,
+      cacheTtlOverrides: {},
+    });
+    resolver = new EntityResolver(client);
+  });
+
+  afterEach(async () => {
+    await simulator.close();
+  });
+
+  it('resolves SKUs, barcodes, names and order numbers', async () => {
+    expect(await resolver.resolve('product', 'wid-001', 'productId')).toBe(SEED_IDS.widget);
+    expect(await resolver.resolve('product', '100000000001', 'productId')).toBe(SEED_IDS.widget);
+    // The exact name outranks "Widget Kit", which only starts with it
+    expect(await resolver.resolve('product', 'Widget', 'productId')).toBe(SEED_IDS.widget);
+    expect(await resolver.resolve('customer', 'acme corp', 'customerId')).toBe(SEED_IDS.customer);
+    expect(await resolver.resolve('location', 'Overflow', 'locationId')).toBe(SEED_IDS.overflowWarehouse);
+    expect(await resolver.resolve('salesOrder', 'SO-000001', 'salesOrderId')).toBe(SEED_IDS.salesOrder);
+  });
+
+  it('passes IDs through and remembers resolved references', async () => {
+    expect(await resolver.resolve('vendor', SEED_IDS.vendor, 'vendorId')).toBe(SEED_IDS.vendor);
+    expect(client.getStats().totals.requests).toBe(0);
+
+    await resolver.resolve('vendor', 'Parts Supply Co', 'vendorId');
+    await resolver.resolve('vendor', 'parts supply co', 'vendorId');
+    expect(client.getStats().totals.requests).toBe(1);
+  });
+
+  it('returns ranked candidates instead of guessing', async () => {
+    const error = await resolver.resolve('product', 'wid', 'items[0].productId').catch((caught) => caught);
+    expect(error).toBeInstanceOf(AmbiguousReferenceError);
+    expect(error).toMatchObject({ field: 'items[0].productId' });
+    expect((error as AmbiguousReferenceError).candidates).toEqual([
+      { id: SEED_IDS.widget, label: 'WID-001', matchedOn: 'sku', match: 'prefix', score: 50 },
+      { id: SEED_IDS.kit, label: 'KIT-001', matchedOn: 'name', match: 'prefix', score: 48 },
+    ]);
+
+    await expect(resolver.resolve('customer', 'Nobody', 'customerId')).rejects.toBeInstanceOf(
+      UnresolvedReferenceError
+    );
+  });
+});
@@ -0,0 +1,252 @@
+// Name-to-ID resolution for tool arguments
+//
+// Tools take record IDs, but an assistant usually knows a customer's name, a
+// product's SKU or an order number. EntityResolver turns those into IDs: GUIDs
+// pass through untouched, a single exact match resolves, and anything else
+// fails with ranked candidates rather than a guess. Resolved references are
+// remembered for the lifetime of the resolver, which is one MCP session.
+
+import type { InflowClient } from './inflow.js';
+
+export type EntityKind =
+  | 'customer'
+  | 'vendor'
+  | 'location'
+  | 'pricingScheme'
+  | 'taxingScheme'
+  | 'paymentTerms'
+  | 'product'
+  | 'salesOrder'
+  | 'purchaseOrder'
+  | 'manufacturingOrder';
+
+interface EntitySource {
+  endpoint: string;
+  // The first of these present on a record is its ID
+  idFields: string[];
+  // Fields compared with the reference, strongest first
+  keys: string[];
+  // Server-side filter narrowing large collections; reference data is fetched whole
+  filter?: (reference: string) => Record<string, unknown>;
+  // Tool that lists this entity, for error hints
+  listTool: string;
+}
+
+const SOURCES: Record<EntityKind, EntitySource> = {
+  customer: {
+    endpoint: '/customers',
+    idFields: ['customerId'],
+    keys: ['name'],
+    filter: (reference) => ({ name: reference }),
+    listTool: 'list_customers',
+  },
+  vendor: {
+    endpoint: '/vendors',
+    idFields: ['vendorId'],
+    keys: ['name'],
+    filter: (reference) => ({ name: reference }),
+    listTool: 'list_vendors',
+  },
+  location: { endpoint: '/locations', idFields: ['locationId', 'id'], keys: ['name'], listTool: 'list_locations' },
+  pricingScheme: {
+    endpoint: '/pricing-schemes',
+    idFields: ['pricingSchemeId', 'id'],
+    keys: ['name'],
+    listTool: 'list_pricing_schemes',
+  },
+  taxingScheme: {
+    endpoint: '/taxing-schemes',
+    idFields: ['taxingSchemeId', 'id'],
+    keys: ['name'],
+    listTool: 'list_taxing_schemes',
+  },
+  paymentTerms: {
+    endpoint: '/payment-terms',
+    idFields: ['paymentTermsId', 'id'],
+    keys: ['name'],
+    listTool: 'list_payment_terms',
+  },
+  product: {
+    endpoint: '/products',
+    idFields: ['productId'],
+    keys: ['sku', 'barcode', 'name'],
+    // smart searches name, SKU and barcode at once
+    filter: (reference) => ({ smart: reference }),
+    listTool: 'list_products',
+  },
+  salesOrder: {
+    endpoint: '/sales-orders',
+    idFields: ['salesOrderId'],
+    keys: ['orderNumber'],
+    filter: (reference) => ({ orderNumber: reference }),
+    listTool: 'list_sales_orders',
+  },
+  purchaseOrder: {
+    endpoint: '/purchase-orders',
+    idFields: ['purchaseOrderId'],
+    keys: ['orderNumber'],
+    filter: (reference) => ({ orderNumber: reference }),
+    listTool: 'list_purchase_orders',
+  },
+  manufacturingOrder: {
+    endpoint: '/manufacturing-orders',
+    idFields: ['manufacturingOrderId'],
+    keys: ['manufacturingOrderNumber'],
+    filter: (reference) => ({ manufacturingOrderNumber: reference }),
+    listTool: 'list_manufacturing_orders',
+  },
+};
+
+/** Tool argument names that hold a reference to each kind of entity. */
+export const REFERENCE_ARGUMENTS: Readonly<Record<string, EntityKind>> = {
+  customerId: 'customer',
+  vendorId: 'vendor',
+  locationId: 'location',
+  fromLocationId: 'location',
+  toLocationId: 'location',
+  pricingSchemeId: 'pricingScheme',
+  taxingSchemeId: 'taxingScheme',
+  paymentTermsId: 'paymentTerms',
+  productId: 'product',
+  salesOrderId: 'salesOrder',
+  purchaseOrderId: 'purchaseOrder',
+  manufacturingOrderId: 'manufacturingOrder',
+};
+
+// Records fetched per search of a large collection
+const SEARCH_PAGE_SIZE = 50;
+const MAX_CANDIDATES = 10;
+
+const GUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Scores per match type; a key's position is subtracted so an exact SKU outranks an exact name
+const EXACT_SCORE = 100;
+const PREFIX_SCORE = 50;
+const CONTAINS_SCORE = 25;
+
+export interface ResolutionCandidate {
+  id: string;
+  // The record's strongest key value, e.g. its SKU or name
+  label: string;
+  // Key the reference matched, and how
+  matchedOn: string;
+  match: 'exact' | 'prefix' | 'contains';
+  score: number;
+}
+
+export class UnresolvedReferenceError extends Error {
+  constructor(
+    public kind: EntityKind,
+    public field: string,
+    public reference: string,
+    public listTool: string
+  ) {
+    super(`No ${kind} matches "${reference}"`);
+    this.name = 'UnresolvedReferenceError';
+  }
+}
+
+export class AmbiguousReferenceError extends Error {
+  constructor(
+    public kind: EntityKind,
+    public field: string,
+    public reference: string,
+    public candidates: ResolutionCandidate[]
+  ) {
+    super(`"${reference}" matches more than one ${kind}; pass one of the candidate IDs`);
+    this.name = 'AmbiguousReferenceError';
+  }
+}
+
+function idOf(record: Record<string, unknown>, source: EntitySource): string | undefined {
+  for (const field of source.idFields) {
+    const id = record[field];
+    if (typeof id === 'string' && id) return id;
+  }
+  return undefined;
+}
+
+/** Best match of `reference` against one record, or undefined when no key matches. */
+function scoreRecord(
+  record: Record<string, unknown>,
+  source: EntitySource,
+  reference: string
+): ResolutionCandidate | undefined {
+  const id = idOf(record, source);
+  if (!id) return undefined;
+
+  const wanted = reference.toLowerCase();
+  const label = source.keys.map((key) => record[key]).find((value) => typeof value === 'string' && value);
+  let best: ResolutionCandidate | undefined;
+  source.keys.forEach((key, index) => {
+    const value = record[key];
+    if (typeof value !== 'string' || !value) return;
+    const text = value.toLowerCase();
+    const [match, base] =
+      text === wanted
+        ? (['exact', EXACT_SCORE] as const)
+        : text.startsWith(wanted)
+          ? (['prefix', PREFIX_SCORE] as const)
+          : text.includes(wanted)
+            ? (['contains', CONTAINS_SCORE] as const)
+            : [undefined, 0];
+    if (!match) return;
+    const score = base - index;
+    if (!best || score > best.score) {
+      best = { id, label: String(label ?? value), matchedOn: key, match, score };
+    }
+  });
+  return best;
+}
+
+export class EntityResolver {
+  // `${kind}:${reference}` (lowercased) -> ID
+  private readonly resolved = new Map<string, string>();
+
+  constructor(private readonly client: InflowClient) {}
+
+  /**
+   * The ID `reference` refers to. `field` names the tool argument, for
+   * errors. Throws UnresolvedReferenceError or AmbiguousReferenceError.
+   */
+  async resolve(kind: EntityKind, reference: string, field: string): Promise<string> {
+    const trimmed = reference.trim();
+    if (GUID.test(trimmed)) return trimmed;
+
+    const key = `${kind}:${trimmed.toLowerCase()}`;
+    const cached = this.resolved.get(key);
+    if (cached) return cached;
+
+    const candidates = await this.candidates(kind, trimmed);
+    const [top, runnerUp] = candidates;
+    if (!top) {
+      throw new UnresolvedReferenceError(kind, field, trimmed, SOURCES[kind].listTool);
+    }
+    // Only an exact match that nothing else ties with resolves
+    if (top.match !== 'exact' || (runnerUp && runnerUp.score === top.score)) {
+      throw new AmbiguousReferenceError(kind, field, trimmed, candidates);
+    }
+
+    this.resolved.set(key, top.id);
+    return top.id;
+  }
+
+  /** Records matching `reference`, best first. */
+  async candidates(kind: EntityKind, reference: string): Promise<ResolutionCandidate[]> {
+    const source = SOURCES[kind];
+    const records = source.filter
+      ? (
+          await this.client.getList<Record<string, unknown>>(source.endpoint, {
+            filters: source.filter(reference),
+            pagination: { count: SEARCH_PAGE_SIZE },
+          })
+        ).data
+      : (await this.client.getAll<Record<string, unknown>>(source.endpoint)).data;
+
+    return records
+      .map((record) => scoreRecord(record, source, reference))
+      .filter((candidate): candidate is ResolutionCandidate => candidate !== undefined)
+      .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+      .slice(0, MAX_CANDIDATES);
+  }
+}
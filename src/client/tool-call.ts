@@ -0,0 +1,76 @@
+// Progress and cancellation for tool calls
+//
+// Every tool call runs in a tool-call scope (see `runToolCallScope`) holding
+// the MCP request's AbortSignal and, when the client asked for progress, a
+// callback that sends notifications/progress. The client checks the signal
+// before each request and aborts in-flight fetches with it; `paginate`
+// reports every page it fetches.
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface ToolCallOptions {
+  signal?: AbortSignal;
+  // Absent when the client sent no progress token
+  onProgress?: (update: ProgressUpdate) => void;
+}
+
+interface ToolCallScope extends ToolCallOptions {
+  pagesFetched: number;
+  recordsFetched: number;
+}
+
+const toolCallScope = new AsyncLocalStorage<ToolCallScope>();
+
+/** Thrown when the MCP client cancelled the tool call; never retried. */
+export class RequestCancelledError extends Error {
+  constructor(message = 'The request was cancelled by the client') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/** Run one tool call in a tool-call scope; nested calls reuse the outer scope. */
+export function runToolCallScope<R>(options: ToolCallOptions, fn: () => Promise<R>): Promise<R> {
+  if (toolCallScope.getStore()) return fn();
+  return toolCallScope.run({ ...options, pagesFetched: 0, recordsFetched: 0 }, fn);
+}
+
+/** The current tool call's AbortSignal, if any. */
+export function toolCallSignal(): AbortSignal | undefined {
+  return toolCallScope.getStore()?.signal;
+}
+
+export function throwIfCancelled(): void {
+  if (toolCallSignal()?.aborted) throw new RequestCancelledError();
+}
+
+/**
+ * Count a fetched page toward the tool call's progress. Progress is the
+ * number of records fetched so far in the call, so it keeps increasing across
+ * several scans; `remaining` (records this scan still expects) sets the total.
+ */
+export function reportPageFetched(path: string, records: number, remaining?: number): void {
+  const scope = toolCallScope.getStore();
+  if (!scope) return;
+  scope.pagesFetched++;
+  scope.recordsFetched += records;
+  if (!scope.onProgress) return;
+
+  const pages = `${scope.pagesFetched} ${scope.pagesFetched === 1 ? 'page' : 'pages'}`;
+  try {
+    scope.onProgress({
+      progress: scope.recordsFetched,
+      ...(remaining !== undefined ? { total: scope.recordsFetched + Math.max(0, remaining) } : {}),
+      message: `Fetched ${pages}, ${scope.recordsFetched} records (${path.split('?')[0]})`,
+    });
+  } catch (error) {
+    // A lost notification shouldn't fail the scan
+    console.error('Failed to report progress:', error);
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { parseProfiles, type SharedSettings } from './config.js';
+
+const shared: SharedSettings = {
+  baseUrl: 'https://cloudapi.inflowinventory.com',
+  apiVersion: '2025-06-24',
+  rateLimitPerMinute: 60,
+  maxConcurrentRequests: 4,
+  requestTimeoutMs: 30000,
+  maxRetries: 3,
+  retryDelayMs: 1000,
+  debug: false,
+  cacheTtlMs: 300000,
+  cacheTtlOverrides: {},
+};
+
+describe('parseProfiles', () => {
+  afterEach(() => {
+    delete process.env.SANDBOX_KEY;
+  });
+
+  it('builds one config per profile with per-profile overrides', () => {
+    process.env.SANDBOX_KEY = 'sandbox-secret';
+
+    const result = parseProfiles(
+      {
+        default: 'sandbox',
+        profiles: {
+          production: { label: 'Production', companyId: 'prod-co', apiKey: 'prod-secret' },
+          sandbox: { companyId: 'sandbox-co', apiKeyEnv: 'SANDBOX_KEY', rateLimitPerMinute: 20 },
+        },
+      },
+      shared
+    );
+
+    expect(result.defaultProfile).toBe('sandbox');
+    expect(result.profiles.map((p) => p.name)).toEqual(['production', 'sandbox']);
+    expect(result.profiles[0]).toMatchObject({
+      label: 'Production',
+      config: { companyId: 'prod-co', apiKey: 'prod-secret', rateLimitPerMinute: 60 },
+    });
+    expect(result.profiles[1].config).toMatchObject({
+      companyId: 'sandbox-co',
+      apiKey: 'sandbox-secret',
+      rateLimitPerMinute: 20,
+      maxRetries: 3,
+    });
+  });
+
+  it('defaults to the first profile', () => {
+    const result = parseProfiles(
+      { profiles: { brand: { companyId: 'brand-co', apiKey: 'k' } } },
+      shared
+    );
+    expect(result.defaultProfile).toBe('brand');
+  });
+
+  it('gives each profile its own fixture subdirectory', () => {
+    const result = parseProfiles(
+      { profiles: { sandbox: { companyId: 'sandbox-co' } } },
+      { ...shared, replayDir: 'fixtures' }
+    );
+    expect(result.profiles[0].config).toMatchObject({ apiKey: 'replay', replayDir: 'fixtures/sandbox' });
+  });
+
+  it('rejects incomplete profile files', () => {
+    expect(() => parseProfiles({}, shared)).toThrow(/at least one profile/);
+    expect(() => parseProfiles({ profiles: { a: { apiKey: 'k' } } }, shared)).toThrow(
+      /"a" is missing companyId/
+    );
+    expect(() => parseProfiles({ profiles: { a: { companyId: 'c', apiKeyEnv: 'SANDBOX_KEY' } } }, shared)).toThrow(
+      /SANDBOX_KEY is not set/
+    );
+    expect(() =>
+      parseProfiles({ default: 'missing', profiles: { a: { companyId: 'c', apiKey: 'k' } } }, shared)
+    ).toThrow(/default "missing"/);
+  });
+});
@@ -1,38 +1,71 @@
 // Configuration handling for inFlow MCP Server
 
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
 export interface InflowConfig {
   companyId: string;
   apiKey: string;
   baseUrl: string;
   apiVersion: string;
   rateLimitPerMinute: number;
+  // Requests allowed in flight at once per company (0 = unlimited)
+  maxConcurrentRequests: number;
+  // Share the rate-limit budget with other server processes through this file
+  rateLimitStateFile?: string;
   requestTimeoutMs: number;
   maxRetries: number;
   retryDelayMs: number;
   debug: boolean;
+  // Reference-data cache TTL in ms (0 disables caching)
+  cacheTtlMs: number;
+  // Per-endpoint TTL overrides keyed by endpoint root, e.g. { '/currencies': 3600000 }
+  cacheTtlOverrides: Record<string, number>;
+  // Write every HTTP exchange to fixture files in this directory
+  recordDir?: string;
+  // Serve HTTP exchanges from fixture files in this directory instead of the network
+  replayDir?: string;
+  // Append a JSONL audit entry for every write made by a mutating tool
+  auditLogFile?: string;
+  // Rotate the audit log once it would grow past this size (default: 10 MiB)
+  auditLogMaxBytes?: number;
+  // Mutating tools return the write they would make instead of sending it
+  dryRun?: boolean;
 }
 
-export function loadConfig(): InflowConfig {
-  const companyId = process.env.INFLOW_COMPANY_ID;
-  const apiKey = process.env.INFLOW_API_KEY;
+/**
+ * Parse INFLOW_CACHE_TTLS, a comma-separated list of `endpoint=ms` pairs
+ * (e.g. `currencies=3600000,team-members=0`). Leading slashes are optional.
+ */
+export function parseCacheTtlOverrides(value: string | undefined): Record<string, number> {
+  const overrides: Record<string, number> = {};
+  if (!value) return overrides;
 
-  if (!companyId) {
-    throw new Error(
-      'INFLOW_COMPANY_ID environment variable is required. ' +
-        'Find your Company ID at: inFlow Settings > Integrations > API Keys'
-    );
+  for (const entry of value.split(',')) {
+    const [rawEndpoint, rawTtl] = entry.split('=').map((part) => part.trim());
+    if (!rawEndpoint || rawTtl === undefined) continue;
+
+    const ttl = parseInt(rawTtl, 10);
+    if (Number.isNaN(ttl)) {
+      throw new Error(`Invalid INFLOW_CACHE_TTLS entry "${entry}": TTL must be a number of milliseconds`);
+    }
+    overrides[`/${rawEndpoint.replace(/^\/+/, '')}`] = ttl;
   }
 
-  if (!apiKey) {
-    throw new Error(
-      'INFLOW_API_KEY environment variable is required. ' +
-        'Generate an API key at: inFlow Settings > Integrations > API Keys'
-    );
+  return overrides;
+}
+
+export type SharedSettings = Omit<InflowConfig, 'companyId' | 'apiKey'>;
+
+function loadSharedSettings(): SharedSettings {
+  const recordDir = process.env.INFLOW_RECORD || undefined;
+  const replayDir = process.env.INFLOW_REPLAY || undefined;
+
+  if (recordDir && replayDir) {
+    throw new Error('INFLOW_RECORD and INFLOW_REPLAY cannot be used together');
   }
 
   return {
-    companyId,
-    apiKey,
     baseUrl:
       process.env.INFLOW_BASE_URL || 'https://cloudapi.inflowinventory.com',
     apiVersion: process.env.INFLOW_API_VERSION || '2025-06-24',
@@ -40,6 +73,8 @@ export function loadConfig(): InflowConfig {
       process.env.INFLOW_RATE_LIMIT || '60',
       10
     ),
+    maxConcurrentRequests: parseInt(process.env.INFLOW_MAX_CONCURRENCY || '4', 10),
+    rateLimitStateFile: process.env.INFLOW_RATE_LIMIT_FILE || undefined,
     requestTimeoutMs: parseInt(
       process.env.INFLOW_REQUEST_TIMEOUT || '30000',
       10
@@ -47,5 +82,281 @@ export function loadConfig(): InflowConfig {
     maxRetries: parseInt(process.env.INFLOW_MAX_RETRIES || '3', 10),
     retryDelayMs: parseInt(process.env.INFLOW_RETRY_DELAY || '1000', 10),
     debug: process.env.INFLOW_DEBUG === 'true',
+    cacheTtlMs: parseInt(process.env.INFLOW_CACHE_TTL || '300000', 10),
+    cacheTtlOverrides: parseCacheTtlOverrides(process.env.INFLOW_CACHE_TTLS),
+    recordDir,
+    replayDir,
+    auditLogFile: process.env.INFLOW_AUDIT_LOG || undefined,
+    ...(process.env.INFLOW_AUDIT_LOG_MAX_BYTES
+      ? { auditLogMaxBytes: parseInt(process.env.INFLOW_AUDIT_LOG_MAX_BYTES, 10) }
+      : {}),
+    dryRun: process.env.INFLOW_DRY_RUN === 'true',
+  };
+}
+
+export function loadConfig(): InflowConfig {
+  const shared = loadSharedSettings();
+
+  // Replays never reach inFlow, so credentials are optional offline
+  const companyId = process.env.INFLOW_COMPANY_ID || (shared.replayDir ? 'replay' : undefined);
+  const apiKey = process.env.INFLOW_API_KEY || (shared.replayDir ? 'replay' : undefined);
+
+  if (!companyId) {
+    throw new Error(
+      'INFLOW_COMPANY_ID environment variable is required. ' +
+        'Find your Company ID at: inFlow Settings > Integrations > API Keys'
+    );
+  }
+
+  if (!apiKey) {
+    throw new Error(
+      'INFLOW_API_KEY environment variable is required. ' +
+        'Generate an API key at: inFlow Settings > Integrations > API Keys'
+    );
+  }
+
+  return { ...shared, companyId, apiKey };
+}
+
+// Shape of one entry in the INFLOW_PROFILES file
+export interface ProfileFileEntry {
+  label?: string;
+  companyId?: string;
+  apiKey?: string;
+  // Name of an environment variable holding the API key, to keep secrets out of the file
+  apiKeyEnv?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+  rateLimitPerMinute?: number;
+}
+
+export interface ProfilesFile {
+  default?: string;
+  profiles?: Record<string, ProfileFileEntry>;
+}
+
+export interface CompanyProfile {
+  name: string;
+  label?: string;
+  config: InflowConfig;
+}
+
+export interface ProfilesConfig {
+  defaultProfile: string;
+  profiles: CompanyProfile[];
+}
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+/**
+ * Build profiles from the parsed INFLOW_PROFILES file. Env-level settings
+ * (timeouts, retries, cache) apply to every profile; each profile may
+ * override its credentials, base URL, API version and rate limit.
+ */
+export function parseProfiles(file: ProfilesFile, shared: SharedSettings): ProfilesConfig {
+  const entries = Object.entries(file.profiles ?? {});
+  if (entries.length === 0) {
+    throw new Error('INFLOW_PROFILES must define at least one profile under "profiles"');
+  }
+
+  const profiles = entries.map(([name, entry]): CompanyProfile => {
+    const apiKey =
+      entry.apiKey ||
+      (entry.apiKeyEnv ? process.env[entry.apiKeyEnv] : undefined) ||
+      (shared.replayDir ? 'replay' : undefined);
+
+    if (!entry.companyId) {
+      throw new Error(`Profile "${name}" is missing companyId`);
+    }
+    if (!apiKey) {
+      throw new Error(
+        entry.apiKeyEnv
+          ? `Profile "${name}": environment variable ${entry.apiKeyEnv} is not set`
+          : `Profile "${name}" needs apiKey or apiKeyEnv`
+      );
+    }
+
+    return {
+      name,
+      label: entry.label,
+      config: {
+        ...shared,
+        companyId: entry.companyId,
+        apiKey,
+        baseUrl: entry.baseUrl ?? shared.baseUrl,
+        apiVersion: entry.apiVersion ?? shared.apiVersion,
+        rateLimitPerMinute: entry.rateLimitPerMinute ?? shared.rateLimitPerMinute,
+        // Fixtures from different companies would collide, so each gets a subdirectory
+        recordDir: shared.recordDir && join(shared.recordDir, name),
+        replayDir: shared.replayDir && join(shared.replayDir, name),
+      },
+    };
+  });
+
+  const defaultProfile = file.default ?? profiles[0].name;
+  if (!profiles.some((profile) => profile.name === defaultProfile)) {
+    throw new Error(`INFLOW_PROFILES default "${defaultProfile}" is not a defined profile`);
+  }
+
+  return { defaultProfile, profiles };
+}
+
+/**
+ * Load company profiles. With INFLOW_PROFILES pointing at a JSON profiles
+ * file, every profile in it is loaded; otherwise the single company from
+ * INFLOW_COMPANY_ID / INFLOW_API_KEY becomes the "default" profile.
+ */
+export function loadProfiles(): ProfilesConfig {
+  const profilesPath = process.env.INFLOW_PROFILES;
+  if (!profilesPath) {
+    return {
+      defaultProfile: DEFAULT_PROFILE_NAME,
+      profiles: [{ name: DEFAULT_PROFILE_NAME, config: loadConfig() }],
+    };
+  }
+
+  let file: ProfilesFile;
+  try {
+    file = JSON.parse(readFileSync(profilesPath, 'utf8')) as ProfilesFile;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read INFLOW_PROFILES file ${profilesPath}: ${reason}`);
+  }
+
+  return parseProfiles(file, loadSharedSettings());
+}
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface HttpConfig {
+  host: string;
+  port: number;
+  // Bearer token -> client name; requests must present one of these tokens
+  tokens: Map<string, string>;
+  // Sessions with no request in flight for this long are closed (default: 30 minutes)
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface TransportConfig {
+  mode: TransportMode;
+  http?: HttpConfig;
+}
+
+/**
+ * Parse INFLOW_HTTP_TOKENS: comma-separated tokens, each optionally prefixed
+ * with a client name (`alice=token1,agents=token2`). Unnamed tokens are
+ * identified as `client-1`, `client-2`, ...
+ */
+export function parseHttpTokens(value: string | undefined): Map<string, string> {
+  const tokens = new Map<string, string>();
+  if (!value) return tokens;
+
+  const entries = value.split(',').map((entry) => entry.trim()).filter(Boolean);
+  entries.forEach((entry, index) => {
+    const separator = entry.indexOf('=');
+    const name = separator > 0 ? entry.slice(0, separator).trim() : `client-${index + 1}`;
+    const token = separator > 0 ? entry.slice(separator + 1).trim() : entry;
+    if (!token) {
+      throw new Error(`Invalid INFLOW_HTTP_TOKENS entry "${entry}": token is empty`);
+    }
+    tokens.set(token, name);
+  });
+
+  return tokens;
+}
+
+/**
+ * Choose the transport. stdio is the default; `--http` (or `--transport=http`)
+ * on the command line, or INFLOW_TRANSPORT=http, selects streamable HTTP.
+ */
+export function loadTransportConfig(argv: string[] = process.argv.slice(2)): TransportConfig {
+  const flag = argv.find((arg) => arg === '--http' || arg.startsWith('--transport='));
+  const requested =
+    flag === '--http'
+      ? 'http'
+      : flag?.slice('--transport='.length) ?? process.env.INFLOW_TRANSPORT ?? 'stdio';
+
+  if (requested !== 'stdio' && requested !== 'http') {
+    throw new Error(`Unknown transport "${requested}". Use "stdio" or "http".`);
+  }
+  if (requested === 'stdio') {
+    return { mode: 'stdio' };
+  }
+
+  const tokens = parseHttpTokens(process.env.INFLOW_HTTP_TOKENS);
+  if (tokens.size === 0) {
+    throw new Error(
+      'INFLOW_HTTP_TOKENS is required in HTTP mode. ' +
+        'Set one or more bearer tokens, e.g. INFLOW_HTTP_TOKENS="alice=token1,agents=token2"'
+    );
+  }
+
+  // Number() rather than parseInt, so a typo like "30m" is an error and not 30
+  const port = Number(process.env.INFLOW_HTTP_PORT || '3000');
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Invalid INFLOW_HTTP_PORT "${process.env.INFLOW_HTTP_PORT}": expected a port from 1 to 65535`);
+  }
+  const sessionIdleTimeoutMs = Number(process.env.INFLOW_HTTP_SESSION_IDLE_MS || '1800000');
+  if (!Number.isFinite(sessionIdleTimeoutMs) || sessionIdleTimeoutMs <= 0) {
+    throw new Error(
+      `Invalid INFLOW_HTTP_SESSION_IDLE_MS "${process.env.INFLOW_HTTP_SESSION_IDLE_MS}": expected milliseconds > 0`
+    );
+  }
+
+  return {
+    mode: 'http',
+    http: {
+      host: process.env.INFLOW_HTTP_HOST || '127.0.0.1',
+      port,
+      tokens,
+      sessionIdleTimeoutMs,
+    },
+  };
+}
+
+export interface MetricsConfig {
+  // Prometheus text file rewritten on every interval
+  file: string;
+  intervalMs: number;
+}
+
+/**
+ * INFLOW_METRICS_FILE turns on the periodic Prometheus dump;
+ * INFLOW_METRICS_INTERVAL sets how often it is rewritten (default 15s).
+ */
+export function loadMetricsConfig(): MetricsConfig | undefined {
+  const file = process.env.INFLOW_METRICS_FILE;
+  if (!file) return undefined;
+
+  const intervalMs = parseInt(process.env.INFLOW_METRICS_INTERVAL || '15000', 10);
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    throw new Error(`Invalid INFLOW_METRICS_INTERVAL "${process.env.INFLOW_METRICS_INTERVAL}": expected milliseconds > 0`);
+  }
+  return { file, intervalMs };
+}
+
+export interface ToolPolicy {
+  // Leave out every tool that writes to inFlow
+  readOnly: boolean;
+  // Tool names or groups to register; empty registers everything
+  allow: string[];
+  // Tool names or groups never to register; wins over `allow`
+  deny: string[];
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Which tools to register. `--read-only` (or INFLOW_READ_ONLY=true) drops the
+ * mutating tools; INFLOW_TOOLS_ALLOW and INFLOW_TOOLS_DENY take comma-separated
+ * tool names or groups (`products`, `sales-orders`, `reference`, ...).
+ */
+export function loadToolPolicy(argv: string[] = process.argv.slice(2)): ToolPolicy {
+  return {
+    readOnly: argv.includes('--read-only') || process.env.INFLOW_READ_ONLY === 'true',
+    allow: parseList(process.env.INFLOW_TOOLS_ALLOW),
+    deny: parseList(process.env.INFLOW_TOOLS_DENY),
   };
 }
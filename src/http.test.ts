@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { InflowClientRegistry } from './client/registry.js';
+import { loadTransportConfig, parseHttpTokens } from './config.js';
+import type { InflowConfig } from './config.js';
+import { startHttpServer, type RunningHttpServer } from './http.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { createInflowServer } from './server.js';
+
+const inflowConfig: InflowConfig = {
+  apiKey: 'inflow-key',
+  companyId: 'test-company',
+  baseUrl: 'http://127.0.0.1:9',
+  apiVersion: '2025-06-24',
+  rateLimitPerMinute: 60,
+  maxConcurrentRequests: 4,
+  maxRetries: 0,
+  retryDelayMs: 10,
+  requestTimeoutMs: 1000,
+  debug: false,
+  cacheTtlMs: 0,
+  cacheTtlOverrides: {},
+};
+
+describe('HTTP transport', () => {
+  let http: RunningHttpServer;
+
+  const clients = new InflowClientRegistry({
+    defaultProfile: 'default',
+    profiles: [{ name: 'default', config: inflowConfig }],
+  });
+  const start = () =>
+    startHttpServer(
+      { host: '127.0.0.1', port: 0, tokens: parseHttpTokens('alice=alice-token,bob=bob-token') },
+      () => createInflowServer(clients)
+    );
+
+  beforeEach(async () => {
+    http = await start();
+  });
+
+  afterEach(async () => {
+    await http.close();
+  });
+
+  const connect = async (token: string) => {
+    const client = new Client({ name: 'http-test', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(http.url), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    });
+    await client.connect(transport);
+    return { client, transport };
+  };
+
+  it('serves tools to an authenticated client session', async () => {
+    const { client, transport } = await connect('alice-token');
+
+    expect(transport.sessionId).toBeDefined();
+    expect(http.sessionCount()).toBe(1);
+
+    const result = await client.callTool({ name: 'list_companies', arguments: {} });
+    const [content] = result.content as Array<{ type: string; text: string }>;
+    expect(JSON.parse(content.text)).toMatchObject({ defaultCompany: 'default' });
+
+    await client.close();
+  });
+
+  it('keeps one session per client', async () => {
+    const alice = await connect('alice-token');
+    const bob = await connect('bob-token');
+
+    expect(alice.transport.sessionId).not.toBe(bob.transport.sessionId);
+    expect(http.sessionCount()).toBe(2);
+
+    await alice.client.close();
+    await bob.client.close();
+  });
+
+  it('rejects requests without a valid bearer token', async () => {
+    const response = await fetch(http.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wrong' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toBe('Bearer');
+  });
+
+  it("refuses to let one client use another client's session", async () => {
+    const alice = await connect('alice-token');
+
+    const response = await fetch(http.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: 'Bearer bob-token',
+        'mcp-session-id': alice.transport.sessionId!,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(403);
+
+    await alice.client.close();
+  });
+
+  it('requires an initialize request to open a session', async () => {
+    const response = await fetch(http.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer alice-token' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it('refuses request bodies over the size limit', async () => {
+    const response = await fetch(http.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer alice-token' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: { padding: 'x'.repeat(5 * 1024 * 1024) } }),
+    });
+    expect(response.status).toBe(413);
+    expect(http.sessionCount()).toBe(0);
+  });
+
+  it('closes open sessions on shutdown', async () => {
+    await connect('alice-token');
+    expect(http.sessionCount()).toBe(1);
+
+    await http.close();
+    expect(http.sessionCount()).toBe(0);
+
+    // Restart so afterEach has something to close
+    http = await start();
+  });
+
+  const initialize = (accept: string) =>
+    fetch(http.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: accept, Authorization: 'Bearer alice-token' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'raw', version: '1.0.0' } },
+      }),
+    });
+
+  it('closes sessions that stay idle past the timeout', async () => {
+    await http.close();
+    const servers: McpServer[] = [];
+    http = await startHttpServer(
+      { host: '127.0.0.1', port: 0, tokens: parseHttpTokens('alice=alice-token'), sessionIdleTimeoutMs: 50 },
+      () => {
+        const server = createInflowServer(clients);
+        servers.push(server);
+        return server;
+      }
+    );
+
+    // Opened, then abandoned without a DELETE
+    const response = await initialize('application/json, text/event-stream');
+    await response.text();
+    expect(http.sessionCount()).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(http.sessionCount()).toBe(0);
+    expect(servers[0].isConnected()).toBe(false);
+  });
+
+  it('closes the server of an initialize the transport rejects', async () => {
+    await http.close();
+    const servers: McpServer[] = [];
+    http = await startHttpServer({ host: '127.0.0.1', port: 0, tokens: parseHttpTokens('alice=alice-token') }, () => {
+      const server = createInflowServer(clients);
+      servers.push(server);
+      return server;
+    });
+
+    // Streamable HTTP requires accepting both JSON and SSE
+    const response = await initialize('application/json');
+    expect(response.status).toBe(406);
+    expect(http.sessionCount()).toBe(0);
+    expect(servers).toHaveLength(1);
+    expect(servers[0].isConnected()).toBe(false);
+  });
+});
+
+describe('loadTransportConfig', () => {
+  afterEach(() => {
+    delete process.env.INFLOW_TRANSPORT;
+    delete process.env.INFLOW_HTTP_TOKENS;
+    delete process.env.INFLOW_HTTP_PORT;
+    delete process.env.INFLOW_HTTP_SESSION_IDLE_MS;
+  });
+
+  it('defaults to stdio', () => {
+    expect(loadTransportConfig([])).toEqual({ mode: 'stdio' });
+  });
+
+  it('selects HTTP from the CLI flag or env and requires tokens', () => {
+    expect(() => loadTransportConfig(['--http'])).toThrow(/INFLOW_HTTP_TOKENS is required/);
+
+    process.env.INFLOW_HTTP_TOKENS = 'shared-token';
+    process.env.INFLOW_HTTP_PORT = '8080';
+    expect(loadTransportConfig(['--transport=http'])).toMatchObject({
+      mode: 'http',
+      http: { host: '127.0.0.1', port: 8080 },
+    });
+
+    process.env.INFLOW_TRANSPORT = 'http';
+    const config = loadTransportConfig([]);
+    expect(config.http?.tokens.get('shared-token')).toBe('client-1');
+  });
+
+  it('rejects ports and idle timeouts that are not positive numbers', () => {
+    process.env.INFLOW_HTTP_TOKENS = 'shared-token';
+    for (const port of ['0', '-1', '80a', '70000']) {
+      process.env.INFLOW_HTTP_PORT = port;
+      expect(() => loadTransportConfig(['--http'])).toThrow(/Invalid INFLOW_HTTP_PORT/);
+    }
+    delete process.env.INFLOW_HTTP_PORT;
+
+    for (const idle of ['0', '-5', '30m']) {
+      process.env.INFLOW_HTTP_SESSION_IDLE_MS = idle;
+      expect(() => loadTransportConfig(['--http'])).toThrow(/Invalid INFLOW_HTTP_SESSION_IDLE_MS/);
+    }
+    process.env.INFLOW_HTTP_SESSION_IDLE_MS = '60000';
+    expect(loadTransportConfig(['--http']).http?.sessionIdleTimeoutMs).toBe(60000);
+  });
+
+  it('rejects unknown transports', () => {
+    expect(() => loadTransportConfig(['--transport=websocket'])).toThrow(/Unknown transport/);
+  });
+});
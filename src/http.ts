@@ -0,0 +1,273 @@
+// Streamable HTTP transport for inFlow MCP Server
+//
+// Serves MCP over a single /mcp endpoint (POST for requests, GET for the SSE
+// notification stream, DELETE to end a session). Every request must carry one
+// of the configured bearer tokens. Each session gets its own McpServer and
+// transport; all sessions share the company clients, so rate limits hold
+// across every connected user. Sessions that go idle (no request in flight,
+// including the SSE stream, for `sessionIdleTimeoutMs`) are closed, so clients
+// that vanish without a DELETE don't leak their server.
+
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import type { HttpConfig } from './config.js';
+
+export const MCP_PATH = '/mcp';
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+// Upper bound on how long an idle session can outlive its timeout
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+// JSON-RPC messages are small; anything bigger is refused with 413
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  clientId: string;
+  // Requests (including open SSE streams) not yet finished
+  inFlight: number;
+  lastActivity: number;
+}
+
+export interface RunningHttpServer {
+  server: Server;
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) throw new BodyTooLargeError();
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new BodyTooLargeError();
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Match the Authorization header against the configured tokens, comparing in
+ * constant time so response timing doesn't leak token prefixes.
+ */
+function authenticate(req: IncomingMessage, tokens: Map<string, string>): AuthInfo | undefined {
+  const header = req.headers.authorization;
+  const match = header ? /^Bearer\s+(.+)$/i.exec(header) : null;
+  if (!match) return undefined;
+
+  const presented = Buffer.from(match[1].trim());
+  for (const [token, clientId] of tokens) {
+    const expected = Buffer.from(token);
+    if (expected.length === presented.length && timingSafeEqual(expected, presented)) {
+      return { token, clientId, scopes: [] };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Start the HTTP transport. `createMcpServer` builds a fresh McpServer for each
+ * new session.
+ */
+export async function startHttpServer(
+  config: HttpConfig,
+  createMcpServer: () => McpServer
+): Promise<RunningHttpServer> {
+  const sessions = new Map<string, Session>();
+  const idleTimeoutMs = config.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  // Count a request against its session until the response is done
+  const track = (session: Session, res: ServerResponse) => {
+    session.inFlight++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.inFlight--;
+      session.lastActivity = Date.now();
+    });
+  };
+
+  const closeServer = (server: McpServer) =>
+    server.close().catch((error: unknown) => {
+      console.error('Failed to close MCP session:', error);
+    });
+
+  const handle = async (req: IncomingMessage & { auth?: AuthInfo }, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      return;
+    }
+
+    if (url.pathname !== MCP_PATH) {
+      sendJsonRpcError(res, 404, `Not found: ${url.pathname}`);
+      return;
+    }
+
+    const auth = authenticate(req, config.tokens);
+    if (!auth) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, 'Missing or invalid bearer token');
+      return;
+    }
+    req.auth = auth;
+
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (sessionId && !existing) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    // A session belongs to the client that opened it
+    if (existing && existing.clientId !== auth.clientId) {
+      sendJsonRpcError(res, 403, 'Session belongs to another client');
+      return;
+    }
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        if (error instanceof BodyTooLargeError) {
+          // Don't read the rest of it
+          res.setHeader('Connection', 'close');
+          sendJsonRpcError(res, 413, error.message);
+          return;
+        }
+        sendJsonRpcError(res, 400, 'Request body is not valid JSON');
+        return;
+      }
+
+      if (existing) {
+        track(existing, res);
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (!isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, 'No session: send an initialize request first');
+        return;
+      }
+
+      const server = createMcpServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          const session: Session = {
+            transport,
+            server,
+            clientId: auth.clientId,
+            inFlight: 0,
+            lastActivity: Date.now(),
+          };
+          sessions.set(id, session);
+          track(session, res);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+
+      try {
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+      } finally {
+        // An initialize the transport rejected never became a session; close
+        // its server so nothing it registered (e.g. write listeners) lingers
+        if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+          await closeServer(server);
+        }
+      }
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendJsonRpcError(res, 400, 'Missing mcp-session-id header');
+        return;
+      }
+      track(existing, res);
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    sendJsonRpcError(res, 405, `Method ${req.method} not allowed`);
+  };
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      console.error('HTTP transport error:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.inFlight > 0 || session.lastActivity > cutoff) continue;
+      sessions.delete(id);
+      void closeServer(session.server);
+    }
+  }, Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS));
+  sweep.unref();
+
+  const address = httpServer.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    server: httpServer,
+    url: `http://${host}:${address.port}${MCP_PATH}`,
+    sessionCount: () => sessions.size,
+    // Graceful shutdown: stop accepting connections, end every session
+    // (closing open SSE streams), then wait for the listener to finish.
+    close: async () => {
+      clearInterval(sweep);
+      const closed = new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+      });
+      await Promise.allSettled([...sessions.values()].map(({ server }) => server.close()));
+      sessions.clear();
+      httpServer.closeIdleConnections();
+      await closed;
+    },
+  };
+}
@@ -18,56 +18,116 @@ import 'dotenv/config';
  *   INFLOW_BASE_URL      - API base URL (default: https://cloudapi.inflowinventory.com)
  *   INFLOW_API_VERSION   - API version (default: 2025-06-24)
  *   INFLOW_RATE_LIMIT    - Requests per minute (default: 60)
+ *   INFLOW_MAX_CONCURRENCY - Requests in flight at once per company (default: 4)
+ *   INFLOW_RATE_LIMIT_FILE - Share the rate-limit budget across processes via this file
+ *   INFLOW_RECORD        - Directory to record HTTP fixtures into
+ *   INFLOW_REPLAY        - Directory to replay HTTP fixtures from (offline mode)
+ *   INFLOW_PROFILES      - JSON file of named company profiles; replaces
+ *                          INFLOW_COMPANY_ID / INFLOW_API_KEY when set
+ *   INFLOW_AUDIT_LOG     - Append a JSONL audit entry for every write made by a tool
+ *   INFLOW_AUDIT_LOG_MAX_BYTES - Rotate the audit log past this size (default: 10 MiB)
+ *   INFLOW_DRY_RUN       - Mutating tools return the write they would make instead of sending it
+ *
+ * Transport (stdio by default):
+ *   --http / --transport=http, or INFLOW_TRANSPORT=http - serve streamable HTTP
+ *   INFLOW_HTTP_HOST     - Interface to bind (default: 127.0.0.1)
+ *   INFLOW_HTTP_PORT     - Port to listen on (default: 3000)
+ *   INFLOW_HTTP_TOKENS   - Required in HTTP mode: bearer tokens, optionally
+ *                          named (alice=token1,agents=token2)
+ *   INFLOW_HTTP_SESSION_IDLE_MS - Close HTTP sessions idle this long (default: 1800000)
+ *
+ * Tool selection:
+ *   --read-only, or INFLOW_READ_ONLY=true - leave out every tool that writes to inFlow
+ *   INFLOW_TOOLS_ALLOW   - Only register these tools or groups (comma-separated)
+ *   INFLOW_TOOLS_DENY    - Never register these tools or groups (comma-separated)
+ *
+ * Metrics:
+ *   INFLOW_METRICS_FILE     - Write Prometheus text metrics to this file
+ *   INFLOW_METRICS_INTERVAL - Rewrite interval in ms (default: 15000)
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 
-import { loadConfig } from './config.js';
-import { InflowClient } from './client/inflow.js';
-import { registerProductTools } from './tools/products.js';
-import { registerSalesOrderTools } from './tools/sales-orders.js';
-import { registerPurchaseOrderTools } from './tools/purchase-orders.js';
-import { registerCustomerTools } from './tools/customers.js';
-import { registerInventoryTools } from './tools/inventory.js';
-import { registerManufacturingOrderTools } from './tools/manufacturing-orders.js';
-import { registerReferenceTools } from './tools/reference.js';
-import { registerSerialTools } from './tools/serials.js';
+import { loadMetricsConfig, loadProfiles, loadToolPolicy, loadTransportConfig } from './config.js';
+import { InflowClientRegistry } from './client/registry.js';
+import { createInflowServer, validateToolPolicy } from './server.js';
+import { startHttpServer } from './http.js';
+import { startMetricsDump } from './metrics.js';
 
 async function main(): Promise<void> {
-  // Load configuration from environment variables
-  const config = loadConfig();
-
-  // Create the inFlow API client
-  const client = new InflowClient(config);
-
-  // Create the MCP server
-  const server = new McpServer({
-    name: 'inflow-inventory',
-    version: '1.0.0',
-  });
-
-  // Register all tool groups
-  registerProductTools(server, client);
-  registerSalesOrderTools(server, client);
-  registerPurchaseOrderTools(server, client);
-  registerCustomerTools(server, client);
-  registerInventoryTools(server, client);
-  registerManufacturingOrderTools(server, client);
-  registerReferenceTools(server, client);
-  registerSerialTools(server, client);
-
-  // Set up the stdio transport
-  const transport = new StdioServerTransport();
-
-  // Connect and start the server
-  await server.connect(transport);
-
-  // Log startup message to stderr (stdout is reserved for MCP communication)
-  console.error('inFlow Inventory MCP Server started');
-  console.error(`Company ID: ${config.companyId}`);
-  console.error(`API Version: ${config.apiVersion}`);
-  console.error(`Rate Limit: ${config.rateLimitPerMinute} req/min`);
+  // Load company profiles and transport selection from environment/CLI
+  const profiles = loadProfiles();
+  const transportConfig = loadTransportConfig();
+  const metricsConfig = loadMetricsConfig();
+  const toolPolicy = loadToolPolicy();
+
+  // Create one inFlow API client per company profile
+  const clients = new InflowClientRegistry(profiles);
+
+  const metricsDump = metricsConfig ? startMetricsDump(clients, metricsConfig) : undefined;
+
+  if (transportConfig.mode === 'http' && transportConfig.http) {
+    // Sessions build their servers lazily; check the tool policy now so a bad one fails at startup
+    validateToolPolicy(clients, toolPolicy);
+
+    // One McpServer per HTTP session, all sharing the same clients
+    const httpServer = await startHttpServer(transportConfig.http, () =>
+      createInflowServer(clients, toolPolicy)
+    );
+
+    let shuttingDown = false;
+    const shutdown = (signal: string) => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+      console.error(`Received ${signal}, closing ${httpServer.sessionCount()} session(s)...`);
+      metricsDump?.stop();
+      httpServer
+        .close()
+        .then(() => process.exit(0))
+        .catch((error) => {
+          console.error('Error during shutdown:', error);
+          process.exit(1);
+        });
+    };
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+    console.error(`inFlow Inventory MCP Server listening on ${httpServer.url}`);
+    console.error(`Authorized clients: ${[...new Set(transportConfig.http.tokens.values())].join(', ')}`);
+  } else {
+    // Set up the stdio transport
+    const server = createInflowServer(clients, toolPolicy);
+    const transport = new StdioServerTransport();
+
+    // Connect and start the server
+    await server.connect(transport);
+
+    // Log startup message to stderr (stdout is reserved for MCP communication)
+    console.error('inFlow Inventory MCP Server started');
+  }
+
+  if (toolPolicy.readOnly) {
+    console.error('Read-only mode: tools that write to inFlow are disabled');
+  }
+  if (metricsConfig) {
+    console.error(`Writing Prometheus metrics to ${metricsConfig.file} every ${metricsConfig.intervalMs}ms`);
+  }
+
+  for (const { name, config } of profiles.profiles) {
+    const marker = name === profiles.defaultProfile ? ' (default)' : '';
+    console.error(`Company ${name}${marker}: ${config.companyId}`);
+    console.error(`  API Version: ${config.apiVersion}`);
+    console.error(`  Rate Limit: ${config.rateLimitPerMinute} req/min`);
+    if (config.recordDir) {
+      console.error(`  Recording HTTP fixtures to: ${config.recordDir}`);
+    }
+    if (config.replayDir) {
+      console.error(`  Replaying HTTP fixtures from: ${config.replayDir} (no network access)`);
+    }
+    if (config.dryRun) {
+      console.error('  Dry run: mutating tools preview their writes without sending them');
+    }
+  }
 }
 
 main().catch((error) => {
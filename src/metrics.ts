@@ -0,0 +1,45 @@
+// Periodic Prometheus dump of inFlow client metrics
+//
+// Writes the stats for every company profile to a text file that a node
+// exporter textfile collector (or anything else) can scrape. The file is
+// written to a temp path and renamed so readers never see a partial dump.
+
+import { mkdirSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+import type { InflowClientRegistry } from './client/registry.js';
+import { formatPrometheus } from './client/metrics.js';
+import type { MetricsConfig } from './config.js';
+
+export interface MetricsDump {
+  /** Write the file now, outside the interval. */
+  flush(): void;
+  stop(): void;
+}
+
+export function startMetricsDump(clients: InflowClientRegistry, config: MetricsConfig): MetricsDump {
+  mkdirSync(dirname(config.file), { recursive: true });
+
+  const flush = () => {
+    const tmp = `${config.file}.${process.pid}.tmp`;
+    writeFileSync(tmp, formatPrometheus(clients.stats()));
+    renameSync(tmp, config.file);
+  };
+
+  const timer = setInterval(() => {
+    try {
+      flush();
+    } catch (error) {
+      console.error('Failed to write metrics file:', error);
+    }
+  }, config.intervalMs);
+  // The dump alone shouldn't keep the process alive
+  timer.unref();
+
+  flush();
+
+  return {
+    flush,
+    stop: () => clearInterval(timer),
+  };
+}
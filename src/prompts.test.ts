@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { InflowClientRegistry } from './client/registry.js';
+import type { InflowConfig, ToolPolicy } from './config.js';
+import { createInflowServer } from './server.js';
+
+const inflowConfig: InflowConfig = {
+  apiKey: 'inflow-key',
+  companyId: 'test-company',
+  baseUrl: 'http://127.0.0.1:9',
+  apiVersion: '2025-06-24',
+  rateLimitPerMinute: 60,
+  maxConcurrentRequests: 4,
+  maxRetries: 0,
+  retryDelayMs: 10,
+  requestTimeoutMs: 1000,
+  debug: false,
+  cacheTtlMs: 0,
+  cacheTtlOverrides: {},
+};
+
+const clients = new InflowClientRegistry({
+  defaultProfile: 'default',
+  profiles: [{ name: 'default', config: inflowConfig }],
+});
+
+async function connect(policy: Partial<ToolPolicy> = {}): Promise<Client> {
+  const server = createInflowServer(clients, { readOnly: false, allow: [], deny: [], ...policy });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: 'prompts-test', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+async function promptText(client: Client, name: string, args: Record<string, string>): Promise<string> {
+  const { messages } = await client.getPrompt({ name, arguments: args });
+  const [message] = messages;
+  return message.content.type === 'text' ? message.content.text : '';
+}
+
+describe('workflow prompts', () => {
+  it('guides receiving through a dry run and confirmation', async () => {
+    const client = await connect();
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name).sort()).toEqual([
+      'build_reorder_list',
+      'create_work_order_from_bom',
+      'receive_against_packing_list',
+      'trace_serial_number',
+    ]);
+
+    const text = await promptText(client, 'receive_against_packing_list', {
+      purchaseOrder: 'PO-000001',
+      packingList: 'WID-001 x 5',
+      company: 'sandbox',
+    });
+    expect(text).toContain('pass company: "sandbox"');
+    expect(text).toContain('WID-001 x 5');
+    expect(text).toMatch(/get_purchase_order with purchaseOrderId "PO-000001"[\s\S]*dryRun: true[\s\S]*without dryRun/);
+    await client.close();
+  });
+
+  it('leaves out prompts and steps whose tools the policy removed', async () => {
+    const client = await connect({ readOnly: true });
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name).sort()).toEqual(['build_reorder_list', 'trace_serial_number']);
+
+    const text = await promptText(client, 'build_reorder_list', {});
+    expect(text).toContain('get_inventory_summaries_batch');
+    expect(text).not.toContain('upsert_purchase_order');
+    await client.close();
+  });
+});
@@ -0,0 +1,164 @@
+// MCP prompts for common inventory workflows
+//
+// Each prompt walks the assistant through an existing sequence of tools, with
+// the checks that keep it from writing the wrong thing: read before writing,
+// show discrepancies, preview with dryRun, and wait for the user's go-ahead.
+// A prompt is only offered when the tool policy registered the tools it needs.
+
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+
+const companyPromptArg = z
+  .string()
+  .optional()
+  .describe('Company profile to work in (see list_companies). Defaults to the default company.');
+
+function userMessage(text: string): GetPromptResult {
+  return { messages: [{ role: 'user', content: { type: 'text', text } }] };
+}
+
+/** Join prompt steps into a numbered list, dropping the ones that don't apply. */
+function steps(...items: Array<string | false | undefined>): string {
+  return items
+    .filter((item): item is string => Boolean(item))
+    .map((item, index) => `${index + 1}. ${item}`)
+    .join('\n');
+}
+
+function companyLine(company: string | undefined): string {
+  return company ? `Work in company "${company}": pass company: "${company}" to every tool call.\n\n` : '';
+}
+
+/**
+ * Register the workflow prompts. `isToolAvailable` reports whether a tool is
+ * registered on this server; prompts that need a missing tool are left out,
+ * and optional steps that need one are dropped.
+ */
+export function registerPrompts(server: McpServer, isToolAvailable: (tool: string) => boolean): void {
+  const available = (...tools: string[]) => tools.every(isToolAvailable);
+
+  if (available('get_purchase_order', 'receive_purchase_order')) {
+    server.registerPrompt(
+      'receive_against_packing_list',
+      {
+        title: 'Receive a purchase order against a packing list',
+        description:
+          'Check a vendor packing list against a purchase order, confirm discrepancies with the user, then receive it',
+        argsSchema: {
+          purchaseOrder: z.string().describe('Purchase order ID or order number'),
+          packingList: z
+            .string()
+            .describe('The packing list: one SKU (or product name) and quantity per line, plus serial numbers if listed'),
+          location: z.string().optional().describe('Location to receive into (ID or name); defaults to the order\'s'),
+          company: companyPromptArg,
+        },
+      },
+      ({ purchaseOrder, packingList, location, company }) =>
+        userMessage(
+          `${companyLine(company)}Receive purchase order "${purchaseOrder}" against this packing list:\n\n` +
+            `<packing_list>\n${packingList}\n</packing_list>\n\n` +
+            steps(
+              `Call get_purchase_order with purchaseOrderId "${purchaseOrder}" and include ["lines", "lines.product"]. Stop and tell the user if it is cancelled or already fully received.`,
+              `Match every packing-list entry to an order line by SKU, barcode or product name${isToolAvailable('list_products') ? ' (use list_products with smart search for entries you can\'t place)' : ''}. Never receive a product that isn't on the order.`,
+              'For each line, work out what is still outstanding: the ordered quantity minus what its existing receiveLines already received.',
+              'Flag every discrepancy: packed more than outstanding (over-receipt), packed less (short shipment), entries not on the order, and serial-tracked products (trackSerials) whose serial numbers are missing or don\'t match the quantity.',
+              'Show the user a table of product, ordered, already received, packed, to receive and discrepancy. Wait for explicit confirmation. Only pass allowOverReceive: true if the user approves each over-receipt.',
+              `Call receive_purchase_order with the confirmed items (productId, quantity, serialNumbers)${location ? `, locationId "${location}"` : ''} and dryRun: true. Check the preview receives exactly the confirmed items.`,
+              'Call receive_purchase_order again with the same arguments and without dryRun.',
+              'Read the order back with get_purchase_order and report what was received and what is still outstanding.',
+              isToolAvailable('unreceive_purchase_order') &&
+                'If a receipt turns out to be wrong, reverse it with unreceive_purchase_order, previewing with dryRun: true first.'
+            )
+        )
+    );
+  }
+
+  if (available('list_products', 'get_inventory_summaries_batch')) {
+    server.registerPrompt(
+      'build_reorder_list',
+      {
+        title: 'Build a reorder list',
+        description: 'Find active products at or below their reorder point and suggest quantities to order',
+        argsSchema: {
+          location: z.string().optional().describe('Only consider stock at this location (ID or name)'),
+          category: z.string().optional().describe('Only consider products in this category (name)'),
+          company: companyPromptArg,
+        },
+      },
+      ({ location, category, company }) =>
+        userMessage(
+          `${companyLine(company)}Build a reorder list${category ? ` for category "${category}"` : ''}${location ? ` at location "${location}"` : ''}.\n\n` +
+            steps(
+              `Call list_products with isActive: true and fetchAll: true${category ? ` and categoryName "${category}"` : ''}. Keep the products that have a reorderPoint; note their reorderQuantity and cost.`,
+              `Call get_inventory_summaries_batch for those products, at most 100 productIds per call${location ? ', with include ["locationSummaries"]' : ''}.`,
+              `A product needs reordering when its quantityAvailable${location ? ` at "${location}"` : ''} plus quantityOnOrder is at or below its reorderPoint. Don't count stock already on order twice.`,
+              'Suggest ordering its reorderQuantity, or enough to get back above the reorder point when it has none.',
+              'Show the user a table of SKU, name, available, on order, reorder point, suggested quantity and estimated cost (cost × quantity), most urgent first. Make no changes.',
+              isToolAvailable('upsert_purchase_order') &&
+                'If the user asks for purchase orders, ask which vendor supplies each product, then for each vendor call upsert_purchase_order with dryRun: true, show the preview, and create it only after the user confirms.'
+            )
+        )
+    );
+  }
+
+  if (available('get_bill_of_materials', 'get_inventory_summaries_batch', 'upsert_manufacturing_order')) {
+    server.registerPrompt(
+      'create_work_order_from_bom',
+      {
+        title: 'Create a work order from a bill of materials',
+        description: 'Check component stock against a product\'s BOM, then create a manufacturing order for it',
+        argsSchema: {
+          product: z.string().describe('Product to manufacture (ID, SKU, barcode or name)'),
+          quantity: z.string().describe('Quantity to manufacture'),
+          location: z.string().optional().describe('Location to build at (ID or name)'),
+          company: companyPromptArg,
+        },
+      },
+      ({ product, quantity, location, company }) =>
+        userMessage(
+          `${companyLine(company)}Create a manufacturing order for ${quantity} × "${product}"${location ? ` at location "${location}"` : ''}.\n\n` +
+            steps(
+              `Call get_bill_of_materials with productId "${product}". Stop and tell the user if the product isn't manufacturable or its BOM is empty.`,
+              `Work out each component's requirement: its BOM quantity × ${quantity}.`,
+              `Call get_inventory_summaries_batch for the components${location ? ' with include ["locationSummaries"], and use the quantities at that location' : ''}. A component is short when its quantityAvailable is below the requirement.`,
+              'Show the user a table of component, required, available and shortfall. If anything is short, ask whether to build anyway, build fewer, or stop.',
+              'If the finished product tracks serials, ask the user for the output serial numbers; their count must equal the quantity.',
+              `Call upsert_manufacturing_order with outputProductId, outputQuantity, inputItems (productId and required quantity per component)${location ? `, locationId "${location}"` : ''}, any outputSerialNumbers, and dryRun: true. Check the preview against the table.`,
+              'After the user confirms, call upsert_manufacturing_order again without dryRun.',
+              `Report the new order number${isToolAvailable('get_manufacturing_order') ? ', reading the order back with get_manufacturing_order' : ''}.`
+            )
+        )
+    );
+  }
+
+  if (available('get_product_serials', 'list_all_serials', 'search_serial_number')) {
+    server.registerPrompt(
+      'trace_serial_number',
+      {
+        title: 'Trace a serial number',
+        description: 'Find where a serial number is now and which orders it moved through',
+        argsSchema: {
+          serialNumber: z.string().describe('The serial number to trace'),
+          product: z.string().optional().describe('The product it belongs to (ID, SKU, barcode or name), if known'),
+          company: companyPromptArg,
+        },
+      },
+      ({ serialNumber, product, company }) =>
+        userMessage(
+          `${companyLine(company)}Trace serial number "${serialNumber}". This is read-only: make no changes.\n\n` +
+            steps(
+              product
+                ? `Call get_product_serials with productId "${product}" and find "${serialNumber}" in the result.`
+                : `Call list_all_serials to find which product "${serialNumber}" belongs to.`,
+              'Note whether it is in stock (quantityOnHand > 0), and if so at which location and sublocation.',
+              `Call search_serial_number with serialNumber "${serialNumber}" to find the sales order that shipped it${isToolAvailable('get_sales_order') ? ', then get_sales_order for the customer and dates' : ''}.`,
+              isToolAvailable('list_purchase_orders') &&
+                isToolAvailable('get_purchase_order_serials') &&
+                'To find where it came from, call list_purchase_orders for orders of that product and get_purchase_order_serials on each until the serial turns up, newest first.',
+              'Report a timeline: received, current location or shipped, and to whom. Say plainly which steps found nothing; a serial can be missing from an order when it was entered elsewhere.'
+            )
+        )
+    );
+  }
+}
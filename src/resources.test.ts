@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { InflowClientRegistry } from './client/registry.js';
+import type { InflowConfig } from './config.js';
+import { createInflowServer } from './server.js';
+import { resourcesForWrite } from './resources.js';
+import { startSimulator, type RunningSimulator } from './simulator/server.js';
+import { createDefaultSeed, SEED_IDS } from './simulator/seed.js';
+
+describe('resources', () => {
+  let simulator: RunningSimulator;
+  let mcpClient: Client;
+  let clients: InflowClientRegistry;
+
+  beforeEach(async () => {
+    simulator = await startSimulator(0, { seed: createDefaultSeed() });
+    const inflowConfig: InflowConfig = {
+      apiKey: 'sim-key',
+      companyId: 'sim-company',
+      baseUrl: simulator.url,
+      apiVersion: '2025-06-24',
+      rateLimitPerMinute: 6000,
+      maxConcurrentRequests: 4,
+      maxRetries: 0,
+      retryDelayMs: 10,
+      requestTimeoutMs: 5000,
+      debug: false,
+      cacheTtlMs: 0,
+      cacheTtlOverrides: {},
+    };
+    clients = new InflowClientRegistry({
+      defaultProfile: 'default',
+      profiles: [
+        { name: 'default', config: inflowConfig },
+        { name: 'second-key', config: { ...inflowConfig, apiKey: 'sim-key' } },
+      ],
+    });
+    const server = createInflowServer(clients);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    mcpClient = new Client({ name: 'resources-test', version: '1.0.0' });
+    await mcpClient.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+    await simulator.close();
+  });
+
+  async function readJson(uri: string): Promise<any> {
+    const { contents } = await mcpClient.readResource({ uri });
+    const [content] = contents;
+    expect(content).toMatchObject({ uri, mimeType: 'application/json' });
+    return JSON.parse('text' in content ? content.text : '');
+  }
+
+  it('lists and reads records, by ID or by name', async () => {
+    const { resources } = await mcpClient.listResources();
+    const uris = resources.map((resource) => resource.uri);
+    expect(uris).toContain(`inflow://products/${SEED_IDS.widget}`);
+    expect(uris).toContain(`inflow://sales-orders/${SEED_IDS.salesOrder}`);
+    expect(uris).toContain(`inflow://purchase-orders/${SEED_IDS.purchaseOrder}`);
+    expect(uris).toContain('inflow://locations');
+    expect(uris).toContain('inflow://custom-fields/SalesOrder');
+
+    expect(await readJson(`inflow://products/${SEED_IDS.widget}`)).toMatchObject({ sku: 'WID-001' });
+    expect(await readJson('inflow://products/WID-001')).toMatchObject({ productId: SEED_IDS.widget });
+    expect(await readJson('inflow://sales-orders/SO-000001')).toMatchObject({
+      salesOrderId: SEED_IDS.salesOrder,
+      lines: expect.any(Array),
+    });
+    const locations = await readJson('inflow://locations');
+    expect(locations.map((location: { name: string }) => location.name)).toContain('Main Warehouse');
+    await expect(mcpClient.readResource({ uri: 'inflow://custom-fields/Nope' })).rejects.toThrow(/Unknown entity type/);
+  });
+
+  it('notifies subscribers when a tool writes a subscribed record', async () => {
+    const updated: string[] = [];
+    mcpClient.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      updated.push(notification.params.uri);
+    });
+    const widget = `inflow://products/${SEED_IDS.widget}`;
+    await mcpClient.subscribeResource({ uri: widget });
+
+    await mcpClient.callTool({ name: 'upsert_product', arguments: { id: SEED_IDS.widget, name: 'Widget' } });
+    await mcpClient.callTool({ name: 'upsert_product', arguments: { id: SEED_IDS.gadget, name: 'Gadget' } });
+    await vi.waitFor(() => expect(updated).toEqual([widget]));
+
+    await mcpClient.unsubscribeResource({ uri: widget });
+    await mcpClient.callTool({ name: 'upsert_product', arguments: { id: SEED_IDS.widget, name: 'Widget' } });
+    // Round-trip once more so a stray notification would have arrived
+    await mcpClient.listResources();
+    expect(updated).toEqual([widget]);
+  });
+
+  it('notifies for writes made through any company profile, but not for reads sent as POST', async () => {
+    const updated: string[] = [];
+    mcpClient.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      updated.push(notification.params.uri);
+    });
+    const writes: string[] = [];
+    const stop = clients.onWrite((event, company) => writes.push(`${company} ${event.method} ${event.path}`));
+    const widget = `inflow://products/${SEED_IDS.widget}`;
+    await mcpClient.subscribeResource({ uri: widget });
+
+    const summary = await mcpClient.callTool({
+      name: 'get_inventory_summaries_batch',
+      arguments: { productIds: [SEED_IDS.widget] },
+    });
+    expect(summary.isError).toBeFalsy();
+    await mcpClient.callTool({
+      name: 'upsert_product',
+      arguments: { id: SEED_IDS.widget, name: 'Widget', company: 'second-key' },
+    });
+    await vi.waitFor(() => expect(updated).toEqual([widget]));
+    expect(writes).toEqual(['second-key PUT /products']);
+    stop();
+  });
+
+  it('maps writes to the records and line products they change', () => {
+    expect(
+      resourcesForWrite({
+        method: 'PUT',
+        path: '/purchase-orders',
+        body: { purchaseOrderId: 'po-1', lines: [{ productId: 'p-1' }, { productId: 'p-2' }] },
+      })
+    ).toEqual(['inflow://purchase-orders/po-1', 'inflow://products/p-1', 'inflow://products/p-2']);
+    expect(resourcesForWrite({ method: 'POST', path: '/products/summary', body: [] })).toEqual([]);
+  });
+});
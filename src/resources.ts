@@ -0,0 +1,286 @@
+// MCP resources for inFlow MCP Server
+//
+// Exposes products, sales and purchase orders, locations and custom field
+// definitions of the default company as read-only resources a client can
+// attach to a conversation. Clients may subscribe to a resource URI: writes
+// made through this server (from any session or company profile) that touch
+// the record send notifications/resources/updated. Changes made in inFlow
+// itself are only seen when the resource is read again.
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import type { WriteEvent } from './client/inflow.js';
+import type { InflowClientRegistry } from './client/registry.js';
+import type { EntityKind } from './client/resolver.js';
+import { endpointRoot } from './client/cache.js';
+import type {
+  CustomFieldDefinition,
+  CustomFieldEntityType,
+  Location,
+  Product,
+  PurchaseOrder,
+  SalesOrder,
+} from './types/inflow.js';
+
+// Records listed per resource template; the rest are reachable by URI
+const RESOURCE_LIST_LIMIT = 50;
+
+export const CUSTOM_FIELD_ENTITY_TYPES: readonly CustomFieldEntityType[] = [
+  'Product',
+  'Customer',
+  'Vendor',
+  'SalesOrder',
+  'PurchaseOrder',
+  'StockAdjustment',
+  'StockTransfer',
+  'ManufacturingOrder',
+];
+
+// Write endpoint -> resource URI prefix and the ID field of its records
+const RECORD_RESOURCES: Record<string, { prefix: string; idField: string }> = {
+  '/products': { prefix: 'inflow://products/', idField: 'productId' },
+  '/sales-orders': { prefix: 'inflow://sales-orders/', idField: 'salesOrderId' },
+  '/purchase-orders': { prefix: 'inflow://purchase-orders/', idField: 'purchaseOrderId' },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function jsonContents(uri: URL, value: unknown): ReadResourceResult {
+  return {
+    contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }],
+  };
+}
+
+/** A URI template variable, decoded; templates here never explode lists. */
+function variable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * URIs of the resources a successful write changes: the record itself, the
+ * products on its lines (their stock moves with orders, adjustments and
+ * transfers), locations, and custom field definitions of one entity type.
+ */
+export function resourcesForWrite(event: WriteEvent): string[] {
+  const root = endpointRoot(event.path);
+  const uris = new Set<string>();
+
+  const record = RECORD_RESOURCES[root];
+  if (record) {
+    for (const source of [event.response, event.body]) {
+      const id = isPlainObject(source) ? source[record.idField] : undefined;
+      if (typeof id === 'string' && id) {
+        uris.add(`${record.prefix}${id}`);
+        break;
+      }
+    }
+  }
+
+  const lines = isPlainObject(event.body) ? event.body.lines : undefined;
+  if (Array.isArray(lines)) {
+    for (const line of lines) {
+      if (isPlainObject(line) && typeof line.productId === 'string' && line.productId) {
+        uris.add(`inflow://products/${line.productId}`);
+      }
+    }
+  }
+
+  if (root === '/locations') uris.add('inflow://locations');
+  if (root === '/custom-field-definitions') {
+    const entityType = isPlainObject(event.body) ? event.body.entityType : undefined;
+    const types = typeof entityType === 'string' ? [entityType] : CUSTOM_FIELD_ENTITY_TYPES;
+    for (const type of types) uris.add(`inflow://custom-fields/${type}`);
+  }
+
+  return [...uris];
+}
+
+export function registerResources(server: McpServer, clients: InflowClientRegistry): void {
+  // Resources always read the default company; URIs carry no company
+  const client = () => clients.get();
+  const resolve = (kind: EntityKind, reference: string, field: string) =>
+    clients.resolver().resolve(kind, reference, field);
+
+  server.registerResource(
+    'product',
+    new ResourceTemplate('inflow://products/{productId}', {
+      list: async () => {
+        const products = await client().getList<Product>('/products', {
+          pagination: { count: RESOURCE_LIST_LIMIT },
+          sort: 'name',
+        });
+        return {
+          resources: products.data
+            .filter((product) => product.productId)
+            .map((product) => ({
+              uri: `inflow://products/${product.productId}`,
+              name: product.name,
+              ...(product.sku ? { description: `SKU ${product.sku}` } : {}),
+              mimeType: 'application/json',
+            })),
+        };
+      },
+    }),
+    {
+      title: 'Product',
+      description: 'A product with its stock by location. The ID may also be a SKU, barcode or name.',
+      mimeType: 'application/json',
+    },
+    async (uri, { productId }) => {
+      const id = await resolve('product', variable(productId), 'productId');
+      const product = await client().get<Product>(`/products/${id}`, { include: ['inventoryLines'] });
+      return jsonContents(uri, product);
+    }
+  );
+
+  server.registerResource(
+    'sales-order',
+    new ResourceTemplate('inflow://sales-orders/{salesOrderId}', {
+      list: async () => {
+        const orders = await client().getList<SalesOrder>('/sales-orders', {
+          pagination: { count: RESOURCE_LIST_LIMIT },
+          sort: 'orderDate',
+          sortDesc: true,
+        });
+        return {
+          resources: orders.data
+            .filter((order) => order.salesOrderId)
+            .map((order) => ({
+              uri: `inflow://sales-orders/${order.salesOrderId}`,
+              name: order.orderNumber ?? order.salesOrderId!,
+              mimeType: 'application/json',
+            })),
+        };
+      },
+    }),
+    {
+      title: 'Sales order',
+      description: 'A sales order with its lines. The ID may also be an order number.',
+      mimeType: 'application/json',
+    },
+    async (uri, { salesOrderId }) => {
+      const id = await resolve('salesOrder', variable(salesOrderId), 'salesOrderId');
+      const order = await client().get<SalesOrder>(`/sales-orders/${id}`, { include: ['lines'] });
+      return jsonContents(uri, order);
+    }
+  );
+
+  server.registerResource(
+    'purchase-order',
+    new ResourceTemplate('inflow://purchase-orders/{purchaseOrderId}', {
+      list: async () => {
+        const orders = await client().getList<PurchaseOrder>('/purchase-orders', {
+          pagination: { count: RESOURCE_LIST_LIMIT },
+          sort: 'orderDate',
+          sortDesc: true,
+        });
+        return {
+          resources: orders.data
+            .filter((order) => order.purchaseOrderId)
+            .map((order) => ({
+              uri: `inflow://purchase-orders/${order.purchaseOrderId}`,
+              name: order.orderNumber ?? order.purchaseOrderId!,
+              mimeType: 'application/json',
+            })),
+        };
+      },
+    }),
+    {
+      title: 'Purchase order',
+      description: 'A purchase order with its lines. The ID may also be an order number.',
+      mimeType: 'application/json',
+    },
+    async (uri, { purchaseOrderId }) => {
+      const id = await resolve('purchaseOrder', variable(purchaseOrderId), 'purchaseOrderId');
+      const order = await client().get<PurchaseOrder>(`/purchase-orders/${id}`, { include: ['lines'] });
+      return jsonContents(uri, order);
+    }
+  );
+
+  server.registerResource(
+    'locations',
+    'inflow://locations',
+    {
+      title: 'Locations',
+      description: 'Every inventory location',
+      mimeType: 'application/json',
+    },
+    async (uri) => {
+      const locations = await client().getAll<Location>('/locations');
+      return jsonContents(uri, locations.data);
+    }
+  );
+
+  server.registerResource(
+    'custom-fields',
+    new ResourceTemplate('inflow://custom-fields/{entityType}', {
+      list: async () => ({
+        resources: CUSTOM_FIELD_ENTITY_TYPES.map((entityType) => ({
+          uri: `inflow://custom-fields/${entityType}`,
+          name: `${entityType} custom fields`,
+          mimeType: 'application/json',
+        })),
+      }),
+      complete: {
+        entityType: (value) =>
+          CUSTOM_FIELD_ENTITY_TYPES.filter((type) => type.toLowerCase().startsWith(value.toLowerCase())),
+      },
+    }),
+    {
+      title: 'Custom field definitions',
+      description: `Custom field definitions for one entity type (${CUSTOM_FIELD_ENTITY_TYPES.join(', ')})`,
+      mimeType: 'application/json',
+    },
+    async (uri, { entityType }) => {
+      const type = variable(entityType);
+      if (!CUSTOM_FIELD_ENTITY_TYPES.includes(type as CustomFieldEntityType)) {
+        throw new Error(`Unknown entity type "${type}". Expected one of: ${CUSTOM_FIELD_ENTITY_TYPES.join(', ')}`);
+      }
+      const definitions = await client().getAll<CustomFieldDefinition>('/custom-field-definitions', {
+        filters: { entityType: type },
+      });
+      return jsonContents(uri, definitions.data);
+    }
+  );
+
+  registerSubscriptions(server, clients);
+}
+
+/** Track this session's subscriptions and notify it when a write changes one. */
+function registerSubscriptions(server: McpServer, clients: InflowClientRegistry): void {
+  const subscribed = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscribed.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribed.delete(request.params.uri);
+    return {};
+  });
+
+  // Any profile may point at the same company (e.g. a second API key), so
+  // listen on all of them rather than only the default
+  const stopListening = clients.onWrite((event) => {
+    for (const uri of resourcesForWrite(event)) {
+      if (!subscribed.has(uri)) continue;
+      server.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+        console.error(`Failed to notify subscribers of ${uri}:`, error);
+      });
+    }
+  });
+
+  // Stop listening once the session ends, or the client keeps this server alive
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    stopListening();
+    previousOnClose?.();
+  };
+}
@@ -0,0 +1,76 @@
+// MCP server factory for inFlow MCP Server
+//
+// Builds a fully registered McpServer: tools, workflow prompts and read-only
+// resources. stdio mode creates one; HTTP mode creates one per client session,
+// all sharing the same company clients (and therefore the same rate limiters
+// and caches); name-to-ID lookups and resource subscriptions are per server.
+// The tool policy decides which tools (and so which prompts) each server
+// exposes.
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import type { InflowClientRegistry } from './client/registry.js';
+import type { ToolPolicy } from './config.js';
+import { registerCompanyTools } from './tools/company.js';
+import { registerProductTools } from './tools/products.js';
+import { registerSalesOrderTools } from './tools/sales-orders.js';
+import { registerPurchaseOrderTools } from './tools/purchase-orders.js';
+import { registerCustomerTools } from './tools/customers.js';
+import { registerInventoryTools } from './tools/inventory.js';
+import { registerManufacturingOrderTools } from './tools/manufacturing-orders.js';
+import { registerReferenceTools } from './tools/reference.js';
+import { registerSerialTools } from './tools/serials.js';
+import { registerDiagnosticsTools } from './tools/diagnostics.js';
+import { registerAuditTools } from './tools/audit.js';
+import { ToolFilter } from './tools/policy.js';
+import { registerPrompts } from './prompts.js';
+import { registerResources } from './resources.js';
+
+export const DEFAULT_TOOL_POLICY: ToolPolicy = { readOnly: false, allow: [], deny: [] };
+
+/** Register every tool group the policy allows; throws on unknown allow/deny entries. */
+function registerTools(server: McpServer, clients: InflowClientRegistry, policy: ToolPolicy): ToolFilter {
+  const filter = new ToolFilter(server, policy);
+
+  registerCompanyTools(filter.forGroup('company'), clients);
+  registerProductTools(filter.forGroup('products'), clients);
+  registerSalesOrderTools(filter.forGroup('sales-orders'), clients);
+  registerPurchaseOrderTools(filter.forGroup('purchase-orders'), clients);
+  registerCustomerTools(filter.forGroup('customers'), clients);
+  registerInventoryTools(filter.forGroup('inventory'), clients);
+  registerManufacturingOrderTools(filter.forGroup('manufacturing-orders'), clients);
+  registerReferenceTools(filter.forGroup('reference'), clients);
+  registerSerialTools(filter.forGroup('serials'), clients);
+  registerDiagnosticsTools(filter.forGroup('diagnostics'), clients);
+  registerAuditTools(filter.forGroup('audit'), clients);
+  filter.assertEntriesKnown();
+
+  return filter;
+}
+
+/**
+ * Check a tool policy names only known tools and groups. HTTP mode builds its
+ * servers per session, so this lets a bad policy fail at startup; it registers
+ * tools only, leaving nothing (like resource write listeners) to clean up.
+ */
+export function validateToolPolicy(clients: InflowClientRegistry, policy: ToolPolicy): void {
+  registerTools(new McpServer({ name: 'inflow-inventory', version: '1.0.0' }), clients, policy);
+}
+
+export function createInflowServer(
+  clients: InflowClientRegistry,
+  policy: ToolPolicy = DEFAULT_TOOL_POLICY
+): McpServer {
+  const server = new McpServer({
+    name: 'inflow-inventory',
+    version: '1.0.0',
+  });
+  const session = clients.forSession();
+
+  // Register all tool groups, minus what the policy leaves out
+  const filter = registerTools(server, session, policy);
+  registerPrompts(server, (tool) => filter.isRegistered(tool));
+  registerResources(server, session);
+
+  return server;
+}
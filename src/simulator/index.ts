@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+
+/**
+ * inFlow API Simulator
+ *
+ * Local stand-in for the inFlow Cloud API with in-memory state. Point the MCP
+ * server at it to exercise every tool end to end without a real account:
+ *
+ *   npm run simulator
+ *   INFLOW_BASE_URL=http://127.0.0.1:4010 INFLOW_COMPANY_ID=sim INFLOW_API_KEY=sim npm start
+ *
+ * Environment Variables:
+ *   INFLOW_SIMULATOR_PORT    - Port to listen on (default: 4010)
+ *   INFLOW_SIMULATOR_SEED    - Path to a JSON seed file (default: built-in sample data)
+ *   INFLOW_SIMULATOR_API_KEY - Require this bearer token on every request
+ *   INFLOW_SIMULATOR_VERBOSE - Log each request to stderr when 'true'
+ */
+
+import { readFileSync } from 'node:fs';
+import { startSimulator } from './server.js';
+import { createDefaultSeed } from './seed.js';
+import type { SimulatorSeed } from './store.js';
+
+async function main(): Promise<void> {
+  const port = parseInt(process.env.INFLOW_SIMULATOR_PORT || '4010', 10);
+  const seedPath = process.env.INFLOW_SIMULATOR_SEED;
+  const seed: SimulatorSeed = seedPath
+    ? (JSON.parse(readFileSync(seedPath, 'utf8')) as SimulatorSeed)
+    : createDefaultSeed();
+
+  const simulator = await startSimulator(port, {
+    seed,
+    apiKey: process.env.INFLOW_SIMULATOR_API_KEY || undefined,
+    verbose: process.env.INFLOW_SIMULATOR_VERBOSE === 'true',
+  });
+
+  console.error(`inFlow API simulator listening on ${simulator.url}`);
+  console.error(`Seed: ${seedPath ?? 'built-in sample data'}`);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
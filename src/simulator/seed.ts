@@ -0,0 +1,220 @@
+// Default data set for the inFlow API simulator
+//
+// Small but connected: every id referenced here resolves, so tools that follow
+// references (lines.product, vendor, location, ...) see complete records.
+
+import type { SimulatorSeed } from './store.js';
+
+export const SEED_IDS = {
+  mainWarehouse: '00000000-0000-4000-8000-000000000001',
+  overflowWarehouse: '00000000-0000-4000-8000-000000000002',
+  usd: '00000000-0000-4000-8000-000000000101',
+  eur: '00000000-0000-4000-8000-000000000102',
+  electronics: '00000000-0000-4000-8000-000000000201',
+  widget: '00000000-0000-4000-8000-000000000301',
+  gadget: '00000000-0000-4000-8000-000000000302',
+  kit: '00000000-0000-4000-8000-000000000303',
+  customer: '00000000-0000-4000-8000-000000000401',
+  vendor: '00000000-0000-4000-8000-000000000501',
+  salesOrder: '00000000-0000-4000-8000-000000000601',
+  purchaseOrder: '00000000-0000-4000-8000-000000000701',
+  manufacturingOrder: '00000000-0000-4000-8000-000000000801',
+} as const;
+
+function qty(value: number, serialNumbers?: string[]) {
+  const text = value.toFixed(4);
+  return {
+    standardQuantity: text,
+    uomQuantity: text,
+    ...(serialNumbers ? { serialNumbers } : {}),
+  };
+}
+
+export function createDefaultSeed(): SimulatorSeed {
+  const ids = SEED_IDS;
+
+  return {
+    locations: [
+      {
+        id: ids.mainWarehouse,
+        name: 'Main Warehouse',
+        isActive: true,
+        isDefault: true,
+        sublocations: ['A-01', 'A-02'],
+      },
+      { id: ids.overflowWarehouse, name: 'Overflow', isActive: true, isDefault: false, sublocations: [] },
+    ],
+    currencies: [
+      { currencyId: ids.usd, code: 'USD', name: 'US Dollar', symbol: '$', exchangeRate: 1 },
+      { currencyId: ids.eur, code: 'EUR', name: 'Euro', symbol: '€', exchangeRate: 0.92 },
+    ],
+    categories: [{ categoryId: ids.electronics, name: 'Electronics', isDefault: false }],
+    'pricing-schemes': [{ id: '00000000-0000-4000-8000-000000000901', name: 'Retail', isDefault: true }],
+    'payment-terms': [
+      { id: '00000000-0000-4000-8000-000000000911', name: 'Net 30', daysDue: 30, isDefault: true },
+    ],
+    'taxing-schemes': [
+      { id: '00000000-0000-4000-8000-000000000921', name: 'No Tax', isDefault: true },
+    ],
+    'tax-codes': [{ id: '00000000-0000-4000-8000-000000000931', name: 'Exempt', rate: 0 }],
+    'adjustment-reasons': [
+      { id: '00000000-0000-4000-8000-000000000941', name: 'Damaged' },
+      { id: '00000000-0000-4000-8000-000000000942', name: 'Found' },
+    ],
+    'custom-field-definitions': [
+      {
+        id: '00000000-0000-4000-8000-000000000951',
+        entityType: 'salesOrder',
+        customFieldType: 'Text',
+        label: 'Order URL',
+        propertyName: 'custom4',
+        isActive: true,
+      },
+    ],
+    'team-members': [
+      { id: '00000000-0000-4000-8000-000000000961', name: 'Sim User', email: 'sim@example.com', isActive: true },
+    ],
+    products: [
+      {
+        productId: ids.widget,
+        name: 'Widget',
+        sku: 'WID-001',
+        barcode: '100000000001',
+        categoryId: ids.electronics,
+        isActive: true,
+        isManufacturable: false,
+        trackSerials: true,
+        itemType: 'StockedProduct',
+        inventoryLines: [
+          { locationId: ids.mainWarehouse, sublocation: 'A-01', serial: 'WID-SN-001', quantityOnHand: '1' },
+          { locationId: ids.mainWarehouse, sublocation: 'A-01', serial: 'WID-SN-002', quantityOnHand: '1' },
+          { locationId: ids.mainWarehouse, sublocation: 'A-01', serial: 'WID-SN-003', quantityOnHand: '0' },
+        ],
+      },
+      {
+        productId: ids.gadget,
+        name: 'Gadget',
+        sku: 'GAD-001',
+        categoryId: ids.electronics,
+        isActive: true,
+        isManufacturable: false,
+        trackSerials: false,
+        itemType: 'StockedProduct',
+        inventoryLines: [{ locationId: ids.mainWarehouse, sublocation: 'A-02', quantityOnHand: '40' }],
+      },
+      {
+        productId: ids.kit,
+        name: 'Widget Kit',
+        sku: 'KIT-001',
+        categoryId: ids.electronics,
+        isActive: true,
+        isManufacturable: true,
+        trackSerials: false,
+        itemType: 'StockedProduct',
+        inventoryLines: [],
+        itemBoms: [
+          { itemBomId: '00000000-0000-4000-8000-000000000311', productId: ids.kit, childProductId: ids.widget, quantity: qty(1) },
+          { itemBomId: '00000000-0000-4000-8000-000000000312', productId: ids.kit, childProductId: ids.gadget, quantity: qty(2) },
+        ],
+      },
+    ],
+    customers: [
+      {
+        customerId: ids.customer,
+        name: 'Acme Corp',
+        email: 'orders@acme.example',
+        isActive: true,
+        contacts: [{ contactId: '00000000-0000-4000-8000-000000000411', name: 'Ada Buyer', email: 'ada@acme.example' }],
+      },
+    ],
+    vendors: [
+      {
+        vendorId: ids.vendor,
+        name: 'Parts Supply Co',
+        email: 'sales@parts.example',
+        isActive: true,
+        contacts: [],
+      },
+    ],
+    'sales-orders': [
+      {
+        salesOrderId: ids.salesOrder,
+        orderNumber: 'SO-000001',
+        customerId: ids.customer,
+        orderDate: '2025-01-15T00:00:00Z',
+        status: 'Fulfilled',
+        inventoryStatus: 'Fulfilled',
+        locationId: ids.mainWarehouse,
+        customFields: { custom4: 'https://shop.example/orders/1' },
+        lines: [
+          {
+            salesOrderLineId: '00000000-0000-4000-8000-000000000611',
+            productId: ids.widget,
+            quantity: qty(1, ['WID-SN-003']),
+            unitPrice: '25.00',
+          },
+        ],
+      },
+    ],
+    'purchase-orders': [
+      {
+        purchaseOrderId: ids.purchaseOrder,
+        orderNumber: 'PO-000001',
+        vendorId: ids.vendor,
+        orderDate: '2025-01-10T00:00:00Z',
+        locationId: ids.mainWarehouse,
+        currencyId: ids.usd,
+        lines: [
+          {
+            purchaseOrderLineId: '00000000-0000-4000-8000-000000000711',
+            productId: ids.gadget,
+            quantity: qty(10),
+            unitPrice: '4.00',
+          },
+          {
+            purchaseOrderLineId: '00000000-0000-4000-8000-000000000712',
+            productId: ids.widget,
+            quantity: qty(2),
+            unitPrice: '12.00',
+          },
+        ],
+        receiveLines: [],
+      },
+    ],
+    'manufacturing-orders': [
+      {
+        manufacturingOrderId: ids.manufacturingOrder,
+        manufacturingOrderNumber: 'MO-000001',
+        orderDate: '2025-02-01T00:00:00Z',
+        locationId: ids.mainWarehouse,
+        status: 'Open',
+        primaryFinishedProductId: ids.kit,
+        lines: [
+          {
+            manufacturingOrderLineId: '00000000-0000-4000-8000-000000000811',
+            parentManufacturingOrderLineId: null,
+            productId: ids.kit,
+            quantity: qty(1),
+            manufacturingOrderLines: [
+              {
+                manufacturingOrderLineId: '00000000-0000-4000-8000-000000000812',
+                parentManufacturingOrderLineId: '00000000-0000-4000-8000-000000000811',
+                productId: ids.widget,
+                quantity: qty(1),
+              },
+              {
+                manufacturingOrderLineId: '00000000-0000-4000-8000-000000000813',
+                parentManufacturingOrderLineId: '00000000-0000-4000-8000-000000000811',
+                productId: ids.gadget,
+                quantity: qty(2),
+              },
+            ],
+          },
+        ],
+      },
+    ],
+    customFieldDropdownOptions: {
+      salesOrder: { custom1: ['Web', 'Phone', 'Walk-in'] },
+    },
+  };
+}
@@ -0,0 +1,227 @@
+// HTTP front end for the inFlow API simulator
+//
+// Routes follow the real API shape: /{companyId}/{endpoint}[/{id}[/{action}]].
+// Each company id gets its own store, created from the seed on first use.
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SimulatorError, SimulatorStore, type ListQuery, type SimulatorSeed } from './store.js';
+
+export interface SimulatorOptions {
+  seed?: SimulatorSeed;
+  // When set, requests must send `Authorization: Bearer <apiKey>`
+  apiKey?: string;
+  verbose?: boolean;
+}
+
+export interface RunningSimulator {
+  server: Server;
+  url: string;
+  store(companyId: string): SimulatorStore;
+  close(): Promise<void>;
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  const text = body === undefined ? '' : JSON.stringify(body);
+  res.writeHead(status, {
+    ...(text ? { 'Content-Type': 'application/json' } : {}),
+    ...headers,
+  });
+  res.end(text);
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) return undefined;
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new SimulatorError(400, { code: 'InvalidJson', message: 'Request body is not valid JSON' });
+  }
+}
+
+function parseListQuery(params: URLSearchParams): ListQuery {
+  const filters: Record<string, string> = {};
+  for (const [key, value] of params) {
+    const match = /^filter\[(.+)\]$/.exec(key);
+    if (match) filters[match[1]] = value;
+  }
+
+  const skip = params.get('skip');
+  const count = params.get('count');
+  return {
+    filters,
+    skip: skip !== null ? parseInt(skip, 10) : undefined,
+    count: count !== null ? parseInt(count, 10) : undefined,
+    sort: params.get('sort') ?? undefined,
+    sortDesc: params.get('sortDesc') === 'true',
+    include: parseInclude(params),
+  };
+}
+
+function parseInclude(params: URLSearchParams): string[] {
+  const include = params.get('include');
+  return include ? include.split(',').map((part) => part.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Create a request handler backed by per-company in-memory stores.
+ * Exposed separately from startSimulator so tests can mount it however they like.
+ */
+export function createSimulatorHandler(options: SimulatorOptions = {}) {
+  const stores = new Map<string, SimulatorStore>();
+
+  const storeFor = (companyId: string): SimulatorStore => {
+    let store = stores.get(companyId);
+    if (!store) {
+      store = new SimulatorStore(options.seed);
+      stores.set(companyId, store);
+    }
+    return store;
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const method = req.method ?? 'GET';
+    const url = new URL(req.url ?? '/', 'http://simulator.local');
+    const [companyId, endpoint, id, action, ...rest] = url.pathname
+      .split('/')
+      .filter(Boolean)
+      .map(decodeURIComponent);
+
+    if (options.verbose) {
+      console.error(`[inflow-simulator] ${method} ${url.pathname}${url.search}`);
+    }
+
+    if (options.apiKey && req.headers.authorization !== `Bearer ${options.apiKey}`) {
+      throw new SimulatorError(401, { code: 'Unauthorized', message: 'Invalid or missing API key' });
+    }
+
+    if (!companyId || !endpoint || rest.length > 0) {
+      throw new SimulatorError(404, { code: 'NotFound', message: `No route for ${url.pathname}` });
+    }
+
+    const store = storeFor(companyId);
+    const include = parseInclude(url.searchParams);
+
+    // Endpoints that don't follow the plain collection shape
+    if (endpoint === 'custom-field-dropdown-options' && method === 'GET' && id && !action) {
+      sendJson(res, 200, store.getDropdownOptions(id));
+      return;
+    }
+    if (endpoint === 'locations' && action === 'suggested-sublocations' && method === 'GET') {
+      sendJson(res, 200, store.getSuggestedSublocations(id));
+      return;
+    }
+    if (endpoint === 'products' && method === 'GET' && id && action === 'summary') {
+      sendJson(res, 200, store.getProductSummary(id));
+      return;
+    }
+    if (endpoint === 'products' && method === 'POST' && id === 'summary' && !action) {
+      const body = (await readBody(req)) as { productIds?: string[] } | undefined;
+      const productIds = body?.productIds ?? [];
+      if (productIds.length > 100) {
+        throw new SimulatorError(400, {
+          code: 'ValidationError',
+          message: 'productIds cannot contain more than 100 entries',
+          details: { field: 'productIds' },
+        });
+      }
+      sendJson(res, 200, productIds.map((productId) => store.getProductSummary(productId)));
+      return;
+    }
+
+    if (!store.hasCollection(endpoint) || action) {
+      throw new SimulatorError(404, { code: 'NotFound', message: `No route for ${url.pathname}` });
+    }
+
+    switch (method) {
+      case 'GET': {
+        if (id) {
+          sendJson(res, 200, store.get(endpoint, id, include));
+          return;
+        }
+        const query = parseListQuery(url.searchParams);
+        // Webhooks are always returned whole, as a bare array
+        if (endpoint === 'webhooks') query.count = Number.MAX_SAFE_INTEGER;
+        const { data, totalCount } = store.list(endpoint, query);
+        const headers: Record<string, string> =
+          url.searchParams.get('includeCount') === 'true' ? { 'X-listCount': String(totalCount) } : {};
+        sendJson(res, 200, data, headers);
+        return;
+      }
+      case 'PUT': {
+        if (id) break;
+        const body = await readBody(req);
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+          throw new SimulatorError(400, { code: 'ValidationError', message: 'Request body must be an object' });
+        }
+        sendJson(res, 200, store.put(endpoint, body as Record<string, unknown>));
+        return;
+      }
+      case 'DELETE': {
+        if (!id) break;
+        store.delete(endpoint, id);
+        sendJson(res, 204, undefined);
+        return;
+      }
+    }
+
+    throw new SimulatorError(405, {
+      code: 'MethodNotAllowed',
+      message: `${method} is not supported on ${url.pathname}`,
+    });
+  };
+
+  const handler = (req: IncomingMessage, res: ServerResponse): void => {
+    route(req, res).catch((error: unknown) => {
+      if (error instanceof SimulatorError) {
+        sendJson(res, error.statusCode, error.body);
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      sendJson(res, 500, { code: 'InternalError', message });
+    });
+  };
+
+  return { handler, storeFor };
+}
+
+/** Start the simulator on `port` (0 picks a free port). */
+export async function startSimulator(
+  port = 0,
+  options: SimulatorOptions = {}
+): Promise<RunningSimulator> {
+  const { handler, storeFor } = createSimulatorHandler(options);
+  const server = createServer(handler);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  return {
+    server,
+    url: `http://127.0.0.1:${address.port}`,
+    store: storeFor,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
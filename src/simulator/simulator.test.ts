@@ -0,0 +1,707 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { InflowApiError, InflowClient } from '../client/inflow.js';
+import { InflowClientRegistry } from '../client/registry.js';
+import { DryRunWrite, runDryRunScope } from '../client/dry-run.js';
+import type { InflowConfig } from '../config.js';
+import type { Customer, ManufacturingOrder, Product, PurchaseOrder, SalesOrder } from '../types/inflow.js';
+import { registerCompanyTools } from '../tools/company.js';
+import { registerProductTools } from '../tools/products.js';
+import { registerSalesOrderTools } from '../tools/sales-orders.js';
+import { registerPurchaseOrderTools } from '../tools/purchase-orders.js';
+import { registerManufacturingOrderTools } from '../tools/manufacturing-orders.js';
+import { registerCustomerTools } from '../tools/customers.js';
+import { registerAuditTools } from '../tools/audit.js';
+import { registerSerialTools } from '../tools/serials.js';
+import { productSchema, salesOrderSchema } from '../types/schemas.js';
+import { startSimulator, type RunningSimulator } from './server.js';
+import { createDefaultSeed, SEED_IDS } from './seed.js';
+
+const configFor = (baseUrl: string): InflowConfig => ({
+  apiKey: 'sim-key',
+  companyId: 'sim-company',
+  baseUrl,
+  apiVersion: '2025-06-24',
+  rateLimitPerMinute: 6000,
+  maxConcurrentRequests: 4,
+  maxRetries: 0,
+  retryDelayMs: 10,
+  requestTimeoutMs: 5000,
+  debug: false,
+  cacheTtlMs: 0,
+  cacheTtlOverrides: {},
+});
+
+describe('inFlow API simulator', () => {
+  let simulator: RunningSimulator;
+  let client: InflowClient;
+
+  beforeEach(async () => {
+    simulator = await startSimulator(0, { seed: createDefaultSeed(), apiKey: 'sim-key' });
+    client = new InflowClient(configFor(simulator.url));
+  });
+
+  afterEach(async () => {
+    await simulator.close();
+  });
+
+  describe('REST semantics', () => {
+    it('applies filters, paging, sorting and includeCount', async () => {
+      const page = await client.getList<Product>('/products', {
+        filters: { categoryId: SEED_IDS.electronics, isActive: true },
+        pagination: { skip: 1, count: 1 },
+        sort: 'name',
+        includeCount: true,
+      });
+
+      expect(page.totalCount).toBe(3);
+      expect(page.data.map((p) => p.name)).toEqual(['Widget']);
+    });
+
+    it('matches free-text filters partially and hides un-included collections', async () => {
+      const result = await client.getList<Product>('/products', { filters: { name: 'kit' } });
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0].itemBoms).toBeUndefined();
+
+      const withBoms = await client.get<Product>(`/products/${SEED_IDS.kit}`, {
+        include: ['itemBoms'],
+      });
+      expect(withBoms.itemBoms).toHaveLength(2);
+    });
+
+    it('expands references named in include', async () => {
+      const order = await client.get<PurchaseOrder>(`/purchase-orders/${SEED_IDS.purchaseOrder}`, {
+        include: ['lines', 'lines.product', 'vendor'],
+      });
+
+      expect(order.vendor?.name).toBe('Parts Supply Co');
+      expect(order.lines?.map((line) => line.product?.name)).toEqual(['Gadget', 'Widget']);
+    });
+
+    it('rejects updates carrying a stale timestamp with 409', async () => {
+      const order = await client.get<SalesOrder>(`/sales-orders/${SEED_IDS.salesOrder}`);
+      await client.put('/sales-orders', {
+        salesOrderId: SEED_IDS.salesOrder,
+        orderRemarks: 'first',
+        timestamp: order.timestamp,
+      });
+
+      const stale = client.put('/sales-orders', {
+        salesOrderId: SEED_IDS.salesOrder,
+        orderRemarks: 'second',
+        timestamp: order.timestamp,
+      });
+      await expect(stale).rejects.toBeInstanceOf(InflowApiError);
+      await expect(stale).rejects.toMatchObject({
+        statusCode: 409,
+        apiError: { code: 'ConcurrencyConflict' },
+      });
+    });
+
+    it('treats PUT lines as full state, dropping nested fields that are not resent', async () => {
+      const order = await client.get<SalesOrder>(`/sales-orders/${SEED_IDS.salesOrder}`, {
+        include: ['lines'],
+      });
+      const [line] = order.lines ?? [];
+
+      const updated = await client.put<SalesOrder>('/sales-orders', {
+        salesOrderId: SEED_IDS.salesOrder,
+        lines: [{ salesOrderLineId: line.salesOrderLineId, productId: line.productId }],
+        timestamp: order.timestamp,
+      });
+
+      expect(updated.lines?.[0].quantity).toBeUndefined();
+      expect(updated.customerId).toBe(SEED_IDS.customer);
+    });
+
+    it('requires the API key when configured', async () => {
+      const anonymous = new InflowClient({ ...configFor(simulator.url), apiKey: 'wrong' });
+      await expect(anonymous.get('/locations')).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('keeps separate state per company id', async () => {
+      await client.put('/categories', { categoryId: 'cat-new', name: 'Tools' });
+      const other = new InflowClient({ ...configFor(simulator.url), companyId: 'other-company' });
+
+      const mine = await client.getList('/categories');
+      const theirs = await other.getList('/categories');
+      expect(mine.data).toHaveLength(2);
+      expect(theirs.data).toHaveLength(1);
+    });
+  });
+
+  describe('end to end through MCP tools', () => {
+    let mcpClient: Client;
+    let auditDir: string;
+
+    beforeEach(async () => {
+      auditDir = mkdtempSync(join(tmpdir(), 'inflow-sim-audit-'));
+      const clients = new InflowClientRegistry({
+        defaultProfile: 'production',
+        profiles: [
+          {
+            name: 'production',
+            label: 'Production',
+            config: { ...configFor(simulator.url), auditLogFile: join(auditDir, 'audit.jsonl') },
+          },
+          {
+            name: 'sandbox',
+            config: { ...configFor(simulator.url), companyId: 'sandbox-company' },
+          },
+        ],
+      });
+      // Assertions below read through the default profile's company
+      client = clients.get();
+
+      const server = new McpServer({ name: 'inflow-inventory', version: '1.0.0' });
+      registerCompanyTools(server, clients);
+      registerProductTools(server, clients);
+      registerSalesOrderTools(server, clients);
+      registerPurchaseOrderTools(server, clients);
+      registerManufacturingOrderTools(server, clients);
+      registerCustomerTools(server, clients);
+      registerAuditTools(server, clients);
+      registerSerialTools(server, clients);
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      mcpClient = new Client({ name: 'simulator-test', version: '1.0.0' });
+      await mcpClient.connect(clientTransport);
+    });
+
+    afterEach(async () => {
+      await mcpClient.close();
+      rmSync(auditDir, { recursive: true, force: true });
+    });
+
+    const callTool = async <T>(name: string, args: Record<string, unknown>): Promise<T> => {
+      const result = await mcpClient.callTool({ name, arguments: args });
+      expect(result.isError).toBeFalsy();
+      const [content] = result.content as Array<{ type: string; text: string }>;
+      return JSON.parse(content.text) as T;
+    };
+
+    it('lists configured companies without credentials', async () => {
+      const result = await callTool<{ defaultCompany: string; companies: Array<Record<string, unknown>> }>(
+        'list_companies',
+        {}
+      );
+
+      expect(result.defaultCompany).toBe('production');
+      expect(result.companies.map((c) => c.name)).toEqual(['production', 'sandbox']);
+      expect(result.companies[0]).toMatchObject({ label: 'Production', isDefault: true });
+      expect(JSON.stringify(result)).not.toContain('sim-key');
+    });
+
+    it('routes calls to the company named in the company argument', async () => {
+      await callTool('upsert_product', { company: 'sandbox', name: 'Sandbox Only' });
+
+      type ProductList = { data: Product[] };
+      const sandbox = await callTool<ProductList>('list_products', { company: 'sandbox', name: 'Sandbox' });
+      const production = await callTool<ProductList>('list_products', { name: 'Sandbox' });
+      expect(sandbox.data).toHaveLength(1);
+      expect(production.data).toHaveLength(0);
+
+      const unknown = await mcpClient.callTool({ name: 'list_products', arguments: { company: 'nope' } });
+      expect(unknown.isError).toBe(true);
+      const [content] = unknown.content as Array<{ type: string; text: string }>;
+      expect(JSON.parse(content.text)).toMatchObject({
+        code: 'INVALID_INPUT',
+        field: 'company',
+        details: { available: ['production', 'sandbox'] },
+      });
+    });
+
+    it('returns structuredContent that conforms to each tool\'s output schema', async () => {
+      // listTools primes the client, which then validates structuredContent against outputSchema
+      const { tools } = await mcpClient.listTools();
+      expect(tools.filter((tool) => !tool.outputSchema).map((tool) => tool.name)).toEqual([]);
+
+      const structured = async (name: string, args: Record<string, unknown>) => {
+        const result = await mcpClient.callTool({ name, arguments: args });
+        expect(result.isError).toBeFalsy();
+        const [content] = result.content as Array<{ type: string; text: string }>;
+        expect(result.structuredContent).toEqual(JSON.parse(content.text));
+        return result.structuredContent as Record<string, unknown>;
+      };
+
+      expect(productSchema.parse(await structured('get_product', { productId: 'WID-001' }))).toMatchObject({
+        productId: SEED_IDS.widget,
+      });
+      const order = await structured('get_sales_order', { salesOrderId: SEED_IDS.salesOrder, include: ['lines'] });
+      expect(salesOrderSchema.parse(order).lines).toHaveLength(1);
+      expect(await structured('list_products', { name: 'Widget' })).toMatchObject({ data: expect.any(Array) });
+      expect(
+        await structured('receive_purchase_order', {
+          purchaseOrderId: SEED_IDS.purchaseOrder,
+          items: [{ productId: SEED_IDS.gadget, quantity: 1 }],
+          locationId: SEED_IDS.mainWarehouse,
+          dryRun: true,
+        })
+      ).toMatchObject({ dryRun: true, method: 'PUT' });
+      expect(await structured('get_product_serials', { productId: SEED_IDS.widget })).toMatchObject({
+        serials: expect.any(Array),
+      });
+      expect(await structured('get_sales_order_serials', { salesOrderId: SEED_IDS.salesOrder })).toMatchObject({
+        serials: [expect.objectContaining({ serial: 'WID-SN-003', orderType: 'sales' })],
+      });
+    });
+
+    it('reports serial stock whether inFlow sends quantities as strings or numbers', async () => {
+      await client.put('/products', {
+        productId: SEED_IDS.widget,
+        inventoryLines: [
+          { locationId: SEED_IDS.mainWarehouse, serial: 'WID-SN-001', quantityOnHand: 1 },
+          { locationId: SEED_IDS.mainWarehouse, serial: 'WID-SN-002', quantityOnHand: 0 },
+        ],
+      });
+
+      const product = await callTool<{ serials: Array<Record<string, unknown>> }>('get_product_serials', {
+        productId: SEED_IDS.widget,
+      });
+      expect(product.serials).toEqual([
+        expect.objectContaining({ serial: 'WID-SN-001', quantityOnHand: '1', inStock: true }),
+        expect.objectContaining({ serial: 'WID-SN-002', quantityOnHand: '0', inStock: false }),
+      ]);
+      const inStock = await callTool<{ serials: Array<Record<string, unknown>> }>('list_all_serials', {
+        inStockOnly: true,
+      });
+      expect(inStock.serials.map((entry) => entry.serial)).toEqual(['WID-SN-001']);
+    });
+
+    it('reports progress while scanning orders for serial numbers', async () => {
+      const progress: Array<{ progress: number; total?: number }> = [];
+      const result = await mcpClient.callTool(
+        { name: 'list_serial_numbers', arguments: {} },
+        undefined,
+        { onprogress: (update) => progress.push(update) }
+      );
+
+      expect(result.isError).toBeFalsy();
+      expect(progress.length).toBeGreaterThan(0);
+      const last = progress[progress.length - 1];
+      expect(last).toMatchObject({ progress: (result.structuredContent as { ordersFetched: number }).ordersFetched });
+      expect(last.total).toBe(last.progress);
+    });
+
+    it('receives and unreceives a purchase order', async () => {
+      const received = await callTool<{ newStatus: string }>('receive_purchase_order', {
+        purchaseOrderId: SEED_IDS.purchaseOrder,
+        items: [{ productId: SEED_IDS.gadget, quantity: 4 }],
+        locationId: SEED_IDS.mainWarehouse,
+      });
+      expect(received.newStatus).toBe('PartiallyReceived');
+
+      const summary = await client.get<{ quantityOnHand: number; quantityOnOrder: number }>(
+        `/products/${SEED_IDS.gadget}/summary`
+      );
+      expect(summary).toMatchObject({ quantityOnHand: 44, quantityOnOrder: 6 });
+
+      const all = await callTool<{ newStatus: string }>('receive_purchase_order', {
+        purchaseOrderId: SEED_IDS.purchaseOrder,
+        receiveAll: true,
+      });
+      expect(all.newStatus).toBe('Received');
+
+      const unreceived = await callTool<{ newStatus: string; remainingReceiveLines: number }>(
+        'unreceive_purchase_order',
+        { purchaseOrderId: SEED_IDS.purchaseOrder, unreceiveAll: true }
+      );
+      expect(unreceived).toMatchObject({ newStatus: 'Open', remainingReceiveLines: 0 });
+    });
+
+    it('updates one product field without restating the product', async () => {
+      const updated = await callTool<Product & { rebase: unknown }>('upsert_product', {
+        id: SEED_IDS.kit,
+        reorderPoint: 3,
+      });
+      expect(updated).toMatchObject({ name: 'Widget Kit', sku: 'KIT-001', reorderPoint: 3 });
+
+      const kit = await client.get<Product>(`/products/${SEED_IDS.kit}`, { include: ['itemBoms'] });
+      expect(kit).toMatchObject({ name: 'Widget Kit', categoryId: SEED_IDS.electronics, reorderPoint: 3 });
+      expect(kit.itemBoms).toHaveLength(2);
+
+      const nameless = await mcpClient.callTool({ name: 'upsert_product', arguments: { sku: 'NEW-001' } });
+      expect(nameless.isError).toBe(true);
+      const [content] = nameless.content as Array<{ type: string; text: string }>;
+      expect(JSON.parse(content.text)).toMatchObject({ code: 'INVALID_INPUT', field: 'name' });
+    });
+
+    it('edits BOM components in place and rejects self-references and cycles', async () => {
+      const updated = await callTool<Product>('upsert_bill_of_materials', {
+        productId: 'KIT-001',
+        components: [
+          { productId: 'GAD-001', quantity: 3 },
+          { productId: 'WID-001', remove: true },
+        ],
+      });
+      expect(updated.itemBoms).toEqual([
+        expect.objectContaining({
+          itemBomId: '00000000-0000-4000-8000-000000000312',
+          childProductId: SEED_IDS.gadget,
+          quantity: expect.objectContaining({ standardQuantity: '3', uomQuantity: '3' }),
+        }),
+      ]);
+
+      const errorOf = async (args: Record<string, unknown>) => {
+        const result = await mcpClient.callTool({ name: 'upsert_bill_of_materials', arguments: args });
+        expect(result.isError).toBe(true);
+        const [content] = result.content as Array<{ type: string; text: string }>;
+        return JSON.parse(content.text);
+      };
+
+      const selfReference = await errorOf({
+        productId: SEED_IDS.kit,
+        components: [{ productId: SEED_IDS.kit, quantity: 1 }],
+      });
+      expect(selfReference).toMatchObject({ code: 'INVALID_INPUT', field: 'components[0].productId' });
+
+      const notManufacturable = await errorOf({
+        productId: SEED_IDS.widget,
+        components: [{ productId: SEED_IDS.gadget, quantity: 1 }],
+      });
+      expect(notManufacturable).toMatchObject({ code: 'INVALID_STATE' });
+
+      // The kit contains the gadget, so the gadget can't contain the kit
+      await client.put('/products', { productId: SEED_IDS.gadget, isManufacturable: true });
+      const cycle = await errorOf({
+        productId: SEED_IDS.gadget,
+        components: [{ productId: SEED_IDS.kit, quantity: 1 }],
+      });
+      expect(cycle).toMatchObject({
+        code: 'INVALID_INPUT',
+        details: { path: [SEED_IDS.gadget, SEED_IDS.kit, SEED_IDS.gadget] },
+      });
+    });
+
+    it('explodes a BOM into total component requirements and compares them with stock', async () => {
+      const [widgetStock, gadgetStock] = await client.post<Array<{ quantityOnHand: number; quantityAvailable: number }>>(
+        '/products/summary',
+        { productIds: [SEED_IDS.widget, SEED_IDS.gadget] }
+      );
+
+      const explosion = await callTool<{
+        levels: number;
+        requirements: Array<Record<string, unknown>>;
+        shortageCount: number;
+      }>('explode_bill_of_materials', { productId: 'KIT-001', quantity: 5, compareStock: true });
+
+      expect(explosion.levels).toBe(1);
+      expect(explosion.requirements).toEqual([
+        {
+          productId: SEED_IDS.widget,
+          productName: 'Widget',
+          productSku: 'WID-001',
+          quantityRequired: 5,
+          quantityOnHand: widgetStock.quantityOnHand,
+          quantityAvailable: widgetStock.quantityAvailable,
+          shortfall: Math.max(0, 5 - widgetStock.quantityAvailable),
+        },
+        expect.objectContaining({
+          productId: SEED_IDS.gadget,
+          quantityRequired: 10,
+          shortfall: Math.max(0, 10 - gadgetStock.quantityAvailable),
+        }),
+      ]);
+      expect(explosion.shortageCount).toBe(
+        explosion.requirements.filter((requirement) => (requirement.shortfall as number) > 0).length
+      );
+    });
+
+    it('patches one purchase order line without losing the others or their receipts', async () => {
+      await callTool('receive_purchase_order', {
+        purchaseOrderId: SEED_IDS.purchaseOrder,
+        items: [{ productId: SEED_IDS.gadget, quantity: 4 }],
+        locationId: SEED_IDS.mainWarehouse,
+      });
+
+      await callTool('upsert_purchase_order', {
+        id: SEED_IDS.purchaseOrder,
+        items: [{ productId: 'WID-001', unitCost: 11 }],
+        remarks: 'repriced widgets',
+      });
+
+      const order = await client.get<PurchaseOrder>(`/purchase-orders/${SEED_IDS.purchaseOrder}`, {
+        include: ['lines', 'receiveLines'],
+      });
+      expect(order).toMatchObject({ vendorId: SEED_IDS.vendor, orderRemarks: 'repriced widgets' });
+      expect(order.lines?.map((line) => line.productId)).toEqual([SEED_IDS.gadget, SEED_IDS.widget]);
+      expect(order.lines?.[1].unitPrice).toBe(11);
+      expect(order.receiveLines).toHaveLength(1);
+    });
+
+    it('sends a purchase order\'s unstock lines back when updating it', async () => {
+      const unstockLine = {
+        productId: SEED_IDS.gadget,
+        quantity: { standardQuantity: '1', uomQuantity: '1' },
+        locationId: SEED_IDS.mainWarehouse,
+      };
+      await client.put('/purchase-orders', { purchaseOrderId: SEED_IDS.purchaseOrder, unstockLines: [unstockLine] });
+
+      const preview = await callTool<{ body: PurchaseOrder }>('upsert_purchase_order', {
+        id: SEED_IDS.purchaseOrder,
+        remarks: 'returning a gadget',
+        dryRun: true,
+      });
+      expect(preview.body.unstockLines).toEqual([expect.objectContaining(unstockLine)]);
+
+      await callTool('upsert_purchase_order', { id: SEED_IDS.purchaseOrder, remarks: 'returning a gadget' });
+      const order = await client.get<PurchaseOrder>(`/purchase-orders/${SEED_IDS.purchaseOrder}`, {
+        include: ['unstockLines'],
+      });
+      expect(order.orderRemarks).toBe('returning a gadget');
+      expect(order.unstockLines).toEqual([expect.objectContaining(unstockLine)]);
+    });
+
+    it('updates a customer and its contacts without restating the record', async () => {
+      await callTool('upsert_customer', {
+        id: SEED_IDS.customer,
+        phone: '555-0100',
+        contacts: [{ name: 'Cy Accounts', email: 'cy@acme.example' }],
+        primaryContact: 'cy@acme.example',
+      });
+
+      const customer = await client.get<Customer>(`/customers/${SEED_IDS.customer}`, { include: ['contacts'] });
+      expect(customer).toMatchObject({ name: 'Acme Corp', email: 'orders@acme.example', phone: '555-0100' });
+      expect(customer.contacts).toEqual([
+        expect.objectContaining({ name: 'Ada Buyer', isPrimary: false }),
+        expect.objectContaining({ name: 'Cy Accounts', isPrimary: true }),
+      ]);
+    });
+
+    it('preserves serial numbers through a merge-based sales order update', async () => {
+      await callTool('upsert_sales_order', {
+        id: SEED_IDS.salesOrder,
+        items: [{ productId: SEED_IDS.widget, unitPrice: 30 }],
+        remarks: 'repriced',
+      });
+
+      const order = await client.get<SalesOrder>(`/sales-orders/${SEED_IDS.salesOrder}`, {
+        include: ['lines'],
+      });
+      expect(order.lines).toHaveLength(1);
+      expect(order.lines?.[0].unitPrice).toBe(30);
+      expect(order.lines?.[0].quantity).toMatchObject({ serialNumbers: ['WID-SN-003'] });
+    });
+
+    it('audits writes with the pre-change snapshot and a field diff', async () => {
+      await callTool('upsert_sales_order', { id: SEED_IDS.salesOrder, remarks: 'audited edit' });
+      await callTool('list_products', {});
+
+      type AuditResult = {
+        count: number;
+        entries: Array<Record<string, unknown> & { diff: Array<{ path: string }> }>;
+      };
+      const result = await callTool<AuditResult>('query_audit_log', { entityId: SEED_IDS.salesOrder });
+      expect(result.count).toBe(1);
+      expect(result.entries[0]).toMatchObject({
+        tool: 'upsert_sales_order',
+        args: { id: SEED_IDS.salesOrder, remarks: 'audited edit' },
+        method: 'PUT',
+        entityType: 'sales-orders',
+      });
+      expect(result.entries[0].diff).toEqual([
+        { path: 'orderRemarks', after: 'audited edit' },
+      ]);
+      expect(result.entries[0].before).toBeUndefined();
+
+      const full = await callTool<AuditResult>('query_audit_log', {
+        tool: 'upsert_sales_order',
+        includeSnapshots: true,
+      });
+      expect(full.entries[0].before).toMatchObject({ salesOrderId: SEED_IDS.salesOrder });
+    });
+
+    it('previews writes with dryRun without sending them', async () => {
+      type Preview = {
+        dryRun: boolean;
+        method: string;
+        path: string;
+        body: Record<string, unknown>;
+        current?: Record<string, unknown>;
+        diff: Array<{ path: string; before?: unknown; after?: unknown }>;
+      };
+      const update = await callTool<Preview>('upsert_sales_order', {
+        id: SEED_IDS.salesOrder,
+        remarks: 'preview only',
+        dryRun: true,
+      });
+      expect(update).toMatchObject({
+        dryRun: true,
+        method: 'PUT',
+        path: '/sales-orders',
+        body: { salesOrderId: SEED_IDS.salesOrder, orderRemarks: 'preview only' },
+        current: { salesOrderId: SEED_IDS.salesOrder },
+      });
+      expect(update.diff).toEqual([{ path: 'orderRemarks', after: 'preview only' }]);
+
+      const create = await callTool<Preview>('upsert_product', { name: 'Preview Widget', dryRun: true });
+      expect(create.current).toBeUndefined();
+      expect(create.diff).toContainEqual({ path: 'name', after: 'Preview Widget' });
+
+      const order = await client.get<SalesOrder>(`/sales-orders/${SEED_IDS.salesOrder}`);
+      expect(order.orderRemarks).toBeUndefined();
+      const products = await client.getList<Product>('/products', { filters: { name: 'Preview' } });
+      expect(products.data).toHaveLength(0);
+      const audit = await callTool<{ count: number }>('query_audit_log', {});
+      expect(audit.count).toBe(0);
+    });
+
+    it('holds back writes from mutating tools when dry runs are configured', async () => {
+      const dryClient = new InflowClient({ ...configFor(simulator.url), dryRun: true });
+      const write = runDryRunScope(false, () =>
+        dryClient.put('/products', { productId: SEED_IDS.widget, name: 'Renamed Widget' })
+      );
+      await expect(write).rejects.toBeInstanceOf(DryRunWrite);
+      await write.catch((error: DryRunWrite) => {
+        expect(error.result.current).toMatchObject({ name: 'Widget' });
+        expect(error.result.diff).toEqual([{ path: 'name', before: 'Widget', after: 'Renamed Widget' }]);
+      });
+      expect((await client.get<Product>(`/products/${SEED_IDS.widget}`)).name).toBe('Widget');
+    });
+
+    it("resolves currencies against the account's currency list", async () => {
+      const updated = await callTool<SalesOrder>('upsert_sales_order', {
+        id: SEED_IDS.salesOrder,
+        currencyCode: 'euro',
+      });
+      expect(updated).toMatchObject({ currencyId: SEED_IDS.eur, currencyCode: 'EUR' });
+
+      const unknown = await mcpClient.callTool({
+        name: 'upsert_purchase_order',
+        arguments: { vendorId: SEED_IDS.vendor, currencyCode: 'GBP' },
+      });
+      expect(unknown.isError).toBe(true);
+      const [content] = unknown.content as Array<{ type: string; text: string }>;
+      expect(JSON.parse(content.text)).toMatchObject({
+        code: 'NOT_FOUND',
+        field: 'currencyCode',
+        details: { available: ['USD (US Dollar, $)', 'EUR (Euro, €)'] },
+      });
+    });
+
+    it('accepts names, SKUs and order numbers in place of IDs', async () => {
+      const created = await callTool<SalesOrder>('upsert_sales_order', {
+        customerId: 'Acme Corp',
+        locationId: 'main warehouse',
+        items: [{ productId: 'GAD-001', quantity: 2 }],
+      });
+      expect(created).toMatchObject({ customerId: SEED_IDS.customer, locationId: SEED_IDS.mainWarehouse });
+      expect(created.lines?.[0].productId).toBe(SEED_IDS.gadget);
+
+      const order = await callTool<SalesOrder>('get_sales_order', { salesOrderId: 'SO-000001' });
+      expect(order.salesOrderId).toBe(SEED_IDS.salesOrder);
+
+      const ambiguous = await mcpClient.callTool({ name: 'get_product', arguments: { productId: 'wid' } });
+      expect(ambiguous.isError).toBe(true);
+      const [content] = ambiguous.content as Array<{ type: string; text: string }>;
+      const body = JSON.parse(content.text);
+      expect(body).toMatchObject({ code: 'AMBIGUOUS', field: 'productId', details: { kind: 'product' } });
+      expect(body.details.candidates.map((c: { id: string }) => c.id)).toEqual([SEED_IDS.widget, SEED_IDS.kit]);
+    });
+
+    it('reports stale timestamps as structured concurrency errors', async () => {
+      const order = await client.get<SalesOrder>(`/sales-orders/${SEED_IDS.salesOrder}`);
+      await client.put('/sales-orders', { salesOrderId: SEED_IDS.salesOrder, timestamp: order.timestamp });
+
+      const result = await mcpClient.callTool({
+        name: 'upsert_sales_order',
+        arguments: { id: SEED_IDS.salesOrder, remarks: 'late edit', timestamp: order.timestamp },
+      });
+
+      expect(result.isError).toBe(true);
+      const [content] = result.content as Array<{ type: string; text: string }>;
+      expect(JSON.parse(content.text)).toMatchObject({
+        code: 'CONCURRENCY_CONFLICT',
+        status: 409,
+        inflowCode: 'ConcurrencyConflict',
+        field: 'timestamp',
+        hint: expect.stringContaining('re-fetch'),
+      });
+    });
+
+    // Simulate someone editing the record in inFlow between the tool's GET and PUT
+    const editBeforeFirstPut = (edit: () => void) => {
+      const put = client.put.bind(client);
+      vi.spyOn(client, 'put').mockImplementationOnce(async (path, body) => {
+        edit();
+        return put(path, body);
+      });
+    };
+
+    it('rebases a sales order update onto a concurrent edit', async () => {
+      editBeforeFirstPut(() =>
+        simulator.store('sim-company').put('sales-orders', {
+          salesOrderId: SEED_IDS.salesOrder,
+          customFields: { rush: 'yes' },
+        })
+      );
+
+      const result = await callTool<SalesOrder & { rebase: unknown }>('upsert_sales_order', {
+        id: SEED_IDS.salesOrder,
+        remarks: 'rebased edit',
+      });
+      expect(result.rebase).toEqual({ rebased: true, attempts: 2, upstreamChanges: ['customFields'] });
+
+      const order = await client.get<SalesOrder>(`/sales-orders/${SEED_IDS.salesOrder}`);
+      expect(order).toMatchObject({ orderRemarks: 'rebased edit', customFields: { rush: 'yes' } });
+    });
+
+    it('re-checks receive quantities after a concurrent receive', async () => {
+      editBeforeFirstPut(() => {
+        const store = simulator.store('sim-company');
+        const po = store.get('purchase-orders', SEED_IDS.purchaseOrder, ['receiveLines']);
+        store.put('purchase-orders', {
+          purchaseOrderId: SEED_IDS.purchaseOrder,
+          receiveLines: [
+            ...((po.receiveLines as unknown[]) ?? []),
+            { productId: SEED_IDS.gadget, quantity: { standardQuantity: '3', uomQuantity: '3' } },
+          ],
+        });
+      });
+
+      const result = await callTool<{
+        received: Array<{ previouslyReceived: number; totalReceived: number }>;
+        rebase: { rebased: boolean; upstreamChanges: string[] };
+      }>('receive_purchase_order', {
+        purchaseOrderId: SEED_IDS.purchaseOrder,
+        items: [{ productId: SEED_IDS.gadget, quantity: 4 }],
+      });
+
+      expect(result.received[0]).toMatchObject({ previouslyReceived: 3, totalReceived: 7 });
+      expect(result.rebase.rebased).toBe(true);
+      expect(result.rebase.upstreamChanges).toEqual(expect.arrayContaining(['receiveLines', 'status']));
+    });
+
+    it('reports receive validation failures as isError results', async () => {
+      const result = await mcpClient.callTool({
+        name: 'receive_purchase_order',
+        arguments: { purchaseOrderId: SEED_IDS.purchaseOrder },
+      });
+
+      expect(result.isError).toBe(true);
+      const [content] = result.content as Array<{ type: string; text: string }>;
+      expect(JSON.parse(content.text)).toMatchObject({ code: 'INVALID_INPUT', field: 'items' });
+    });
+
+    it('patches manufacturing order output serials without losing input lines', async () => {
+      await callTool('upsert_manufacturing_order', {
+        id: SEED_IDS.manufacturingOrder,
+        outputSerialNumbers: ['KIT-SN-001'],
+      });
+
+      const order = await client.get<ManufacturingOrder>(
+        `/manufacturing-orders/${SEED_IDS.manufacturingOrder}`,
+        { include: ['lines'] }
+      );
+      const [output] = order.lines ?? [];
+      expect(output.quantity).toMatchObject({ serialNumbers: ['KIT-SN-001'] });
+      expect(output.manufacturingOrderLines).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,534 @@
+// In-memory inFlow data store backing the API simulator
+//
+// Mirrors the inFlow behaviors this server depends on:
+//   - list endpoints with filter[...], skip/count, sort/sortDesc, includeCount
+//   - `include` controls nested collections (lines, receiveLines, ...) and
+//     expands related records (category, vendor, lines.product, ...)
+//   - PUT upserts by entity id; top-level fields omitted from the body are kept,
+//     but every field that is sent — including line arrays — replaces the stored
+//     value wholesale, so a line sent without quantity.serialNumbers loses them
+//   - a stale `timestamp` on update is rejected with 409
+
+import { randomUUID } from 'node:crypto';
+import type { ApiError } from '../types/inflow.js';
+
+type SimRecord = Record<string, unknown>;
+
+export interface CollectionSpec {
+  // Primary key field on the entity, e.g. `productId`
+  idField: string;
+  // Foreign-key name other records use to reference this collection
+  refField: string;
+  // Nested collections only returned when named in `include`
+  includable?: string[];
+  // Fields a create must carry
+  requiredOnCreate?: string[];
+  // Line arrays whose entries get an id assigned when sent without one
+  lineIds?: Record<string, string>;
+}
+
+export const COLLECTIONS: Record<string, CollectionSpec> = {
+  products: {
+    idField: 'productId',
+    refField: 'productId',
+    includable: ['inventoryLines', 'itemBoms'],
+    requiredOnCreate: ['name'],
+  },
+  categories: { idField: 'categoryId', refField: 'categoryId', requiredOnCreate: ['name'] },
+  customers: {
+    idField: 'customerId',
+    refField: 'customerId',
+    includable: ['contacts'],
+    requiredOnCreate: ['name'],
+  },
+  vendors: {
+    idField: 'vendorId',
+    refField: 'vendorId',
+    includable: ['contacts'],
+    requiredOnCreate: ['name'],
+  },
+  'sales-orders': {
+    idField: 'salesOrderId',
+    refField: 'salesOrderId',
+    includable: ['lines'],
+    requiredOnCreate: ['customerId'],
+    lineIds: { lines: 'salesOrderLineId' },
+  },
+  'purchase-orders': {
+    idField: 'purchaseOrderId',
+    refField: 'purchaseOrderId',
+    includable: ['lines', 'receiveLines', 'unstockLines'],
+    requiredOnCreate: ['vendorId'],
+    lineIds: {
+      lines: 'purchaseOrderLineId',
+      receiveLines: 'purchaseOrderReceiveLineId',
+      unstockLines: 'purchaseOrderUnstockLineId',
+    },
+  },
+  'manufacturing-orders': {
+    idField: 'manufacturingOrderId',
+    refField: 'manufacturingOrderId',
+    includable: ['lines'],
+    lineIds: { lines: 'manufacturingOrderLineId' },
+  },
+  'stock-adjustments': {
+    idField: 'stockAdjustmentId',
+    refField: 'stockAdjustmentId',
+    requiredOnCreate: ['locationId'],
+  },
+  'stock-transfers': {
+    idField: 'stockTransferId',
+    refField: 'stockTransferId',
+    requiredOnCreate: ['fromLocationId', 'toLocationId'],
+  },
+  'stock-counts': {
+    idField: 'stockCountId',
+    refField: 'stockCountId',
+    requiredOnCreate: ['locationId'],
+  },
+  locations: { idField: 'id', refField: 'locationId', requiredOnCreate: ['name'] },
+  currencies: { idField: 'currencyId', refField: 'currencyId' },
+  'pricing-schemes': { idField: 'id', refField: 'pricingSchemeId', requiredOnCreate: ['name'] },
+  'payment-terms': { idField: 'id', refField: 'paymentTermsId', requiredOnCreate: ['name'] },
+  'taxing-schemes': { idField: 'id', refField: 'taxingSchemeId', requiredOnCreate: ['name'] },
+  'tax-codes': { idField: 'id', refField: 'taxCodeId' },
+  'adjustment-reasons': { idField: 'id', refField: 'adjustmentReasonId' },
+  'custom-field-definitions': { idField: 'id', refField: 'customFieldDefinitionId' },
+  'team-members': { idField: 'id', refField: 'teamMemberId' },
+  webhooks: { idField: 'id', refField: 'webhookId', requiredOnCreate: ['url'] },
+};
+
+export interface SimulatorSeed {
+  [collection: string]: SimRecord[] | Record<string, Record<string, string[]>> | undefined;
+  // entityType -> custom field name -> options
+  customFieldDropdownOptions?: Record<string, Record<string, string[]>>;
+}
+
+export interface ListQuery {
+  filters: Record<string, string>;
+  skip?: number;
+  count?: number;
+  sort?: string;
+  sortDesc?: boolean;
+  include: string[];
+}
+
+/** Thrown by the store and translated to an HTTP error response by the server. */
+export class SimulatorError extends Error {
+  constructor(
+    public statusCode: number,
+    public body: ApiError
+  ) {
+    super(body.message);
+    this.name = 'SimulatorError';
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseFloat(value) || 0;
+  if (value && typeof value === 'object') {
+    const quantity = value as { standardQuantity?: unknown; uomQuantity?: unknown };
+    return toNumber(quantity.standardQuantity ?? quantity.uomQuantity);
+  }
+  return 0;
+}
+
+// The client JSON-encodes array filters and stringifies booleans
+function parseFilterValue(raw: string): unknown {
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  if (raw.startsWith('[')) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+  return raw;
+}
+
+export class SimulatorStore {
+  private readonly collections = new Map<string, Map<string, SimRecord>>();
+  private dropdownOptions: Record<string, Record<string, string[]>> = {};
+  private clock = 0;
+
+  constructor(seed: SimulatorSeed = {}) {
+    for (const name of Object.keys(COLLECTIONS)) {
+      this.collections.set(name, new Map());
+    }
+    this.load(seed);
+  }
+
+  /** Replace all state with `seed`. Seeded records get timestamps if missing. */
+  load(seed: SimulatorSeed): void {
+    const loadedAt = new Date().toISOString();
+    for (const [name, records] of this.collections) {
+      records.clear();
+      const spec = COLLECTIONS[name];
+      const seeded = (seed[name] as SimRecord[] | undefined) ?? [];
+      for (const record of seeded) {
+        const stored = clone(record);
+        stored[spec.idField] ??= randomUUID();
+        stored.timestamp ??= this.nextTimestamp();
+        stored.createdDate ??= loadedAt;
+        stored.modifiedDate ??= loadedAt;
+        this.applyDerivedFields(name, stored);
+        records.set(String(stored[spec.idField]), stored);
+      }
+    }
+    this.dropdownOptions = clone(seed.customFieldDropdownOptions ?? {});
+  }
+
+  hasCollection(name: string): boolean {
+    return this.collections.has(name);
+  }
+
+  list(name: string, query: ListQuery): { data: SimRecord[]; totalCount: number } {
+    let records = [...this.requireCollection(name).values()];
+
+    for (const [field, raw] of Object.entries(query.filters)) {
+      records = records.filter((record) => this.matchesFilter(record, field, parseFilterValue(raw)));
+    }
+
+    if (query.sort) {
+      const field = query.sort;
+      const direction = query.sortDesc ? -1 : 1;
+      records.sort((a, b) => direction * this.compareValues(a[field], b[field]));
+    }
+
+    const totalCount = records.length;
+    const skip = Math.max(0, query.skip ?? 0);
+    const count = Math.min(Math.max(0, query.count ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const page = records.slice(skip, skip + count);
+
+    return {
+      data: page.map((record) => this.present(name, record, query.include)),
+      totalCount,
+    };
+  }
+
+  get(name: string, id: string, include: string[] = []): SimRecord {
+    const record = this.requireCollection(name).get(id);
+    if (!record) {
+      throw new SimulatorError(404, {
+        code: 'NotFound',
+        message: `${name} record ${id} not found`,
+      });
+    }
+    return this.present(name, record, include);
+  }
+
+  /**
+   * Upsert following inFlow's PUT semantics: fields present in the body
+   * replace stored values wholesale, omitted top-level fields are preserved.
+   */
+  put(name: string, body: SimRecord): SimRecord {
+    const spec = COLLECTIONS[name];
+    const records = this.requireCollection(name);
+    const id = body[spec.idField];
+
+    if (typeof id !== 'string' || id === '') {
+      throw new SimulatorError(400, {
+        code: 'ValidationError',
+        message: `${spec.idField} is required`,
+        details: { field: spec.idField },
+      });
+    }
+
+    const existing = records.get(id);
+    if (existing) {
+      if (body.timestamp !== undefined && body.timestamp !== existing.timestamp) {
+        throw new SimulatorError(409, {
+          code: 'ConcurrencyConflict',
+          message: 'The record was modified after it was retrieved. Re-fetch it and try again.',
+          details: {
+            field: 'timestamp',
+            expected: existing.timestamp,
+            received: body.timestamp,
+          },
+        });
+      }
+    } else {
+      for (const field of spec.requiredOnCreate ?? []) {
+        if (body[field] === undefined || body[field] === null || body[field] === '') {
+          throw new SimulatorError(400, {
+            code: 'ValidationError',
+            message: `${field} is required`,
+            details: { field },
+          });
+        }
+      }
+    }
+
+    const next: SimRecord = { ...(existing ? clone(existing) : {}) };
+    for (const [key, value] of Object.entries(body)) {
+      if (value !== undefined) next[key] = clone(value);
+    }
+
+    for (const [field, lineIdField] of Object.entries(spec.lineIds ?? {})) {
+      for (const line of (next[field] as SimRecord[] | undefined) ?? []) {
+        line[lineIdField] ??= randomUUID();
+      }
+    }
+
+    const now = new Date().toISOString();
+    next.timestamp = this.nextTimestamp();
+    next.createdDate = existing?.createdDate ?? now;
+    next.modifiedDate = now;
+    this.applyDerivedFields(name, next);
+
+    records.set(id, next);
+    return this.present(name, next, spec.includable ?? []);
+  }
+
+  delete(name: string, id: string): void {
+    const records = this.requireCollection(name);
+    if (!records.delete(id)) {
+      throw new SimulatorError(404, {
+        code: 'NotFound',
+        message: `${name} record ${id} not found`,
+      });
+    }
+  }
+
+  getDropdownOptions(entityType: string): Record<string, string[]> {
+    return clone(this.dropdownOptions[entityType] ?? {});
+  }
+
+  getSuggestedSublocations(locationId: string): string[] {
+    const location = this.get('locations', locationId);
+    return (location.sublocations as string[] | undefined) ?? [];
+  }
+
+  /**
+   * Inventory summary derived from seeded inventoryLines, PO receive lines and
+   * stock adjustments; open sales orders count as allocated.
+   */
+  getProductSummary(productId: string): SimRecord {
+    const product = this.requireCollection('products').get(productId);
+    if (!product) {
+      throw new SimulatorError(404, {
+        code: 'NotFound',
+        message: `products record ${productId} not found`,
+      });
+    }
+
+    const onHandByLocation = new Map<string, number>();
+    const addOnHand = (locationId: unknown, quantity: number) => {
+      const key = typeof locationId === 'string' ? locationId : '';
+      onHandByLocation.set(key, (onHandByLocation.get(key) ?? 0) + quantity);
+    };
+
+    for (const line of (product.inventoryLines as SimRecord[] | undefined) ?? []) {
+      addOnHand(line.locationId, toNumber(line.quantityOnHand));
+    }
+
+    let quantityOnOrder = 0;
+    for (const order of this.requireCollection('purchase-orders').values()) {
+      let ordered = 0;
+      for (const line of (order.lines as SimRecord[] | undefined) ?? []) {
+        if (line.productId === productId) ordered += toNumber(line.quantity);
+      }
+      let received = 0;
+      for (const line of (order.receiveLines as SimRecord[] | undefined) ?? []) {
+        if (line.productId !== productId) continue;
+        const quantity = toNumber(line.quantity);
+        received += quantity;
+        addOnHand(line.locationId ?? order.locationId, quantity);
+      }
+      if (order.status !== 'Cancelled' && order.status !== 'Closed') {
+        quantityOnOrder += Math.max(0, ordered - received);
+      }
+    }
+
+    for (const adjustment of this.requireCollection('stock-adjustments').values()) {
+      for (const item of (adjustment.items as SimRecord[] | undefined) ?? []) {
+        if (item.productId === productId) addOnHand(adjustment.locationId, toNumber(item.quantity));
+      }
+    }
+
+    let quantityAllocated = 0;
+    for (const order of this.requireCollection('sales-orders').values()) {
+      if (order.status && order.status !== 'Open') continue;
+      for (const line of (order.lines as SimRecord[] | undefined) ?? []) {
+        if (line.productId === productId) quantityAllocated += toNumber(line.quantity);
+      }
+    }
+
+    const locations = this.requireCollection('locations');
+    const locationSummaries = [...onHandByLocation.entries()]
+      .filter(([locationId]) => locationId !== '')
+      .map(([locationId, quantityOnHand]) => ({
+        locationId,
+        locationName: (locations.get(locationId)?.name as string | undefined) ?? '',
+        quantityOnHand,
+        quantityAvailable: quantityOnHand,
+      }));
+    const quantityOnHand = [...onHandByLocation.values()].reduce((sum, qty) => sum + qty, 0);
+
+    return {
+      productId,
+      quantityOnHand,
+      quantityAvailable: quantityOnHand - quantityAllocated,
+      quantityOnOrder,
+      quantityAllocated,
+      locationSummaries,
+    };
+  }
+
+  private requireCollection(name: string): Map<string, SimRecord> {
+    const records = this.collections.get(name);
+    if (!records) {
+      throw new SimulatorError(404, {
+        code: 'NotFound',
+        message: `Unknown endpoint /${name}`,
+      });
+    }
+    return records;
+  }
+
+  private nextTimestamp(): string {
+    this.clock += 1;
+    return `AAAAAAA${this.clock.toString(16).padStart(9, '0')}`;
+  }
+
+  /** Fields inFlow computes server-side rather than accepting from the caller. */
+  private applyDerivedFields(name: string, record: SimRecord): void {
+    if (name === 'purchase-orders') {
+      if (record.status === 'Cancelled' || record.status === 'Closed') return;
+
+      const orderedByProduct = new Map<string, number>();
+      for (const line of (record.lines as SimRecord[] | undefined) ?? []) {
+        const productId = String(line.productId ?? '');
+        orderedByProduct.set(productId, (orderedByProduct.get(productId) ?? 0) + toNumber(line.quantity));
+      }
+      const receivedByProduct = new Map<string, number>();
+      for (const line of (record.receiveLines as SimRecord[] | undefined) ?? []) {
+        const productId = String(line.productId ?? '');
+        receivedByProduct.set(productId, (receivedByProduct.get(productId) ?? 0) + toNumber(line.quantity));
+      }
+
+      const anyReceived = [...receivedByProduct.values()].some((qty) => qty > 0);
+      const allReceived =
+        orderedByProduct.size > 0 &&
+        [...orderedByProduct.entries()].every(
+          ([productId, ordered]) => (receivedByProduct.get(productId) ?? 0) >= ordered
+        );
+      record.status = allReceived ? 'Received' : anyReceived ? 'PartiallyReceived' : 'Open';
+      record.inventoryStatus = record.status;
+    }
+
+    if (name === 'sales-orders') {
+      record.status ??= 'Open';
+    }
+
+    if (name === 'products') {
+      // inFlow converts uomQuantity to the standard unit; the simulator has
+      // no UOM conversions, so every unit counts as the standard one
+      for (const bom of (record.itemBoms as SimRecord[] | undefined) ?? []) {
+        const quantity = bom.quantity as SimRecord | undefined;
+        if (quantity && quantity.standardQuantity === undefined) quantity.standardQuantity = quantity.uomQuantity;
+      }
+    }
+  }
+
+  /** Shape a stored record for a response: hide un-included collections, expand includes. */
+  private present(name: string, record: SimRecord, include: string[]): SimRecord {
+    const spec = COLLECTIONS[name];
+    const result = clone(record);
+    const includeRoots = new Set(include.map((path) => path.split('.')[0]));
+
+    for (const field of spec.includable ?? []) {
+      if (!includeRoots.has(field)) delete result[field];
+    }
+
+    for (const path of include) {
+      this.expandInclude(result, path.split('.'));
+    }
+
+    return result;
+  }
+
+  private expandInclude(target: SimRecord, segments: string[]): void {
+    const [head, ...rest] = segments;
+    const value = target[head];
+
+    if (Array.isArray(value)) {
+      if (rest.length > 0) {
+        for (const item of value) {
+          if (item && typeof item === 'object') this.expandInclude(item as SimRecord, rest);
+        }
+      }
+      return;
+    }
+
+    // Expand a reference such as `category` from `categoryId`
+    const related = this.findRelated(head, target[`${head}Id`]);
+    if (related) {
+      target[head] = related;
+      if (rest.length > 0) this.expandInclude(related, rest);
+    }
+  }
+
+  private findRelated(name: string, id: unknown): SimRecord | undefined {
+    if (typeof id !== 'string') return undefined;
+    const refField = `${name}Id`;
+    for (const [collection, spec] of Object.entries(COLLECTIONS)) {
+      if (spec.refField !== refField) continue;
+      const record = this.collections.get(collection)?.get(id);
+      return record ? this.present(collection, record, []) : undefined;
+    }
+    return undefined;
+  }
+
+  private matchesFilter(record: SimRecord, field: string, filter: unknown): boolean {
+    if (field === 'smart') {
+      const needle = String(filter).toLowerCase();
+      return Object.values(record).some(
+        (value) => typeof value === 'string' && value.toLowerCase().includes(needle)
+      );
+    }
+
+    // Flat range filters: orderDateFrom / orderDateTo, totalFrom / totalTo, ...
+    const range = /^(.*)(From|To)$/.exec(field);
+    if (range && !(field in record) && range[1] in record) {
+      const comparison = this.compareValues(record[range[1]], filter);
+      return range[2] === 'From' ? comparison >= 0 : comparison <= 0;
+    }
+
+    const value = record[field];
+    if (Array.isArray(filter)) {
+      return filter.some((candidate) => String(candidate) === String(value));
+    }
+    if (typeof filter === 'boolean' || typeof filter === 'number') {
+      return String(value) === String(filter);
+    }
+
+    const text = String(filter).toLowerCase();
+    if (typeof value !== 'string') return false;
+    // Ids and enum-like fields match exactly; free text matches partially
+    if (field.endsWith('Id') || field === 'status') {
+      return value.toLowerCase() === text;
+    }
+    return value.toLowerCase().includes(text);
+  }
+
+  private compareValues(a: unknown, b: unknown): number {
+    if (a === undefined || a === null) return b === undefined || b === null ? 0 : -1;
+    if (b === undefined || b === null) return 1;
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    const numA = Number(a);
+    const numB = Number(b);
+    if (typeof a !== 'boolean' && !Number.isNaN(numA) && !Number.isNaN(numB) && a !== '' && b !== '') {
+      return numA - numB;
+    }
+    return String(a).localeCompare(String(b));
+  }
+}
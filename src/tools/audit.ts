@@ -0,0 +1,107 @@
+// Audit log tools for inFlow MCP Server
+
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { InflowClientRegistry } from '../client/registry.js';
+import { runAudited } from '../client/audit.js';
+import { companyArg } from './company.js';
+import { ToolError, withToolErrors } from './errors.js';
+import { jsonResult } from './results.js';
+
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 500;
+
+/** One changed field of a write (see FieldChange). */
+export const fieldChangeSchema = z.object({
+  path: z.string(),
+  before: z.unknown().optional(),
+  after: z.unknown().optional(),
+});
+
+const auditQueryResultSchema = z.object({
+  count: z.number(),
+  entries: z.array(
+    z
+      .object({
+        id: z.string(),
+        timestamp: z.string(),
+        tool: z.string(),
+        args: z.record(z.string(), z.unknown()),
+        companyId: z.string(),
+        method: z.string(),
+        path: z.string(),
+        entityType: z.string(),
+        entityId: z.string().optional(),
+        before: z.unknown().optional(),
+        body: z.unknown().optional(),
+        response: z.unknown().optional(),
+        error: z.object({ status: z.number().optional(), message: z.string() }).optional(),
+        diff: z.array(fieldChangeSchema),
+        durationMs: z.number(),
+      })
+      .passthrough()
+  ),
+});
+
+/** Wrap a mutating tool's handler so the writes it makes land in the audit log. */
+export function withAudit<Args extends [Record<string, unknown>, ...unknown[]], Result>(
+  tool: string,
+  handler: (...args: Args) => Promise<Result>
+): (...args: Args) => Promise<Result> {
+  return (...args: Args) => runAudited(tool, args[0], () => handler(...args));
+}
+
+export function registerAuditTools(server: McpServer, clients: InflowClientRegistry): void {
+  // Query Audit Log
+  server.registerTool(
+    'query_audit_log',
+    {
+      description: 'Search the audit log of writes made by this server (upserts, receipts, deletes). Each entry has the tool call, the affected entity and a field-level diff; snapshots of the record before and after the change are included on request.',
+      inputSchema: {
+        entityId: z.string().optional().describe('Only entries for this record ID (e.g. a salesOrderId)'),
+        tool: z.string().optional().describe('Only entries made by this tool (e.g. upsert_sales_order)'),
+        from: z.string().optional().describe('Only entries at or after this time (ISO 8601)'),
+        to: z.string().optional().describe('Only entries at or before this time (ISO 8601)'),
+        limit: z
+          .number()
+          .optional()
+          .describe(`Maximum entries to return, newest first (default: ${DEFAULT_QUERY_LIMIT}, max: ${MAX_QUERY_LIMIT})`),
+        includeSnapshots: z
+          .boolean()
+          .optional()
+          .describe('Include the before snapshot, request body and response (large)'),
+        company: companyArg,
+      },
+      outputSchema: auditQueryResultSchema,
+    },
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
+      if (!client.auditLog) {
+        throw new ToolError('INVALID_STATE', 'Audit logging is not enabled', {
+          hint: 'Set INFLOW_AUDIT_LOG to a file path and restart the server',
+        });
+      }
+      for (const field of ['from', 'to'] as const) {
+        if (args[field] && Number.isNaN(Date.parse(args[field]!))) {
+          throw new ToolError('INVALID_INPUT', `"${args[field]}" is not a valid ISO 8601 time`, { field });
+        }
+      }
+
+      const limit = Math.min(args.limit ?? DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT);
+      const entries = await client.auditLog.query({
+        entityId: args.entityId,
+        tool: args.tool,
+        from: args.from,
+        to: args.to,
+        companyId: client.companyId,
+        limit,
+      });
+
+      const results = args.includeSnapshots
+        ? entries
+        : entries.map(({ before: _before, body: _body, response: _response, ...entry }) => entry);
+
+      return jsonResult({ count: results.length, entries: results });
+    })
+  );
+}
@@ -0,0 +1,42 @@
+// Company profile tools for inFlow MCP Server
+
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { InflowClientRegistry } from '../client/registry.js';
+import { withToolErrors } from './errors.js';
+import { jsonResult } from './results.js';
+
+/** Optional `company` argument shared by every tool. */
+export const companyArg = z
+  .string()
+  .optional()
+  .describe('Company profile to act on (see list_companies). Defaults to the default profile.');
+
+const companiesResultSchema = z.object({
+  defaultCompany: z.string(),
+  companies: z.array(
+    z.object({
+      name: z.string(),
+      label: z.string().optional(),
+      companyId: z.string(),
+      baseUrl: z.string(),
+      isDefault: z.boolean(),
+    })
+  ),
+});
+
+export function registerCompanyTools(server: McpServer, clients: InflowClientRegistry): void {
+  // List Companies
+  server.registerTool(
+    'list_companies',
+    {
+      description: 'List the configured inFlow company profiles and which one is the default. Pass a profile name as `company` on any other tool to act on that account.',
+      outputSchema: companiesResultSchema,
+    },
+    withToolErrors(async () => {
+      const companies = clients.list();
+
+      return jsonResult({ defaultCompany: clients.defaultCompany, companies });
+    })
+  );
+}
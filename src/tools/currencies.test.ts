@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { matchCurrency } from './currencies.js';
+import { ToolError } from './errors.js';
+import type { Currency } from '../types/inflow.js';
+
+const currencies: Currency[] = [
+  { currencyId: 'usd', code: 'USD', name: 'US Dollar', symbol: '$' },
+  { currencyId: 'cad', code: 'CAD', name: 'Canadian Dollar', symbol: '$' },
+  { currencyId: 'eur', code: 'EUR', name: 'Euro', symbol: '€' },
+];
+
+describe('matchCurrency', () => {
+  it('resolves by code, name or symbol', () => {
+    expect(matchCurrency(currencies, 'eur').currencyId).toBe('eur');
+    expect(matchCurrency(currencies, ' Canadian dollar ').currencyId).toBe('cad');
+    expect(matchCurrency(currencies, '€').currencyId).toBe('eur');
+  });
+
+  it('refuses to guess between currencies sharing a symbol', () => {
+    expect(() => matchCurrency(currencies, '$')).toThrow(
+      expect.objectContaining({
+        code: 'INVALID_INPUT',
+        options: expect.objectContaining({
+          details: { candidates: ['USD (US Dollar, $)', 'CAD (Canadian Dollar, $)'] },
+        }),
+      })
+    );
+  });
+
+  it("lists the account's currencies when nothing matches", () => {
+    let error: unknown;
+    try {
+      matchCurrency(currencies, 'GBP', 'currency');
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ToolError);
+    expect(error).toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Currency not found: GBP',
+      options: {
+        field: 'currency',
+        details: { available: ['USD (US Dollar, $)', 'CAD (Canadian Dollar, $)', 'EUR (Euro, €)'] },
+      },
+    });
+  });
+});
@@ -0,0 +1,60 @@
+// Currency resolution for inFlow MCP Server
+//
+// Currency IDs are account-specific, so codes are resolved against the
+// account's own `/currencies` list (served from the reference-data cache).
+
+import type { InflowClient } from '../client/inflow.js';
+import type { Currency } from '../types/inflow.js';
+import { ToolError } from './errors.js';
+
+/** `EUR (Euro, €)`, for listing an account's currencies in errors. */
+function describeCurrency(currency: Currency): string {
+  const extras = [currency.name, currency.symbol].filter(Boolean).join(', ');
+  return extras ? `${currency.code} (${extras})` : currency.code;
+}
+
+/**
+ * Find the currency `value` refers to: an ISO code or name (case-insensitive)
+ * or a symbol. Codes win over names, and names over symbols, so `CAD` never
+ * resolves to a currency whose symbol happens to be `CAD`. Throws when
+ * nothing matches or a symbol like `$` is shared by several currencies.
+ */
+export function matchCurrency(currencies: Currency[], value: string, field = 'currencyCode'): Currency {
+  const wanted = value.trim();
+  const lower = wanted.toLowerCase();
+  const available = currencies.map(describeCurrency);
+
+  const byCode = currencies.find((currency) => currency.code?.toLowerCase() === lower);
+  if (byCode) return byCode;
+  const byName = currencies.find((currency) => currency.name?.toLowerCase() === lower);
+  if (byName) return byName;
+
+  const bySymbol = currencies.filter((currency) => currency.symbol === wanted);
+  if (bySymbol.length === 1) return bySymbol[0];
+  if (bySymbol.length > 1) {
+    throw new ToolError('INVALID_INPUT', `Currency symbol "${wanted}" is ambiguous`, {
+      field,
+      details: { candidates: bySymbol.map(describeCurrency) },
+      hint: 'Pass the ISO currency code instead',
+    });
+  }
+
+  throw new ToolError('NOT_FOUND', `Currency not found: ${wanted}`, {
+    field,
+    details: { available },
+    hint:
+      available.length > 0
+        ? 'Use one of the currencies configured in this inFlow account'
+        : 'No currencies are configured in this inFlow account',
+  });
+}
+
+/** Resolve a currency code, symbol or name against the account's currencies. */
+export async function resolveCurrency(
+  client: InflowClient,
+  value: string,
+  field = 'currencyCode'
+): Promise<Currency> {
+  const currencies = await client.getAll<Currency>('/currencies');
+  return matchCurrency(currencies.data, value, field);
+}
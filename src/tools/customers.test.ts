@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { mergeContacts, mergeCustomerUpdate, mergeVendorUpdate } from './customers.js';
+import type { Contact, Customer, Vendor } from '../types/inflow.js';
+
+const ada = (): Contact => ({ contactId: 'contact-ada', name: 'Ada Buyer', email: 'ada@acme.example', isPrimary: true });
+const bob = (): Contact => ({ contactId: 'contact-bob', name: 'Bob Receiving', email: 'bob@acme.example', phone: '555-0101' });
+
+const existingCustomer = (): Customer => ({
+  customerId: 'cust-acme',
+  name: 'Acme Corp',
+  email: 'orders@acme.example',
+  phone: '555-0100',
+  billingAddress: { street1: '1 Main St', city: 'Springfield' },
+  shippingAddress: { street1: '2 Dock Rd', city: 'Springfield' },
+  pricingSchemeId: 'pricing-wholesale',
+  remarks: 'net 30',
+  customFields: { custom1: 'key account', custom2: 'east' },
+  isActive: true,
+  contacts: [ada(), bob()],
+  timestamp: '2026-04-20T00:00:00Z',
+});
+
+describe('mergeCustomerUpdate', () => {
+  it('changes only the fields passed and keeps addresses, contacts and timestamp', () => {
+    const merged = mergeCustomerUpdate(existingCustomer(), { id: 'cust-acme', phone: '555-0199' });
+
+    expect(merged).toEqual({ ...existingCustomer(), phone: '555-0199' });
+  });
+
+  it('merges custom fields key by key and header fields by presence', () => {
+    const merged = mergeCustomerUpdate(existingCustomer(), {
+      remarks: '',
+      isActive: false,
+      customFields: { custom2: 'west' },
+    });
+
+    expect(merged).toMatchObject({
+      name: 'Acme Corp',
+      remarks: '',
+      isActive: false,
+      customFields: { custom1: 'key account', custom2: 'west' },
+    });
+  });
+});
+
+describe('mergeVendorUpdate', () => {
+  it('keeps the address and contacts when only the email changes', () => {
+    const vendor: Vendor = {
+      vendorId: 'vendor-parts',
+      name: 'Parts Supply Co',
+      address: { street1: '9 Mill Ln' },
+      contacts: [bob()],
+      timestamp: '2026-04-20T00:00:00Z',
+    };
+
+    expect(mergeVendorUpdate(vendor, { email: 'sales@parts.example' })).toEqual({
+      ...vendor,
+      email: 'sales@parts.example',
+    });
+  });
+});
+
+describe('mergeContacts', () => {
+  it('patches a contact by id or by email without touching its other fields', () => {
+    const contacts = mergeContacts([ada(), bob()], {
+      contacts: [
+        { id: 'contact-ada', phone: '555-0102' },
+        { email: 'BOB@acme.example', name: 'Bob Shipping' },
+      ],
+    });
+
+    expect(contacts).toEqual([
+      { ...ada(), phone: '555-0102' },
+      // Matched case-insensitively; the patch's spelling is what gets saved
+      { ...bob(), name: 'Bob Shipping', email: 'BOB@acme.example' },
+    ]);
+  });
+
+  it('appends unmatched contacts and removes those in deleteContactIds', () => {
+    const contacts = mergeContacts([ada(), bob()], {
+      contacts: [{ name: 'Cy Accounts', email: 'cy@acme.example' }],
+      deleteContactIds: ['contact-bob'],
+    });
+
+    expect(contacts).toEqual([
+      ada(),
+      { contactId: expect.any(String), name: 'Cy Accounts', email: 'cy@acme.example' },
+    ]);
+  });
+
+  it('throws when an email matches several contacts', () => {
+    const twin = { ...bob(), contactId: 'contact-bob-2' };
+
+    expect(() => mergeContacts([bob(), twin], { contacts: [{ email: 'bob@acme.example', phone: '1' }] })).toThrow(
+      /Ambiguous contact patch/
+    );
+  });
+
+  it('sets the primary contact by id or email and unmarks the others', () => {
+    expect(mergeContacts([ada(), bob()], { primaryContact: 'bob@acme.example' }).map((c) => c.isPrimary)).toEqual([
+      false,
+      true,
+    ]);
+    expect(
+      mergeContacts([ada(), bob()], { contacts: [{ id: 'contact-bob', isPrimary: true }] }).map((c) => c.isPrimary)
+    ).toEqual([false, true]);
+    expect(() => mergeContacts([ada()], { primaryContact: 'nobody@acme.example' })).toThrow(/No contact/);
+  });
+
+  it('leaves isPrimary alone when nothing asks to change it', () => {
+    expect(mergeContacts([ada(), bob()], {})).toEqual([ada(), bob()]);
+  });
+});
@@ -3,16 +3,24 @@
 import { z } from 'zod';
 import { randomUUID } from 'crypto';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { InflowClient } from '../client/inflow.js';
+import type { InflowClientRegistry } from '../client/registry.js';
+import { companyArg } from './company.js';
+import { ToolError, withToolErrors } from './errors.js';
+import { withResolvedIds } from './resolve.js';
+import { withAudit } from './audit.js';
+import { dryRunArg, dryRunnable, withDryRun } from './dry-run.js';
+import { jsonResult } from './results.js';
+import { fetchAllArgs, listRecords } from './list.js';
+import { putWithRebase, rebaseReportSchema } from './rebase.js';
 import type {
   Customer,
   Vendor,
   CustomerFilter,
   VendorFilter,
-  PaginationParams,
   Address,
   Contact,
 } from '../types/inflow.js';
+import { customerSchema, listResultSchema, vendorSchema } from '../types/schemas.js';
 
 const addressSchema = z.object({
   street1: z.string().optional(),
@@ -24,37 +32,236 @@ const addressSchema = z.object({
 });
 
 const contactSchema = z.object({
-  id: z.string().optional(),
+  id: z.string().optional().describe('contactId of an existing contact to update'),
   name: z.string().optional(),
   email: z.string().optional(),
   phone: z.string().optional(),
   isPrimary: z.boolean().optional(),
 });
 
-export function registerCustomerTools(server: McpServer, client: InflowClient): void {
+export type ContactPatch = z.infer<typeof contactSchema>;
+
+/** Contact changes shared by customer and vendor updates. */
+export type ContactUpsertArgs = {
+  contacts?: ContactPatch[];
+  deleteContactIds?: string[];
+  // contactId or email of the contact to make the only primary one
+  primaryContact?: string;
+};
+
+export type CustomerUpsertArgs = ContactUpsertArgs & {
+  id?: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+  fax?: string;
+  website?: string;
+  billingAddress?: Address;
+  shippingAddress?: Address;
+  pricingSchemeId?: string;
+  paymentTermsId?: string;
+  taxingSchemeId?: string;
+  currencyCode?: string;
+  remarks?: string;
+  customFields?: Record<string, unknown>;
+  isActive?: boolean;
+  timestamp?: string;
+};
+
+export type VendorUpsertArgs = ContactUpsertArgs & {
+  id?: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+  fax?: string;
+  website?: string;
+  address?: Address;
+  paymentTermsId?: string;
+  currencyCode?: string;
+  customFields?: Record<string, unknown>;
+  isActive?: boolean;
+  timestamp?: string;
+};
+
+const contactKey = (contact: Contact) => contact.contactId ?? contact.id;
+
+const sameEmail = (a: string | undefined, b: string | undefined) =>
+  Boolean(a && b && a.trim().toLowerCase() === b.trim().toLowerCase());
+
+/** Locate the existing contact a patch targets; throws on email ambiguity. */
+function findContactIndex(contacts: Contact[], patch: ContactPatch): number {
+  if (patch.id) {
+    return contacts.findIndex((contact) => contactKey(contact) === patch.id);
+  }
+  if (patch.email) {
+    const matchingIndices = contacts
+      .map((contact, index) => (sameEmail(contact.email, patch.email) ? index : -1))
+      .filter((index) => index >= 0);
+    if (matchingIndices.length === 1) return matchingIndices[0];
+    if (matchingIndices.length > 1) {
+      throw new ToolError(
+        'INVALID_INPUT',
+        `Ambiguous contact patch: email ${patch.email} matches ${matchingIndices.length} existing contacts. Pass an explicit id to disambiguate.`,
+        { field: 'contacts' }
+      );
+    }
+  }
+  return -1;
+}
+
+/**
+ * Apply contact patches to an existing contact list.
+ *
+ *   1. Contacts whose contactIds are in `deleteContactIds` are removed first.
+ *   2. A patch with `id` updates the contact with that contactId; without `id` it
+ *      updates the one contact with the same email (case-insensitive).
+ *      Fields the patch leaves out are kept. Unmatched patches are appended.
+ *   3. `primaryContact` (a contactId or email), or a patch setting isPrimary: true,
+ *      makes that contact the only primary one.
+ */
+export function mergeContacts(existing: Contact[], args: ContactUpsertArgs): Contact[] {
+  const deleteSet = new Set(args.deleteContactIds ?? []);
+  const contacts: Contact[] = existing
+    .filter((contact) => {
+      const key = contactKey(contact);
+      return !(key && deleteSet.has(key));
+    })
+    .map((contact) => ({ ...contact }));
+
+  let primaryIndex = -1;
+  for (const patch of args.contacts ?? []) {
+    const { id, ...fields } = patch;
+    let index = findContactIndex(contacts, patch);
+    if (index >= 0) {
+      contacts[index] = { ...contacts[index], ...fields };
+    } else {
+      index = contacts.push({ contactId: id ?? randomUUID(), ...fields }) - 1;
+    }
+    if (patch.isPrimary) primaryIndex = index;
+  }
+
+  if (args.primaryContact) {
+    const reference = args.primaryContact;
+    primaryIndex = contacts.findIndex(
+      (contact) => contactKey(contact) === reference || sameEmail(contact.email, reference)
+    );
+    if (primaryIndex < 0) {
+      throw new ToolError('NOT_FOUND', `No contact with id or email "${reference}"`, {
+        field: 'primaryContact',
+        details: {
+          contacts: contacts.map((contact) => ({
+            contactId: contactKey(contact),
+            name: contact.name,
+            email: contact.email,
+          })),
+        },
+      });
+    }
+  }
+
+  if (primaryIndex >= 0) {
+    contacts.forEach((contact, index) => {
+      contact.isPrimary = index === primaryIndex;
+    });
+  }
+  return contacts;
+}
+
+/**
+ * Merge a partial upsert payload onto an existing customer. `PUT /customers`
+ * takes the full desired state, so header fields are merged by presence,
+ * custom fields key by key, and contacts with mergeContacts.
+ */
+export function mergeCustomerUpdate(existing: Customer, args: CustomerUpsertArgs): Customer {
+  const merged: Customer = { ...existing };
+
+  // inFlow requires a name, so it can be changed but not cleared
+  if (args.name !== undefined) merged.name = args.name;
+  if ('email' in args) merged.email = args.email;
+  if ('phone' in args) merged.phone = args.phone;
+  if ('fax' in args) merged.fax = args.fax;
+  if ('website' in args) merged.website = args.website;
+  if ('billingAddress' in args) merged.billingAddress = args.billingAddress;
+  if ('shippingAddress' in args) merged.shippingAddress = args.shippingAddress;
+  if ('pricingSchemeId' in args) merged.pricingSchemeId = args.pricingSchemeId;
+  if ('paymentTermsId' in args) merged.paymentTermsId = args.paymentTermsId;
+  if ('taxingSchemeId' in args) merged.taxingSchemeId = args.taxingSchemeId;
+  if ('currencyCode' in args) merged.currencyCode = args.currencyCode;
+  if ('remarks' in args) merged.remarks = args.remarks;
+  if ('customFields' in args) merged.customFields = { ...existing.customFields, ...args.customFields };
+  if ('isActive' in args) merged.isActive = args.isActive;
+  if ('timestamp' in args) merged.timestamp = args.timestamp;
+
+  merged.contacts = mergeContacts(existing.contacts ?? [], args);
+  return merged;
+}
+
+/** Merge a partial upsert payload onto an existing vendor; see mergeCustomerUpdate. */
+export function mergeVendorUpdate(existing: Vendor, args: VendorUpsertArgs): Vendor {
+  const merged: Vendor = { ...existing };
+
+  if (args.name !== undefined) merged.name = args.name;
+  if ('email' in args) merged.email = args.email;
+  if ('phone' in args) merged.phone = args.phone;
+  if ('fax' in args) merged.fax = args.fax;
+  if ('website' in args) merged.website = args.website;
+  if ('address' in args) merged.address = args.address;
+  if ('paymentTermsId' in args) merged.paymentTermsId = args.paymentTermsId;
+  if ('currencyCode' in args) merged.currencyCode = args.currencyCode;
+  if ('customFields' in args) merged.customFields = { ...existing.customFields, ...args.customFields };
+  if ('isActive' in args) merged.isActive = args.isActive;
+  if ('timestamp' in args) merged.timestamp = args.timestamp;
+
+  merged.contacts = mergeContacts(existing.contacts ?? [], args);
+  return merged;
+}
+
+// Contact arguments shared by upsert_customer and upsert_vendor
+const contactArgs = {
+  contacts: z
+    .array(contactSchema)
+    .optional()
+    .describe(
+      'Contact persons. For updates, each contact patches the existing contact whose contactId is `id` (or, without id, the one with the same email); unmatched contacts are added. Unmentioned contacts are preserved.'
+    ),
+  deleteContactIds: z.array(z.string()).optional().describe('contactId values to remove during an update'),
+  primaryContact: z
+    .string()
+    .optional()
+    .describe('contactId or email of the contact to make primary (the others are unmarked)'),
+};
+
+export function registerCustomerTools(server: McpServer, clients: InflowClientRegistry): void {
   // List Customers
-  server.tool(
+  server.registerTool(
     'list_customers',
-    'Search and list customers with optional filtering',
     {
-      name: z.string().optional().describe('Filter by customer name (partial match)'),
-      email: z.string().optional().describe('Filter by email'),
-      phone: z.string().optional().describe('Filter by phone'),
-      locationId: z.string().optional().describe('Filter by location ID'),
-      pricingSchemeId: z.string().optional().describe('Filter by pricing scheme ID'),
-      isActive: z.boolean().optional().describe('Filter by active status'),
-      smart: z.string().optional().describe('Smart search across customer fields (name, email, phone)'),
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include (e.g., contacts, pricingScheme, paymentTerms)'),
-      skip: z.number().optional().describe('Number of records to skip'),
-      count: z.number().optional().describe('Number of records to return (max 100)'),
-      sort: z.string().optional().describe('Property to sort by (e.g., name, modifiedDate)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'Search and list customers with optional filtering',
+      inputSchema: {
+        name: z.string().optional().describe('Filter by customer name (partial match)'),
+        email: z.string().optional().describe('Filter by email'),
+        phone: z.string().optional().describe('Filter by phone'),
+        locationId: z.string().optional().describe('Filter by location ID (or name)'),
+        pricingSchemeId: z.string().optional().describe('Filter by pricing scheme ID (or name)'),
+        isActive: z.boolean().optional().describe('Filter by active status'),
+        smart: z.string().optional().describe('Smart search across customer fields (name, email, phone)'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include (e.g., contacts, pricingScheme, paymentTerms)'),
+        skip: z.number().optional().describe('Number of records to skip'),
+        count: z.number().optional().describe('Number of records to return (max 100)'),
+        sort: z.string().optional().describe('Property to sort by (e.g., name, modifiedDate)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(customerSchema),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const filters: CustomerFilter = {};
       if (args.name) filters.name = args.name;
       if (args.email) filters.email = args.email;
@@ -64,93 +271,95 @@ export function registerCustomerTools(server: McpServer, client: InflowClient):
       if (args.isActive !== undefined) filters.isActive = args.isActive;
       if (args.smart) filters.smart = args.smart;
 
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<Customer>('/customers', {
-        filters,
-        pagination,
-        include: args.include,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: Customer[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(response, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(await listRecords<Customer>(client, '/customers', args, filters));
+    }))
   );
 
   // Get Customer
-  server.tool(
+  server.registerTool(
     'get_customer',
-    'Get detailed information about a specific customer',
     {
-      customerId: z.string().describe('The customer ID'),
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include'),
+      description: 'Get detailed information about a specific customer',
+      inputSchema: {
+        customerId: z.string().describe('The customer ID (or name)'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include'),
+        company: companyArg,
+      },
+      outputSchema: customerSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const customer = await client.get<Customer>(
         `/customers/${args.customerId}`,
         { include: args.include }
       );
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(customer, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(customer);
+    }))
   );
 
   // Create/Update Customer
-  server.tool(
+  server.registerTool(
     'upsert_customer',
-    'Create a new customer or update an existing one',
     {
-      id: z.string().optional().describe('Customer ID (required for updates)'),
-      name: z.string().describe('Customer name'),
-      email: z.string().optional().describe('Email address'),
-      phone: z.string().optional().describe('Phone number'),
-      fax: z.string().optional().describe('Fax number'),
-      website: z.string().optional().describe('Website URL'),
-      billingAddress: addressSchema.optional().describe('Billing address'),
-      shippingAddress: addressSchema.optional().describe('Shipping address'),
-      pricingSchemeId: z.string().optional().describe('Pricing scheme ID'),
-      paymentTermsId: z.string().optional().describe('Payment terms ID'),
-      taxingSchemeId: z.string().optional().describe('Taxing scheme ID'),
-      currencyCode: z.string().optional().describe('Currency code'),
-      contacts: z.array(contactSchema).optional().describe('Contact persons'),
-      remarks: z.string().optional().describe('Notes/remarks'),
-      customFields: z.record(z.string(), z.unknown()).optional().describe('Custom field values'),
-      isActive: z.boolean().optional().describe('Whether customer is active'),
-      timestamp: z.string().optional().describe('Timestamp for concurrency control'),
+      description: 'Create a new customer or update an existing one. When `id` is provided, performs a partial update: only the fields passed are changed, custom fields are merged key by key, and contacts are patched by id or email (see contacts, deleteContactIds, primaryContact). Without `id`, creates a new customer; `name` is required.',
+      inputSchema: {
+        id: z.string().optional().describe('Customer ID (required for updates)'),
+        name: z.string().optional().describe('Customer name (required for creates; preserved on updates)'),
+        email: z.string().optional().describe('Email address'),
+        phone: z.string().optional().describe('Phone number'),
+        fax: z.string().optional().describe('Fax number'),
+        website: z.string().optional().describe('Website URL'),
+        billingAddress: addressSchema.optional().describe('Billing address'),
+        shippingAddress: addressSchema.optional().describe('Shipping address'),
+        pricingSchemeId: z.string().optional().describe('Pricing scheme ID (or name)'),
+        paymentTermsId: z.string().optional().describe('Payment terms ID (or name)'),
+        taxingSchemeId: z.string().optional().describe('Taxing scheme ID (or name)'),
+        currencyCode: z.string().optional().describe('Currency code'),
+        ...contactArgs,
+        remarks: z.string().optional().describe('Notes/remarks'),
+        customFields: z
+          .record(z.string(), z.unknown())
+          .optional()
+          .describe('Custom field values; on updates, fields not mentioned are preserved'),
+        isActive: z.boolean().optional().describe('Whether customer is active'),
+        timestamp: z.string().optional().describe('Timestamp for concurrency control'),
+        dryRun: dryRunArg,
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(customerSchema.extend({ rebase: rebaseReportSchema.optional() })),
     },
-    async (args) => {
-      // inFlow API requires customerId for both create and update
-      // Generate a new UUID if not provided (for creates)
-      const customerId = args.id || randomUUID();
+    withToolErrors(withResolvedIds(clients, withDryRun(withAudit('upsert_customer', async (args) => {
+      const client = clients.get(args.company);
+
+      // Update path: GET the customer with its contacts, merge, PUT the full
+      // state, rebasing onto concurrent edits unless a timestamp was pinned
+      if (args.id) {
+        const id = args.id;
+        const { result: updateResult, rebase } = await putWithRebase({
+          load: () => client.get<Customer>(`/customers/${id}`, { include: ['contacts'] }),
+          prepare: (existing) => ({ ...mergeCustomerUpdate(existing, args), customerId: id }),
+          save: (mergedBody) => client.put<Customer>('/customers', mergedBody),
+          ...(args.timestamp !== undefined ? { maxAttempts: 1 } : {}),
+        });
+        return jsonResult({ ...updateResult, rebase });
+      }
+
+      if (!args.name) {
+        throw new ToolError(
+          'INVALID_INPUT',
+          'Creating a customer requires name. Pass id to update an existing customer instead.',
+          { field: 'name' }
+        );
+      }
 
       const customer: Customer = {
-        customerId: customerId,
+        // inFlow API requires a client-generated customerId on create
+        customerId: randomUUID(),
         name: args.name,
         email: args.email,
         phone: args.phone,
@@ -162,133 +371,132 @@ export function registerCustomerTools(server: McpServer, client: InflowClient):
         paymentTermsId: args.paymentTermsId,
         taxingSchemeId: args.taxingSchemeId,
         currencyCode: args.currencyCode,
-        contacts: args.contacts as Contact[],
+        contacts: mergeContacts([], args),
         remarks: args.remarks,
         customFields: args.customFields,
         isActive: args.isActive,
         timestamp: args.timestamp,
       };
 
-      // inFlow API uses PUT for both create and update with customerId in body
       const result = await client.put<Customer>('/customers', customer);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(result);
+    }))))
   );
 
   // List Vendors
-  server.tool(
+  server.registerTool(
     'list_vendors',
-    'Search and list vendors with optional filtering',
     {
-      name: z.string().optional().describe('Filter by vendor name (partial match)'),
-      email: z.string().optional().describe('Filter by email'),
-      isActive: z.boolean().optional().describe('Filter by active status'),
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include (e.g., contacts, paymentTerms)'),
-      skip: z.number().optional().describe('Number of records to skip'),
-      count: z.number().optional().describe('Number of records to return (max 100)'),
-      sort: z.string().optional().describe('Property to sort by (e.g., name, modifiedDate)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'Search and list vendors with optional filtering',
+      inputSchema: {
+        name: z.string().optional().describe('Filter by vendor name (partial match)'),
+        email: z.string().optional().describe('Filter by email'),
+        isActive: z.boolean().optional().describe('Filter by active status'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include (e.g., contacts, paymentTerms)'),
+        skip: z.number().optional().describe('Number of records to skip'),
+        count: z.number().optional().describe('Number of records to return (max 100)'),
+        sort: z.string().optional().describe('Property to sort by (e.g., name, modifiedDate)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(vendorSchema),
     },
-    async (args) => {
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
+
       const filters: VendorFilter = {};
       if (args.name) filters.name = args.name;
       if (args.email) filters.email = args.email;
       if (args.isActive !== undefined) filters.isActive = args.isActive;
 
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<Vendor>('/vendors', {
-        filters,
-        pagination,
-        include: args.include,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: Vendor[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(response, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(await listRecords<Vendor>(client, '/vendors', args, filters));
+    })
   );
 
   // Get Vendor
-  server.tool(
+  server.registerTool(
     'get_vendor',
-    'Get detailed information about a specific vendor',
     {
-      vendorId: z.string().describe('The vendor ID'),
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include'),
+      description: 'Get detailed information about a specific vendor',
+      inputSchema: {
+        vendorId: z.string().describe('The vendor ID (or name)'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include'),
+        company: companyArg,
+      },
+      outputSchema: vendorSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const vendor = await client.get<Vendor>(`/vendors/${args.vendorId}`, {
         include: args.include,
       });
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(vendor, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(vendor);
+    }))
   );
 
   // Create/Update Vendor
-  server.tool(
+  server.registerTool(
     'upsert_vendor',
-    'Create a new vendor or update an existing one',
     {
-      id: z.string().optional().describe('Vendor ID (required for updates)'),
-      name: z.string().describe('Vendor name'),
-      email: z.string().optional().describe('Email address'),
-      phone: z.string().optional().describe('Phone number'),
-      fax: z.string().optional().describe('Fax number'),
-      website: z.string().optional().describe('Website URL'),
-      address: addressSchema.optional().describe('Vendor address'),
-      paymentTermsId: z.string().optional().describe('Payment terms ID'),
-      currencyCode: z.string().optional().describe('Currency code'),
-      contacts: z.array(contactSchema).optional().describe('Contact persons'),
-      customFields: z.record(z.string(), z.unknown()).optional().describe('Custom field values'),
-      isActive: z.boolean().optional().describe('Whether vendor is active'),
-      timestamp: z.string().optional().describe('Timestamp for concurrency control'),
+      description: 'Create a new vendor or update an existing one. When `id` is provided, performs a partial update: only the fields passed are changed, custom fields are merged key by key, and contacts are patched by id or email (see contacts, deleteContactIds, primaryContact). Without `id`, creates a new vendor; `name` is required.',
+      inputSchema: {
+        id: z.string().optional().describe('Vendor ID (required for updates)'),
+        name: z.string().optional().describe('Vendor name (required for creates; preserved on updates)'),
+        email: z.string().optional().describe('Email address'),
+        phone: z.string().optional().describe('Phone number'),
+        fax: z.string().optional().describe('Fax number'),
+        website: z.string().optional().describe('Website URL'),
+        address: addressSchema.optional().describe('Vendor address'),
+        paymentTermsId: z.string().optional().describe('Payment terms ID (or name)'),
+        currencyCode: z.string().optional().describe('Currency code'),
+        ...contactArgs,
+        customFields: z
+          .record(z.string(), z.unknown())
+          .optional()
+          .describe('Custom field values; on updates, fields not mentioned are preserved'),
+        isActive: z.boolean().optional().describe('Whether vendor is active'),
+        timestamp: z.string().optional().describe('Timestamp for concurrency control'),
+        dryRun: dryRunArg,
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(vendorSchema.extend({ rebase: rebaseReportSchema.optional() })),
     },
-    async (args) => {
-      // inFlow API requires vendorId for both create and update
-      // Generate a new UUID if not provided (for creates)
-      const vendorId = args.id || randomUUID();
+    withToolErrors(withResolvedIds(clients, withDryRun(withAudit('upsert_vendor', async (args) => {
+      const client = clients.get(args.company);
+
+      if (args.id) {
+        const id = args.id;
+        const { result: updateResult, rebase } = await putWithRebase({
+          load: () => client.get<Vendor>(`/vendors/${id}`, { include: ['contacts'] }),
+          prepare: (existing) => ({ ...mergeVendorUpdate(existing, args), vendorId: id }),
+          save: (mergedBody) => client.put<Vendor>('/vendors', mergedBody),
+          ...(args.timestamp !== undefined ? { maxAttempts: 1 } : {}),
+        });
+        return jsonResult({ ...updateResult, rebase });
+      }
+
+      if (!args.name) {
+        throw new ToolError(
+          'INVALID_INPUT',
+          'Creating a vendor requires name. Pass id to update an existing vendor instead.',
+          { field: 'name' }
+        );
+      }
 
       const vendor: Vendor = {
-        vendorId: vendorId,
+        // inFlow API requires a client-generated vendorId on create
+        vendorId: randomUUID(),
         name: args.name,
         email: args.email,
         phone: args.phone,
@@ -297,23 +505,15 @@ export function registerCustomerTools(server: McpServer, client: InflowClient):
         address: args.address as Address,
         paymentTermsId: args.paymentTermsId,
         currencyCode: args.currencyCode,
-        contacts: args.contacts as Contact[],
+        contacts: mergeContacts([], args),
         customFields: args.customFields,
         isActive: args.isActive,
         timestamp: args.timestamp,
       };
 
-      // inFlow API uses PUT for both create and update with vendorId in body
       const result = await client.put<Vendor>('/vendors', vendor);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(result);
+    }))))
   );
 }
@@ -0,0 +1,70 @@
+// Server diagnostics tools for inFlow MCP Server
+
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { InflowClientRegistry } from '../client/registry.js';
+import { formatPrometheus } from '../client/metrics.js';
+import { withToolErrors } from './errors.js';
+
+// Per-endpoint, rate-limiter and cache figures are described by ClientStats
+const serverStatsSchema = z.object({
+  uptimeSeconds: z.number(),
+  companies: z.record(
+    z.string(),
+    z
+      .object({
+        since: z.string(),
+        totals: z.object({ requests: z.number(), retries: z.number(), errors: z.number() }),
+        endpoints: z.record(z.string(), z.object({}).passthrough()),
+        rateLimiter: z.object({}).passthrough(),
+        cache: z.object({ hits: z.number(), misses: z.number(), entries: z.number() }),
+      })
+      .passthrough()
+  ),
+});
+
+export function registerDiagnosticsTools(server: McpServer, clients: InflowClientRegistry): void {
+  // Get Server Stats
+  server.registerTool(
+    'get_server_stats',
+    {
+      description: 'Show inFlow API usage since startup: per-endpoint request counts, latency histograms, retries, errors by HTTP status, rate-limit budget and waits, and reference-data cache hit rates.',
+      inputSchema: {
+        company: z
+          .string()
+          .optional()
+          .describe('Only report this company profile (see list_companies). Reports every profile when omitted.'),
+        format: z
+          .enum(['json', 'prometheus'])
+          .optional()
+          .describe('Output format (default: json)'),
+        reset: z.boolean().optional().describe('Reset the counters after reading them'),
+      },
+      outputSchema: serverStatsSchema,
+    },
+    withToolErrors(async (args) => {
+      const all = clients.stats();
+      let companies = all;
+      if (args.company) {
+        // Validates the profile name
+        clients.get(args.company);
+        companies = { [args.company]: all[args.company] };
+      }
+
+      if (args.reset) {
+        for (const name of Object.keys(companies)) {
+          clients.get(name).resetStats();
+        }
+      }
+
+      // Structured content is always the JSON form; only the text follows `format`
+      const stats = { uptimeSeconds: Math.round(process.uptime()), companies };
+      const text = args.format === 'prometheus' ? formatPrometheus(companies) : JSON.stringify(stats, null, 2);
+
+      return {
+        content: [{ type: 'text' as const, text }],
+        structuredContent: stats,
+      };
+    })
+  );
+}
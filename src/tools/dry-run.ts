@@ -0,0 +1,48 @@
+// Dry-run support for mutating tools
+
+import { z } from 'zod';
+import { DryRunWrite, runDryRunScope } from '../client/dry-run.js';
+import { fieldChangeSchema } from './audit.js';
+import { jsonResult } from './results.js';
+
+export const dryRunArg = z
+  .boolean()
+  .optional()
+  .describe('Preview only: return the exact PUT body and a diff against the current record without writing');
+
+// Fields of a DryRunResult, all optional so the tool's usual result validates too
+const dryRunResultShape = {
+  dryRun: z.boolean().optional().describe('True when this is a preview and nothing was written'),
+  method: z.string().optional(),
+  path: z.string().optional(),
+  body: z.unknown().optional(),
+  current: z.unknown().optional(),
+  diff: z.array(fieldChangeSchema).optional(),
+};
+
+/**
+ * Output schema of a mutating tool: its usual result, or with `dryRun` the
+ * preview of the write it would have made.
+ */
+export function dryRunnable<T extends z.ZodRawShape, U extends z.UnknownKeysParam>(schema: z.ZodObject<T, U>) {
+  return schema.partial().extend(dryRunResultShape);
+}
+
+/**
+ * Wrap a mutating tool's handler so it can run as a dry run, either because
+ * the call passed `dryRun: true` or because the server is configured for dry
+ * runs. The first write is not sent; its body and diff become the result.
+ */
+export function withDryRun<Args extends [Record<string, unknown>, ...unknown[]], Result>(
+  handler: (...args: Args) => Promise<Result>
+): (...args: Args) => Promise<Result | ReturnType<typeof jsonResult>> {
+  return (...args: Args) =>
+    runDryRunScope(args[0].dryRun === true, async () => {
+      try {
+        return await handler(...args);
+      } catch (error) {
+        if (!(error instanceof DryRunWrite)) throw error;
+        return jsonResult(error.result);
+      }
+    });
+}
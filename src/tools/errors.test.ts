@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InflowApiError } from '../client/inflow.js';
+import { reportPageFetched, throwIfCancelled } from '../client/tool-call.js';
+import { ToolError, toToolErrorBody, withToolErrors } from './errors.js';
+
+describe('toToolErrorBody', () => {
+  it('maps a stale-timestamp 409 to CONCURRENCY_CONFLICT with a re-fetch hint', () => {
+    const error = new InflowApiError('Record was modified', 409, {
+      code: 'Conflict',
+      message: 'Record was modified',
+      details: { field: 'timestamp' },
+    });
+
+    expect(toToolErrorBody(error)).toEqual({
+      error: true,
+      code: 'CONCURRENCY_CONFLICT',
+      message: 'Record was modified',
+      status: 409,
+      inflowCode: 'Conflict',
+      field: 'timestamp',
+      details: { field: 'timestamp' },
+      hint: 'timestamp is stale: re-fetch the record, re-apply the change, and retry with the new timestamp',
+    });
+  });
+
+  it.each([
+    [400, 'VALIDATION_ERROR'],
+    [401, 'UNAUTHORIZED'],
+    [403, 'FORBIDDEN'],
+    [404, 'NOT_FOUND'],
+    [408, 'TIMEOUT'],
+    [409, 'CONFLICT'],
+    [422, 'VALIDATION_ERROR'],
+    [429, 'RATE_LIMITED'],
+    [503, 'SERVER_ERROR'],
+    [418, 'API_ERROR'],
+  ])('maps HTTP %i to %s', (status, code) => {
+    expect(toToolErrorBody(new InflowApiError('failed', status))).toMatchObject({ code, status });
+  });
+
+  it('surfaces the offending field from ApiError details', () => {
+    const error = new InflowApiError('Invalid SKU', 400, {
+      code: 'ValidationError',
+      message: 'Invalid SKU',
+      details: { propertyName: 'sku' },
+    });
+
+    expect(toToolErrorBody(error)).toMatchObject({
+      field: 'sku',
+      hint: 'inFlow rejected the value of "sku"; correct it and retry',
+    });
+  });
+
+  it('includes Retry-After in the rate limit hint', () => {
+    const error = new InflowApiError('Too many requests', 429, undefined, 30000);
+    expect(toToolErrorBody(error).hint).toContain('wait 30s');
+  });
+
+  it('keeps ToolError codes and options', () => {
+    const error = new ToolError('INVALID_INPUT', 'Pick one', { field: 'items', details: { errors: ['x'] } });
+    expect(toToolErrorBody(error)).toEqual({
+      error: true,
+      code: 'INVALID_INPUT',
+      message: 'Pick one',
+      field: 'items',
+      details: { errors: ['x'] },
+    });
+  });
+
+  it('treats anything else as INTERNAL_ERROR', () => {
+    expect(toToolErrorBody(new Error('boom'))).toEqual({
+      error: true,
+      code: 'INTERNAL_ERROR',
+      message: 'boom',
+    });
+  });
+});
+
+describe('withToolErrors', () => {
+  it('passes results through and turns throws into isError results', async () => {
+    const ok = withToolErrors(async (value: number) => ({ value }));
+    await expect(ok(2)).resolves.toEqual({ value: 2 });
+
+    const failing = withToolErrors(async () => {
+      throw new InflowApiError('Request timed out after 30000ms', 408);
+    });
+    const result = await failing();
+
+    expect(result).toMatchObject({ isError: true });
+    const body = JSON.parse((result as { content: Array<{ text: string }> }).content[0].text);
+    expect(body).toMatchObject({ code: 'TIMEOUT', status: 408 });
+  });
+
+  it("runs the handler with the request's progress token and cancellation signal", async () => {
+    const controller = new AbortController();
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const extra = { signal: controller.signal, sendNotification, _meta: { progressToken: 'scan-1' } };
+
+    const scan = withToolErrors(async (_args: Record<string, unknown>, _extra: unknown) => {
+      reportPageFetched('/sales-orders', 100, 50);
+      controller.abort();
+      throwIfCancelled();
+      return { done: true };
+    });
+    const result = await scan({}, extra);
+
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'scan-1', progress: 100, total: 150, message: expect.any(String) },
+    });
+    const body = JSON.parse((result as { content: Array<{ text: string }> }).content[0].text);
+    expect(body).toMatchObject({ code: 'CANCELLED' });
+  });
+});
@@ -0,0 +1,258 @@
+// Error mapping for inFlow MCP tools
+//
+// Every tool handler is wrapped with withToolErrors, so API errors, input
+// validation failures and timeouts all reach the assistant as MCP `isError`
+// results with the same JSON shape instead of a bare exception message. The
+// wrapper also runs the call in a tool-call scope, which carries the
+// request's cancellation signal and progress token to the inFlow client.
+
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { InflowApiError } from '../client/inflow.js';
+import { UnknownCompanyError } from '../client/registry.js';
+import { AmbiguousReferenceError, UnresolvedReferenceError } from '../client/resolver.js';
+import { RequestCancelledError, runToolCallScope, type ToolCallOptions } from '../client/tool-call.js';
+
+export type ToolErrorCode =
+  | 'INVALID_INPUT'
+  | 'INVALID_STATE'
+  | 'VALIDATION_ERROR'
+  | 'NOT_FOUND'
+  | 'AMBIGUOUS'
+  | 'CONCURRENCY_CONFLICT'
+  | 'CONFLICT'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'SERVER_ERROR'
+  | 'API_ERROR'
+  | 'INTERNAL_ERROR';
+
+export interface ToolErrorBody {
+  error: true;
+  code: ToolErrorCode;
+  message: string;
+  // HTTP status from inFlow, when the error came from the API
+  status?: number;
+  // inFlow's own error code from the ApiError body
+  inflowCode?: string;
+  field?: string;
+  details?: Record<string, unknown>;
+  hint?: string;
+}
+
+export interface ToolErrorOptions {
+  field?: string;
+  details?: Record<string, unknown>;
+  hint?: string;
+}
+
+/**
+ * A failure detected by the tool itself (bad argument combinations, records
+ * in the wrong state) rather than reported by inFlow.
+ */
+export class ToolError extends Error {
+  constructor(
+    public code: ToolErrorCode,
+    message: string,
+    public options: ToolErrorOptions = {}
+  ) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+function fieldFromDetails(details: Record<string, unknown> | undefined): string | undefined {
+  const field = details?.field ?? details?.propertyName ?? details?.fieldName;
+  return typeof field === 'string' ? field : undefined;
+}
+
+function isStaleTimestamp(error: InflowApiError, field: string | undefined): boolean {
+  if (field === 'timestamp') return true;
+  const text = `${error.apiError?.code ?? ''} ${error.message}`;
+  return /timestamp|concurren|modified by another/i.test(text);
+}
+
+/** True when inFlow rejected a PUT because the record's timestamp is stale. */
+export function isConcurrencyConflict(error: unknown): boolean {
+  return (
+    error instanceof InflowApiError &&
+    error.statusCode === 409 &&
+    isStaleTimestamp(error, fieldFromDetails(error.apiError?.details))
+  );
+}
+
+function mapApiError(error: InflowApiError): ToolErrorBody {
+  const details = error.apiError?.details;
+  const field = fieldFromDetails(details);
+  const body: ToolErrorBody = {
+    error: true,
+    code: 'API_ERROR',
+    message: error.message,
+    status: error.statusCode,
+    ...(error.apiError?.code ? { inflowCode: error.apiError.code } : {}),
+    ...(field ? { field } : {}),
+    ...(details ? { details } : {}),
+  };
+
+  const status = error.statusCode;
+  if (status === 400 || status === 422) {
+    body.code = 'VALIDATION_ERROR';
+    body.hint = field
+      ? `inFlow rejected the value of "${field}"; correct it and retry`
+      : 'inFlow rejected the request; check the fields against the inFlow API documentation';
+  } else if (status === 401) {
+    body.code = 'UNAUTHORIZED';
+    body.hint = 'Check the API key configured for this company';
+  } else if (status === 403) {
+    body.code = 'FORBIDDEN';
+    body.hint = 'The API key lacks permission for this operation, or the API add-on is not enabled';
+  } else if (status === 404) {
+    body.code = 'NOT_FOUND';
+    body.hint = 'Verify the ID exists in this company (see the company argument)';
+  } else if (status === 408) {
+    body.code = 'TIMEOUT';
+    body.hint = 'The request timed out; retry, or raise INFLOW_REQUEST_TIMEOUT for large queries';
+  } else if (status === 409) {
+    if (isStaleTimestamp(error, field)) {
+      body.code = 'CONCURRENCY_CONFLICT';
+      body.field = field ?? 'timestamp';
+      body.hint =
+        'timestamp is stale: re-fetch the record, re-apply the change, and retry with the new timestamp';
+    } else {
+      body.code = 'CONFLICT';
+      body.hint = 'The change conflicts with the current record; re-fetch it and retry';
+    }
+  } else if (status === 429) {
+    body.code = 'RATE_LIMITED';
+    body.hint =
+      error.retryAfterMs !== undefined
+        ? `inFlow rate limit still exceeded after retries; wait ${Math.ceil(error.retryAfterMs / 1000)}s and retry`
+        : 'inFlow rate limit still exceeded after retries; wait a minute and retry';
+  } else if (status >= 500) {
+    body.code = 'SERVER_ERROR';
+    body.hint = 'inFlow returned a server error; retry later';
+  }
+
+  return body;
+}
+
+/** Convert anything a tool handler throws into the structured error body. */
+export function toToolErrorBody(error: unknown): ToolErrorBody {
+  if (error instanceof ToolError) {
+    return {
+      error: true,
+      code: error.code,
+      message: error.message,
+      ...(error.options.field ? { field: error.options.field } : {}),
+      ...(error.options.details ? { details: error.options.details } : {}),
+      ...(error.options.hint ? { hint: error.options.hint } : {}),
+    };
+  }
+
+  if (error instanceof InflowApiError) {
+    return mapApiError(error);
+  }
+
+  if (error instanceof RequestCancelledError) {
+    return { error: true, code: 'CANCELLED', message: error.message };
+  }
+
+  if (error instanceof UnknownCompanyError) {
+    return {
+      error: true,
+      code: 'INVALID_INPUT',
+      message: error.message,
+      field: 'company',
+      details: { available: error.available },
+      hint: 'Use list_companies to see the configured company profiles',
+    };
+  }
+
+  if (error instanceof UnresolvedReferenceError) {
+    return {
+      error: true,
+      code: 'NOT_FOUND',
+      message: error.message,
+      field: error.field,
+      details: { kind: error.kind, reference: error.reference },
+      hint: `Check the spelling, or use ${error.listTool} to find the record`,
+    };
+  }
+
+  if (error instanceof AmbiguousReferenceError) {
+    return {
+      error: true,
+      code: 'AMBIGUOUS',
+      message: error.message,
+      field: error.field,
+      details: { kind: error.kind, reference: error.reference, candidates: error.candidates },
+      hint: `Retry with the ID of the intended ${error.kind} in "${error.field}"`,
+    };
+  }
+
+  return {
+    error: true,
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+export function toolErrorResult(error: unknown) {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(toToolErrorBody(error), null, 2),
+      },
+    ],
+  };
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+function isToolExtra(value: unknown): value is ToolExtra {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as ToolExtra).signal instanceof AbortSignal &&
+    typeof (value as ToolExtra).sendNotification === 'function'
+  );
+}
+
+/** Cancellation signal and progress callback of the MCP request behind a tool call. */
+function toolCallOptions(args: unknown[]): ToolCallOptions {
+  // The SDK passes the request extra last: after the arguments, or alone for tools without input
+  const extra = args[args.length - 1];
+  if (!isToolExtra(extra)) return {};
+
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return { signal: extra.signal };
+  return {
+    signal: extra.signal,
+    onProgress: (update) => {
+      extra
+        .sendNotification({ method: 'notifications/progress', params: { progressToken, ...update } })
+        .catch((error: unknown) => console.error('Failed to send progress notification:', error));
+    },
+  };
+}
+
+/**
+ * Wrap a tool handler so any thrown error becomes a structured isError
+ * result, and so its inFlow requests honor cancellation and report progress.
+ */
+export function withToolErrors<Args extends unknown[], Result>(
+  handler: (...args: Args) => Promise<Result>
+): (...args: Args) => Promise<Result | ReturnType<typeof toolErrorResult>> {
+  return async (...args: Args) => {
+    try {
+      return await runToolCallScope(toolCallOptions(args), () => handler(...args));
+    } catch (error) {
+      return toolErrorResult(error);
+    }
+  };
+}
@@ -5,7 +5,14 @@
 import { z } from 'zod';
 import { randomUUID } from 'crypto';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { InflowClient } from '../client/inflow.js';
+import type { InflowClientRegistry } from '../client/registry.js';
+import { companyArg } from './company.js';
+import { withToolErrors } from './errors.js';
+import { withResolvedIds } from './resolve.js';
+import { withAudit } from './audit.js';
+import { dryRunArg, dryRunnable, withDryRun } from './dry-run.js';
+import { jsonResult } from './results.js';
+import { fetchAllArgs, listRecords } from './list.js';
 import type {
   StockAdjustment,
   StockAdjustmentItem,
@@ -14,12 +21,17 @@ import type {
   StockTransferItem,
   StockTransferFilter,
   StockCount,
-  PaginationParams,
 } from '../types/inflow.js';
+import {
+  listResultSchema,
+  stockAdjustmentSchema,
+  stockCountSchema,
+  stockTransferSchema,
+} from '../types/schemas.js';
 
 const stockAdjustmentItemSchema = z.object({
   id: z.string().optional(),
-  productId: z.string(),
+  productId: z.string().describe('Product ID (or SKU, barcode or name)'),
   quantity: z.number(),
   sublocation: z.string().optional(),
   serialNumbers: z.array(z.string()).optional(),
@@ -28,38 +40,45 @@ const stockAdjustmentItemSchema = z.object({
 
 const stockTransferItemSchema = z.object({
   id: z.string().optional(),
-  productId: z.string(),
+  productId: z.string().describe('Product ID (or SKU, barcode or name)'),
   quantity: z.number(),
   fromSublocation: z.string().optional(),
   toSublocation: z.string().optional(),
   serialNumbers: z.array(z.string()).optional(),
 });
 
-export function registerInventoryTools(server: McpServer, client: InflowClient): void {
+export function registerInventoryTools(server: McpServer, clients: InflowClientRegistry): void {
   // ==================== STOCK ADJUSTMENTS ====================
 
   // List Stock Adjustments
-  server.tool(
+  server.registerTool(
     'list_stock_adjustments',
-    'Search and list stock adjustments with optional filtering',
     {
-      adjustmentNumber: z.string().optional().describe('Filter by adjustment number'),
-      locationId: z.string().optional().describe('Filter by location ID'),
-      reasonId: z.string().optional().describe('Filter by adjustment reason ID'),
-      status: z
-        .enum(['Open', 'Completed', 'Cancelled'])
-        .optional()
-        .describe('Filter by status'),
-      adjustmentDateFrom: z.string().optional().describe('Filter by date (from)'),
-      adjustmentDateTo: z.string().optional().describe('Filter by date (to)'),
-      include: z.array(z.string()).optional().describe('Related data to include'),
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., adjustmentDate, adjustmentNumber)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'Search and list stock adjustments with optional filtering',
+      inputSchema: {
+        adjustmentNumber: z.string().optional().describe('Filter by adjustment number'),
+        locationId: z.string().optional().describe('Filter by location ID (or name)'),
+        reasonId: z.string().optional().describe('Filter by adjustment reason ID'),
+        status: z
+          .enum(['Open', 'Completed', 'Cancelled'])
+          .optional()
+          .describe('Filter by status'),
+        adjustmentDateFrom: z.string().optional().describe('Filter by date (from)'),
+        adjustmentDateTo: z.string().optional().describe('Filter by date (to)'),
+        include: z.array(z.string()).optional().describe('Related data to include'),
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., adjustmentDate, adjustmentNumber)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(stockAdjustmentSchema),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const filters: StockAdjustmentFilter = {};
       if (args.adjustmentNumber) filters.adjustmentNumber = args.adjustmentNumber;
       if (args.locationId) filters.locationId = args.locationId;
@@ -68,65 +87,56 @@ export function registerInventoryTools(server: McpServer, client: InflowClient):
       if (args.adjustmentDateFrom) filters.adjustmentDateFrom = args.adjustmentDateFrom;
       if (args.adjustmentDateTo) filters.adjustmentDateTo = args.adjustmentDateTo;
 
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<StockAdjustment>('/stock-adjustments', {
-        filters,
-        pagination,
-        include: args.include,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: StockAdjustment[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<StockAdjustment>(client, '/stock-adjustments', args, filters));
+    }))
   );
 
   // Get Stock Adjustment
-  server.tool(
+  server.registerTool(
     'get_stock_adjustment',
-    'Get details of a specific stock adjustment',
     {
-      adjustmentId: z.string().describe('The stock adjustment ID'),
-      include: z.array(z.string()).optional(),
+      description: 'Get details of a specific stock adjustment',
+      inputSchema: {
+        adjustmentId: z.string().describe('The stock adjustment ID'),
+        include: z.array(z.string()).optional(),
+        company: companyArg,
+      },
+      outputSchema: stockAdjustmentSchema,
     },
-    async (args) => {
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
+
       const adjustment = await client.get<StockAdjustment>(
         `/stock-adjustments/${args.adjustmentId}`,
         { include: args.include }
       );
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(adjustment, null, 2) }],
-      };
-    }
+      return jsonResult(adjustment);
+    })
   );
 
   // Create/Update Stock Adjustment
-  server.tool(
+  server.registerTool(
     'upsert_stock_adjustment',
-    'Create or update a stock adjustment to add or remove inventory',
     {
-      id: z.string().optional().describe('Adjustment ID (required for updates)'),
-      adjustmentDate: z.string().optional().describe('Adjustment date (ISO format)'),
-      locationId: z.string().describe('Location ID where adjustment occurs'),
-      reasonId: z.string().optional().describe('Adjustment reason ID'),
-      items: z.array(stockAdjustmentItemSchema).describe('Items to adjust'),
-      remarks: z.string().optional().describe('Notes/remarks'),
-      customFields: z.record(z.string(), z.unknown()).optional(),
-      timestamp: z.string().optional(),
+      description: 'Create or update a stock adjustment to add or remove inventory',
+      inputSchema: {
+        id: z.string().optional().describe('Adjustment ID (required for updates)'),
+        adjustmentDate: z.string().optional().describe('Adjustment date (ISO format)'),
+        locationId: z.string().describe('Location ID where adjustment occurs (or name)'),
+        reasonId: z.string().optional().describe('Adjustment reason ID'),
+        items: z.array(stockAdjustmentItemSchema).describe('Items to adjust'),
+        remarks: z.string().optional().describe('Notes/remarks'),
+        customFields: z.record(z.string(), z.unknown()).optional(),
+        timestamp: z.string().optional(),
+        dryRun: dryRunArg,
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(stockAdjustmentSchema),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, withDryRun(withAudit('upsert_stock_adjustment', async (args) => {
+      const client = clients.get(args.company);
+
       // inFlow API requires stockAdjustmentId for both create and update
       // Generate a new UUID if not provided (for creates)
       const stockAdjustmentId = args.id || randomUUID();
@@ -144,36 +154,41 @@ export function registerInventoryTools(server: McpServer, client: InflowClient):
 
       const result = await client.put<StockAdjustment>('/stock-adjustments', adjustment);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-      };
-    }
+      return jsonResult(result);
+    }))))
   );
 
   // ==================== STOCK TRANSFERS ====================
 
   // List Stock Transfers
-  server.tool(
+  server.registerTool(
     'list_stock_transfers',
-    'Search and list stock transfers between locations',
     {
-      transferNumber: z.string().optional().describe('Filter by transfer number'),
-      fromLocationId: z.string().optional().describe('Filter by source location'),
-      toLocationId: z.string().optional().describe('Filter by destination location'),
-      status: z
-        .enum(['Open', 'InTransit', 'Completed', 'Cancelled'])
-        .optional()
-        .describe('Filter by status'),
-      transferDateFrom: z.string().optional(),
-      transferDateTo: z.string().optional(),
-      include: z.array(z.string()).optional(),
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., transferDate, transferNumber)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'Search and list stock transfers between locations',
+      inputSchema: {
+        transferNumber: z.string().optional().describe('Filter by transfer number'),
+        fromLocationId: z.string().optional().describe('Filter by source location (or name)'),
+        toLocationId: z.string().optional().describe('Filter by destination location (or name)'),
+        status: z
+          .enum(['Open', 'InTransit', 'Completed', 'Cancelled'])
+          .optional()
+          .describe('Filter by status'),
+        transferDateFrom: z.string().optional(),
+        transferDateTo: z.string().optional(),
+        include: z.array(z.string()).optional(),
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., transferDate, transferNumber)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(stockTransferSchema),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const filters: StockTransferFilter = {};
       if (args.transferNumber) filters.transferNumber = args.transferNumber;
       if (args.fromLocationId) filters.fromLocationId = args.fromLocationId;
@@ -182,65 +197,56 @@ export function registerInventoryTools(server: McpServer, client: InflowClient):
       if (args.transferDateFrom) filters.transferDateFrom = args.transferDateFrom;
       if (args.transferDateTo) filters.transferDateTo = args.transferDateTo;
 
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<StockTransfer>('/stock-transfers', {
-        filters,
-        pagination,
-        include: args.include,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: StockTransfer[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<StockTransfer>(client, '/stock-transfers', args, filters));
+    }))
   );
 
   // Get Stock Transfer
-  server.tool(
+  server.registerTool(
     'get_stock_transfer',
-    'Get details of a specific stock transfer',
     {
-      transferId: z.string().describe('The stock transfer ID'),
-      include: z.array(z.string()).optional(),
+      description: 'Get details of a specific stock transfer',
+      inputSchema: {
+        transferId: z.string().describe('The stock transfer ID'),
+        include: z.array(z.string()).optional(),
+        company: companyArg,
+      },
+      outputSchema: stockTransferSchema,
     },
-    async (args) => {
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
+
       const transfer = await client.get<StockTransfer>(
         `/stock-transfers/${args.transferId}`,
         { include: args.include }
       );
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(transfer, null, 2) }],
-      };
-    }
+      return jsonResult(transfer);
+    })
   );
 
   // Create/Update Stock Transfer
-  server.tool(
+  server.registerTool(
     'upsert_stock_transfer',
-    'Create or update a stock transfer between locations',
     {
-      id: z.string().optional().describe('Transfer ID (required for updates)'),
-      transferDate: z.string().optional().describe('Transfer date (ISO format)'),
-      fromLocationId: z.string().describe('Source location ID'),
-      toLocationId: z.string().describe('Destination location ID'),
-      items: z.array(stockTransferItemSchema).describe('Items to transfer'),
-      remarks: z.string().optional().describe('Notes/remarks'),
-      customFields: z.record(z.string(), z.unknown()).optional(),
-      timestamp: z.string().optional(),
+      description: 'Create or update a stock transfer between locations',
+      inputSchema: {
+        id: z.string().optional().describe('Transfer ID (required for updates)'),
+        transferDate: z.string().optional().describe('Transfer date (ISO format)'),
+        fromLocationId: z.string().describe('Source location ID (or name)'),
+        toLocationId: z.string().describe('Destination location ID (or name)'),
+        items: z.array(stockTransferItemSchema).describe('Items to transfer'),
+        remarks: z.string().optional().describe('Notes/remarks'),
+        customFields: z.record(z.string(), z.unknown()).optional(),
+        timestamp: z.string().optional(),
+        dryRun: dryRunArg,
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(stockTransferSchema),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, withDryRun(withAudit('upsert_stock_transfer', async (args) => {
+      const client = clients.get(args.company);
+
       // inFlow API requires stockTransferId for both create and update
       // Generate a new UUID if not provided (for creates)
       const stockTransferId = args.id || randomUUID();
@@ -258,91 +264,87 @@ export function registerInventoryTools(server: McpServer, client: InflowClient):
 
       const result = await client.put<StockTransfer>('/stock-transfers', transfer);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-      };
-    }
+      return jsonResult(result);
+    }))))
   );
 
   // ==================== STOCK COUNTS ====================
 
   // List Stock Counts
-  server.tool(
+  server.registerTool(
     'list_stock_counts',
-    'List stock count/inventory count records',
     {
-      locationId: z.string().optional().describe('Filter by location ID'),
-      status: z
-        .enum(['Open', 'InProgress', 'Completed', 'Cancelled'])
-        .optional(),
-      include: z.array(z.string()).optional(),
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., countDate)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'List stock count/inventory count records',
+      inputSchema: {
+        locationId: z.string().optional().describe('Filter by location ID (or name)'),
+        status: z
+          .enum(['Open', 'InProgress', 'Completed', 'Cancelled'])
+          .optional(),
+        include: z.array(z.string()).optional(),
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., countDate)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(stockCountSchema),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const filters: Record<string, string | boolean | number> = {};
       if (args.locationId) filters.locationId = args.locationId;
       if (args.status) filters.status = args.status;
 
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<StockCount>('/stock-counts', {
-        filters,
-        pagination,
-        include: args.include,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: StockCount[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<StockCount>(client, '/stock-counts', args, filters));
+    }))
   );
 
   // Get Stock Count
-  server.tool(
+  server.registerTool(
     'get_stock_count',
-    'Get details of a specific stock count',
     {
-      stockCountId: z.string().describe('The stock count ID'),
-      include: z.array(z.string()).optional(),
+      description: 'Get details of a specific stock count',
+      inputSchema: {
+        stockCountId: z.string().describe('The stock count ID'),
+        include: z.array(z.string()).optional(),
+        company: companyArg,
+      },
+      outputSchema: stockCountSchema,
     },
-    async (args) => {
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
+
       const stockCount = await client.get<StockCount>(
         `/stock-counts/${args.stockCountId}`,
         { include: args.include }
       );
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(stockCount, null, 2) }],
-      };
-    }
+      return jsonResult(stockCount);
+    })
   );
 
   // Create/Update Stock Count
-  server.tool(
+  server.registerTool(
     'upsert_stock_count',
-    'Create or update a stock count for inventory counting',
     {
-      id: z.string().optional().describe('Stock count ID (required for updates)'),
-      countDate: z.string().optional().describe('Count date (ISO format)'),
-      locationId: z.string().describe('Location ID'),
-      remarks: z.string().optional(),
-      timestamp: z.string().optional(),
+      description: 'Create or update a stock count for inventory counting',
+      inputSchema: {
+        id: z.string().optional().describe('Stock count ID (required for updates)'),
+        countDate: z.string().optional().describe('Count date (ISO format)'),
+        locationId: z.string().describe('Location ID (or name)'),
+        remarks: z.string().optional(),
+        timestamp: z.string().optional(),
+        dryRun: dryRunArg,
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(stockCountSchema),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, withDryRun(withAudit('upsert_stock_count', async (args) => {
+      const client = clients.get(args.company);
+
       // inFlow API requires stockCountId for both create and update
       // Generate a new UUID if not provided (for creates)
       const stockCountId = args.id || randomUUID();
@@ -357,9 +359,7 @@ export function registerInventoryTools(server: McpServer, client: InflowClient):
 
       const result = await client.put<StockCount>('/stock-counts', stockCount);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-      };
-    }
+      return jsonResult(result);
+    }))))
   );
 }
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { InflowClient } from '../client/inflow.js';
+import { startSimulator, type RunningSimulator } from '../simulator/server.js';
+import { createDefaultSeed } from '../simulator/seed.js';
+import type { Product } from '../types/inflow.js';
+import { listRecords } from './list.js';
+
+describe('listRecords', () => {
+  let simulator: RunningSimulator;
+  let client: InflowClient;
+
+  beforeEach(async () => {
+    simulator = await startSimulator(0, { seed: createDefaultSeed(), apiKey: 'sim-key' });
+    client = new InflowClient({
+      apiKey: 'sim-key',
+      companyId: 'sim-company',
+      baseUrl: simulator.url,
+      apiVersion: '2025-06-24',
+      rateLimitPerMinute: 6000,
+      maxConcurrentRequests: 4,
+      maxRetries: 0,
+      retryDelayMs: 10,
+      requestTimeoutMs: 5000,
+      debug: false,
+      cacheTtlMs: 0,
+      cacheTtlOverrides: {},
+    });
+  });
+
+  afterEach(async () => {
+    await simulator.close();
+  });
+
+  it('returns one page, with the total only when includeCount is set', async () => {
+    const page = await listRecords<Product>(client, '/products', { count: 1, sort: 'name', includeCount: true });
+    expect(page.data.map((p) => p.name)).toEqual(['Gadget']);
+    expect(page.totalCount).toBe(3);
+
+    const uncounted = await listRecords<Product>(client, '/products', { count: 1 });
+    expect(uncounted).not.toHaveProperty('totalCount');
+  });
+
+  it('walks every page with fetchAll and flags truncation at maxRecords', async () => {
+    const all = await listRecords<Product>(client, '/products', { fetchAll: true, count: 1 });
+    expect(all.data).toHaveLength(3);
+    expect(all.truncated).toBe(false);
+
+    const capped = await listRecords<Product>(client, '/products', { fetchAll: true, maxRecords: 2 });
+    expect(capped.data).toHaveLength(2);
+    expect(capped.truncated).toBe(true);
+  });
+
+  it('passes filters through on both paths', async () => {
+    const page = await listRecords<Product>(client, '/products', {}, { name: 'kit' });
+    const all = await listRecords<Product>(client, '/products', { fetchAll: true }, { name: 'kit' });
+    expect(page.data.map((p) => p.sku)).toEqual(['KIT-001']);
+    expect(all.data.map((p) => p.sku)).toEqual(['KIT-001']);
+  });
+});
@@ -0,0 +1,69 @@
+// Shared plumbing for the list_* tools
+//
+// Every list tool takes the same paging arguments and either returns one page
+// (with the X-listCount total when asked) or, with fetchAll, walks every page
+// up to maxRecords. Keeping that here keeps the limits and the `truncated`
+// flag identical across tools.
+
+import { z } from 'zod';
+import type { InflowClient } from '../client/inflow.js';
+import type { PaginationParams } from '../types/inflow.js';
+
+export const fetchAllArgs = {
+  fetchAll: z
+    .boolean()
+    .optional()
+    .describe('Fetch every page of matching records in one call (skip sets the starting offset, count is ignored)'),
+  maxRecords: z
+    .number()
+    .optional()
+    .describe('Safety cap on records returned when fetchAll=true (default: 1000, max: 10000)'),
+};
+
+export interface ListToolArgs {
+  skip?: number;
+  count?: number;
+  include?: string[];
+  sort?: string;
+  sortDesc?: boolean;
+  includeCount?: boolean;
+  fetchAll?: boolean;
+  maxRecords?: number;
+}
+
+export interface ListToolResult<T> {
+  data: T[];
+  totalCount?: number;
+  truncated?: boolean;
+}
+
+/** Fetch one page of `path`, or every page when `args.fetchAll` is set. */
+export async function listRecords<T>(
+  client: InflowClient,
+  path: string,
+  args: ListToolArgs,
+  filters?: Record<string, unknown>
+): Promise<ListToolResult<T>> {
+  const pagination: PaginationParams = {};
+  if (args.skip !== undefined) pagination.skip = args.skip;
+  if (args.count !== undefined) pagination.count = args.count;
+
+  const options = {
+    ...(filters ? { filters } : {}),
+    pagination,
+    include: args.include,
+    sort: args.sort,
+    sortDesc: args.sortDesc,
+  };
+
+  if (args.fetchAll) {
+    return client.getAll<T>(path, { ...options, maxRecords: args.maxRecords });
+  }
+
+  const result = await client.getList<T>(path, { ...options, includeCount: args.includeCount });
+  const response: ListToolResult<T> = { data: result.data };
+  if (result.totalCount !== undefined) {
+    response.totalCount = result.totalCount;
+  }
+  return response;
+}
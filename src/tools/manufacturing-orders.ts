@@ -3,23 +3,31 @@
 import { z } from 'zod';
 import { randomUUID } from 'node:crypto';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { InflowClient } from '../client/inflow.js';
+import type { InflowClientRegistry } from '../client/registry.js';
+import { companyArg } from './company.js';
+import { ToolError, withToolErrors } from './errors.js';
+import { withResolvedIds } from './resolve.js';
+import { withAudit } from './audit.js';
+import { dryRunArg, dryRunnable, withDryRun } from './dry-run.js';
+import { jsonResult } from './results.js';
+import { fetchAllArgs, listRecords } from './list.js';
+import { putWithRebase, rebaseReportSchema } from './rebase.js';
 import type {
   ManufacturingOrder,
   ManufacturingOrderLine,
   ManufacturingOrderFilter,
-  PaginationParams,
 } from '../types/inflow.js';
+import { listResultSchema, manufacturingOrderSchema } from '../types/schemas.js';
 
 const manufacturingInputItemSchema = z.object({
-  productId: z.string(),
+  productId: z.string().describe('Product ID (or SKU, barcode or name)'),
   quantity: z.number(),
   sublocation: z.string().optional(),
 });
 
 const manufacturingInputLinePatchSchema = z.object({
   id: z.string().optional(),
-  productId: z.string().optional(),
+  productId: z.string().optional().describe('Product ID (or SKU, barcode or name)'),
   quantity: z.number().optional(),
   sublocation: z.string().optional(),
   serialNumbers: z.array(z.string()).optional(),
@@ -141,7 +149,8 @@ export function mergeManufacturingOrderUpdate(
 
   const existingLines = existing.lines ?? [];
   if (existingLines.length === 0) {
-    throw new Error(
+    throw new ToolError(
+      'INVALID_STATE',
       'Cannot merge manufacturing order update: existing order has no output line to patch'
     );
   }
@@ -226,8 +235,10 @@ function findInputLineIndexForPatch(
       .filter((index) => index >= 0);
     if (matchingIndices.length === 1) return matchingIndices[0];
     if (matchingIndices.length > 1) {
-      throw new Error(
-        `Ambiguous input line patch: productId ${patch.productId} matches ${matchingIndices.length} existing lines. Pass an explicit id to disambiguate.`
+      throw new ToolError(
+        'INVALID_INPUT',
+        `Ambiguous input line patch: productId ${patch.productId} matches ${matchingIndices.length} existing lines. Pass an explicit id to disambiguate.`,
+        { field: 'inputLines' }
       );
     }
   }
@@ -265,8 +276,10 @@ function buildNewInputLine(
   patch: ManufacturingOrderInputLinePatch
 ): ManufacturingOrderLine {
   if (patch.quantity === undefined) {
-    throw new Error(
-      'New manufacturing order input lines must include quantity. Pass inputLines[].quantity when adding a line with no existing match.'
+    throw new ToolError(
+      'INVALID_INPUT',
+      'New manufacturing order input lines must include quantity. Pass inputLines[].quantity when adding a line with no existing match.',
+      { field: 'inputLines' }
     );
   }
 
@@ -285,29 +298,36 @@ function buildNewInputLine(
 
 export function registerManufacturingOrderTools(
   server: McpServer,
-  client: InflowClient
+  clients: InflowClientRegistry
 ): void {
   // List Manufacturing Orders
-  server.tool(
+  server.registerTool(
     'list_manufacturing_orders',
-    'Search and list manufacturing/work orders',
     {
-      orderNumber: z.string().optional().describe('Filter by order number'),
-      locationId: z.string().optional().describe('Filter by location ID'),
-      status: z
-        .enum(['Open', 'InProgress', 'Completed', 'Cancelled'])
-        .optional(),
-      outputProductId: z.string().optional().describe('Filter by output product'),
-      orderDateFrom: z.string().optional(),
-      orderDateTo: z.string().optional(),
-      include: z.array(z.string()).optional(),
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., orderDate, orderNumber)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'Search and list manufacturing/work orders',
+      inputSchema: {
+        orderNumber: z.string().optional().describe('Filter by order number'),
+        locationId: z.string().optional().describe('Filter by location ID (or name)'),
+        status: z
+          .enum(['Open', 'InProgress', 'Completed', 'Cancelled'])
+          .optional(),
+        outputProductId: z.string().optional().describe('Filter by output product'),
+        orderDateFrom: z.string().optional(),
+        orderDateTo: z.string().optional(),
+        include: z.array(z.string()).optional(),
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., orderDate, orderNumber)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(manufacturingOrderSchema),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const filters: ManufacturingOrderFilter = {};
       if (args.orderNumber) filters.manufacturingOrderNumber = args.orderNumber;
       if (args.locationId) filters.locationId = args.locationId;
@@ -316,98 +336,87 @@ export function registerManufacturingOrderTools(
       if (args.orderDateFrom) filters.orderDateFrom = args.orderDateFrom;
       if (args.orderDateTo) filters.orderDateTo = args.orderDateTo;
 
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<ManufacturingOrder>('/manufacturing-orders', {
-        filters,
-        pagination,
-        include: args.include,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: ManufacturingOrder[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<ManufacturingOrder>(client, '/manufacturing-orders', args, filters));
+    }))
   );
 
   // Get Manufacturing Order
-  server.tool(
+  server.registerTool(
     'get_manufacturing_order',
-    'Get details of a specific manufacturing order',
     {
-      manufacturingOrderId: z.string().describe('The manufacturing order ID'),
-      include: z.array(z.string()).optional(),
+      description: 'Get details of a specific manufacturing order',
+      inputSchema: {
+        manufacturingOrderId: z.string().describe('The manufacturing order ID (or order number)'),
+        include: z.array(z.string()).optional(),
+        company: companyArg,
+      },
+      outputSchema: manufacturingOrderSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const order = await client.get<ManufacturingOrder>(
         `/manufacturing-orders/${args.manufacturingOrderId}`,
         { include: args.include }
       );
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(order, null, 2) }],
-      };
-    }
+      return jsonResult(order);
+    }))
   );
 
   // Create/Update Manufacturing Order
-  server.tool(
+  server.registerTool(
     'upsert_manufacturing_order',
-    'Create a new manufacturing order or update an existing one. When `id` is provided, performs a partial update: unmentioned header fields and line items are preserved, `outputSerialNumbers`/`outputQuantity` patch the parent output line in place, `inputLines[]` patches merge into existing component lines by id (or unambiguous productId), and any `deleteInputLineIds` are removed. Without `id`, creates a new MO from `outputProductId`, `outputQuantity`, optional `inputItems`, and optional `outputSerialNumbers`.',
     {
-      id: z.string().optional().describe('Order ID (required for updates)'),
-      orderNumber: z.string().optional().describe('Order number (e.g. MO-001)'),
-      orderDate: z.string().optional().describe('Order date (ISO format)'),
-      requiredDate: z.string().optional().describe('Required completion date (ISO format)'),
-      locationId: z.string().optional().describe('Location ID'),
-      outputProductId: z.string().optional().describe('Product ID being manufactured (required for creates)'),
-      outputQuantity: z.number().optional().describe('Quantity to manufacture (required for creates; patches the output line on updates)'),
-      outputSerialNumbers: z
-        .array(z.string())
-        .optional()
-        .describe('Serial numbers / serial numbers for the output/finished product. On updates, patches quantity.serialNumbers on the parent output line; pass [] to clear.'),
-      outputSublocation: z.string().optional().describe('Sublocation for the output line'),
-      inputItems: z
-        .array(manufacturingInputItemSchema)
-        .optional()
-        .describe('Input/component items (used for create only — unused on updates)'),
-      inputLines: z
-        .array(manufacturingInputLinePatchSchema)
-        .optional()
-        .describe('Input-line patches for updates. Each entry merges into an existing component line by `id` (or unambiguous `productId`); entries with no match are appended as new lines. Set `quantity`, `serialNumbers`, or `sublocation` to patch those fields; omit to preserve them.'),
-      deleteInputLineIds: z
-        .array(z.string())
-        .optional()
-        .describe('manufacturingOrderLineId values to remove from the order during an update.'),
-      remarks: z.string().optional(),
-      pickRemarks: z.string().optional(),
-      putAwayRemarks: z.string().optional(),
-      isCancelled: z.boolean().optional().describe('Set true to cancel the MO while preserving the rest of its state'),
-      isCompleted: z.boolean().optional(),
-      customFields: z.record(z.string(), z.unknown()).optional(),
-      timestamp: z.string().optional().describe('Rowversion for optimistic concurrency — pass the value from the last GET'),
+      description: 'Create a new manufacturing order or update an existing one. When `id` is provided, performs a partial update: unmentioned header fields and line items are preserved, `outputSerialNumbers`/`outputQuantity` patch the parent output line in place, `inputLines[]` patches merge into existing component lines by id (or unambiguous productId), and any `deleteInputLineIds` are removed. Without `id`, creates a new MO from `outputProductId`, `outputQuantity`, optional `inputItems`, and optional `outputSerialNumbers`.',
+      inputSchema: {
+        id: z.string().optional().describe('Order ID (required for updates)'),
+        orderNumber: z.string().optional().describe('Order number (e.g. MO-001)'),
+        orderDate: z.string().optional().describe('Order date (ISO format)'),
+        requiredDate: z.string().optional().describe('Required completion date (ISO format)'),
+        locationId: z.string().optional().describe('Location ID (or name)'),
+        outputProductId: z.string().optional().describe('Product ID being manufactured (required for creates)'),
+        outputQuantity: z.number().optional().describe('Quantity to manufacture (required for creates; patches the output line on updates)'),
+        outputSerialNumbers: z
+          .array(z.string())
+          .optional()
+          .describe('Serial numbers / serial numbers for the output/finished product. On updates, patches quantity.serialNumbers on the parent output line; pass [] to clear.'),
+        outputSublocation: z.string().optional().describe('Sublocation for the output line'),
+        inputItems: z
+          .array(manufacturingInputItemSchema)
+          .optional()
+          .describe('Input/component items (used for create only — unused on updates)'),
+        inputLines: z
+          .array(manufacturingInputLinePatchSchema)
+          .optional()
+          .describe('Input-line patches for updates. Each entry merges into an existing component line by `id` (or unambiguous `productId`); entries with no match are appended as new lines. Set `quantity`, `serialNumbers`, or `sublocation` to patch those fields; omit to preserve them.'),
+        deleteInputLineIds: z
+          .array(z.string())
+          .optional()
+          .describe('manufacturingOrderLineId values to remove from the order during an update.'),
+        remarks: z.string().optional(),
+        pickRemarks: z.string().optional(),
+        putAwayRemarks: z.string().optional(),
+        isCancelled: z.boolean().optional().describe('Set true to cancel the MO while preserving the rest of its state'),
+        isCompleted: z.boolean().optional(),
+        customFields: z.record(z.string(), z.unknown()).optional(),
+        timestamp: z.string().optional().describe('Rowversion for optimistic concurrency — pass the value from the last GET'),
+        dryRun: dryRunArg,
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(manufacturingOrderSchema.extend({ rebase: rebaseReportSchema.optional() })),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, withDryRun(withAudit('upsert_manufacturing_order', async (args) => {
+      const client = clients.get(args.company);
+
       // Update path: GET existing state, merge the partial payload, PUT the
       // full merged body. This fixes the historical merge bug where an
       // incomplete `lines[]` body caused inFlow to strip
       // quantity.serialNumbers from the output line.
+      // A concurrent edit in inFlow triggers a rebase onto the fresh state,
+      // unless the caller pinned an explicit timestamp.
       if (args.id) {
-        const existing = await client.get<ManufacturingOrder>(
-          `/manufacturing-orders/${args.id}`,
-          { include: ['lines'] }
-        );
-
+        const id = args.id;
         const mergeArgs: ManufacturingOrderUpsertArgs = {
           id: args.id,
           ...(args.orderNumber !== undefined ? { orderNumber: args.orderNumber } : {}),
@@ -437,23 +446,28 @@ export function registerManufacturingOrderTools(
           ...(args.timestamp !== undefined ? { timestamp: args.timestamp } : {}),
         };
 
-        const mergedBody = mergeManufacturingOrderUpdate(existing, mergeArgs);
-        mergedBody.manufacturingOrderId = args.id;
-
-        const updateResult = await client.put<ManufacturingOrder>(
-          '/manufacturing-orders',
-          mergedBody
-        );
-
-        return {
-          content: [{ type: 'text', text: JSON.stringify(updateResult, null, 2) }],
-        };
+        const { result: updateResult, rebase } = await putWithRebase({
+          load: () =>
+            client.get<ManufacturingOrder>(`/manufacturing-orders/${id}`, { include: ['lines'] }),
+          prepare: (existing) => {
+            const mergedBody = mergeManufacturingOrderUpdate(existing, mergeArgs);
+            mergedBody.manufacturingOrderId = id;
+            return mergedBody;
+          },
+          save: (mergedBody) =>
+            client.put<ManufacturingOrder>('/manufacturing-orders', mergedBody),
+          ...(args.timestamp !== undefined ? { maxAttempts: 1 } : {}),
+        });
+
+        return jsonResult({ ...updateResult, rebase });
       }
 
       // Create path: outputProductId and outputQuantity are required.
       if (!args.outputProductId || args.outputQuantity === undefined) {
-        throw new Error(
-          'Creating a manufacturing order requires both outputProductId and outputQuantity. Pass id to update an existing MO instead.'
+        throw new ToolError(
+          'INVALID_INPUT',
+          'Creating a manufacturing order requires both outputProductId and outputQuantity. Pass id to update an existing MO instead.',
+          { field: args.outputProductId ? 'outputQuantity' : 'outputProductId' }
         );
       }
 
@@ -485,9 +499,7 @@ export function registerManufacturingOrderTools(
         createBody
       );
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(createResult, null, 2) }],
-      };
-    }
+      return jsonResult(createResult);
+    }))))
   );
 }
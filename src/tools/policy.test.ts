@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { InflowClientRegistry } from '../client/registry.js';
+import { loadToolPolicy, type InflowConfig, type ToolPolicy } from '../config.js';
+import { createInflowServer } from '../server.js';
+import { MUTATING_TOOLS } from './policy.js';
+
+const inflowConfig: InflowConfig = {
+  apiKey: 'inflow-key',
+  companyId: 'test-company',
+  baseUrl: 'http://127.0.0.1:9',
+  apiVersion: '2025-06-24',
+  rateLimitPerMinute: 60,
+  maxConcurrentRequests: 4,
+  maxRetries: 0,
+  retryDelayMs: 10,
+  requestTimeoutMs: 1000,
+  debug: false,
+  cacheTtlMs: 0,
+  cacheTtlOverrides: {},
+};
+
+const clients = new InflowClientRegistry({
+  defaultProfile: 'default',
+  profiles: [{ name: 'default', config: inflowConfig }],
+});
+
+async function toolNames(policy: Partial<ToolPolicy>): Promise<string[]> {
+  const server = createInflowServer(clients, { readOnly: false, allow: [], deny: [], ...policy });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: 'policy-test', version: '1.0.0' });
+  await client.connect(clientTransport);
+  const { tools } = await client.listTools();
+  await client.close();
+  return tools.map((tool) => tool.name);
+}
+
+describe('tool policy', () => {
+  it('registers every tool by default', async () => {
+    const names = await toolNames({});
+    expect(names).toContain('list_products');
+    for (const tool of MUTATING_TOOLS) {
+      expect(names).toContain(tool);
+    }
+  });
+
+  it('leaves out every mutating tool in read-only mode', async () => {
+    const names = await toolNames({ readOnly: true });
+    expect(names).toContain('get_sales_order');
+    expect(names).toContain('list_webhooks');
+    expect(names.filter((name) => MUTATING_TOOLS.has(name))).toEqual([]);
+  });
+
+  it('selects tools by name or group, with deny winning over allow', async () => {
+    const names = await toolNames({
+      allow: ['reference', 'get_product'],
+      deny: ['delete_webhook', 'upsert_webhook'],
+    });
+    expect(names).toContain('get_product');
+    expect(names).toContain('list_locations');
+    expect(names).not.toContain('list_products');
+    expect(names).not.toContain('delete_webhook');
+    expect(names).not.toContain('upsert_webhook');
+  });
+
+  it('rejects entries that match no tool or group', () => {
+    expect(() =>
+      createInflowServer(clients, { readOnly: false, allow: [], deny: ['delete_webhooks'] })
+    ).toThrow(/INFLOW_TOOLS_DENY names unknown tools or groups: delete_webhooks/);
+  });
+});
+
+describe('loadToolPolicy', () => {
+  afterEach(() => {
+    delete process.env.INFLOW_READ_ONLY;
+    delete process.env.INFLOW_TOOLS_ALLOW;
+    delete process.env.INFLOW_TOOLS_DENY;
+  });
+
+  it('reads the read-only flag and comma-separated lists', () => {
+    process.env.INFLOW_TOOLS_ALLOW = 'products, sales-orders,';
+    process.env.INFLOW_TOOLS_DENY = 'upsert_product';
+    expect(loadToolPolicy(['--read-only'])).toEqual({
+      readOnly: true,
+      allow: ['products', 'sales-orders'],
+      deny: ['upsert_product'],
+    });
+
+    process.env.INFLOW_READ_ONLY = 'true';
+    expect(loadToolPolicy([]).readOnly).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+// Tool policy for inFlow MCP Server
+//
+// Decides which tools get registered: read-only mode drops every tool that
+// writes to inFlow, and allow/deny lists select tools by name or by group.
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolPolicy } from '../config.js';
+
+/** Tool groups, one per `register*Tools` function. */
+export const TOOL_GROUPS = [
+  'company',
+  'products',
+  'sales-orders',
+  'purchase-orders',
+  'customers',
+  'inventory',
+  'manufacturing-orders',
+  'reference',
+  'serials',
+  'diagnostics',
+  'audit',
+] as const;
+
+export type ToolGroup = (typeof TOOL_GROUPS)[number];
+
+/** Tools that write to inFlow; read-only mode leaves these out. */
+export const MUTATING_TOOLS: ReadonlySet<string> = new Set([
+  'upsert_product',
+  'upsert_bill_of_materials',
+  'upsert_sales_order',
+  'upsert_purchase_order',
+  'receive_purchase_order',
+  'unreceive_purchase_order',
+  'upsert_customer',
+  'upsert_vendor',
+  'upsert_stock_adjustment',
+  'upsert_stock_transfer',
+  'upsert_stock_count',
+  'upsert_manufacturing_order',
+  'upsert_taxing_scheme',
+  'upsert_webhook',
+  'delete_webhook',
+]);
+
+export function isToolAllowed(policy: ToolPolicy, group: ToolGroup, tool: string): boolean {
+  if (policy.readOnly && MUTATING_TOOLS.has(tool)) return false;
+  if (policy.deny.includes(tool) || policy.deny.includes(group)) return false;
+  if (policy.allow.length === 0) return true;
+  return policy.allow.includes(tool) || policy.allow.includes(group);
+}
+
+/**
+ * Applies a ToolPolicy while the `register*Tools` functions run. `forGroup`
+ * hands each of them a view of the server whose `registerTool()` skips tools the
+ * policy excludes; everything else passes straight through.
+ */
+export class ToolFilter {
+  // Every tool name offered for registration, allowed or not
+  private readonly seen = new Set<string>();
+  // Tools the policy let through
+  private readonly registered = new Set<string>();
+
+  constructor(
+    private readonly server: McpServer,
+    private readonly policy: ToolPolicy
+  ) {}
+
+  forGroup(group: ToolGroup): McpServer {
+    return new Proxy(this.server, {
+      get: (target, prop) => {
+        if (prop === 'registerTool') {
+          return (name: string, ...rest: unknown[]) => {
+            this.seen.add(name);
+            if (!isToolAllowed(this.policy, group, name)) return undefined;
+            this.registered.add(name);
+            return Reflect.apply(target.registerTool, target, [name, ...rest]);
+          };
+        }
+        const value = Reflect.get(target, prop);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+  }
+
+  /** Whether `name` was registered, i.e. offered and allowed by the policy. */
+  isRegistered(name: string): boolean {
+    return this.registered.has(name);
+  }
+
+  /**
+   * Fail on allow/deny entries that match no tool or group, so a typo in a
+   * deny list can't silently leave a tool exposed. Call after registration.
+   */
+  assertEntriesKnown(): void {
+    const groups: readonly string[] = TOOL_GROUPS;
+    for (const [name, entries] of [
+      ['INFLOW_TOOLS_ALLOW', this.policy.allow],
+      ['INFLOW_TOOLS_DENY', this.policy.deny],
+    ] as const) {
+      const unknown = entries.filter((entry) => !this.seen.has(entry) && !groups.includes(entry));
+      if (unknown.length > 0) {
+        throw new Error(
+          `${name} names unknown tools or groups: ${unknown.join(', ')}. ` +
+            `Groups are: ${TOOL_GROUPS.join(', ')}`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest';
+import { explodeBillOfMaterials, findBomPath, mergeBillOfMaterials, mergeProductUpdate } from './products.js';
+import type { ItemBom, Product } from '../types/inflow.js';
+
+const existingProduct = (): Product => ({
+  productId: 'prod-kit',
+  name: 'Widget Kit',
+  description: 'Two widgets and a gadget',
+  sku: 'KIT-001',
+  categoryId: 'cat-electronics',
+  isActive: true,
+  isManufacturable: true,
+  cost: 12.5,
+  defaultPrice: 30,
+  reorderPoint: 5,
+  reorderQuantity: 20,
+  customFields: { custom1: 'bin 4', custom2: 'fragile' },
+  itemBoms: [
+    {
+      itemBomId: 'bom-1',
+      productId: 'prod-kit',
+      childProductId: 'prod-widget',
+      quantity: { standardQuantity: '2', uomQuantity: '2' },
+    },
+  ],
+  timestamp: '2026-04-20T00:00:00Z',
+});
+
+describe('mergeProductUpdate', () => {
+  it('changes only the fields passed and keeps the BOM and timestamp', () => {
+    const merged = mergeProductUpdate(existingProduct(), { id: 'prod-kit', reorderPoint: 8 });
+
+    expect(merged).toEqual({ ...existingProduct(), reorderPoint: 8 });
+  });
+
+  it('merges header fields by presence, so 0, false and empty strings stick', () => {
+    const merged = mergeProductUpdate(existingProduct(), {
+      reorderPoint: 0,
+      isActive: false,
+      description: '',
+    });
+
+    expect(merged).toMatchObject({ reorderPoint: 0, isActive: false, description: '', name: 'Widget Kit' });
+  });
+
+  it('keeps the name when the patch leaves it out', () => {
+    expect(mergeProductUpdate(existingProduct(), { name: undefined }).name).toBe('Widget Kit');
+    expect(mergeProductUpdate(existingProduct(), { name: 'Deluxe Kit' }).name).toBe('Deluxe Kit');
+  });
+
+  it('merges custom fields key by key', () => {
+    const merged = mergeProductUpdate(existingProduct(), { customFields: { custom2: 'handle with care', custom3: 'new' } });
+
+    expect(merged.customFields).toEqual({ custom1: 'bin 4', custom2: 'handle with care', custom3: 'new' });
+  });
+
+  it('takes an explicit timestamp over the fetched one', () => {
+    const merged = mergeProductUpdate(existingProduct(), { timestamp: '2026-01-01T00:00:00Z' });
+
+    expect(merged.timestamp).toBe('2026-01-01T00:00:00Z');
+  });
+});
+
+describe('mergeBillOfMaterials', () => {
+  it('patches a component by product and keeps its itemBomId and other lines', () => {
+    const kit = existingProduct();
+    kit.itemBoms!.push({
+      itemBomId: 'bom-2',
+      productId: 'prod-kit',
+      childProductId: 'prod-gadget',
+      quantity: { standardQuantity: '1', uomQuantity: '1', uom: 'each' },
+      timestamp: '2026-04-19T00:00:00Z',
+    });
+
+    const itemBoms = mergeBillOfMaterials(kit, [{ productId: 'prod-gadget', quantity: 3 }]);
+
+    expect(itemBoms).toEqual([
+      existingProduct().itemBoms![0],
+      {
+        itemBomId: 'bom-2',
+        productId: 'prod-kit',
+        childProductId: 'prod-gadget',
+        quantity: { uomQuantity: '3', uom: 'each' },
+        timestamp: '2026-04-19T00:00:00Z',
+      },
+    ]);
+  });
+
+  it('appends new components and removes those marked remove', () => {
+    const itemBoms = mergeBillOfMaterials(existingProduct(), [
+      { productId: 'prod-widget', remove: true },
+      { productId: 'prod-bolt', quantity: 4, uom: 'box' },
+    ]);
+
+    expect(itemBoms).toEqual([
+      {
+        itemBomId: expect.any(String),
+        productId: 'prod-kit',
+        childProductId: 'prod-bolt',
+        quantity: { uomQuantity: '4', uom: 'box' },
+      },
+    ]);
+  });
+
+  it('leaves the standard quantity to inFlow when a component is not in its standard unit', () => {
+    const kit = existingProduct();
+    kit.itemBoms![0].quantity = { standardQuantity: '24', uomQuantity: '2', uom: 'box of 12' };
+
+    const [recounted] = mergeBillOfMaterials(kit, [{ productId: 'prod-widget', quantity: 3 }]);
+    expect(recounted.quantity).toEqual({ uomQuantity: '3', uom: 'box of 12' });
+
+    const [rescaled] = mergeBillOfMaterials(kit, [{ productId: 'prod-widget', uom: 'each' }]);
+    expect(rescaled.quantity).toEqual({ uomQuantity: '2', uom: 'each' });
+
+    const [unchanged, added] = mergeBillOfMaterials(kit, [{ productId: 'prod-bolt', quantity: 2, uom: 'box of 12' }]);
+    expect(unchanged.quantity).toEqual({ standardQuantity: '24', uomQuantity: '2', uom: 'box of 12' });
+    expect(added.quantity).toEqual({ uomQuantity: '2', uom: 'box of 12' });
+  });
+
+  it('rejects self-references, duplicates, new components without quantity and unknown removals', () => {
+    expect(() => mergeBillOfMaterials(existingProduct(), [{ productId: 'prod-kit', quantity: 1 }])).toThrow(
+      /component of itself/
+    );
+    expect(() =>
+      mergeBillOfMaterials(existingProduct(), [
+        { productId: 'prod-widget', quantity: 1 },
+        { productId: 'prod-widget', remove: true },
+      ])
+    ).toThrow(/more than once/);
+    expect(() => mergeBillOfMaterials(existingProduct(), [{ productId: 'prod-bolt' }])).toThrow(/must include quantity/);
+    expect(() => mergeBillOfMaterials(existingProduct(), [{ productId: 'prod-bolt', remove: true }])).toThrow(
+      /not a component/
+    );
+  });
+});
+
+describe('findBomPath', () => {
+  const boms: Record<string, string[]> = {
+    'prod-kit': ['prod-subassembly', 'prod-widget'],
+    'prod-subassembly': ['prod-gadget', 'prod-widget'],
+  };
+  const loadItemBoms = async (productId: string): Promise<ItemBom[]> =>
+    (boms[productId] ?? []).map((childProductId) => ({ productId, childProductId }));
+
+  it('returns the chain of components leading to the target', async () => {
+    await expect(findBomPath(loadItemBoms, 'prod-kit', 'prod-gadget')).resolves.toEqual([
+      'prod-kit',
+      'prod-subassembly',
+      'prod-gadget',
+    ]);
+  });
+
+  it('returns undefined when the target is not below the product', async () => {
+    await expect(findBomPath(loadItemBoms, 'prod-subassembly', 'prod-kit')).resolves.toBeUndefined();
+  });
+});
+
+describe('explodeBillOfMaterials', () => {
+  const bom = (productId: string, components: Record<string, string>): Product => ({
+    productId,
+    name: productId,
+    itemBoms: Object.entries(components).map(([childProductId, quantity]) => ({
+      productId,
+      childProductId,
+      quantity: { standardQuantity: quantity, uomQuantity: quantity },
+    })),
+  });
+
+  const catalog = (...products: Product[]) => {
+    const byId = new Map(products.map((product) => [product.productId!, product]));
+    const loads: string[] = [];
+    const loadProduct = async (productId: string): Promise<Product> => {
+      loads.push(productId);
+      return byId.get(productId) ?? { productId, name: productId };
+    };
+    return { byId, loads, loadProduct };
+  };
+
+  it('multiplies quantities down through sub-assemblies and sums shared components', async () => {
+    const { byId, loads, loadProduct } = catalog(
+      bom('prod-kit', { 'prod-frame': '2', 'prod-bolt': '4' }),
+      bom('prod-frame', { 'prod-bolt': '6', 'prod-panel': '0.1' })
+    );
+
+    const explosion = await explodeBillOfMaterials(loadProduct, byId.get('prod-kit')!, 3);
+
+    expect(explosion.levels).toBe(2);
+    expect(explosion.subassemblies).toEqual([
+      { productId: 'prod-frame', productName: 'prod-frame', productSku: undefined, quantityRequired: 6 },
+    ]);
+    expect(explosion.requirements).toEqual([
+      // 3 kits x 4 bolts + 6 frames x 6 bolts
+      expect.objectContaining({ productId: 'prod-bolt', quantityRequired: 48 }),
+      expect.objectContaining({ productId: 'prod-panel', quantityRequired: 0.6 }),
+    ]);
+    // Each component is fetched once, however often it appears
+    expect(loads.sort()).toEqual(['prod-bolt', 'prod-frame', 'prod-panel']);
+  });
+
+  it('returns no requirements for a product without a BOM', async () => {
+    const { loadProduct } = catalog();
+
+    await expect(explodeBillOfMaterials(loadProduct, { productId: 'prod-bolt', name: 'Bolt' }, 1)).resolves.toEqual({
+      levels: 0,
+      requirements: [],
+      subassemblies: [],
+    });
+  });
+
+  it('fails on a cycle with the looping path', async () => {
+    const { byId, loadProduct } = catalog(
+      bom('prod-kit', { 'prod-frame': '1' }),
+      bom('prod-frame', { 'prod-brace': '1' }),
+      bom('prod-brace', { 'prod-frame': '1' })
+    );
+
+    await expect(explodeBillOfMaterials(loadProduct, byId.get('prod-kit')!, 1)).rejects.toMatchObject({
+      code: 'INVALID_STATE',
+      options: { details: { path: ['prod-frame', 'prod-brace', 'prod-frame'] } },
+    });
+  });
+
+  it('fails when the BOM is deeper than maxDepth', async () => {
+    const { byId, loadProduct } = catalog(
+      bom('prod-kit', { 'prod-frame': '1' }),
+      bom('prod-frame', { 'prod-bolt': '1' })
+    );
+
+    await expect(explodeBillOfMaterials(loadProduct, byId.get('prod-kit')!, 1, 1)).rejects.toThrow(/deeper than maxDepth/);
+    await expect(explodeBillOfMaterials(loadProduct, byId.get('prod-kit')!, 1, 2)).resolves.toMatchObject({ levels: 2 });
+  });
+});
@@ -3,54 +3,392 @@
 import { randomUUID } from 'crypto';
 import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { InflowClient } from '../client/inflow.js';
+import type { InflowClientRegistry } from '../client/registry.js';
+import { companyArg } from './company.js';
+import { ToolError, withToolErrors } from './errors.js';
+import { withResolvedIds } from './resolve.js';
+import { withAudit } from './audit.js';
+import { dryRunArg, dryRunnable, withDryRun } from './dry-run.js';
+import { jsonResult } from './results.js';
+import { fetchAllArgs, listRecords } from './list.js';
+import { putWithRebase, rebaseReportSchema } from './rebase.js';
+import { InflowApiError } from '../client/inflow.js';
 import type {
+  ItemBom,
   Product,
   ProductSummary,
   ProductFilter,
-  PaginationParams,
   Category,
 } from '../types/inflow.js';
+import {
+  decimalSchema,
+  listResultSchema,
+  productSchema,
+  productSummarySchema,
+} from '../types/schemas.js';
 
-export function registerProductTools(server: McpServer, client: InflowClient): void {
+const billOfMaterialsSchema = z.object({
+  productId: z.string(),
+  productName: z.string().nullish(),
+  productSku: z.string().nullish(),
+  isManufacturable: z.boolean(),
+  // Set when the product has no BOM
+  message: z.string().optional(),
+  componentCount: z.number().optional(),
+  components: z
+    .array(
+      z.object({
+        childProductId: z.string().nullish(),
+        childProductName: z.string().nullish(),
+        childProductSku: z.string().nullish(),
+        quantity: decimalSchema,
+        uom: z.string(),
+      })
+    )
+    .optional(),
+  itemBoms: z.array(z.unknown()).optional(),
+});
+
+const bomRequirementSchema = z.object({
+  productId: z.string(),
+  productName: z.string().nullish(),
+  productSku: z.string().nullish(),
+  // In the component's standard unit of measure
+  quantityRequired: z.number(),
+  // Set when compareStock=true
+  quantityOnHand: z.number().optional(),
+  quantityAvailable: z.number().optional(),
+  shortfall: z.number().optional(),
+});
+
+const bomExplosionSchema = z.object({
+  productId: z.string(),
+  productName: z.string().nullish(),
+  productSku: z.string().nullish(),
+  quantity: z.number(),
+  // Deepest BOM level walked; 1 when no component has a BOM of its own
+  levels: z.number(),
+  requirements: z.array(bomRequirementSchema),
+  subassemblies: z.array(bomRequirementSchema.omit({ quantityOnHand: true, quantityAvailable: true, shortfall: true })),
+  // Set when compareStock=true
+  locationId: z.string().optional(),
+  shortageCount: z.number().optional(),
+});
+
+// Products fetched at once while walking a BOM
+const BOM_FETCH_BATCH_SIZE = 10;
+// POST /products/summary accepts at most 100 product IDs
+const SUMMARY_BATCH_SIZE = 100;
+const DEFAULT_BOM_MAX_DEPTH = 20;
+
+export type ProductUpsertArgs = {
+  id?: string;
+  name?: string;
+  description?: string;
+  barcode?: string;
+  sku?: string;
+  categoryId?: string;
+  isActive?: boolean;
+  cost?: number;
+  defaultPrice?: number;
+  reorderPoint?: number;
+  reorderQuantity?: number;
+  weight?: number;
+  weightUnit?: string;
+  customFields?: Record<string, unknown>;
+  timestamp?: string;
+};
+
+/**
+ * Merge a partial upsert payload onto an existing product.
+ *
+ * `PUT /products` takes the full desired state, so an update built from the
+ * arguments alone would blank every field the caller left out. Header fields
+ * are merged by presence (0, '' and false are deliberate values), custom
+ * fields key by key, and everything else the GET returned (itemBoms, the
+ * timestamp) is sent back unchanged.
+ */
+export function mergeProductUpdate(existing: Product, args: ProductUpsertArgs): Product {
+  const merged: Product = { ...existing };
+
+  // inFlow requires a name, so it can be changed but not cleared
+  if (args.name !== undefined) merged.name = args.name;
+  if ('description' in args) merged.description = args.description;
+  if ('barcode' in args) merged.barcode = args.barcode;
+  if ('sku' in args) merged.sku = args.sku;
+  if ('categoryId' in args) merged.categoryId = args.categoryId;
+  if ('isActive' in args) merged.isActive = args.isActive;
+  if ('cost' in args) merged.cost = args.cost;
+  if ('defaultPrice' in args) merged.defaultPrice = args.defaultPrice;
+  if ('reorderPoint' in args) merged.reorderPoint = args.reorderPoint;
+  if ('reorderQuantity' in args) merged.reorderQuantity = args.reorderQuantity;
+  if ('weight' in args) merged.weight = args.weight;
+  if ('weightUnit' in args) merged.weightUnit = args.weightUnit;
+  if ('customFields' in args) merged.customFields = { ...existing.customFields, ...args.customFields };
+  if ('timestamp' in args) merged.timestamp = args.timestamp;
+
+  return merged;
+}
+
+export type BomComponentPatch = {
+  productId: string;
+  quantity?: number;
+  uom?: string;
+  remove?: boolean;
+};
+
+/**
+ * Apply component patches to a product's BOM lines.
+ *
+ * Components are matched by child product: a match gets its quantity/UOM
+ * patched (keeping its itemBomId and timestamp) or is dropped when `remove`
+ * is set, and an unmatched component is appended as a new line. Quantities
+ * are in the component's UOM, so patched and new lines carry only
+ * `uomQuantity` and `uom`. Lines the patch doesn't mention are returned
+ * unchanged.
+ */
+export function mergeBillOfMaterials(product: Product, components: BomComponentPatch[]): ItemBom[] {
+  const itemBoms = (product.itemBoms ?? []).map((bom) => ({ ...bom }));
+  const removed = new Set<string>();
+  const seen = new Set<string>();
+
+  components.forEach((component, index) => {
+    const field = `components[${index}].productId`;
+    if (component.productId === product.productId) {
+      throw new ToolError('INVALID_INPUT', 'A product cannot be a component of itself', { field });
+    }
+    if (seen.has(component.productId)) {
+      throw new ToolError('INVALID_INPUT', `Component ${component.productId} is listed more than once`, { field });
+    }
+    seen.add(component.productId);
+
+    const bom = itemBoms.find((line) => line.childProductId === component.productId);
+    if (component.remove) {
+      if (!bom) {
+        throw new ToolError('NOT_FOUND', `Product ${component.productId} is not a component of this product`, {
+          field,
+          hint: 'Use get_bill_of_materials to see the current components',
+        });
+      }
+      removed.add(component.productId);
+      return;
+    }
+
+    if (bom) {
+      if (component.quantity === undefined && component.uom === undefined) return;
+      const quantity = { ...bom.quantity };
+      // Stale once the quantity or unit changes; inFlow recomputes it
+      delete quantity.standardQuantity;
+      if (component.quantity !== undefined) quantity.uomQuantity = String(component.quantity);
+      if (component.uom !== undefined) quantity.uom = component.uom;
+      bom.quantity = quantity;
+      return;
+    }
+
+    if (component.quantity === undefined) {
+      throw new ToolError('INVALID_INPUT', `New component ${component.productId} must include quantity`, {
+        field: `components[${index}].quantity`,
+      });
+    }
+    itemBoms.push({
+      itemBomId: randomUUID(),
+      productId: product.productId,
+      childProductId: component.productId,
+      quantity: {
+        uomQuantity: String(component.quantity),
+        ...(component.uom !== undefined ? { uom: component.uom } : {}),
+      },
+    });
+  });
+
+  return itemBoms.filter((bom) => !bom.childProductId || !removed.has(bom.childProductId));
+}
+
+/**
+ * Depth-first search through BOMs for a path of components from `fromId`
+ * down to `toId`, e.g. to tell whether making `fromId` a component of `toId`
+ * would close a cycle. Returns the product IDs along the path, or undefined.
+ */
+export async function findBomPath(
+  loadItemBoms: (productId: string) => Promise<ItemBom[]>,
+  fromId: string,
+  toId: string
+): Promise<string[] | undefined> {
+  const visited = new Set<string>();
+
+  const visit = async (productId: string, path: string[]): Promise<string[] | undefined> => {
+    if (productId === toId) return [...path, productId];
+    if (visited.has(productId)) return undefined;
+    visited.add(productId);
+
+    for (const bom of await loadItemBoms(productId)) {
+      if (!bom.childProductId) continue;
+      const found = await visit(bom.childProductId, [...path, productId]);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  return visit(fromId, []);
+}
+
+/** Map `fn` over `items` a batch at a time rather than queueing every request at once. */
+async function mapInBatches<T, R>(items: T[], batchSize: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let start = 0; start < items.length; start += batchSize) {
+    results.push(...(await Promise.all(items.slice(start, start + batchSize).map(fn))));
+  }
+  return results;
+}
+
+function bomLineQuantity(bom: ItemBom): number {
+  const quantity = bom.quantity?.standardQuantity ?? bom.quantity?.uomQuantity ?? '1';
+  return parseFloat(quantity) || 0;
+}
+
+// Quantities multiply in floating point; keep the noise out of the output
+const roundQuantity = (quantity: number): number => Number(quantity.toFixed(4));
+
+export interface BomRequirement {
+  productId: string;
+  productName?: string;
+  productSku?: string;
+  quantityRequired: number;
+}
+
+export interface BomExplosion {
+  levels: number;
+  // Components without a BOM of their own, summed across every path
+  requirements: BomRequirement[];
+  // Components that are built from their own BOM, summed across every path
+  subassemblies: BomRequirement[];
+}
+
+/**
+ * Walk a product's BOM down through every sub-assembly, multiplying
+ * quantities along the way, and total what each component is needed for
+ * `quantity` units of the product.
+ *
+ * Components are fetched a level at a time, each product once however many
+ * times it appears. A component whose own BOM leads back to one of its
+ * ancestors is a cycle and fails with INVALID_STATE, as does a BOM deeper
+ * than `maxDepth`.
+ */
+export async function explodeBillOfMaterials(
+  loadProduct: (productId: string) => Promise<Product>,
+  root: Product,
+  quantity: number,
+  maxDepth = DEFAULT_BOM_MAX_DEPTH
+): Promise<BomExplosion> {
+  const rootId = root.productId ?? '';
+  const products = new Map<string, Product>([[rootId, root]]);
+  const requirements = new Map<string, BomRequirement>();
+  const subassemblies = new Map<string, BomRequirement>();
+
+  const add = (totals: Map<string, BomRequirement>, product: Product, productId: string, required: number) => {
+    const total = totals.get(productId);
+    if (total) {
+      total.quantityRequired += required;
+    } else {
+      totals.set(productId, { productId, productName: product.name, productSku: product.sku, quantityRequired: required });
+    }
+  };
+
+  type Node = { productId: string; quantity: number; path: string[] };
+  let level: Node[] = [{ productId: rootId, quantity, path: [] }];
+  let levels = 0;
+
+  while (level.length > 0) {
+    const unloaded = [...new Set(level.map((node) => node.productId))].filter((id) => !products.has(id));
+    const loaded = await mapInBatches(unloaded, BOM_FETCH_BATCH_SIZE, loadProduct);
+    unloaded.forEach((id, index) => products.set(id, loaded[index]));
+
+    const next: Node[] = [];
+    for (const node of level) {
+      const product = products.get(node.productId)!;
+      const itemBoms = (product.itemBoms ?? []).filter((bom) => bom.childProductId);
+
+      if (node.path.length > 0) {
+        add(itemBoms.length > 0 ? subassemblies : requirements, product, node.productId, node.quantity);
+      }
+      if (itemBoms.length === 0) continue;
+
+      const path = [...node.path, node.productId];
+      if (path.length > maxDepth) {
+        throw new ToolError('INVALID_STATE', `The bill of materials goes deeper than maxDepth (${maxDepth})`, {
+          field: 'maxDepth',
+          hint: 'Raise maxDepth if the BOM really is this deep',
+        });
+      }
+      for (const bom of itemBoms) {
+        const childId = bom.childProductId!;
+        if (path.includes(childId)) {
+          const cycle = [...path.slice(path.indexOf(childId)), childId];
+          throw new ToolError('INVALID_STATE', `The bill of materials contains a cycle: ${cycle.join(' -> ')}`, {
+            details: { path: cycle },
+            hint: 'Remove the looping component with upsert_bill_of_materials',
+          });
+        }
+        next.push({ productId: childId, quantity: node.quantity * bomLineQuantity(bom), path });
+      }
+      levels = Math.max(levels, path.length);
+    }
+    level = next;
+  }
+
+  const rounded = (totals: Map<string, BomRequirement>) =>
+    [...totals.values()].map((total) => ({ ...total, quantityRequired: roundQuantity(total.quantityRequired) }));
+
+  return { levels, requirements: rounded(requirements), subassemblies: rounded(subassemblies) };
+}
+
+export function registerProductTools(server: McpServer, clients: InflowClientRegistry): void {
   // List Products
-  server.tool(
+  server.registerTool(
     'list_products',
-    'Search and list products from inFlow Inventory with optional filtering',
     {
-      name: z.string().optional().describe('Filter by product name (partial match)'),
-      description: z.string().optional().describe('Filter by description'),
-      barcode: z.string().optional().describe('Filter by barcode'),
-      sku: z.string().optional().describe('Filter by SKU'),
-      categoryId: z.string().optional().describe('Filter by category ID'),
-      categoryName: z.string().optional().describe('Filter by category name (case-insensitive, resolves to categoryId)'),
-      isActive: z.boolean().optional().describe('Filter by active status'),
-      smart: z.string().optional().describe('Smart search across multiple fields (name, description, SKU, barcode)'),
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include. Options: category, customFields, inventoryLines (serial numbers). Use filter trackSerials=true to get only serialized products.'),
-      trackSerials: z.boolean().optional().describe('Filter to only return products that track serial numbers (serial numbers)'),
-      skip: z.number().optional().describe('Number of records to skip'),
-      count: z.number().optional().describe('Number of records to return (max 100)'),
-      sort: z.string().optional().describe('Property to sort by (e.g., name, sku, modifiedDate)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'Search and list products from inFlow Inventory with optional filtering',
+      inputSchema: {
+        name: z.string().optional().describe('Filter by product name (partial match)'),
+        description: z.string().optional().describe('Filter by description'),
+        barcode: z.string().optional().describe('Filter by barcode'),
+        sku: z.string().optional().describe('Filter by SKU'),
+        categoryId: z.string().optional().describe('Filter by category ID'),
+        categoryName: z.string().optional().describe('Filter by category name (case-insensitive, resolves to categoryId)'),
+        isActive: z.boolean().optional().describe('Filter by active status'),
+        smart: z.string().optional().describe('Smart search across multiple fields (name, description, SKU, barcode)'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include. Options: category, customFields, inventoryLines (serial numbers). Use filter trackSerials=true to get only serialized products.'),
+        trackSerials: z.boolean().optional().describe('Filter to only return products that track serial numbers (serial numbers)'),
+        skip: z.number().optional().describe('Number of records to skip'),
+        count: z.number().optional().describe('Number of records to return (max 100)'),
+        sort: z.string().optional().describe('Property to sort by (e.g., name, sku, modifiedDate)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(productSchema),
     },
-    async (args) => {
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
+
       // Resolve categoryName to categoryId if provided
       let resolvedCategoryId = args.categoryId;
       if (args.categoryName && !args.categoryId) {
-        const categories = await client.getList<Category>('/categories', {
-          pagination: { count: 100 }
-        });
+        const categories = await client.getAll<Category>('/categories');
         const match = categories.data.find((c: Category) =>
           c.name?.toLowerCase() === args.categoryName?.toLowerCase()
         );
         if (match?.categoryId) {
           resolvedCategoryId = match.categoryId;
         } else {
-          throw new Error(`Category not found: ${args.categoryName}`);
+          throw new ToolError('NOT_FOUND', `Category not found: ${args.categoryName}`, {
+            field: 'categoryName',
+            hint: 'Use list_categories to see valid category names',
+          });
         }
       }
 
@@ -64,93 +402,96 @@ export function registerProductTools(server: McpServer, client: InflowClient): v
       if (args.smart) filters.smart = args.smart;
       if (args.trackSerials !== undefined) filters.trackSerials = args.trackSerials;
 
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<Product>('/products', {
-        filters,
-        pagination,
-        include: args.include,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: Product[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(response, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(await listRecords<Product>(client, '/products', args, filters));
+    })
   );
 
   // Get Product
-  server.tool(
+  server.registerTool(
     'get_product',
-    'Get detailed information about a specific product by ID. Use include=itemBoms to get the bill of materials (components needed to manufacture this product).',
     {
-      productId: z.string().describe('The product ID'),
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include. Options: category, customFields, itemBoms (bill of materials), inventoryLines (serial numbers/serial numbers for trackSerials products)'),
+      description: 'Get detailed information about a specific product by ID. Use include=itemBoms to get the bill of materials (components needed to manufacture this product).',
+      inputSchema: {
+        productId: z.string().describe('The product ID (or SKU, barcode or name)'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include. Options: category, customFields, itemBoms (bill of materials), inventoryLines (serial numbers/serial numbers for trackSerials products)'),
+        company: companyArg,
+      },
+      outputSchema: productSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const product = await client.get<Product>(`/products/${args.productId}`, {
         include: args.include,
       });
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(product, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(product);
+    }))
   );
 
   // Create/Update Product
-  server.tool(
+  server.registerTool(
     'upsert_product',
-    'Create a new product or update an existing one. Include ID to update.',
     {
-      id: z.string().optional().describe('Product ID (required for updates)'),
-      name: z.string().describe('Product name'),
-      description: z.string().optional().describe('Product description'),
-      barcode: z.string().optional().describe('Product barcode'),
-      sku: z.string().optional().describe('Product SKU'),
-      categoryId: z.string().optional().describe('Category ID'),
-      isActive: z.boolean().optional().describe('Whether product is active'),
-      cost: z.number().optional().describe('Product cost'),
-      defaultPrice: z.number().optional().describe('Default selling price'),
-      reorderPoint: z.number().optional().describe('Reorder point quantity'),
-      reorderQuantity: z.number().optional().describe('Quantity to reorder'),
-      weight: z.number().optional().describe('Product weight'),
-      weightUnit: z.string().optional().describe('Weight unit (e.g., kg, lb)'),
-      customFields: z
-        .record(z.string(), z.unknown())
-        .optional()
-        .describe('Custom field values'),
-      timestamp: z
-        .string()
-        .optional()
-        .describe('Timestamp for concurrency control (required for updates)'),
+      description: 'Create a new product or update an existing one. When `id` is provided, performs a partial update: only the fields passed are changed, custom fields are merged key by key, and everything else (including the bill of materials) is preserved. Without `id`, creates a new product; `name` is required.',
+      inputSchema: {
+        id: z.string().optional().describe('Product ID (required for updates)'),
+        name: z.string().optional().describe('Product name (required for creates; preserved on updates)'),
+        description: z.string().optional().describe('Product description'),
+        barcode: z.string().optional().describe('Product barcode'),
+        sku: z.string().optional().describe('Product SKU'),
+        categoryId: z.string().optional().describe('Category ID'),
+        isActive: z.boolean().optional().describe('Whether product is active'),
+        cost: z.number().optional().describe('Product cost'),
+        defaultPrice: z.number().optional().describe('Default selling price'),
+        reorderPoint: z.number().optional().describe('Reorder point quantity'),
+        reorderQuantity: z.number().optional().describe('Quantity to reorder'),
+        weight: z.number().optional().describe('Product weight'),
+        weightUnit: z.string().optional().describe('Weight unit (e.g., kg, lb)'),
+        customFields: z
+          .record(z.string(), z.unknown())
+          .optional()
+          .describe('Custom field values; on updates, fields not mentioned are preserved'),
+        timestamp: z
+          .string()
+          .optional()
+          .describe('Timestamp for concurrency control'),
+        dryRun: dryRunArg,
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(productSchema.extend({ rebase: rebaseReportSchema.optional() })),
     },
-    async (args) => {
+    withToolErrors(withDryRun(withAudit('upsert_product', async (args) => {
+      const client = clients.get(args.company);
+
+      // Update path: GET the product (with its BOM, so the PUT keeps it),
+      // merge the patch and PUT the full state, rebasing onto concurrent
+      // edits unless the caller pinned a timestamp.
+      if (args.id) {
+        const id = args.id;
+        const { result: updateResult, rebase } = await putWithRebase({
+          load: () => client.get<Product>(`/products/${id}`, { include: ['itemBoms'] }),
+          prepare: (existing) => ({ ...mergeProductUpdate(existing, args), productId: id }),
+          save: (mergedBody) => client.put<Product>('/products', mergedBody),
+          ...(args.timestamp !== undefined ? { maxAttempts: 1 } : {}),
+        });
+        return jsonResult({ ...updateResult, rebase });
+      }
+
+      if (!args.name) {
+        throw new ToolError(
+          'INVALID_INPUT',
+          'Creating a product requires name. Pass id to update an existing product instead.',
+          { field: 'name' }
+        );
+      }
+
       // API expects 'productId' not 'id' - use entity-specific field name
       const productPayload = {
-        productId: args.id || randomUUID(),
+        productId: randomUUID(),
         name: args.name,
         description: args.description,
         barcode: args.barcode,
@@ -169,104 +510,94 @@ export function registerProductTools(server: McpServer, client: InflowClient): v
 
       const result = await client.put<Product>('/products', productPayload);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(result);
+    })))
   );
 
   // Get Inventory Summary
-  server.tool(
+  server.registerTool(
     'get_inventory_summary',
-    'Get inventory quantities for a product across all locations',
     {
-      productId: z.string().describe('The product ID'),
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include (e.g., locationSummaries, sublocationSummaries)'),
+      description: 'Get inventory quantities for a product across all locations',
+      inputSchema: {
+        productId: z.string().describe('The product ID (or SKU, barcode or name)'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include (e.g., locationSummaries, sublocationSummaries)'),
+        company: companyArg,
+      },
+      outputSchema: productSummarySchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const summary = await client.get<ProductSummary>(
         `/products/${args.productId}/summary`,
         { include: args.include }
       );
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(summary, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(summary);
+    }))
   );
 
   // Batch Inventory Summary
-  server.tool(
+  server.registerTool(
     'get_inventory_summaries_batch',
-    'Get inventory summaries for multiple products at once (max 100)',
     {
-      productIds: z
-        .array(z.string())
-        .max(100)
-        .describe('Array of product IDs (max 100)'),
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include'),
+      description: 'Get inventory summaries for multiple products at once (max 100)',
+      inputSchema: {
+        productIds: z
+          .array(z.string())
+          .max(100)
+          .describe('Array of product IDs (max 100)'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include'),
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(productSummarySchema),
     },
-    async (args) => {
-      const summaries = await client.post<ProductSummary[]>(
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
+
+      const summaries = await client.query<ProductSummary[]>(
         '/products/summary',
         { productIds: args.productIds },
         { params: args.include ? { include: args.include.join(',') } : undefined }
       );
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(summaries, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult({ data: summaries });
+    })
   );
 
   // Get Bill of Materials
-  server.tool(
+  server.registerTool(
     'get_bill_of_materials',
-    'Get the bill of materials (BOM) for a manufacturable product. Returns the list of component products and quantities required to manufacture this product. Only products with isManufacturable=true have a BOM.',
     {
-      productId: z.string().describe('The product ID to get the BOM for'),
+      description: 'Get the bill of materials (BOM) for a manufacturable product. Returns the list of component products and quantities required to manufacture this product. Only products with isManufacturable=true have a BOM.',
+      inputSchema: {
+        productId: z.string().describe('The product ID to get the BOM for (or SKU, barcode or name)'),
+        company: companyArg,
+      },
+      outputSchema: billOfMaterialsSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const product = await client.get<Product>(`/products/${args.productId}`, {
         include: ['itemBoms'],
       });
 
       if (!product.isManufacturable) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                productId: args.productId,
-                productName: product.name,
-                isManufacturable: false,
-                message: 'This product is not manufacturable and has no bill of materials.',
-                itemBoms: [],
-              }, null, 2),
-            },
-          ],
-        };
+        return jsonResult({
+          productId: args.productId,
+          productName: product.name,
+          isManufacturable: false,
+          message: 'This product is not manufacturable and has no bill of materials.',
+          itemBoms: [],
+        });
       }
 
       // If we have BOMs, fetch the child product names
@@ -278,11 +609,10 @@ export function registerProductTools(server: McpServer, client: InflowClient): v
       // Fetch child product details if we have any
       let childProducts: Record<string, Product> = {};
       if (childProductIds.length > 0) {
-        // Fetch each child product to get names
-        const childProductPromises = childProductIds.map((id) =>
+        // Fetch each child product to get names, a batch at a time
+        const results = await mapInBatches(childProductIds, BOM_FETCH_BATCH_SIZE, (id) =>
           client.get<Product>(`/products/${id}`).catch(() => null)
         );
-        const results = await Promise.all(childProductPromises);
         results.forEach((p) => {
           if (p) {
             if (p.productId) {
@@ -301,21 +631,193 @@ export function registerProductTools(server: McpServer, client: InflowClient): v
         uom: bom.quantity?.uom || '',
       }));
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              productId: args.productId,
-              productName: product.name,
-              productSku: product.sku,
-              isManufacturable: true,
-              componentCount: enrichedBoms.length,
-              components: enrichedBoms,
-            }, null, 2),
-          },
-        ],
+      return jsonResult({
+        productId: args.productId,
+        productName: product.name,
+        productSku: product.sku,
+        isManufacturable: true,
+        componentCount: enrichedBoms.length,
+        components: enrichedBoms,
+      });
+    }))
+  );
+
+  // Create/Update Bill of Materials
+  server.registerTool(
+    'upsert_bill_of_materials',
+    {
+      description: 'Add, update or remove component lines on a manufacturable product\'s bill of materials. Components are matched by product: an existing component gets its quantity/UOM changed (keeping its itemBomId), remove=true drops it, and a new product is added as a component (quantity required). Components must exist, and a product cannot contain itself directly or through a sub-assembly. Components not mentioned are left as they are.',
+      inputSchema: {
+        productId: z.string().describe('The manufacturable product whose BOM to edit (or SKU, barcode or name)'),
+        components: z
+          .array(
+            z.object({
+              productId: z.string().describe('Component product ID (or SKU, barcode or name)'),
+              quantity: z.number().positive().optional().describe('Quantity per unit of the product, in uom (required for new components)'),
+              uom: z.string().optional().describe("Unit of measure for the quantity (default: the component's current unit, or its standard unit for new components)"),
+              remove: z.boolean().optional().describe('Remove this component from the BOM'),
+            })
+          )
+          .min(1)
+          .describe('Components to add, update or remove'),
+        timestamp: z
+          .string()
+          .optional()
+          .describe('Product timestamp for concurrency control'),
+        dryRun: dryRunArg,
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(productSchema.extend({ rebase: rebaseReportSchema.optional() })),
+    },
+    withToolErrors(withResolvedIds(clients, withDryRun(withAudit('upsert_bill_of_materials', async (args) => {
+      const client = clients.get(args.company);
+      const id = args.productId;
+
+      // Check every component being added or changed exists and doesn't
+      // already contain this product somewhere below it
+      const itemBomsByProduct = new Map<string, ItemBom[]>();
+      const loadItemBoms = async (productId: string): Promise<ItemBom[]> => {
+        let itemBoms = itemBomsByProduct.get(productId);
+        if (!itemBoms) {
+          const product = await client.get<Product>(`/products/${productId}`, { include: ['itemBoms'] });
+          itemBoms = product.itemBoms ?? [];
+          itemBomsByProduct.set(productId, itemBoms);
+        }
+        return itemBoms;
       };
-    }
+
+      for (const [index, component] of args.components.entries()) {
+        if (component.remove || component.productId === id) continue;
+        const field = `components[${index}].productId`;
+        try {
+          await loadItemBoms(component.productId);
+        } catch (error) {
+          if (error instanceof InflowApiError && error.statusCode === 404) {
+            throw new ToolError('NOT_FOUND', `Component product not found: ${component.productId}`, { field });
+          }
+          throw error;
+        }
+        const path = await findBomPath(loadItemBoms, component.productId, id);
+        if (path) {
+          throw new ToolError(
+            'INVALID_INPUT',
+            `Adding ${component.productId} would create a BOM cycle: ${[id, ...path].join(' -> ')}`,
+            { field, details: { path: [id, ...path] } }
+          );
+        }
+      }
+
+      const { result, rebase } = await putWithRebase({
+        load: () => client.get<Product>(`/products/${id}`, { include: ['itemBoms'] }),
+        prepare: (existing) => {
+          if (!existing.isManufacturable) {
+            throw new ToolError('INVALID_STATE', 'Only manufacturable products have a bill of materials', {
+              field: 'productId',
+              hint: 'Set isManufacturable on the product in inFlow first',
+            });
+          }
+          return {
+            ...existing,
+            productId: id,
+            itemBoms: mergeBillOfMaterials(existing, args.components),
+            ...(args.timestamp !== undefined ? { timestamp: args.timestamp } : {}),
+          };
+        },
+        save: (product) => client.put<Product>('/products', product),
+        ...(args.timestamp !== undefined ? { maxAttempts: 1 } : {}),
+      });
+
+      return jsonResult({ ...result, rebase });
+    }))))
+  );
+
+  // Explode Bill of Materials
+  server.registerTool(
+    'explode_bill_of_materials',
+    {
+      description: 'Explode a product\'s bill of materials through every level of sub-assemblies and total the raw components needed to build a given quantity. Returns each leaf component with its total required quantity (summed across every place it appears) and the sub-assemblies passed through. Fails if the BOM contains a cycle. With compareStock=true, each requirement also carries on-hand and available stock and the shortfall, company-wide or at one location.',
+      inputSchema: {
+        productId: z.string().describe('The product to explode (or SKU, barcode or name)'),
+        quantity: z.number().positive().optional().describe('Number of units to build (default: 1)'),
+        maxDepth: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(`Maximum BOM levels to walk before failing (default: ${DEFAULT_BOM_MAX_DEPTH})`),
+        compareStock: z
+          .boolean()
+          .optional()
+          .describe('Compare requirements with stock from the product summaries and report shortfalls'),
+        locationId: z
+          .string()
+          .optional()
+          .describe('Compare with stock at this location only (or location name); requires compareStock'),
+        company: companyArg,
+      },
+      outputSchema: bomExplosionSchema,
+    },
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+      const quantity = args.quantity ?? 1;
+
+      if (args.locationId && !args.compareStock) {
+        throw new ToolError('INVALID_INPUT', 'locationId only applies when compareStock is true', {
+          field: 'locationId',
+        });
+      }
+
+      const loadProduct = (productId: string) =>
+        client.get<Product>(`/products/${productId}`, { include: ['itemBoms'] });
+      const product = await loadProduct(args.productId);
+      const explosion = await explodeBillOfMaterials(loadProduct, product, quantity, args.maxDepth);
+
+      if (!args.compareStock) {
+        return jsonResult({
+          productId: args.productId,
+          productName: product.name,
+          productSku: product.sku,
+          quantity,
+          ...explosion,
+        });
+      }
+
+      const productIds = explosion.requirements.map((requirement) => requirement.productId);
+      const summaries = new Map<string, ProductSummary>();
+      for (let start = 0; start < productIds.length; start += SUMMARY_BATCH_SIZE) {
+        const results = await client.query<ProductSummary[]>(
+          '/products/summary',
+          { productIds: productIds.slice(start, start + SUMMARY_BATCH_SIZE) },
+          args.locationId ? { params: { include: 'locationSummaries' } } : undefined
+        );
+        for (const summary of results) summaries.set(summary.productId, summary);
+      }
+
+      const requirements = explosion.requirements.map((requirement) => {
+        const summary = summaries.get(requirement.productId);
+        const stock = args.locationId
+          ? summary?.locationSummaries?.find((location) => location.locationId === args.locationId)
+          : summary;
+        const quantityOnHand = stock?.quantityOnHand ?? 0;
+        const quantityAvailable = stock?.quantityAvailable ?? 0;
+        return {
+          ...requirement,
+          quantityOnHand,
+          quantityAvailable,
+          shortfall: roundQuantity(Math.max(0, requirement.quantityRequired - quantityAvailable)),
+        };
+      });
+
+      return jsonResult({
+        productId: args.productId,
+        productName: product.name,
+        productSku: product.sku,
+        quantity,
+        ...explosion,
+        requirements,
+        ...(args.locationId ? { locationId: args.locationId } : {}),
+        shortageCount: requirements.filter((requirement) => requirement.shortfall > 0).length,
+      });
+    }))
   );
 }
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { mergePurchaseOrderUpdate } from './purchase-orders.js';
+import type { PurchaseOrder, PurchaseOrderItem } from '../types/inflow.js';
+
+const lineGadget = (): PurchaseOrderItem => ({
+  purchaseOrderLineId: 'line-gadget',
+  productId: 'prod-gadget',
+  description: 'Gadget',
+  quantity: {
+    standardQuantity: 10,
+    uomQuantity: 10,
+    uom: 'each',
+    serialNumbers: ['GAD-1', 'GAD-2'],
+  },
+  unitPrice: 4,
+  taxCodeId: 'tax-default',
+  subtotal: 40,
+});
+
+const lineWidget = (): PurchaseOrderItem => ({
+  purchaseOrderLineId: 'line-widget',
+  productId: 'prod-widget',
+  quantity: 2,
+  unitPrice: 12,
+  subtotal: 24,
+});
+
+const existingOrder = (): PurchaseOrder => ({
+  purchaseOrderId: 'po-123',
+  orderNumber: 'PO-000001',
+  orderDate: '2026-04-20T00:00:00Z',
+  vendorId: 'vendor-supply',
+  locationId: 'loc-primary',
+  status: 'PartiallyReceived',
+  orderRemarks: 'original remark',
+  customFields: { custom1: 'dock 2' },
+  timestamp: '2026-04-20T00:00:00Z',
+  lines: [lineGadget(), lineWidget()],
+  receiveLines: [
+    {
+      purchaseOrderReceiveLineId: 'receive-1',
+      productId: 'prod-gadget',
+      description: 'Gadget',
+      quantity: { standardQuantity: '4', uomQuantity: '4' },
+      locationId: 'loc-primary',
+      receiveDate: '2026-04-21T00:00:00Z',
+      timestamp: '2026-04-21T00:00:00Z',
+    },
+  ],
+  unstockLines: [{ purchaseOrderUnstockLineId: 'unstock-1' }],
+});
+
+describe('mergePurchaseOrderUpdate', () => {
+  it('patches one line by id and keeps the other lines, receipts and header', () => {
+    const merged = mergePurchaseOrderUpdate(existingOrder(), {
+      id: 'po-123',
+      items: [{ id: 'line-gadget', unitCost: 3.5 }],
+    });
+
+    expect(merged.lines).toEqual([{ ...lineGadget(), unitPrice: 3.5 }, lineWidget()]);
+    expect(merged).toMatchObject({
+      vendorId: 'vendor-supply',
+      orderRemarks: 'original remark',
+      timestamp: '2026-04-20T00:00:00Z',
+      unstockLines: [{ purchaseOrderUnstockLineId: 'unstock-1' }],
+    });
+    expect(merged.receiveLines).toEqual([
+      {
+        purchaseOrderReceiveLineId: 'receive-1',
+        productId: 'prod-gadget',
+        quantity: { standardQuantity: '4', uomQuantity: '4' },
+        locationId: 'loc-primary',
+        sublocation: undefined,
+        receiveDate: '2026-04-21T00:00:00Z',
+        timestamp: '2026-04-21T00:00:00Z',
+      },
+    ]);
+  });
+
+  it('matches by unambiguous productId and keeps serial numbers when only quantity changes', () => {
+    const merged = mergePurchaseOrderUpdate(existingOrder(), { items: [{ productId: 'prod-gadget', quantity: 12 }] });
+
+    expect(merged.lines?.[0].quantity).toEqual({
+      standardQuantity: 12,
+      uomQuantity: 12,
+      uom: 'each',
+      serialNumbers: ['GAD-1', 'GAD-2'],
+    });
+  });
+
+  it('throws on ambiguous productId matches', () => {
+    const order = existingOrder();
+    order.lines!.push({ ...lineGadget(), purchaseOrderLineId: 'line-gadget-2' });
+
+    expect(() => mergePurchaseOrderUpdate(order, { items: [{ productId: 'prod-gadget', unitCost: 1 }] })).toThrow(
+      /Ambiguous line patch/
+    );
+  });
+
+  it('appends unmatched items as new lines and requires their quantity', () => {
+    const merged = mergePurchaseOrderUpdate(existingOrder(), {
+      items: [{ productId: 'prod-kit', quantity: 3, unitCost: 20 }],
+    });
+
+    expect(merged.lines).toHaveLength(3);
+    expect(merged.lines?.[2]).toMatchObject({
+      purchaseOrderLineId: expect.any(String),
+      productId: 'prod-kit',
+      quantity: { standardQuantity: 3, uomQuantity: 3 },
+      unitPrice: 20,
+    });
+    expect(() => mergePurchaseOrderUpdate(existingOrder(), { items: [{ productId: 'prod-kit' }] })).toThrow(
+      /must include quantity/
+    );
+  });
+
+  it('removes lines listed in deleteLineIds without touching others', () => {
+    const merged = mergePurchaseOrderUpdate(existingOrder(), { deleteLineIds: ['line-widget'] });
+
+    expect(merged.lines).toEqual([lineGadget()]);
+  });
+
+  it('merges header fields via presence rather than truthiness', () => {
+    const merged = mergePurchaseOrderUpdate(existingOrder(), { remarks: '', expectedDate: '2026-05-01T00:00:00Z' });
+
+    expect(merged).toMatchObject({
+      orderRemarks: '',
+      expectedDate: '2026-05-01T00:00:00Z',
+      vendorId: 'vendor-supply',
+      customFields: { custom1: 'dock 2' },
+    });
+  });
+});
@@ -3,15 +3,24 @@
 import { z } from 'zod';
 import { randomUUID } from 'crypto';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { InflowClient } from '../client/inflow.js';
+import type { InflowClientRegistry } from '../client/registry.js';
+import { companyArg } from './company.js';
+import { ToolError, withToolErrors } from './errors.js';
+import { withResolvedIds } from './resolve.js';
+import { withAudit } from './audit.js';
+import { dryRunArg, dryRunnable, withDryRun } from './dry-run.js';
+import { jsonResult } from './results.js';
+import { fetchAllArgs, listRecords } from './list.js';
+import { putWithRebase, rebaseReportSchema } from './rebase.js';
+import { resolveCurrency } from './currencies.js';
 import type {
   PurchaseOrder,
   PurchaseOrderItem,
   PurchaseOrderReceiveLine,
   PurchaseOrderFilter,
-  PaginationParams,
   Address,
 } from '../types/inflow.js';
+import { listResultSchema, purchaseOrderSchema } from '../types/schemas.js';
 
 const addressSchema = z.object({
   street1: z.string().optional(),
@@ -24,15 +33,86 @@ const addressSchema = z.object({
 
 const purchaseOrderItemSchema = z.object({
   id: z.string().optional(),
-  productId: z.string().optional(),
+  productId: z.string().optional().describe('Product ID (or SKU, barcode or name)'),
   description: z.string().optional(),
-  quantity: z.number(),
+  // Optional so partial updates can touch unitCost / serialNumbers without
+  // restating quantity; new lines must include it (checked at line-build time)
+  quantity: z.number().optional(),
   unitCost: z.number().optional(),
   taxCodeId: z.string().optional(),
   sublocation: z.string().optional(),
   serialNumbers: z.array(z.string()).optional(),
 });
 
+const receiveSummarySchema = z.object({
+  purchaseOrderId: z.string().nullish(),
+  orderNumber: z.string().nullish(),
+  previousStatus: z.string().nullish(),
+  newStatus: z.string().nullish(),
+  received: z.array(
+    z.object({
+      productName: z.string().nullish(),
+      quantityReceived: z.number(),
+      ordered: z.number(),
+      previouslyReceived: z.number(),
+      totalReceived: z.number(),
+      fullyReceived: z.boolean(),
+    })
+  ),
+  totalReceiveLinesNow: z.number(),
+  // Items that failed validation while others were received
+  warnings: z.array(z.string()).optional(),
+  rebase: rebaseReportSchema,
+});
+
+const unreceivedLineShape = {
+  receiveLineId: z.string(),
+  productId: z.string(),
+  productName: z.string().nullish(),
+};
+const removedReceiveLineSchema = z.object({
+  ...unreceivedLineShape,
+  quantity: z.number(),
+  receiveDate: z.string().nullish(),
+});
+const modifiedReceiveLineSchema = z.object({ ...unreceivedLineShape, oldQty: z.number(), newQty: z.number() });
+
+// The real result, or with dryRun the receive lines that would change
+const unreceiveSummarySchema = z.object({
+  dryRun: z.boolean(),
+  purchaseOrderId: z.string().nullish(),
+  orderNumber: z.string().nullish(),
+  previousStatus: z.string().nullish(),
+  newStatus: z.string().nullish(),
+  removed: z.array(removedReceiveLineSchema).optional(),
+  modified: z.array(modifiedReceiveLineSchema).optional(),
+  currentReceiveLines: z.number().optional(),
+  wouldRemove: z.array(removedReceiveLineSchema).optional(),
+  wouldModify: z.array(modifiedReceiveLineSchema).optional(),
+  remainingReceiveLines: z.number(),
+  rebase: rebaseReportSchema.optional(),
+});
+
+export type PurchaseOrderItemPatch = z.infer<typeof purchaseOrderItemSchema>;
+
+export type PurchaseOrderUpsertArgs = {
+  id?: string;
+  orderNumber?: string;
+  orderDate?: string;
+  expectedDate?: string;
+  vendorId?: string;
+  locationId?: string;
+  shippingAddress?: Address;
+  currencyCode?: string;
+  // Resolved from currencyCode by the tool
+  currencyId?: string;
+  items?: PurchaseOrderItemPatch[];
+  remarks?: string;
+  customFields?: Record<string, unknown>;
+  timestamp?: string;
+  deleteLineIds?: string[];
+};
+
 const poStatusEnum = z.enum(['Open', 'PartiallyReceived', 'Received', 'Cancelled', 'Closed']);
 
 /**
@@ -63,35 +143,167 @@ function stripReceiveLineToWritable(rl: PurchaseOrderReceiveLine) {
   };
 }
 
-export function registerPurchaseOrderTools(server: McpServer, client: InflowClient): void {
+/**
+ * Merge a partial upsert payload onto an existing purchase order.
+ *
+ * `PUT /purchase-orders` takes the full desired state, so rebuilding `lines`
+ * from the caller's items would drop every other line, and resending lines
+ * without their nested fields loses serial numbers. This reconciles the patch
+ * against the most recent GET, the same way as mergeSalesOrderUpdate:
+ *
+ *   1. An item with `id` patches the line with that `purchaseOrderLineId`, or
+ *      is appended as a new line carrying that id.
+ *   2. An item without `id` patches the one line with its `productId`; several
+ *      matches are an error, none appends a new line.
+ *   3. Lines whose ids are in `deleteLineIds` are removed before patches apply.
+ *
+ * Receive lines are sent back in their writable form and unstock lines as
+ * fetched, so editing the order never reverses stock already received.
+ */
+export function mergePurchaseOrderUpdate(existing: PurchaseOrder, args: PurchaseOrderUpsertArgs): PurchaseOrder {
+  const merged: PurchaseOrder = { ...existing };
+
+  // Presence-based header merge, so callers can intentionally set '' or {}.
+  if ('orderNumber' in args) merged.orderNumber = args.orderNumber;
+  if ('orderDate' in args) merged.orderDate = args.orderDate;
+  if ('expectedDate' in args) merged.expectedDate = args.expectedDate;
+  if ('vendorId' in args) merged.vendorId = args.vendorId;
+  if ('locationId' in args) merged.locationId = args.locationId;
+  if ('shippingAddress' in args) merged.shippingAddress = args.shippingAddress;
+  if ('currencyCode' in args) merged.currencyCode = args.currencyCode;
+  if ('currencyId' in args) merged.currencyId = args.currencyId;
+  if ('remarks' in args) merged.orderRemarks = args.remarks;
+  if ('customFields' in args) merged.customFields = args.customFields;
+  if ('timestamp' in args) merged.timestamp = args.timestamp;
+
+  const deleteSet = new Set(args.deleteLineIds ?? []);
+  const workingLines: PurchaseOrderItem[] = (existing.lines ?? [])
+    .filter((line) => !(line.purchaseOrderLineId && deleteSet.has(line.purchaseOrderLineId)))
+    .map((line) => ({ ...line }));
+
+  for (const patch of args.items ?? []) {
+    const matchIndex = findPurchaseOrderLineIndex(workingLines, patch);
+    if (matchIndex >= 0) {
+      workingLines[matchIndex] = patchPurchaseOrderLine(workingLines[matchIndex], patch);
+      continue;
+    }
+    workingLines.push(buildNewPurchaseOrderLine(patch));
+  }
+
+  merged.lines = workingLines;
+  if (existing.receiveLines) merged.receiveLines = existing.receiveLines.map(stripReceiveLineToWritable);
+  return merged;
+}
+
+/** Locate the existing line a patch targets; throws on productId ambiguity. */
+function findPurchaseOrderLineIndex(lines: PurchaseOrderItem[], patch: PurchaseOrderItemPatch): number {
+  if (patch.id) {
+    return lines.findIndex((line) => line.purchaseOrderLineId === patch.id);
+  }
+  if (patch.productId) {
+    const matchingIndices = lines
+      .map((line, index) => (line.productId === patch.productId ? index : -1))
+      .filter((index) => index >= 0);
+    if (matchingIndices.length === 1) return matchingIndices[0];
+    if (matchingIndices.length > 1) {
+      throw new ToolError(
+        'INVALID_INPUT',
+        `Ambiguous line patch: productId ${patch.productId} matches ${matchingIndices.length} existing lines. Pass an explicit id to disambiguate.`,
+        { field: 'items' }
+      );
+    }
+  }
+  return -1;
+}
+
+function patchPurchaseOrderLine(existing: PurchaseOrderItem, patch: PurchaseOrderItemPatch): PurchaseOrderItem {
+  const merged: PurchaseOrderItem = { ...existing };
+  if ('productId' in patch) merged.productId = patch.productId;
+  if ('description' in patch) merged.description = patch.description;
+  if ('unitCost' in patch) merged.unitPrice = patch.unitCost;
+  if ('taxCodeId' in patch) merged.taxCodeId = patch.taxCodeId;
+  if ('sublocation' in patch) merged.sublocation = patch.sublocation;
+
+  // Always write back the object form so serialNumbers has somewhere to live
+  if ('quantity' in patch || 'serialNumbers' in patch) {
+    const prior = existing.quantity;
+    const priorObject = typeof prior === 'object' && prior !== null ? prior : undefined;
+    const priorQuantity = priorObject ? priorObject.standardQuantity : typeof prior === 'number' ? prior : 0;
+    const priorUomQuantity = priorObject ? priorObject.uomQuantity : typeof prior === 'number' ? prior : 0;
+
+    merged.quantity = {
+      ...(priorObject ?? {}),
+      standardQuantity: patch.quantity ?? priorQuantity,
+      uomQuantity: patch.quantity ?? priorUomQuantity,
+      serialNumbers: 'serialNumbers' in patch ? patch.serialNumbers : priorObject?.serialNumbers,
+    };
+  }
+
+  return merged;
+}
+
+function buildNewPurchaseOrderLine(patch: PurchaseOrderItemPatch): PurchaseOrderItem {
+  if (patch.quantity === undefined) {
+    throw new ToolError(
+      'INVALID_INPUT',
+      'New purchase order lines must include quantity. Pass item.quantity when adding a line with no existing match.',
+      { field: 'items' }
+    );
+  }
+
+  // inFlow expects quantity as { standardQuantity, uomQuantity }, unitPrice
+  // rather than unitCost, and a purchaseOrderLineId on every line
+  return {
+    purchaseOrderLineId: patch.id ?? randomUUID(),
+    productId: patch.productId,
+    description: patch.description,
+    quantity: {
+      standardQuantity: patch.quantity,
+      uomQuantity: patch.quantity,
+      ...(patch.serialNumbers?.length ? { serialNumbers: patch.serialNumbers } : {}),
+    },
+    unitPrice: patch.unitCost,
+    taxCodeId: patch.taxCodeId,
+    sublocation: patch.sublocation,
+  };
+}
+
+export function registerPurchaseOrderTools(server: McpServer, clients: InflowClientRegistry): void {
   // List Purchase Orders
-  server.tool(
+  server.registerTool(
     'list_purchase_orders',
-    'Search and list purchase orders with optional filtering',
     {
-      orderNumber: z.string().optional().describe('Filter by order number'),
-      vendorId: z.string().optional().describe('Filter by vendor ID'),
-      status: z.union([
-        poStatusEnum,
-        z.array(poStatusEnum),
-      ]).optional().describe('Filter by order status (single value or array)'),
-      locationId: z.string().optional().describe('Filter by destination location ID'),
-      orderDateFrom: z.string().optional().describe('Filter by order date (from) - ISO format'),
-      orderDateTo: z.string().optional().describe('Filter by order date (to) - ISO format'),
-      expectedDateFrom: z.string().optional().describe('Filter by expected date (from)'),
-      expectedDateTo: z.string().optional().describe('Filter by expected date (to)'),
-      smart: z.string().optional().describe('Smart search across order fields'),
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include (e.g., vendor, lines, lines.product)'),
-      skip: z.number().optional().describe('Number of records to skip'),
-      count: z.number().optional().describe('Number of records to return (max 100)'),
-      sort: z.string().optional().describe('Property to sort by (e.g., orderDate, orderNumber)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'Search and list purchase orders with optional filtering',
+      inputSchema: {
+        orderNumber: z.string().optional().describe('Filter by order number'),
+        vendorId: z.string().optional().describe('Filter by vendor ID (or name)'),
+        status: z.union([
+          poStatusEnum,
+          z.array(poStatusEnum),
+        ]).optional().describe('Filter by order status (single value or array)'),
+        locationId: z.string().optional().describe('Filter by destination location ID (or name)'),
+        orderDateFrom: z.string().optional().describe('Filter by order date (from) - ISO format'),
+        orderDateTo: z.string().optional().describe('Filter by order date (to) - ISO format'),
+        expectedDateFrom: z.string().optional().describe('Filter by expected date (from)'),
+        expectedDateTo: z.string().optional().describe('Filter by expected date (to)'),
+        smart: z.string().optional().describe('Smart search across order fields'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include (e.g., vendor, lines, lines.product)'),
+        skip: z.number().optional().describe('Number of records to skip'),
+        count: z.number().optional().describe('Number of records to return (max 100)'),
+        sort: z.string().optional().describe('Property to sort by (e.g., orderDate, orderNumber)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(purchaseOrderSchema),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const filters: PurchaseOrderFilter = {};
       if (args.orderNumber) filters.orderNumber = args.orderNumber;
       if (args.vendorId) filters.vendorId = args.vendorId;
@@ -103,114 +315,115 @@ export function registerPurchaseOrderTools(server: McpServer, client: InflowClie
       if (args.expectedDateTo) filters.expectedDateTo = args.expectedDateTo;
       if (args.smart) filters.smart = args.smart;
 
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<PurchaseOrder>('/purchase-orders', {
-        filters,
-        pagination,
-        include: args.include,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: PurchaseOrder[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(response, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(await listRecords<PurchaseOrder>(client, '/purchase-orders', args, filters));
+    }))
   );
 
   // Get Purchase Order
-  server.tool(
+  server.registerTool(
     'get_purchase_order',
-    'Get detailed information about a specific purchase order',
     {
-      purchaseOrderId: z.string().describe('The purchase order ID'),
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include (e.g., vendor, location, lines, lines.product)'),
+      description: 'Get detailed information about a specific purchase order',
+      inputSchema: {
+        purchaseOrderId: z.string().describe('The purchase order ID (or order number)'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include (e.g., vendor, location, lines, lines.product)'),
+        company: companyArg,
+      },
+      outputSchema: purchaseOrderSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const order = await client.get<PurchaseOrder>(
         `/purchase-orders/${args.purchaseOrderId}`,
         { include: args.include }
       );
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(order, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(order);
+    }))
   );
 
   // Create/Update Purchase Order
-  server.tool(
+  server.registerTool(
     'upsert_purchase_order',
-    'Create a new purchase order or update an existing one',
     {
-      id: z.string().optional().describe('Purchase order ID (required for updates)'),
-      orderNumber: z.string().optional().describe('Order number'),
-      orderDate: z.string().optional().describe('Order date (ISO format)'),
-      expectedDate: z.string().optional().describe('Expected delivery date (ISO format)'),
-      vendorId: z.string().describe('Vendor ID'),
-      locationId: z.string().optional().describe('Destination location/warehouse ID'),
-      shippingAddress: addressSchema.optional().describe('Shipping address'),
-      currencyCode: z.string().optional().describe('Currency code (e.g., USD)'),
-      items: z.array(purchaseOrderItemSchema).optional().describe('Order line items'),
-      remarks: z.string().optional().describe('Order remarks/notes'),
-      customFields: z.record(z.string(), z.unknown()).optional().describe('Custom field values'),
-      timestamp: z.string().optional().describe('Timestamp for concurrency control'),
+      description: 'Create a new purchase order or update an existing one. When `id` is provided, performs a partial update: unmentioned header fields, lines and receipts are preserved, item patches are merged into existing lines by id (or unambiguous productId), and lines listed in `deleteLineIds` are removed. Without `id`, creates a new order from the provided fields.',
+      inputSchema: {
+        id: z.string().optional().describe('Purchase order ID (required for updates)'),
+        orderNumber: z.string().optional().describe('Order number'),
+        orderDate: z.string().optional().describe('Order date (ISO format)'),
+        expectedDate: z.string().optional().describe('Expected delivery date (ISO format)'),
+        vendorId: z
+          .string()
+          .optional()
+          .describe('Vendor ID or name (required for creates; preserved from the existing order on updates)'),
+        locationId: z.string().optional().describe('Destination location/warehouse ID (or name)'),
+        shippingAddress: addressSchema.optional().describe('Shipping address'),
+        currencyCode: z
+          .string()
+          .optional()
+          .describe("Currency code, name or symbol (e.g., EUR, Euro or €); must be one of the account's currencies"),
+        items: z.array(purchaseOrderItemSchema).optional().describe(
+          'Order line items. For updates, each item patches an existing line when it has a matching `id` (purchaseOrderLineId) or unambiguous `productId`; items without a match are appended as new lines. Unmentioned existing lines are preserved.'
+        ),
+        deleteLineIds: z
+          .array(z.string())
+          .optional()
+          .describe('purchaseOrderLineId values to remove from the order during an update.'),
+        remarks: z.string().optional().describe('Order remarks/notes'),
+        customFields: z.record(z.string(), z.unknown()).optional().describe('Custom field values'),
+        timestamp: z.string().optional().describe('Timestamp for concurrency control'),
+        dryRun: dryRunArg,
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(purchaseOrderSchema.extend({ rebase: rebaseReportSchema.optional() })),
     },
-    async (args) => {
-      // inFlow API requires purchaseOrderId for both create and update
-      // Generate a new UUID if not provided (for creates)
-      const purchaseOrderId = args.id || randomUUID();
-
-      // Transform items to lines with correct inFlow API format:
-      // - quantity must be { standardQuantity, uomQuantity } object
-      // - use unitPrice not unitCost
-      // - each line needs purchaseOrderLineId GUID
-      const lines = args.items?.map((item) => ({
-        purchaseOrderLineId: (item as any).id || randomUUID(),
-        productId: item.productId,
-        description: item.description,
-        quantity: {
-          standardQuantity: item.quantity,
-          uomQuantity: item.quantity,
-          ...(item.serialNumbers?.length ? { serialNumbers: item.serialNumbers } : {}),
-        },
-        unitPrice: item.unitCost,
-        taxCodeId: item.taxCodeId,
-        sublocation: item.sublocation,
-      }));
+    withToolErrors(withResolvedIds(clients, withDryRun(withAudit('upsert_purchase_order', async (args) => {
+      const client = clients.get(args.company);
+      const currency = args.currencyCode ? await resolveCurrency(client, args.currencyCode) : undefined;
+      const upsertArgs: PurchaseOrderUpsertArgs = currency
+        ? { ...args, currencyCode: currency.code, currencyId: currency.currencyId }
+        : args;
+
+      // Update path: fetch the order with its lines, receipts and unstock
+      // lines, merge, and PUT the full desired state, rebasing onto concurrent
+      // edits unless the caller pinned an explicit timestamp.
+      if (args.id) {
+        const id = args.id;
+        const { result: updateResult, rebase } = await putWithRebase({
+          load: () => client.get<PurchaseOrder>(`/purchase-orders/${id}`, {
+            include: ['lines', 'receiveLines', 'unstockLines'],
+          }),
+          prepare: (existing) => ({ ...mergePurchaseOrderUpdate(existing, upsertArgs), purchaseOrderId: id }),
+          save: (mergedBody) => client.put<PurchaseOrder>('/purchase-orders', mergedBody),
+          ...(args.timestamp !== undefined ? { maxAttempts: 1 } : {}),
+        });
+        return jsonResult({ ...updateResult, rebase });
+      }
+
+      if (!args.vendorId) {
+        throw new ToolError(
+          'INVALID_INPUT',
+          'Creating a purchase order requires vendorId. Pass id to update an existing purchase order instead.',
+          { field: 'vendorId' }
+        );
+      }
 
       const order: PurchaseOrder = {
-        purchaseOrderId: purchaseOrderId,
+        // inFlow API requires a client-generated purchaseOrderId on create
+        purchaseOrderId: randomUUID(),
         orderNumber: args.orderNumber,
         orderDate: args.orderDate,
         expectedDate: args.expectedDate,
         vendorId: args.vendorId,
         locationId: args.locationId,
         shippingAddress: args.shippingAddress as Address,
-        currencyCode: args.currencyCode,
-        lines: lines as PurchaseOrderItem[],
+        currencyId: currency?.currencyId,
+        currencyCode: currency?.code,
+        lines: (args.items ?? []).map(buildNewPurchaseOrderLine),
         orderRemarks: args.remarks,
         customFields: args.customFields,
         timestamp: args.timestamp,
@@ -219,272 +432,263 @@ export function registerPurchaseOrderTools(server: McpServer, client: InflowClie
       // inFlow API uses PUT for both create and update with purchaseOrderId in body
       const result = await client.put<PurchaseOrder>('/purchase-orders', order);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(result);
+    }))))
   );
 
   // Receive Purchase Order Items
-  server.tool(
+  server.registerTool(
     'receive_purchase_order',
-    'Receive items on a purchase order by adding entries to the PO\'s receiveLines[] array via PUT.',
     {
-      purchaseOrderId: z.string().describe('The purchase order ID'),
-      receiveAll: z.boolean().optional().describe('Receive all remaining quantity on every line'),
-      items: z.array(z.object({
-        purchaseOrderLineId: z.string().optional().describe('Order line ID — used to resolve productId (convenience)'),
-        productId: z.string().optional().describe('Product ID to receive'),
-        quantity: z.number().describe('Quantity to receive'),
-        serialNumbers: z.array(z.string()).optional().describe('Serial numbers / serial numbers for serialized items'),
-      })).optional().describe('Specific items to receive (creates new receive line entries)'),
-      locationId: z.string().optional().describe('Warehouse location ID for received items'),
-      receiveDate: z.string().optional().describe('Receive date (ISO 8601, defaults to now)'),
-      allowOverReceive: z.boolean().optional().describe('Allow receiving more than ordered quantity'),
+      description: 'Receive items on a purchase order by adding entries to the PO\'s receiveLines[] array via PUT.',
+      inputSchema: {
+        purchaseOrderId: z.string().describe('The purchase order ID (or order number)'),
+        receiveAll: z.boolean().optional().describe('Receive all remaining quantity on every line'),
+        items: z.array(z.object({
+          purchaseOrderLineId: z.string().optional().describe('Order line ID — used to resolve productId (convenience)'),
+          productId: z.string().optional().describe('Product ID to receive (or SKU, barcode or name)'),
+          quantity: z.number().describe('Quantity to receive'),
+          serialNumbers: z.array(z.string()).optional().describe('Serial numbers / serial numbers for serialized items'),
+        })).optional().describe('Specific items to receive (creates new receive line entries)'),
+        locationId: z.string().optional().describe('Warehouse location ID for received items (or name)'),
+        receiveDate: z.string().optional().describe('Receive date (ISO 8601, defaults to now)'),
+        allowOverReceive: z.boolean().optional().describe('Allow receiving more than ordered quantity'),
+        dryRun: dryRunArg,
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(receiveSummarySchema),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, withDryRun(withAudit('receive_purchase_order', async (args) => {
+      const client = clients.get(args.company);
+
       const { purchaseOrderId, receiveAll, items, allowOverReceive } = args;
 
       // Validate: must provide exactly one of receiveAll or items
       if (receiveAll && items && items.length > 0) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({ error: true, message: 'Cannot use both receiveAll and items — they are mutually exclusive' }),
-          }],
-        };
+        throw new ToolError(
+          'INVALID_INPUT',
+          'Cannot use both receiveAll and items — they are mutually exclusive',
+          { field: 'items', hint: 'Pass receiveAll=true or an items array, not both' }
+        );
       }
       if (!receiveAll && (!items || items.length === 0)) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({ error: true, message: 'Provide either receiveAll=true or items array' }),
-          }],
-        };
+        throw new ToolError('INVALID_INPUT', 'Provide either receiveAll=true or items array', {
+          field: 'items',
+        });
       }
 
       // Phase 1 — GET current PO state with lines, products, and existing receiveLines
-      const currentPO = await client.get<PurchaseOrder>(
-        `/purchase-orders/${purchaseOrderId}`,
-        { include: ['lines', 'lines.product', 'receiveLines'] }
-      );
-
-      if (!currentPO || !currentPO.lines || currentPO.lines.length === 0) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({ error: true, message: 'Purchase order not found or has no lines' }),
-          }],
-        };
-      }
-
-      // Phase 2 — Validate PO status
-      if (currentPO.status && ['Cancelled', 'Closed'].includes(currentPO.status)) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({
-              error: true,
-              message: `Cannot receive on PO with status "${currentPO.status}"`,
-              currentStatus: currentPO.status,
-            }),
-          }],
-        };
-      }
+      const loadPO = () =>
+        client.get<PurchaseOrder>(`/purchase-orders/${purchaseOrderId}`, {
+          include: ['lines', 'lines.product', 'receiveLines'],
+        });
 
-      // Phase 3 — Compute current received totals per product from existing receiveLines
-      const existingReceiveLines: PurchaseOrderReceiveLine[] = currentPO.receiveLines || [];
-      const receivedByProduct = new Map<string, number>();
-      for (const rl of existingReceiveLines) {
-        if (!rl.productId) continue;
-        const qty = parseLineQuantity(rl.quantity as any);
-        receivedByProduct.set(rl.productId, (receivedByProduct.get(rl.productId) || 0) + qty);
-      }
+      // Phases 2–5 run against whichever PO state the PUT is based on, so a
+      // rebase after a concurrent receive re-checks over-receive limits.
+      const plan = (currentPO: PurchaseOrder) => {
+        if (!currentPO || !currentPO.lines || currentPO.lines.length === 0) {
+          throw new ToolError('INVALID_STATE', 'Purchase order not found or has no lines', {
+            hint: 'Add lines to the purchase order before receiving',
+          });
+        }
 
-      // Build lookup maps for order lines
-      const lineMap = new Map<string, PurchaseOrderItem>();
-      const productLineMap = new Map<string, PurchaseOrderItem[]>();
-      for (const line of currentPO.lines) {
-        if (line.purchaseOrderLineId) {
-          lineMap.set(line.purchaseOrderLineId, line);
+        // Phase 2 — Validate PO status
+        if (currentPO.status && ['Cancelled', 'Closed'].includes(currentPO.status)) {
+          throw new ToolError(
+            'INVALID_STATE',
+            `Cannot receive on PO with status "${currentPO.status}"`,
+            { field: 'status', details: { currentStatus: currentPO.status } }
+          );
         }
-        if (line.productId) {
-          const existing = productLineMap.get(line.productId) || [];
-          existing.push(line);
-          productLineMap.set(line.productId, existing);
+
+        // Phase 3 — Compute current received totals per product from existing receiveLines
+        const existingReceiveLines: PurchaseOrderReceiveLine[] = currentPO.receiveLines || [];
+        const receivedByProduct = new Map<string, number>();
+        for (const rl of existingReceiveLines) {
+          if (!rl.productId) continue;
+          const qty = parseLineQuantity(rl.quantity as any);
+          receivedByProduct.set(rl.productId, (receivedByProduct.get(rl.productId) || 0) + qty);
         }
-      }
 
-      // Phase 4 — Build new receive lines
-      const errors: string[] = [];
-      const newReceiveLines: PurchaseOrderReceiveLine[] = [];
-      const receiveDate = args.receiveDate || new Date().toISOString();
-      const locationId = args.locationId || currentPO.locationId;
-
-      // Track what we're receiving for the response summary
-      const receiveSummary: Array<{
-        productId: string;
-        productName?: string;
-        quantity: number;
-        ordered: number;
-        previouslyReceived: number;
-        totalAfterReceive: number;
-        fullyReceived: boolean;
-      }> = [];
-
-      if (receiveAll) {
-        // Create receive lines for full remaining qty on all order lines
+        // Build lookup maps for order lines
+        const lineMap = new Map<string, PurchaseOrderItem>();
+        const productLineMap = new Map<string, PurchaseOrderItem[]>();
         for (const line of currentPO.lines) {
-          if (!line.productId) continue;
-          const ordered = parseLineQuantity(line.quantity);
-          const alreadyReceived = receivedByProduct.get(line.productId) || 0;
-          const remaining = ordered - alreadyReceived;
-
-          if (remaining <= 0) continue; // Already fully received
-
-          const receiveLine: PurchaseOrderReceiveLine = {
-            purchaseOrderReceiveLineId: randomUUID(),
-            productId: line.productId,
-            quantity: {
-              standardQuantity: remaining.toFixed(4),
-              uomQuantity: remaining.toFixed(4),
-            },
-            receiveDate,
-          };
-          if (locationId) receiveLine.locationId = locationId;
-          newReceiveLines.push(receiveLine);
-
-          receiveSummary.push({
-            productId: line.productId,
-            productName: line.product?.name,
-            quantity: remaining,
-            ordered,
-            previouslyReceived: alreadyReceived,
-            totalAfterReceive: ordered,
-            fullyReceived: true,
-          });
+          if (line.purchaseOrderLineId) {
+            lineMap.set(line.purchaseOrderLineId, line);
+          }
+          if (line.productId) {
+            const existing = productLineMap.get(line.productId) || [];
+            existing.push(line);
+            productLineMap.set(line.productId, existing);
+          }
         }
 
-        if (newReceiveLines.length === 0) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: JSON.stringify({ error: true, message: 'All lines are already fully received' }),
-            }],
-          };
-        }
-      } else {
-        // Process specific items
-        for (const item of items!) {
-          // Resolve productId from purchaseOrderLineId if needed
-          let resolvedProductId: string | undefined;
-          let matchedLine: PurchaseOrderItem | undefined;
-
-          if (item.purchaseOrderLineId) {
-            matchedLine = lineMap.get(item.purchaseOrderLineId);
-            if (!matchedLine) {
-              errors.push(`Line ID "${item.purchaseOrderLineId}" not found on this PO`);
+        // Phase 4 — Build new receive lines
+        const errors: string[] = [];
+        const newReceiveLines: PurchaseOrderReceiveLine[] = [];
+        const receiveDate = args.receiveDate || new Date().toISOString();
+        const locationId = args.locationId || currentPO.locationId;
+
+        // Track what we're receiving for the response summary
+        const receiveSummary: Array<{
+          productId: string;
+          productName?: string;
+          quantity: number;
+          ordered: number;
+          previouslyReceived: number;
+          totalAfterReceive: number;
+          fullyReceived: boolean;
+        }> = [];
+
+        if (receiveAll) {
+          // Create receive lines for full remaining qty on all order lines
+          for (const line of currentPO.lines) {
+            if (!line.productId) continue;
+            const ordered = parseLineQuantity(line.quantity);
+            const alreadyReceived = receivedByProduct.get(line.productId) || 0;
+            const remaining = ordered - alreadyReceived;
+
+            if (remaining <= 0) continue; // Already fully received
+
+            const receiveLine: PurchaseOrderReceiveLine = {
+              purchaseOrderReceiveLineId: randomUUID(),
+              productId: line.productId,
+              quantity: {
+                standardQuantity: remaining.toFixed(4),
+                uomQuantity: remaining.toFixed(4),
+              },
+              receiveDate,
+            };
+            if (locationId) receiveLine.locationId = locationId;
+            newReceiveLines.push(receiveLine);
+
+            receiveSummary.push({
+              productId: line.productId,
+              productName: line.product?.name,
+              quantity: remaining,
+              ordered,
+              previouslyReceived: alreadyReceived,
+              totalAfterReceive: ordered,
+              fullyReceived: true,
+            });
+          }
+
+          if (newReceiveLines.length === 0) {
+            throw new ToolError('INVALID_STATE', 'All lines are already fully received', {
+              hint: 'Use unreceive_purchase_order to reverse receipts, or allowOverReceive with items to receive extra',
+            });
+          }
+        } else {
+          // Process specific items
+          for (const item of items!) {
+            // Resolve productId from purchaseOrderLineId if needed
+            let resolvedProductId: string | undefined;
+            let matchedLine: PurchaseOrderItem | undefined;
+
+            if (item.purchaseOrderLineId) {
+              matchedLine = lineMap.get(item.purchaseOrderLineId);
+              if (!matchedLine) {
+                errors.push(`Line ID "${item.purchaseOrderLineId}" not found on this PO`);
+                continue;
+              }
+              resolvedProductId = matchedLine.productId;
+            } else if (item.productId) {
+              resolvedProductId = item.productId;
+              // Find the matching order line for ordered quantity info
+              const candidates = productLineMap.get(item.productId) || [];
+              matchedLine = candidates[0]; // Use first match for summary data
+              if (!matchedLine) {
+                errors.push(`Product "${item.productId}" not found on this PO`);
+                continue;
+              }
+            } else {
+              errors.push('Each item must have purchaseOrderLineId or productId');
               continue;
             }
-            resolvedProductId = matchedLine.productId;
-          } else if (item.productId) {
-            resolvedProductId = item.productId;
-            // Find the matching order line for ordered quantity info
-            const candidates = productLineMap.get(item.productId) || [];
-            matchedLine = candidates[0]; // Use first match for summary data
-            if (!matchedLine) {
-              errors.push(`Product "${item.productId}" not found on this PO`);
+
+            if (!resolvedProductId) {
+              errors.push(`Could not resolve productId for line "${item.purchaseOrderLineId}"`);
               continue;
             }
-          } else {
-            errors.push('Each item must have purchaseOrderLineId or productId');
-            continue;
-          }
 
-          if (!resolvedProductId) {
-            errors.push(`Could not resolve productId for line "${item.purchaseOrderLineId}"`);
-            continue;
-          }
+            // Over-receive guard
+            const alreadyReceived = receivedByProduct.get(resolvedProductId) || 0;
+            // Sum ordered qty across all order lines for this product
+            const orderedForProduct = (productLineMap.get(resolvedProductId) || [])
+              .reduce((sum, l) => sum + parseLineQuantity(l.quantity), 0);
 
-          // Over-receive guard
-          const alreadyReceived = receivedByProduct.get(resolvedProductId) || 0;
-          // Sum ordered qty across all order lines for this product
-          const orderedForProduct = (productLineMap.get(resolvedProductId) || [])
-            .reduce((sum, l) => sum + parseLineQuantity(l.quantity), 0);
+            if (!allowOverReceive && (alreadyReceived + item.quantity) > orderedForProduct) {
+              errors.push(
+                `Product "${matchedLine?.product?.name || resolvedProductId}": would receive ${alreadyReceived + item.quantity} total but only ${orderedForProduct} ordered (already received: ${alreadyReceived}, max more: ${orderedForProduct - alreadyReceived}). Use allowOverReceive=true to override.`
+              );
+              continue;
+            }
 
-          if (!allowOverReceive && (alreadyReceived + item.quantity) > orderedForProduct) {
-            errors.push(
-              `Product "${matchedLine?.product?.name || resolvedProductId}": would receive ${alreadyReceived + item.quantity} total but only ${orderedForProduct} ordered (already received: ${alreadyReceived}, max more: ${orderedForProduct - alreadyReceived}). Use allowOverReceive=true to override.`
-            );
-            continue;
-          }
+            // Validate serial number count matches quantity
+            if (item.serialNumbers && item.serialNumbers.length > 0 && item.serialNumbers.length !== item.quantity) {
+              errors.push(
+                `Product "${matchedLine?.product?.name || resolvedProductId}": serial number count (${item.serialNumbers.length}) must match quantity (${item.quantity})`
+              );
+              continue;
+            }
 
-          // Validate serial number count matches quantity
-          if (item.serialNumbers && item.serialNumbers.length > 0 && item.serialNumbers.length !== item.quantity) {
-            errors.push(
-              `Product "${matchedLine?.product?.name || resolvedProductId}": serial number count (${item.serialNumbers.length}) must match quantity (${item.quantity})`
-            );
-            continue;
+            // Build the receive line
+            const receiveLine: PurchaseOrderReceiveLine = {
+              purchaseOrderReceiveLineId: randomUUID(),
+              productId: resolvedProductId,
+              quantity: {
+                standardQuantity: item.quantity.toFixed(4),
+                uomQuantity: item.quantity.toFixed(4),
+                ...(item.serialNumbers && item.serialNumbers.length > 0
+                  ? { serialNumbers: item.serialNumbers }
+                  : {}),
+              },
+              receiveDate,
+            };
+            if (locationId) receiveLine.locationId = locationId;
+            newReceiveLines.push(receiveLine);
+
+            // Update running total for subsequent over-receive checks within the same call
+            receivedByProduct.set(resolvedProductId, alreadyReceived + item.quantity);
+
+            receiveSummary.push({
+              productId: resolvedProductId,
+              productName: matchedLine?.product?.name,
+              quantity: item.quantity,
+              ordered: orderedForProduct,
+              previouslyReceived: alreadyReceived,
+              totalAfterReceive: alreadyReceived + item.quantity,
+              fullyReceived: (alreadyReceived + item.quantity) >= orderedForProduct,
+            });
           }
+        }
 
-          // Build the receive line
-          const receiveLine: PurchaseOrderReceiveLine = {
-            purchaseOrderReceiveLineId: randomUUID(),
-            productId: resolvedProductId,
-            quantity: {
-              standardQuantity: item.quantity.toFixed(4),
-              uomQuantity: item.quantity.toFixed(4),
-              ...(item.serialNumbers && item.serialNumbers.length > 0
-                ? { serialNumbers: item.serialNumbers }
-                : {}),
-            },
-            receiveDate,
-          };
-          if (locationId) receiveLine.locationId = locationId;
-          newReceiveLines.push(receiveLine);
-
-          // Update running total for subsequent over-receive checks within the same call
-          receivedByProduct.set(resolvedProductId, alreadyReceived + item.quantity);
-
-          receiveSummary.push({
-            productId: resolvedProductId,
-            productName: matchedLine?.product?.name,
-            quantity: item.quantity,
-            ordered: orderedForProduct,
-            previouslyReceived: alreadyReceived,
-            totalAfterReceive: alreadyReceived + item.quantity,
-            fullyReceived: (alreadyReceived + item.quantity) >= orderedForProduct,
-          });
+        // If validation errors prevented all items from being processed
+        if (errors.length > 0 && newReceiveLines.length === 0) {
+          throw new ToolError('INVALID_INPUT', 'Validation failed', { field: 'items', details: { errors } });
         }
-      }
 
-      // If validation errors prevented all items from being processed
-      if (errors.length > 0 && newReceiveLines.length === 0) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({ error: true, message: 'Validation failed', errors }),
-          }],
-        };
-      }
+        // Phase 5 — Build PUT body with existing + new receive lines
+        const strippedExisting = existingReceiveLines.map(stripReceiveLineToWritable);
 
-      // Phase 5 — Build PUT body with existing + new receive lines
-      const strippedExisting = existingReceiveLines.map(stripReceiveLineToWritable);
+        const putBody: Record<string, unknown> = {
+          purchaseOrderId: currentPO.purchaseOrderId,
+          vendorId: currentPO.vendorId,
+          receiveLines: [...strippedExisting, ...newReceiveLines],
+          timestamp: currentPO.timestamp,
+        };
 
-      const putBody: Record<string, unknown> = {
-        purchaseOrderId: currentPO.purchaseOrderId,
-        vendorId: currentPO.vendorId,
-        receiveLines: [...strippedExisting, ...newReceiveLines],
-        timestamp: currentPO.timestamp,
+        return { putBody, receiveSummary, errors, strippedExisting, newReceiveLines };
       };
 
       // Phase 6 — PUT and build response
-      const result = await client.put<PurchaseOrder>('/purchase-orders', putBody);
+      const { result, existing: currentPO, prepared, rebase } = await putWithRebase({
+        load: loadPO,
+        prepare: plan,
+        save: ({ putBody }) => client.put<PurchaseOrder>('/purchase-orders', putBody),
+      });
+      const { receiveSummary, errors, strippedExisting, newReceiveLines } = prepared;
 
       const summary = {
         purchaseOrderId: result.purchaseOrderId || currentPO.purchaseOrderId,
@@ -501,280 +705,265 @@ export function registerPurchaseOrderTools(server: McpServer, client: InflowClie
         })),
         totalReceiveLinesNow: (result.receiveLines?.length) || (strippedExisting.length + newReceiveLines.length),
         ...(errors.length > 0 ? { warnings: errors } : {}),
+        rebase,
       };
 
-      return {
-        content: [{
-          type: 'text' as const,
-          text: JSON.stringify(summary, null, 2),
-        }],
-      };
-    }
+      return jsonResult(summary);
+    }))))
   );
 
   // Unreceive Purchase Order Items
-  server.tool(
+  server.registerTool(
     'unreceive_purchase_order',
-    'Remove receive line entries from a PO to reverse received stock. Supports exact ID removal, product-based LIFO removal, or full unreceive.',
     {
-      purchaseOrderId: z.string().describe('The purchase order ID'),
-      receiveLineIds: z.array(z.string()).optional()
-        .describe('Specific receive line IDs to remove entirely'),
-      items: z.array(z.object({
-        productId: z.string().describe('Product ID to unreceive'),
-        quantity: z.number().describe('Quantity to unreceive (LIFO — newest receive lines first)'),
-      })).optional()
-        .describe('Products to unreceive by quantity — auto-matches receive lines newest-first'),
-      unreceiveAll: z.boolean().optional()
-        .describe('Remove ALL receive lines (fully unreceive the entire PO)'),
-      dryRun: z.boolean().optional()
-        .describe('Preview what would be removed without making changes'),
+      description: 'Remove receive line entries from a PO to reverse received stock. Supports exact ID removal, product-based LIFO removal, or full unreceive.',
+      inputSchema: {
+        purchaseOrderId: z.string().describe('The purchase order ID (or order number)'),
+        receiveLineIds: z.array(z.string()).optional()
+          .describe('Specific receive line IDs to remove entirely'),
+        items: z.array(z.object({
+          productId: z.string().describe('Product ID to unreceive (or SKU, barcode or name)'),
+          quantity: z.number().describe('Quantity to unreceive (LIFO — newest receive lines first)'),
+        })).optional()
+          .describe('Products to unreceive by quantity — auto-matches receive lines newest-first'),
+        unreceiveAll: z.boolean().optional()
+          .describe('Remove ALL receive lines (fully unreceive the entire PO)'),
+        dryRun: z.boolean().optional()
+          .describe('Preview what would be removed without making changes'),
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(unreceiveSummarySchema),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, withDryRun(withAudit('unreceive_purchase_order', async (args) => {
+      const client = clients.get(args.company);
+
       const { purchaseOrderId, receiveLineIds, items, unreceiveAll, dryRun } = args;
 
       // Phase 1 — Validate input (mutually exclusive)
       const modes = [receiveLineIds, items, unreceiveAll].filter(Boolean).length;
       if (modes === 0) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({ error: true, message: 'Provide exactly one of: receiveLineIds, items, or unreceiveAll' }),
-          }],
-        };
+        throw new ToolError(
+          'INVALID_INPUT',
+          'Provide exactly one of: receiveLineIds, items, or unreceiveAll'
+        );
       }
       if (modes > 1) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({ error: true, message: 'Use only one of: receiveLineIds, items, or unreceiveAll — they are mutually exclusive' }),
-          }],
-        };
+        throw new ToolError(
+          'INVALID_INPUT',
+          'Use only one of: receiveLineIds, items, or unreceiveAll — they are mutually exclusive'
+        );
       }
 
       // Phase 2 — GET current PO
-      const currentPO = await client.get<PurchaseOrder>(
-        `/purchase-orders/${purchaseOrderId}`,
-        { include: ['lines', 'lines.product', 'receiveLines'] }
-      );
-
-      if (!currentPO) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({ error: true, message: 'Purchase order not found' }),
-          }],
-        };
-      }
-
-      if (currentPO.status && ['Cancelled', 'Closed'].includes(currentPO.status)) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({
-              error: true,
-              message: `Cannot unreceive on PO with status "${currentPO.status}"`,
-            }),
-          }],
-        };
-      }
-
-      const existingReceiveLines: PurchaseOrderReceiveLine[] = currentPO.receiveLines || [];
-      if (existingReceiveLines.length === 0) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({ error: true, message: 'PO has no receive lines to unreceive' }),
-          }],
-        };
-      }
+      const loadPO = () =>
+        client.get<PurchaseOrder>(`/purchase-orders/${purchaseOrderId}`, {
+          include: ['lines', 'lines.product', 'receiveLines'],
+        });
 
-      // Build lookup map: receiveLineId → receiveLine
-      const receiveLineMap = new Map<string, PurchaseOrderReceiveLine>();
-      for (const rl of existingReceiveLines) {
-        if (rl.purchaseOrderReceiveLineId) {
-          receiveLineMap.set(rl.purchaseOrderReceiveLineId, rl);
+      // Phases 3–4 and the PUT body are rebuilt from the latest PO state if
+      // the PUT hits a concurrency conflict.
+      const plan = (currentPO: PurchaseOrder) => {
+        if (!currentPO) {
+          throw new ToolError('NOT_FOUND', 'Purchase order not found', { field: 'purchaseOrderId' });
         }
-      }
 
-      // Build product name lookup from order lines
-      const productNameMap = new Map<string, string>();
-      for (const line of currentPO.lines || []) {
-        if (line.productId && line.product?.name) {
-          productNameMap.set(line.productId, line.product.name);
+        if (currentPO.status && ['Cancelled', 'Closed'].includes(currentPO.status)) {
+          throw new ToolError(
+            'INVALID_STATE',
+            `Cannot unreceive on PO with status "${currentPO.status}"`,
+            { field: 'status', details: { currentStatus: currentPO.status } }
+          );
         }
-      }
 
-      // Phase 3 — Determine which receive lines to remove/modify
-      const removeSet = new Set<string>(); // receiveLineIds to remove entirely
-      const partialMods: Array<{ id: string; newQty: number; oldQty: number }> = [];
-      const errors: string[] = [];
+        const existingReceiveLines: PurchaseOrderReceiveLine[] = currentPO.receiveLines || [];
+        if (existingReceiveLines.length === 0) {
+          throw new ToolError('INVALID_STATE', 'PO has no receive lines to unreceive');
+        }
 
-      if (unreceiveAll) {
-        // Mark all receive lines for removal
+        // Build lookup map: receiveLineId → receiveLine
+        const receiveLineMap = new Map<string, PurchaseOrderReceiveLine>();
         for (const rl of existingReceiveLines) {
           if (rl.purchaseOrderReceiveLineId) {
-            removeSet.add(rl.purchaseOrderReceiveLineId);
+            receiveLineMap.set(rl.purchaseOrderReceiveLineId, rl);
           }
         }
-      } else if (receiveLineIds) {
-        // Validate each ID exists on this PO
-        for (const id of receiveLineIds) {
-          if (!receiveLineMap.has(id)) {
-            errors.push(`Receive line ID "${id}" not found on this PO`);
-          } else {
-            removeSet.add(id);
+
+        // Build product name lookup from order lines
+        const productNameMap = new Map<string, string>();
+        for (const line of currentPO.lines || []) {
+          if (line.productId && line.product?.name) {
+            productNameMap.set(line.productId, line.product.name);
           }
         }
-        if (errors.length > 0) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: JSON.stringify({ error: true, message: 'Validation failed', errors }),
-            }],
-          };
-        }
-      } else if (items) {
-        // LIFO removal by product
-        for (const item of items) {
-          // Find all receive lines for this product
-          const productLines = existingReceiveLines.filter(
-            rl => rl.productId === item.productId && rl.purchaseOrderReceiveLineId
-          );
 
-          if (productLines.length === 0) {
-            errors.push(`No receive lines found for product "${productNameMap.get(item.productId) || item.productId}"`);
-            continue;
-          }
+        // Phase 3 — Determine which receive lines to remove/modify
+        const removeSet = new Set<string>(); // receiveLineIds to remove entirely
+        const partialMods: Array<{ id: string; newQty: number; oldQty: number }> = [];
+        const errors: string[] = [];
 
-          // Calculate total received for this product
-          const totalReceived = productLines.reduce((sum, rl) => sum + parseLineQuantity(rl.quantity as any), 0);
-          if (item.quantity > totalReceived) {
-            errors.push(
-              `Product "${productNameMap.get(item.productId) || item.productId}": ` +
-              `requested unreceive of ${item.quantity} but only ${totalReceived} received`
-            );
-            continue;
+        if (unreceiveAll) {
+          // Mark all receive lines for removal
+          for (const rl of existingReceiveLines) {
+            if (rl.purchaseOrderReceiveLineId) {
+              removeSet.add(rl.purchaseOrderReceiveLineId);
+            }
           }
+        } else if (receiveLineIds) {
+          // Validate each ID exists on this PO
+          for (const id of receiveLineIds) {
+            if (!receiveLineMap.has(id)) {
+              errors.push(`Receive line ID "${id}" not found on this PO`);
+            } else {
+              removeSet.add(id);
+            }
+          }
+          if (errors.length > 0) {
+            throw new ToolError('INVALID_INPUT', 'Validation failed', {
+              field: 'receiveLineIds',
+              details: { errors },
+            });
+          }
+        } else if (items) {
+          // LIFO removal by product
+          for (const item of items) {
+            // Find all receive lines for this product
+            const productLines = existingReceiveLines.filter(
+              rl => rl.productId === item.productId && rl.purchaseOrderReceiveLineId
+            );
 
-          // Sort LIFO: newest first by receiveDate, then by ID as tiebreaker
-          const sorted = [...productLines].sort((a, b) => {
-            // receiveDate desc
-            const dateA = a.receiveDate || '';
-            const dateB = b.receiveDate || '';
-            if (dateB > dateA) return 1;
-            if (dateB < dateA) return -1;
-            // timestamp desc
-            const tsA = a.timestamp || '';
-            const tsB = b.timestamp || '';
-            if (tsB > tsA) return 1;
-            if (tsB < tsA) return -1;
-            // ID desc as stable tiebreaker
-            const idA = a.purchaseOrderReceiveLineId || '';
-            const idB = b.purchaseOrderReceiveLineId || '';
-            if (idB > idA) return 1;
-            if (idB < idA) return -1;
-            return 0;
-          });
+            if (productLines.length === 0) {
+              errors.push(`No receive lines found for product "${productNameMap.get(item.productId) || item.productId}"`);
+              continue;
+            }
 
-          let remaining = item.quantity;
-          for (const rl of sorted) {
-            if (remaining <= 0) break;
-            const lineQty = parseLineQuantity(rl.quantity as any);
-            const rlId = rl.purchaseOrderReceiveLineId!;
+            // Calculate total received for this product
+            const totalReceived = productLines.reduce((sum, rl) => sum + parseLineQuantity(rl.quantity as any), 0);
+            if (item.quantity > totalReceived) {
+              errors.push(
+                `Product "${productNameMap.get(item.productId) || item.productId}": ` +
+                `requested unreceive of ${item.quantity} but only ${totalReceived} received`
+              );
+              continue;
+            }
 
-            if (lineQty <= remaining) {
-              // Remove entire line
-              removeSet.add(rlId);
-              remaining -= lineQty;
-            } else {
-              // Partial: reduce quantity in-place
-              const newQty = lineQty - remaining;
-              partialMods.push({ id: rlId, newQty, oldQty: lineQty });
-              remaining = 0;
+            // Sort LIFO: newest first by receiveDate, then by ID as tiebreaker
+            const sorted = [...productLines].sort((a, b) => {
+              // receiveDate desc
+              const dateA = a.receiveDate || '';
+              const dateB = b.receiveDate || '';
+              if (dateB > dateA) return 1;
+              if (dateB < dateA) return -1;
+              // timestamp desc
+              const tsA = a.timestamp || '';
+              const tsB = b.timestamp || '';
+              if (tsB > tsA) return 1;
+              if (tsB < tsA) return -1;
+              // ID desc as stable tiebreaker
+              const idA = a.purchaseOrderReceiveLineId || '';
+              const idB = b.purchaseOrderReceiveLineId || '';
+              if (idB > idA) return 1;
+              if (idB < idA) return -1;
+              return 0;
+            });
+
+            let remaining = item.quantity;
+            for (const rl of sorted) {
+              if (remaining <= 0) break;
+              const lineQty = parseLineQuantity(rl.quantity as any);
+              const rlId = rl.purchaseOrderReceiveLineId!;
+
+              if (lineQty <= remaining) {
+                // Remove entire line
+                removeSet.add(rlId);
+                remaining -= lineQty;
+              } else {
+                // Partial: reduce quantity in-place
+                const newQty = lineQty - remaining;
+                partialMods.push({ id: rlId, newQty, oldQty: lineQty });
+                remaining = 0;
+              }
             }
           }
+
+          if (errors.length > 0) {
+            throw new ToolError('INVALID_INPUT', 'Validation failed', { field: 'items', details: { errors } });
+          }
         }
 
-        if (errors.length > 0) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: JSON.stringify({ error: true, message: 'Validation failed', errors }),
-            }],
-          };
+        // Phase 4 — Build summary of what will be removed/modified
+        const removed: Array<{ receiveLineId: string; productId: string; productName?: string; quantity: number; receiveDate?: string }> = [];
+        const modified: Array<{ receiveLineId: string; productId: string; productName?: string; oldQty: number; newQty: number }> = [];
+
+        for (const rlId of removeSet) {
+          const rl = receiveLineMap.get(rlId)!;
+          removed.push({
+            receiveLineId: rlId,
+            productId: rl.productId || '',
+            productName: productNameMap.get(rl.productId || ''),
+            quantity: parseLineQuantity(rl.quantity as any),
+            receiveDate: rl.receiveDate,
+          });
         }
-      }
 
-      // Phase 4 — Build summary of what will be removed/modified
-      const removed: Array<{ receiveLineId: string; productId: string; productName?: string; quantity: number; receiveDate?: string }> = [];
-      const modified: Array<{ receiveLineId: string; productId: string; productName?: string; oldQty: number; newQty: number }> = [];
-
-      for (const rlId of removeSet) {
-        const rl = receiveLineMap.get(rlId)!;
-        removed.push({
-          receiveLineId: rlId,
-          productId: rl.productId || '',
-          productName: productNameMap.get(rl.productId || ''),
-          quantity: parseLineQuantity(rl.quantity as any),
-          receiveDate: rl.receiveDate,
-        });
-      }
+        for (const mod of partialMods) {
+          const rl = receiveLineMap.get(mod.id)!;
+          modified.push({
+            receiveLineId: mod.id,
+            productId: rl.productId || '',
+            productName: productNameMap.get(rl.productId || ''),
+            oldQty: mod.oldQty,
+            newQty: mod.newQty,
+          });
+        }
 
-      for (const mod of partialMods) {
-        const rl = receiveLineMap.get(mod.id)!;
-        modified.push({
-          receiveLineId: mod.id,
-          productId: rl.productId || '',
-          productName: productNameMap.get(rl.productId || ''),
-          oldQty: mod.oldQty,
-          newQty: mod.newQty,
-        });
-      }
+        // Build remaining receiveLines array
+        const remainingLines = existingReceiveLines
+          .filter(rl => !removeSet.has(rl.purchaseOrderReceiveLineId || ''))
+          .map(stripReceiveLineToWritable);
+
+        // Apply partial quantity modifications
+        for (const mod of partialMods) {
+          const line = remainingLines.find(rl => rl.purchaseOrderReceiveLineId === mod.id);
+          if (line) {
+            line.quantity = {
+              standardQuantity: mod.newQty.toFixed(4),
+              uomQuantity: mod.newQty.toFixed(4),
+            };
+          }
+        }
 
-      // Phase 5 — Dry run or PUT
-      if (dryRun) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({
-              dryRun: true,
-              purchaseOrderId,
-              orderNumber: currentPO.orderNumber,
-              currentReceiveLines: existingReceiveLines.length,
-              wouldRemove: removed,
-              wouldModify: modified,
-              remainingReceiveLines: existingReceiveLines.length - removeSet.size,
-            }, null, 2),
-          }],
+        const putBody: Record<string, unknown> = {
+          purchaseOrderId: currentPO.purchaseOrderId,
+          vendorId: currentPO.vendorId,
+          receiveLines: remainingLines,
+          unstockLines: currentPO.unstockLines || [],
+          timestamp: currentPO.timestamp,
         };
-      }
-
-      // Build remaining receiveLines array
-      const remainingLines = existingReceiveLines
-        .filter(rl => !removeSet.has(rl.purchaseOrderReceiveLineId || ''))
-        .map(stripReceiveLineToWritable);
-
-      // Apply partial quantity modifications
-      for (const mod of partialMods) {
-        const line = remainingLines.find(rl => rl.purchaseOrderReceiveLineId === mod.id);
-        if (line) {
-          line.quantity = {
-            standardQuantity: mod.newQty.toFixed(4),
-            uomQuantity: mod.newQty.toFixed(4),
-          };
-        }
-      }
 
-      const putBody: Record<string, unknown> = {
-        purchaseOrderId: currentPO.purchaseOrderId,
-        vendorId: currentPO.vendorId,
-        receiveLines: remainingLines,
-        unstockLines: currentPO.unstockLines || [],
-        timestamp: currentPO.timestamp,
+        return { putBody, removed, modified, existingReceiveLines, removeSet, remainingLines };
       };
 
-      const result = await client.put<PurchaseOrder>('/purchase-orders', putBody);
+      // Phase 5 — Dry run or PUT
+      if (dryRun) {
+        const currentPO = await loadPO();
+        const { removed, modified, existingReceiveLines, removeSet } = plan(currentPO);
+        return jsonResult({
+          dryRun: true,
+          purchaseOrderId,
+          orderNumber: currentPO.orderNumber,
+          currentReceiveLines: existingReceiveLines.length,
+          wouldRemove: removed,
+          wouldModify: modified,
+          remainingReceiveLines: existingReceiveLines.length - removeSet.size,
+        });
+      }
+
+      const { result, existing: currentPO, prepared, rebase } = await putWithRebase({
+        load: loadPO,
+        prepare: plan,
+        save: ({ putBody }) => client.put<PurchaseOrder>('/purchase-orders', putBody),
+      });
+      const { removed, modified, remainingLines } = prepared;
 
       // Phase 6 — Build response summary
       const summary = {
@@ -786,14 +975,10 @@ export function registerPurchaseOrderTools(server: McpServer, client: InflowClie
         modified,
         remainingReceiveLines: result.receiveLines?.length ?? remainingLines.length,
         dryRun: false,
+        rebase,
       };
 
-      return {
-        content: [{
-          type: 'text' as const,
-          text: JSON.stringify(summary, null, 2),
-        }],
-      };
-    }
+      return jsonResult(summary);
+    }))))
   );
 }
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { InflowApiError } from '../client/inflow.js';
+import { diffTopLevelFields, putWithRebase } from './rebase.js';
+
+type Order = { id: string; remarks?: string; status: string; timestamp: string };
+
+const staleTimestamp = () =>
+  new InflowApiError('Record was modified', 409, {
+    code: 'ConcurrencyConflict',
+    message: 'Record was modified',
+    details: { field: 'timestamp' },
+  });
+
+/** A fake record store whose first `conflicts` saves fail after an upstream edit. */
+function fakeStore(conflicts: number) {
+  let current: Order = { id: 'so-1', status: 'Open', timestamp: '1' };
+  let remaining = conflicts;
+  const saved: Array<Record<string, unknown>> = [];
+  return {
+    saved,
+    load: async () => ({ ...current }),
+    save: async (body: Record<string, unknown>) => {
+      if (remaining > 0) {
+        remaining--;
+        current = { ...current, status: 'Fulfilled', timestamp: String(Number(current.timestamp) + 1) };
+      }
+      if (body.timestamp !== current.timestamp) throw staleTimestamp();
+      saved.push(body);
+      current = { ...current, ...body, timestamp: String(Number(current.timestamp) + 1) } as Order;
+      return current;
+    },
+  };
+}
+
+describe('putWithRebase', () => {
+  it('saves once and reports no rebase when nothing changed upstream', async () => {
+    const store = fakeStore(0);
+    const outcome = await putWithRebase({
+      load: store.load,
+      prepare: (existing) => ({ ...existing, remarks: 'hello' }),
+      save: store.save,
+    });
+
+    expect(outcome.rebase).toEqual({ rebased: false, attempts: 1, upstreamChanges: [] });
+    expect(store.saved).toHaveLength(1);
+  });
+
+  it('re-applies the patch to the fresh record after a stale timestamp', async () => {
+    const store = fakeStore(1);
+    const outcome = await putWithRebase({
+      load: store.load,
+      prepare: (existing) => ({ ...existing, remarks: 'hello' }),
+      save: store.save,
+    });
+
+    expect(outcome.rebase).toEqual({ rebased: true, attempts: 2, upstreamChanges: ['status'] });
+    expect(outcome.existing.status).toBe('Fulfilled');
+    expect(store.saved[0]).toMatchObject({ remarks: 'hello', status: 'Fulfilled' });
+  });
+
+  it('gives up with the conflict after maxAttempts', async () => {
+    const store = fakeStore(5);
+    await expect(
+      putWithRebase({
+        load: store.load,
+        prepare: (existing) => ({ ...existing }),
+        save: store.save,
+        maxAttempts: 2,
+      })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(store.saved).toHaveLength(0);
+  });
+
+  it('rethrows errors that are not concurrency conflicts', async () => {
+    let loads = 0;
+    await expect(
+      putWithRebase({
+        load: async () => ({ id: 'so-1', loads: ++loads }),
+        prepare: (existing) => existing,
+        save: async () => {
+          throw new InflowApiError('Invalid customer', 400);
+        },
+      })
+    ).rejects.toThrow('Invalid customer');
+    expect(loads).toBe(1);
+  });
+});
+
+describe('diffTopLevelFields', () => {
+  it('ignores fields that change on every save', () => {
+    expect(
+      diffTopLevelFields(
+        { remarks: 'a', lines: [{ q: 1 }], timestamp: '1', modifiedDate: 'x' },
+        { remarks: 'a', lines: [{ q: 2 }], timestamp: '2', modifiedDate: 'y', status: 'Open' }
+      )
+    ).toEqual(['lines', 'status']);
+  });
+});
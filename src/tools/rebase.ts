@@ -0,0 +1,93 @@
+// Automatic rebase for read-merge-write updates
+//
+// The update tools GET a record, apply the caller's patch to it and PUT the
+// full state back with the timestamp from the GET. If someone edits the record
+// in inFlow in between, the PUT fails with a concurrency conflict. Instead of
+// surfacing that straight away, re-fetch the record, re-apply the same patch on
+// top of the new state and PUT again, up to a fixed number of attempts.
+
+import { z } from 'zod';
+
+import { isConcurrencyConflict } from './errors.js';
+
+export const MAX_REBASE_ATTEMPTS = 3;
+
+// Fields that change on every save and say nothing about what was edited
+const VOLATILE_FIELDS = new Set(['timestamp', 'modifiedDate', 'lastModifiedById', 'lastModifiedBy']);
+
+export interface RebaseReport {
+  // True when at least one PUT hit a stale timestamp and the patch was re-applied
+  rebased: boolean;
+  attempts: number;
+  // Top-level fields that changed upstream between the first GET and the last
+  upstreamChanges: string[];
+}
+
+export const rebaseReportSchema: z.ZodType<RebaseReport> = z.object({
+  rebased: z.boolean(),
+  attempts: z.number(),
+  upstreamChanges: z.array(z.string()),
+});
+
+export interface RebaseOptions<Existing, Prepared, Result> {
+  /** GET the current state of the record. */
+  load: () => Promise<Existing>;
+  /** Apply the caller's patch to the current state. Called again after each conflict. */
+  prepare: (existing: Existing) => Prepared;
+  /** PUT the prepared state. */
+  save: (prepared: Prepared) => Promise<Result>;
+  /** Total PUT attempts, including the first. 1 disables rebasing. */
+  maxAttempts?: number;
+}
+
+export interface RebaseOutcome<Existing, Prepared, Result> {
+  result: Result;
+  // The state the successful PUT was prepared from
+  existing: Existing;
+  prepared: Prepared;
+  rebase: RebaseReport;
+}
+
+/** Top-level fields whose values differ between two snapshots of a record. */
+export function diffTopLevelFields(before: object, after: object): string[] {
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys]
+    .filter((key) => !VOLATILE_FIELDS.has(key))
+    .filter((key) => JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+    .sort();
+}
+
+/**
+ * Load, prepare and save a record, rebasing onto the latest upstream state when
+ * the save fails with a stale timestamp. Any other error, or a conflict on the
+ * last attempt, is rethrown unchanged.
+ */
+export async function putWithRebase<Existing extends object, Prepared, Result>(
+  options: RebaseOptions<Existing, Prepared, Result>
+): Promise<RebaseOutcome<Existing, Prepared, Result>> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? MAX_REBASE_ATTEMPTS);
+  const first = await options.load();
+  let existing = first;
+
+  for (let attempt = 1; ; attempt++) {
+    const prepared = options.prepare(existing);
+    try {
+      const result = await options.save(prepared);
+      return {
+        result,
+        existing,
+        prepared,
+        rebase: {
+          rebased: attempt > 1,
+          attempts: attempt,
+          upstreamChanges: attempt > 1 ? diffTopLevelFields(first, existing) : [],
+        },
+      };
+    } catch (error) {
+      if (!isConcurrencyConflict(error) || attempt >= maxAttempts) throw error;
+      existing = await options.load();
+    }
+  }
+}
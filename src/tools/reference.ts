@@ -3,7 +3,15 @@
 
 import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { InflowClient } from '../client/inflow.js';
+import type { InflowClientRegistry } from '../client/registry.js';
+import { CACHEABLE_ENDPOINTS } from '../client/cache.js';
+import { companyArg } from './company.js';
+import { withToolErrors } from './errors.js';
+import { withResolvedIds } from './resolve.js';
+import { withAudit } from './audit.js';
+import { dryRunnable, withDryRun } from './dry-run.js';
+import { jsonResult } from './results.js';
+import { fetchAllArgs, listRecords } from './list.js';
 import type {
   Location,
   Category,
@@ -16,246 +24,227 @@ import type {
   AdjustmentReason,
   TeamMember,
   Webhook,
-  PaginationParams,
 } from '../types/inflow.js';
-
-export function registerReferenceTools(server: McpServer, client: InflowClient): void {
+import {
+  adjustmentReasonSchema,
+  categorySchema,
+  currencySchema,
+  customFieldDefinitionSchema,
+  listResultSchema,
+  locationSchema,
+  paymentTermsSchema,
+  pricingSchemeSchema,
+  taxCodeSchema,
+  taxingSchemeSchema,
+  teamMemberSchema,
+  webhookSchema,
+} from '../types/schemas.js';
+
+const suggestedSublocationsSchema = z.object({
+  locationId: z.string(),
+  sublocations: z.array(z.string()),
+});
+
+// Custom field ID -> its dropdown options
+const dropdownOptionsSchema = z.object({}).catchall(z.array(z.string()));
+
+const deletedWebhookSchema = z.object({ webhookId: z.string(), deleted: z.boolean() });
+
+const clearCacheResultSchema = z.object({ cleared: z.string(), entriesRemoved: z.number() });
+
+export function registerReferenceTools(server: McpServer, clients: InflowClientRegistry): void {
   // ==================== LOCATIONS ====================
 
   // List Locations
-  server.tool(
+  server.registerTool(
     'list_locations',
-    'List all warehouse/inventory locations',
     {
-      include: z.array(z.string()).optional().describe('Related data to include'),
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., name)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'List all warehouse/inventory locations',
+      inputSchema: {
+        include: z.array(z.string()).optional().describe('Related data to include'),
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., name)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(locationSchema),
     },
-    async (args) => {
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<Location>('/locations', {
-        pagination,
-        include: args.include,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: Location[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<Location>(client, '/locations', args));
+    })
   );
 
   // Get Location
-  server.tool(
+  server.registerTool(
     'get_location',
-    'Get details of a specific location',
     {
-      locationId: z.string().describe('The location ID'),
-      include: z.array(z.string()).optional(),
+      description: 'Get details of a specific location',
+      inputSchema: {
+        locationId: z.string().describe('The location ID (or name)'),
+        include: z.array(z.string()).optional(),
+        company: companyArg,
+      },
+      outputSchema: locationSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const location = await client.get<Location>(`/locations/${args.locationId}`, {
         include: args.include,
       });
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(location, null, 2) }],
-      };
-    }
+      return jsonResult(location);
+    }))
   );
 
   // Get Suggested Sublocations
-  server.tool(
+  server.registerTool(
     'get_suggested_sublocations',
-    'Get suggested sublocations (bins/shelves) for a location',
     {
-      locationId: z.string().describe('The location ID'),
+      description: 'Get suggested sublocations (bins/shelves) for a location',
+      inputSchema: {
+        locationId: z.string().describe('The location ID (or name)'),
+        company: companyArg,
+      },
+      outputSchema: suggestedSublocationsSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const suggestions = await client.get<string[]>(
         `/locations/${args.locationId}/suggested-sublocations`
       );
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(suggestions, null, 2) }],
-      };
-    }
+      return jsonResult({ locationId: args.locationId, sublocations: suggestions });
+    }))
   );
 
   // ==================== CATEGORIES ====================
 
   // List Categories
-  server.tool(
+  server.registerTool(
     'list_categories',
-    'List all product categories',
     {
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include (e.g., parentCategory, subCategories)'),
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., name)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'List all product categories',
+      inputSchema: {
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include (e.g., parentCategory, subCategories)'),
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., name)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(categorySchema),
     },
-    async (args) => {
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<Category>('/categories', {
-        pagination,
-        include: args.include,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: Category[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<Category>(client, '/categories', args));
+    })
   );
 
   // ==================== PRICING SCHEMES ====================
 
   // List Pricing Schemes
-  server.tool(
+  server.registerTool(
     'list_pricing_schemes',
-    'List all pricing schemes/price levels',
     {
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., name)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'List all pricing schemes/price levels',
+      inputSchema: {
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., name)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(pricingSchemeSchema),
     },
-    async (args) => {
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<PricingScheme>('/pricing-schemes', {
-        pagination,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
 
-      const response: { data: PricingScheme[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<PricingScheme>(client, '/pricing-schemes', args));
+    })
   );
 
   // ==================== PAYMENT TERMS ====================
 
   // List Payment Terms
-  server.tool(
+  server.registerTool(
     'list_payment_terms',
-    'List all payment terms',
     {
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., name)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'List all payment terms',
+      inputSchema: {
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., name)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(paymentTermsSchema),
     },
-    async (args) => {
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<PaymentTerms>('/payment-terms', {
-        pagination,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: PaymentTerms[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<PaymentTerms>(client, '/payment-terms', args));
+    })
   );
 
   // ==================== TAXING SCHEMES ====================
 
   // List Taxing Schemes
-  server.tool(
+  server.registerTool(
     'list_taxing_schemes',
-    'List all taxing schemes',
     {
-      include: z.array(z.string()).optional().describe('Related data to include'),
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., name)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'List all taxing schemes',
+      inputSchema: {
+        include: z.array(z.string()).optional().describe('Related data to include'),
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., name)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(taxingSchemeSchema),
     },
-    async (args) => {
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<TaxingScheme>('/taxing-schemes', {
-        pagination,
-        include: args.include,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
 
-      const response: { data: TaxingScheme[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<TaxingScheme>(client, '/taxing-schemes', args));
+    })
   );
 
   // Create/Update Taxing Scheme
-  server.tool(
+  server.registerTool(
     'upsert_taxing_scheme',
-    'Create or update a taxing scheme',
     {
-      id: z.string().optional().describe('Scheme ID (required for updates)'),
-      name: z.string().describe('Taxing scheme name'),
-      isDefault: z.boolean().optional().describe('Whether this is the default scheme'),
+      description: 'Create or update a taxing scheme',
+      inputSchema: {
+        id: z.string().optional().describe('Scheme ID (required for updates)'),
+        name: z.string().describe('Taxing scheme name'),
+        isDefault: z.boolean().optional().describe('Whether this is the default scheme'),
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(taxingSchemeSchema),
     },
-    async (args) => {
+    withToolErrors(withDryRun(withAudit('upsert_taxing_scheme', async (args) => {
+      const client = clients.get(args.company);
+
       const scheme: TaxingScheme = {
         id: args.id,
         name: args.name,
@@ -264,283 +253,235 @@ export function registerReferenceTools(server: McpServer, client: InflowClient):
 
       const result = await client.put<TaxingScheme>('/taxing-schemes', scheme);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-      };
-    }
+      return jsonResult(result);
+    })))
   );
 
   // ==================== TAX CODES ====================
 
   // List Tax Codes
-  server.tool(
+  server.registerTool(
     'list_tax_codes',
-    'List all tax codes',
     {
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., name)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'List all tax codes',
+      inputSchema: {
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., name)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(taxCodeSchema),
     },
-    async (args) => {
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<TaxCode>('/tax-codes', {
-        pagination,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
 
-      const response: { data: TaxCode[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<TaxCode>(client, '/tax-codes', args));
+    })
   );
 
   // ==================== CURRENCIES ====================
 
   // List Currencies
-  server.tool(
+  server.registerTool(
     'list_currencies',
-    'List all currencies configured in inFlow',
     {
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., name, code)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'List all currencies configured in inFlow',
+      inputSchema: {
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., name, code)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(currencySchema),
     },
-    async (args) => {
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<Currency>('/currencies', {
-        pagination,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: Currency[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<Currency>(client, '/currencies', args));
+    })
   );
 
   // ==================== ADJUSTMENT REASONS ====================
 
   // List Adjustment Reasons
-  server.tool(
+  server.registerTool(
     'list_adjustment_reasons',
-    'List all stock adjustment reasons',
     {
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., name)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'List all stock adjustment reasons',
+      inputSchema: {
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., name)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(adjustmentReasonSchema),
     },
-    async (args) => {
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<AdjustmentReason>('/adjustment-reasons', {
-        pagination,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: AdjustmentReason[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<AdjustmentReason>(client, '/adjustment-reasons', args));
+    })
   );
 
   // ==================== CUSTOM FIELDS ====================
 
   // List Custom Field Definitions
-  server.tool(
+  server.registerTool(
     'list_custom_field_definitions',
-    'List all custom field definitions',
     {
-      entityType: z
-        .enum([
-          'Product',
-          'Customer',
-          'Vendor',
-          'SalesOrder',
-          'PurchaseOrder',
-          'StockAdjustment',
-          'StockTransfer',
-          'ManufacturingOrder',
-        ])
-        .optional()
-        .describe('Filter by entity type'),
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., name, entityType)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'List all custom field definitions',
+      inputSchema: {
+        entityType: z
+          .enum([
+            'Product',
+            'Customer',
+            'Vendor',
+            'SalesOrder',
+            'PurchaseOrder',
+            'StockAdjustment',
+            'StockTransfer',
+            'ManufacturingOrder',
+          ])
+          .optional()
+          .describe('Filter by entity type'),
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., name, entityType)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(customFieldDefinitionSchema),
     },
-    async (args) => {
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
 
       const filters: Record<string, string> = {};
       if (args.entityType) filters.entityType = args.entityType;
 
-      const result = await client.getList<CustomFieldDefinition>(
-        '/custom-field-definitions',
-        {
-          pagination,
-          filters,
-          sort: args.sort,
-          sortDesc: args.sortDesc,
-          includeCount: args.includeCount,
-        }
-      );
-
-      const response: { data: CustomFieldDefinition[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<CustomFieldDefinition>(client, '/custom-field-definitions', args, filters));
+    })
   );
 
   // Get Custom Field Dropdown Options
-  server.tool(
+  server.registerTool(
     'get_custom_field_dropdown_options',
-    'Get dropdown options for custom fields of a specific entity type',
     {
-      entityType: z
-        .enum([
-          'Product',
-          'Customer',
-          'Vendor',
-          'SalesOrder',
-          'PurchaseOrder',
-          'StockAdjustment',
-          'StockTransfer',
-          'ManufacturingOrder',
-        ])
-        .describe('The entity type'),
+      description: 'Get dropdown options for custom fields of a specific entity type',
+      inputSchema: {
+        entityType: z
+          .enum([
+            'Product',
+            'Customer',
+            'Vendor',
+            'SalesOrder',
+            'PurchaseOrder',
+            'StockAdjustment',
+            'StockTransfer',
+            'ManufacturingOrder',
+          ])
+          .describe('The entity type'),
+        company: companyArg,
+      },
+      outputSchema: dropdownOptionsSchema,
     },
-    async (args) => {
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
+
       const options = await client.get<Record<string, string[]>>(
         `/custom-field-dropdown-options/${args.entityType}`
       );
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(options, null, 2) }],
-      };
-    }
+      return jsonResult(options);
+    })
   );
 
   // ==================== TEAM MEMBERS ====================
 
   // List Team Members
-  server.tool(
+  server.registerTool(
     'list_team_members',
-    'List all team members/users in the inFlow account',
     {
-      skip: z.number().optional(),
-      count: z.number().optional(),
-      sort: z.string().optional().describe('Property to sort by (e.g., name, email)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'List all team members/users in the inFlow account',
+      inputSchema: {
+        skip: z.number().optional(),
+        count: z.number().optional(),
+        sort: z.string().optional().describe('Property to sort by (e.g., name, email)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(teamMemberSchema),
     },
-    async (args) => {
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<TeamMember>('/team-members', {
-        pagination,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
 
-      const response: { data: TeamMember[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      };
-    }
+      return jsonResult(await listRecords<TeamMember>(client, '/team-members', args));
+    })
   );
 
   // ==================== WEBHOOKS ====================
 
   // List Webhooks
-  server.tool(
+  server.registerTool(
     'list_webhooks',
-    'List all webhook subscriptions',
-    {},
-    async () => {
+    {
+      description: 'List all webhook subscriptions',
+      inputSchema: { company: companyArg },
+      outputSchema: listResultSchema(webhookSchema),
+    },
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
+
       const webhooks = await client.get<Webhook[]>('/webhooks');
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(webhooks, null, 2) }],
-      };
-    }
+      return jsonResult({ data: webhooks });
+    })
   );
 
   // Create/Update Webhook
-  server.tool(
+  server.registerTool(
     'upsert_webhook',
-    'Create or update a webhook subscription',
     {
-      id: z.string().optional().describe('Webhook ID (required for updates)'),
-      url: z.string().describe('Webhook endpoint URL'),
-      events: z
-        .array(
-          z.enum([
-            'customer.created',
-            'customer.updated',
-            'vendor.created',
-            'vendor.updated',
-            'product.created',
-            'product.updated',
-            'salesOrder.created',
-            'salesOrder.updated',
-            'purchaseOrder.created',
-            'purchaseOrder.updated',
-          ])
-        )
-        .describe('Events to subscribe to'),
-      isActive: z.boolean().optional().describe('Whether webhook is active'),
+      description: 'Create or update a webhook subscription',
+      inputSchema: {
+        id: z.string().optional().describe('Webhook ID (required for updates)'),
+        url: z.string().describe('Webhook endpoint URL'),
+        events: z
+          .array(
+            z.enum([
+              'customer.created',
+              'customer.updated',
+              'vendor.created',
+              'vendor.updated',
+              'product.created',
+              'product.updated',
+              'salesOrder.created',
+              'salesOrder.updated',
+              'purchaseOrder.created',
+              'purchaseOrder.updated',
+            ])
+          )
+          .describe('Events to subscribe to'),
+        isActive: z.boolean().optional().describe('Whether webhook is active'),
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(webhookSchema),
     },
-    async (args) => {
+    withToolErrors(withDryRun(withAudit('upsert_webhook', async (args) => {
+      const client = clients.get(args.company);
+
       const webhook: Webhook = {
         id: args.id,
         url: args.url,
@@ -550,25 +491,54 @@ export function registerReferenceTools(server: McpServer, client: InflowClient):
 
       const result = await client.put<Webhook>('/webhooks', webhook);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-      };
-    }
+      return jsonResult(result);
+    })))
   );
 
   // Delete Webhook
-  server.tool(
+  server.registerTool(
     'delete_webhook',
-    'Delete a webhook subscription',
     {
-      webhookId: z.string().describe('The webhook ID to delete'),
+      description: 'Delete a webhook subscription',
+      inputSchema: {
+        webhookId: z.string().describe('The webhook ID to delete'),
+        company: companyArg,
+      },
+      outputSchema: dryRunnable(deletedWebhookSchema),
     },
-    async (args) => {
+    withToolErrors(withDryRun(withAudit('delete_webhook', async (args) => {
+      const client = clients.get(args.company);
+
       await client.delete(`/webhooks/${args.webhookId}`);
 
       return {
-        content: [{ type: 'text', text: `Webhook ${args.webhookId} deleted successfully` }],
+        content: [{ type: 'text' as const, text: `Webhook ${args.webhookId} deleted successfully` }],
+        structuredContent: { webhookId: args.webhookId, deleted: true },
       };
-    }
+    })))
+  );
+  // ==================== CACHE ====================
+
+  // Clear Reference Data Cache
+  server.registerTool(
+    'clear_cache',
+    {
+      description: 'Clear cached reference data (locations, categories, currencies, tax codes, schemes, custom field definitions, etc.) so the next lookup re-fetches from inFlow',
+      inputSchema: {
+        endpoint: z
+          .enum(CACHEABLE_ENDPOINTS)
+          .optional()
+          .describe('Only clear this endpoint (e.g., /currencies). Clears everything when omitted.'),
+        company: companyArg,
+      },
+      outputSchema: clearCacheResultSchema,
+    },
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
+
+      const entriesRemoved = client.invalidateCache(args.endpoint);
+
+      return jsonResult({ cleared: args.endpoint ?? 'all', entriesRemoved });
+    })
   );
 }
@@ -0,0 +1,51 @@
+// Reference resolution for tool arguments
+
+import type { InflowClientRegistry } from '../client/registry.js';
+import { REFERENCE_ARGUMENTS, type EntityResolver } from '../client/resolver.js';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Replace every reference argument (see REFERENCE_ARGUMENTS) in `args` with
+ * the ID it resolves to, including inside arrays of line items such as
+ * `items[].productId`. Returns a new object; `args` is left untouched.
+ */
+export async function resolveReferences<T extends Record<string, unknown>>(
+  resolver: EntityResolver,
+  args: T,
+  path = ''
+): Promise<T> {
+  const resolved: Record<string, unknown> = { ...args };
+  for (const [key, value] of Object.entries(args)) {
+    const field = path ? `${path}.${key}` : key;
+    const kind = REFERENCE_ARGUMENTS[key];
+    if (kind && typeof value === 'string' && value) {
+      resolved[key] = await resolver.resolve(kind, value, field);
+    } else if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (const [index, item] of value.entries()) {
+        items.push(isPlainObject(item) ? await resolveReferences(resolver, item, `${field}[${index}]`) : item);
+      }
+      resolved[key] = items;
+    }
+  }
+  return resolved as T;
+}
+
+/**
+ * Wrap a tool's handler so its ID arguments also accept names, SKUs, barcodes
+ * or order numbers. Ambiguous references fail with ranked candidates.
+ */
+export function withResolvedIds<Args extends [Record<string, unknown>, ...unknown[]], Result>(
+  clients: InflowClientRegistry,
+  handler: (...args: Args) => Promise<Result>
+): (...args: Args) => Promise<Result> {
+  return async (...args: Args) => {
+    const [toolArgs, ...rest] = args;
+    const company = typeof toolArgs.company === 'string' ? toolArgs.company : undefined;
+    const resolved = await resolveReferences(clients.resolver(company), toolArgs);
+    return handler(...([resolved, ...rest] as Args));
+  };
+}
@@ -0,0 +1,13 @@
+// Tool results for inFlow MCP Server
+
+/**
+ * A successful tool result: `value` as structuredContent, checked against the
+ * tool's output schema, and the same value as pretty-printed JSON text for
+ * clients that only read text.
+ */
+export function jsonResult<T extends object>(value: T) {
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(value, null, 2) }],
+    structuredContent: value as Record<string, unknown>,
+  };
+}
@@ -2,15 +2,24 @@
 
 import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { InflowClient } from '../client/inflow.js';
+import type { InflowClientRegistry } from '../client/registry.js';
+import { companyArg } from './company.js';
+import { ToolError, withToolErrors } from './errors.js';
+import { withResolvedIds } from './resolve.js';
+import { withAudit } from './audit.js';
+import { dryRunArg, dryRunnable, withDryRun } from './dry-run.js';
+import { jsonResult } from './results.js';
+import { fetchAllArgs, listRecords } from './list.js';
+import { putWithRebase, rebaseReportSchema } from './rebase.js';
+import { resolveCurrency } from './currencies.js';
 import { randomUUID } from 'node:crypto';
 import type {
   SalesOrder,
   SalesOrderLine,
   SalesOrderFilter,
-  PaginationParams,
   Address,
 } from '../types/inflow.js';
+import { listResultSchema, salesOrderSchema } from '../types/schemas.js';
 
 const addressSchema = z.object({
   street1: z.string().optional(),
@@ -23,7 +32,7 @@ const addressSchema = z.object({
 
 const salesOrderItemSchema = z.object({
   id: z.string().optional(),
-  productId: z.string().optional(),
+  productId: z.string().optional().describe('Product ID (or SKU, barcode or name)'),
   description: z.string().optional(),
   // Optional so partial updates can touch serialNumbers / unitPrice without
   // restating quantity. New lines (no id, no existing match) must include it;
@@ -54,6 +63,8 @@ export type SalesOrderUpsertArgs = {
   taxingSchemeId?: string;
   paymentTermsId?: string;
   currencyCode?: string;
+  // Resolved from currencyCode by the tool
+  currencyId?: string;
   nonCustomerCost?: number;
   items?: SalesOrderItemPatch[];
   remarks?: string;
@@ -70,14 +81,17 @@ export const upsertSalesOrderToolSchema = {
   customerId: z
     .string()
     .optional()
-    .describe('Customer ID (required for creates; preserved from the existing order on updates)'),
-  locationId: z.string().optional().describe('Location/warehouse ID'),
+    .describe('Customer ID or name (required for creates; preserved from the existing order on updates)'),
+  locationId: z.string().optional().describe('Location/warehouse ID (or name)'),
   billingAddress: addressSchema.optional().describe('Billing address'),
   shippingAddress: addressSchema.optional().describe('Shipping address'),
-  pricingSchemeId: z.string().optional().describe('Pricing scheme ID'),
-  taxingSchemeId: z.string().optional().describe('Taxing scheme ID'),
-  paymentTermsId: z.string().optional().describe('Payment terms ID'),
-  currencyCode: z.string().optional().describe('Currency code (e.g., USD)'),
+  pricingSchemeId: z.string().optional().describe('Pricing scheme ID (or name)'),
+  taxingSchemeId: z.string().optional().describe('Taxing scheme ID (or name)'),
+  paymentTermsId: z.string().optional().describe('Payment terms ID (or name)'),
+  currencyCode: z
+    .string()
+    .optional()
+    .describe("Currency code, name or symbol (e.g., EUR, Euro or €); must be one of the account's currencies"),
   nonCustomerCost: z.number().optional().describe('Non-customer cost amount'),
   items: z.array(salesOrderItemSchema).optional().describe(
     'Order line items. For updates, each item patches an existing line when it has a matching `id` (salesOrderLineId) or unambiguous `productId`; items without a match are appended as new lines. Unmentioned existing lines are preserved.'
@@ -89,6 +103,8 @@ export const upsertSalesOrderToolSchema = {
   remarks: z.string().optional().describe('Order remarks/notes'),
   customFields: z.record(z.string(), z.unknown()).optional().describe('Custom field values'),
   timestamp: z.string().optional().describe('Timestamp for concurrency control'),
+  dryRun: dryRunArg,
+  company: companyArg,
 };
 
 /**
@@ -127,6 +143,7 @@ export function mergeSalesOrderUpdate(
   if ('taxingSchemeId' in args) merged.taxingSchemeId = args.taxingSchemeId;
   if ('paymentTermsId' in args) merged.paymentTermsId = args.paymentTermsId;
   if ('currencyCode' in args) merged.currencyCode = args.currencyCode;
+  if ('currencyId' in args) merged.currencyId = args.currencyId;
   if ('remarks' in args) merged.orderRemarks = args.remarks;
   if ('customFields' in args) merged.customFields = args.customFields;
   if ('timestamp' in args) merged.timestamp = args.timestamp;
@@ -165,8 +182,10 @@ function findLineIndexForPatch(
       .filter((index) => index >= 0);
     if (matchingIndices.length === 1) return matchingIndices[0];
     if (matchingIndices.length > 1) {
-      throw new Error(
-        `Ambiguous line patch: productId ${patch.productId} matches ${matchingIndices.length} existing lines. Pass an explicit id to disambiguate.`
+      throw new ToolError(
+        'INVALID_INPUT',
+        `Ambiguous line patch: productId ${patch.productId} matches ${matchingIndices.length} existing lines. Pass an explicit id to disambiguate.`,
+        { field: 'items' }
       );
     }
   }
@@ -225,8 +244,10 @@ function patchSalesOrderLine(
 
 function buildNewSalesOrderLine(patch: SalesOrderItemPatch): SalesOrderLine {
   if (patch.quantity === undefined) {
-    throw new Error(
-      'New sales order lines must include quantity. Pass item.quantity when adding a line with no existing match.'
+    throw new ToolError(
+      'INVALID_INPUT',
+      'New sales order lines must include quantity. Pass item.quantity when adding a line with no existing match.',
+      { field: 'items' }
     );
   }
 
@@ -247,37 +268,44 @@ function buildNewSalesOrderLine(patch: SalesOrderItemPatch): SalesOrderLine {
   };
 }
 
-export function registerSalesOrderTools(server: McpServer, client: InflowClient): void {
+export function registerSalesOrderTools(server: McpServer, clients: InflowClientRegistry): void {
   // List Sales Orders
-  server.tool(
+  server.registerTool(
     'list_sales_orders',
-    'Search and list sales orders with optional filtering',
     {
-      orderNumber: z.string().optional().describe('Filter by order number'),
-      customerId: z.string().optional().describe('Filter by customer ID'),
-      status: z.union([
-        orderStatusEnum,
-        z.array(orderStatusEnum),
-      ]).optional().describe('Filter by order status (single value or array)'),
-      locationId: z.string().optional().describe('Filter by location ID'),
-      orderDateFrom: z.string().optional().describe('Filter by order date (from) - ISO format'),
-      orderDateTo: z.string().optional().describe('Filter by order date (to) - ISO format'),
-      requiredDateFrom: z.string().optional().describe('Filter by required date (from)'),
-      requiredDateTo: z.string().optional().describe('Filter by required date (to)'),
-      totalFrom: z.number().optional().describe('Filter by minimum total'),
-      totalTo: z.number().optional().describe('Filter by maximum total'),
-      smart: z.string().optional().describe('Smart search across order fields'),
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include (e.g., customer, lines, lines.product)'),
-      skip: z.number().optional().describe('Number of records to skip'),
-      count: z.number().optional().describe('Number of records to return (max 100)'),
-      sort: z.string().optional().describe('Property to sort by (e.g., orderDate, orderNumber)'),
-      sortDesc: z.boolean().optional().describe('Sort in descending order'),
-      includeCount: z.boolean().optional().describe('Include total record count in response'),
+      description: 'Search and list sales orders with optional filtering',
+      inputSchema: {
+        orderNumber: z.string().optional().describe('Filter by order number'),
+        customerId: z.string().optional().describe('Filter by customer ID (or name)'),
+        status: z.union([
+          orderStatusEnum,
+          z.array(orderStatusEnum),
+        ]).optional().describe('Filter by order status (single value or array)'),
+        locationId: z.string().optional().describe('Filter by location ID (or name)'),
+        orderDateFrom: z.string().optional().describe('Filter by order date (from) - ISO format'),
+        orderDateTo: z.string().optional().describe('Filter by order date (to) - ISO format'),
+        requiredDateFrom: z.string().optional().describe('Filter by required date (from)'),
+        requiredDateTo: z.string().optional().describe('Filter by required date (to)'),
+        totalFrom: z.number().optional().describe('Filter by minimum total'),
+        totalTo: z.number().optional().describe('Filter by maximum total'),
+        smart: z.string().optional().describe('Smart search across order fields'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include (e.g., customer, lines, lines.product)'),
+        skip: z.number().optional().describe('Number of records to skip'),
+        count: z.number().optional().describe('Number of records to return (max 100)'),
+        sort: z.string().optional().describe('Property to sort by (e.g., orderDate, orderNumber)'),
+        sortDesc: z.boolean().optional().describe('Sort in descending order'),
+        includeCount: z.boolean().optional().describe('Include total record count in response'),
+        ...fetchAllArgs,
+        company: companyArg,
+      },
+      outputSchema: listResultSchema(salesOrderSchema),
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const filters: SalesOrderFilter = {};
       if (args.orderNumber) filters.orderNumber = args.orderNumber;
       if (args.customerId) filters.customerId = args.customerId;
@@ -291,95 +319,80 @@ export function registerSalesOrderTools(server: McpServer, client: InflowClient)
       if (args.totalTo !== undefined) filters.totalTo = args.totalTo;
       if (args.smart) filters.smart = args.smart;
 
-      const pagination: PaginationParams = {};
-      if (args.skip !== undefined) pagination.skip = args.skip;
-      if (args.count !== undefined) pagination.count = args.count;
-
-      const result = await client.getList<SalesOrder>('/sales-orders', {
-        filters,
-        pagination,
-        include: args.include,
-        sort: args.sort,
-        sortDesc: args.sortDesc,
-        includeCount: args.includeCount,
-      });
-
-      const response: { data: SalesOrder[]; totalCount?: number } = { data: result.data };
-      if (result.totalCount !== undefined) {
-        response.totalCount = result.totalCount;
-      }
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(response, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(await listRecords<SalesOrder>(client, '/sales-orders', args, filters));
+    }))
   );
 
   // Get Sales Order
-  server.tool(
+  server.registerTool(
     'get_sales_order',
-    'Get detailed information about a specific sales order',
     {
-      salesOrderId: z.string().describe('The sales order ID'),
-      include: z
-        .array(z.string())
-        .optional()
-        .describe('Related data to include (e.g., customer, location, lines, lines.product)'),
+      description: 'Get detailed information about a specific sales order',
+      inputSchema: {
+        salesOrderId: z.string().describe('The sales order ID (or order number)'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Related data to include (e.g., customer, location, lines, lines.product)'),
+        company: companyArg,
+      },
+      outputSchema: salesOrderSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const order = await client.get<SalesOrder>(`/sales-orders/${args.salesOrderId}`, {
         include: args.include,
       });
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(order, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(order);
+    }))
   );
 
   // Create/Update Sales Order
-  server.tool(
+  server.registerTool(
     'upsert_sales_order',
-    'Create a new sales order or update an existing one. When `id` is provided, performs a partial update: unmentioned header fields and line items are preserved, item patches are merged into existing lines by id (or unambiguous productId), and lines listed in `deleteLineIds` are removed. Without `id`, creates a new order from the provided fields.',
-    upsertSalesOrderToolSchema,
-    async (args) => {
+    {
+      description: 'Create a new sales order or update an existing one. When `id` is provided, performs a partial update: unmentioned header fields and line items are preserved, item patches are merged into existing lines by id (or unambiguous productId), and lines listed in `deleteLineIds` are removed. Without `id`, creates a new order from the provided fields.',
+      inputSchema: upsertSalesOrderToolSchema,
+      outputSchema: dryRunnable(salesOrderSchema.extend({ rebase: rebaseReportSchema.optional() })),
+    },
+    withToolErrors(withResolvedIds(clients, withDryRun(withAudit('upsert_sales_order', async (args) => {
+      const client = clients.get(args.company);
+      const currency = args.currencyCode ? await resolveCurrency(client, args.currencyCode) : undefined;
+      const upsertArgs: SalesOrderUpsertArgs = currency
+        ? { ...args, currencyCode: currency.code, currencyId: currency.currencyId }
+        : args;
+
       // Update path: fetch current state, merge, PUT the full desired state.
       // This fixes the merge bug where incomplete line payloads caused
       // inFlow to strip nested fields like quantity.serialNumbers.
+      // If the order changes in inFlow between the GET and the PUT, the
+      // same patch is re-applied to the fresh state (unless the caller pinned
+      // an explicit timestamp, which opts out of rebasing).
       if (args.id) {
-        const existing = await client.get<SalesOrder>(`/sales-orders/${args.id}`, {
-          include: ['lines'],
+        const id = args.id;
+        const { result: updateResult, rebase } = await putWithRebase({
+          load: () => client.get<SalesOrder>(`/sales-orders/${id}`, { include: ['lines'] }),
+          prepare: (existing) => {
+            const mergedBody = mergeSalesOrderUpdate(existing, upsertArgs);
+            mergedBody.salesOrderId = id;
+            return mergedBody;
+          },
+          save: (mergedBody) => client.put<SalesOrder>('/sales-orders', mergedBody),
+          ...(args.timestamp !== undefined ? { maxAttempts: 1 } : {}),
         });
-        const mergedBody = mergeSalesOrderUpdate(existing, args as SalesOrderUpsertArgs);
-        mergedBody.salesOrderId = args.id;
-
-        const updateResult = await client.put<SalesOrder>('/sales-orders', mergedBody);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(updateResult, null, 2),
-            },
-          ],
-        };
+        return jsonResult({ ...updateResult, rebase });
       }
 
       // Create path: build body from args alone. Quantity-required validation
       // now happens inside buildNewSalesOrderLine so callers get a clear error
       // rather than inFlow silently producing a zero-quantity line.
       if (!args.customerId) {
-        throw new Error(
-          'Creating a sales order requires customerId. Pass id to update an existing sales order instead.'
+        throw new ToolError(
+          'INVALID_INPUT',
+          'Creating a sales order requires customerId. Pass id to update an existing sales order instead.',
+          { field: 'customerId' }
         );
       }
 
@@ -398,7 +411,8 @@ export function registerSalesOrderTools(server: McpServer, client: InflowClient)
         pricingSchemeId: args.pricingSchemeId,
         taxingSchemeId: args.taxingSchemeId,
         paymentTermsId: args.paymentTermsId,
-        currencyCode: args.currencyCode,
+        currencyId: currency?.currencyId,
+        currencyCode: currency?.code,
         lines: createLines,
         orderRemarks: args.remarks,
         customFields: args.customFields,
@@ -408,14 +422,7 @@ export function registerSalesOrderTools(server: McpServer, client: InflowClient)
 
       const createResult = await client.put<SalesOrder>('/sales-orders', createBody);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(createResult, null, 2),
-          },
-        ],
-      };
-    }
+      return jsonResult(createResult);
+    }))))
   );
 }
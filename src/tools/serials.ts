@@ -9,38 +9,108 @@
 
 import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { InflowClient } from '../client/inflow.js';
-import type { SalesOrder, PurchaseOrder, PaginationParams, Product } from '../types/inflow.js';
-
-interface SerialEntry {
-  serial: string;
-  orderType: 'sales' | 'purchase';
-  orderId: string;
-  orderNumber: string;
-  orderDate: string;
-  productId: string;
-  lineId: string;
+import { MAX_PAGE_SIZE } from '../client/inflow.js';
+import type { InflowClientRegistry } from '../client/registry.js';
+import { companyArg } from './company.js';
+import { withToolErrors } from './errors.js';
+import { withResolvedIds } from './resolve.js';
+import { jsonResult } from './results.js';
+import type { InventoryLine, SalesOrder, PurchaseOrder, Product } from '../types/inflow.js';
+
+const serialEntrySchema = z.object({
+  serial: z.string(),
+  orderType: z.enum(['sales', 'purchase']),
+  orderId: z.string(),
+  orderNumber: z.string(),
+  orderDate: z.string(),
+  productId: z.string(),
+  lineId: z.string(),
+});
+type SerialEntry = z.infer<typeof serialEntrySchema>;
+
+const productSerialEntrySchema = z.object({
+  serial: z.string(),
+  productId: z.string(),
+  productName: z.string(),
+  locationId: z.string(),
+  quantityOnHand: z.string(),
+  sublocation: z.string(),
+  inStock: z.boolean(), // true if quantityOnHand > 0
+});
+type ProductSerialEntry = z.infer<typeof productSerialEntrySchema>;
+
+/** On-hand quantity of an inventory line as a decimal string, whichever form inFlow sent. */
+function quantityOnHand(line: InventoryLine): string {
+  return String(line.quantityOnHand || '0');
 }
 
-interface ProductSerialEntry {
-  serial: string;
-  productId: string;
-  productName: string;
-  locationId: string;
-  quantityOnHand: string;
-  sublocation: string;
-  inStock: boolean;  // true if quantityOnHand > 0
-}
-
-export function registerSerialTools(server: McpServer, client: InflowClient): void {
+// Serials on one order; the order fields are as inFlow returned them
+const orderSerialsShape = {
+  orderNumber: z.string().nullish(),
+  orderDate: z.string().nullish(),
+  status: z.string().nullish(),
+  serialCount: z.number(),
+  serials: z.array(serialEntrySchema),
+};
+const salesOrderSerialsSchema = z.object({ salesOrderId: z.string().nullish(), ...orderSerialsShape });
+const purchaseOrderSerialsSchema = z.object({ purchaseOrderId: z.string().nullish(), ...orderSerialsShape });
+
+const serialSearchResultSchema = z.object({
+  found: z.boolean(),
+  serial: z.string(),
+  // Set when found
+  salesOrderId: z.string().nullish(),
+  orderNumber: z.string().nullish(),
+  orderDate: z.string().nullish(),
+  productId: z.string().nullish(),
+  lineId: z.string().nullish(),
+  orderUrl: z.unknown().optional(),
+  ordersSearched: z.number(),
+  // Set when not found
+  message: z.string().optional(),
+});
+
+const orderSerialsListSchema = z.object({
+  totalSerials: z.number(),
+  ordersFetched: z.number(),
+  productIdFilter: z.string().nullable(),
+  serials: z.array(serialEntrySchema),
+});
+
+const productSerialsSchema = z.object({
+  productId: z.string().nullish(),
+  productName: z.string().nullish(),
+  trackSerials: z.boolean().nullish(),
+  serialCount: z.number(),
+  inStockCount: z.number(),
+  soldCount: z.number(),
+  serials: z.array(productSerialEntrySchema),
+});
+
+const productSerialsListSchema = z.object({
+  totalSerials: z.number(),
+  inStockCount: z.number(),
+  soldCount: z.number(),
+  productsFetched: z.number(),
+  inStockOnlyFilter: z.boolean(),
+  serials: z.array(productSerialEntrySchema),
+});
+
+export function registerSerialTools(server: McpServer, clients: InflowClientRegistry): void {
   // Get serial numbers from Sales Order
-  server.tool(
+  server.registerTool(
     'get_sales_order_serials',
-    'Extract serial numbers (serial numbers) from a specific sales order. Returns all serial numbers assigned to line items on this order.',
     {
-      salesOrderId: z.string().describe('The sales order ID'),
+      description: 'Extract serial numbers (serial numbers) from a specific sales order. Returns all serial numbers assigned to line items on this order.',
+      inputSchema: {
+        salesOrderId: z.string().describe('The sales order ID (or order number)'),
+        company: companyArg,
+      },
+      outputSchema: salesOrderSerialsSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const order = await client.get<SalesOrder>(
         `/sales-orders/${args.salesOrderId}`,
         { include: ['lines'] }
@@ -65,36 +135,31 @@ export function registerSerialTools(server: McpServer, client: InflowClient): vo
         }
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                salesOrderId: order.salesOrderId,
-                orderNumber: order.orderNumber,
-                orderDate: order.orderDate,
-                status: order.inventoryStatus,
-                serialCount: serials.length,
-                serials,
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    }
+      return jsonResult({
+        salesOrderId: order.salesOrderId,
+        orderNumber: order.orderNumber,
+        orderDate: order.orderDate,
+        status: order.inventoryStatus,
+        serialCount: serials.length,
+        serials,
+      });
+    }))
   );
 
   // Get serial numbers from Purchase Order
-  server.tool(
+  server.registerTool(
     'get_purchase_order_serials',
-    'Extract serial numbers (serial numbers) from a specific purchase order. Returns all serial numbers assigned to line items on this order.',
     {
-      purchaseOrderId: z.string().describe('The purchase order ID'),
+      description: 'Extract serial numbers (serial numbers) from a specific purchase order. Returns all serial numbers assigned to line items on this order.',
+      inputSchema: {
+        purchaseOrderId: z.string().describe('The purchase order ID (or order number)'),
+        company: companyArg,
+      },
+      outputSchema: purchaseOrderSerialsSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const order = await client.get<PurchaseOrder>(
         `/purchase-orders/${args.purchaseOrderId}`,
         { include: ['lines'] }
@@ -119,54 +184,49 @@ export function registerSerialTools(server: McpServer, client: InflowClient): vo
         }
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                purchaseOrderId: order.purchaseOrderId,
-                orderNumber: order.orderNumber,
-                orderDate: order.orderDate,
-                status: order.inventoryStatus,
-                serialCount: serials.length,
-                serials,
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    }
+      return jsonResult({
+        purchaseOrderId: order.purchaseOrderId,
+        orderNumber: order.orderNumber,
+        orderDate: order.orderDate,
+        status: order.inventoryStatus,
+        serialCount: serials.length,
+        serials,
+      });
+    }))
   );
 
   // Search serial number across orders
-  server.tool(
+  server.registerTool(
     'search_serial_number',
-    'Search for a serial number/serial number across fulfilled sales orders. Returns the order details if found. WARNING: This searches by fetching orders - may be slow for large order volumes.',
     {
-      serialNumber: z.string().describe('The serial number to search for'),
-      maxOrders: z
-        .number()
-        .optional()
-        .describe('Maximum number of orders to search (default: 500, max: 2000)'),
+      description: 'Search for a serial number/serial number across fulfilled sales orders. Returns the order details if found. WARNING: This searches by fetching orders - may be slow for large order volumes.',
+      inputSchema: {
+        serialNumber: z.string().describe('The serial number to search for'),
+        maxOrders: z
+          .number()
+          .optional()
+          .describe('Maximum number of orders to search (default: 500, max: 2000)'),
+        company: companyArg,
+      },
+      outputSchema: serialSearchResultSchema,
     },
-    async (args) => {
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
+
       const searchSerial = args.serialNumber.trim().toUpperCase();
       const maxOrders = Math.min(args.maxOrders || 500, 2000);
-      let skip = 0;
-      const pageSize = 100;
       let ordersSearched = 0;
 
-      while (ordersSearched < maxOrders) {
-        const result = await client.getList<SalesOrder>('/sales-orders', {
-          filters: { status: 'Fulfilled' },
-          pagination: { skip, count: pageSize } as PaginationParams,
-          include: ['lines'],
-        });
+      const pages = client.paginate<SalesOrder>('/sales-orders', {
+        filters: { status: 'Fulfilled' },
+        include: ['lines'],
+        // Bulk scan: yield to writes and interactive lookups
+        priority: 'low',
+        expectedRecords: maxOrders,
+      });
 
-        for (const order of result.data) {
+      for await (const page of pages) {
+        for (const order of page.data.slice(0, maxOrders - ordersSearched)) {
           ordersSearched++;
           for (const line of order.lines || []) {
             const qty = line.quantity;
@@ -175,86 +235,69 @@ export function registerSerialTools(server: McpServer, client: InflowClient): vo
               : [];
             for (const serial of serialNumbers) {
               if (serial.trim().toUpperCase() === searchSerial) {
-                return {
-                  content: [
-                    {
-                      type: 'text',
-                      text: JSON.stringify(
-                        {
-                          found: true,
-                          serial: searchSerial,
-                          salesOrderId: order.salesOrderId,
-                          orderNumber: order.orderNumber,
-                          orderDate: order.orderDate,
-                          productId: line.productId,
-                          lineId: line.salesOrderLineId,
-                          orderUrl: order.customFields?.custom4 || null,  // configured custom field = external order URL
-                          ordersSearched,
-                        },
-                        null,
-                        2
-                      ),
-                    },
-                  ],
-                };
+                return jsonResult({
+                  found: true,
+                  serial: searchSerial,
+                  salesOrderId: order.salesOrderId,
+                  orderNumber: order.orderNumber,
+                  orderDate: order.orderDate,
+                  productId: line.productId,
+                  lineId: line.salesOrderLineId,
+                  orderUrl: order.customFields?.custom4 || null,  // configured custom field = external order URL
+                  ordersSearched,
+                });
               }
             }
           }
         }
 
-        if (result.data.length < pageSize) break;
-        skip += pageSize;
+        if (ordersSearched >= maxOrders) break;
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                found: false,
-                serial: searchSerial,
-                ordersSearched,
-                message:
-                  'Serial number not found in fulfilled sales orders. Check your authoritative product database for serial number data.',
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    }
+      return jsonResult({
+        found: false,
+        serial: searchSerial,
+        ordersSearched,
+        message:
+          'Serial number not found in fulfilled sales orders. Check your authoritative product database for serial number data.',
+      });
+    })
   );
 
   // List all serial numbers from fulfilled orders
-  server.tool(
+  server.registerTool(
     'list_serial_numbers',
-    'List all serial numbers (serial numbers) from fulfilled sales orders. Useful for building a serial number inventory. WARNING: This fetches all orders and may be slow.',
     {
-      maxOrders: z
-        .number()
-        .optional()
-        .describe('Maximum number of orders to fetch (default: 200, max: 1000)'),
-      productId: z.string().optional().describe('Filter by product ID'),
+      description: 'List all serial numbers (serial numbers) from fulfilled sales orders. Useful for building a serial number inventory. WARNING: This fetches all orders and may be slow.',
+      inputSchema: {
+        maxOrders: z
+          .number()
+          .optional()
+          .describe('Maximum number of orders to fetch (default: 200, max: 1000)'),
+        productId: z.string().optional().describe('Filter by product ID (or SKU, barcode or name)'),
+        company: companyArg,
+      },
+      outputSchema: orderSerialsListSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const maxOrders = Math.min(args.maxOrders || 200, 1000);
-      let skip = 0;
-      const pageSize = 100;
       let ordersFetched = 0;
       const allSerials: SerialEntry[] = [];
 
-      while (ordersFetched < maxOrders) {
-        const result = await client.getList<SalesOrder>('/sales-orders', {
-          filters: { status: 'Fulfilled' },
-          pagination: { skip, count: pageSize } as PaginationParams,
-          include: ['lines'],
-          sortDesc: true,
-          sort: 'orderDate',
-        });
-
-        for (const order of result.data) {
+      const pages = client.paginate<SalesOrder>('/sales-orders', {
+        filters: { status: 'Fulfilled' },
+        include: ['lines'],
+        // Bulk scan: yield to writes and interactive lookups
+        priority: 'low',
+        expectedRecords: maxOrders,
+        sortDesc: true,
+        sort: 'orderDate',
+      });
+
+      for await (const page of pages) {
+        for (const order of page.data.slice(0, maxOrders - ordersFetched)) {
           ordersFetched++;
           for (const line of order.lines || []) {
             // Filter by product if specified
@@ -278,28 +321,16 @@ export function registerSerialTools(server: McpServer, client: InflowClient): vo
           }
         }
 
-        if (result.data.length < pageSize) break;
-        skip += pageSize;
+        if (ordersFetched >= maxOrders) break;
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                totalSerials: allSerials.length,
-                ordersFetched,
-                productIdFilter: args.productId || null,
-                serials: allSerials,
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    }
+      return jsonResult({
+        totalSerials: allSerials.length,
+        ordersFetched,
+        productIdFilter: args.productId || null,
+        serials: allSerials,
+      });
+    }))
   );
 
   // ============================================================================
@@ -307,13 +338,19 @@ export function registerSerialTools(server: McpServer, client: InflowClient): vo
   // ============================================================================
 
   // Get serials from a specific product
-  server.tool(
+  server.registerTool(
     'get_product_serials',
-    'Get all serial numbers (serial numbers) for a specific product using inventoryLines. Much faster than order-based lookup. Returns serials with stock status (quantityOnHand=0 means sold/shipped).',
     {
-      productId: z.string().describe('The product ID'),
+      description: 'Get all serial numbers (serial numbers) for a specific product using inventoryLines. Much faster than order-based lookup. Returns serials with stock status (quantityOnHand=0 means sold/shipped).',
+      inputSchema: {
+        productId: z.string().describe('The product ID (or SKU, barcode or name)'),
+        company: companyArg,
+      },
+      outputSchema: productSerialsSchema,
     },
-    async (args) => {
+    withToolErrors(withResolvedIds(clients, async (args) => {
+      const client = clients.get(args.company);
+
       const product = await client.get<Product>(
         `/products/${args.productId}`,
         { include: ['inventoryLines'] }
@@ -327,109 +364,87 @@ export function registerSerialTools(server: McpServer, client: InflowClient): vo
           productId: product.productId || '',
           productName: product.name || '',
           locationId: line.locationId || '',
-          quantityOnHand: line.quantityOnHand || '0',
+          quantityOnHand: quantityOnHand(line),
           sublocation: line.sublocation || '',
-          inStock: parseFloat(line.quantityOnHand || '0') > 0,
+          inStock: parseFloat(quantityOnHand(line)) > 0,
         }));
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                productId: product.productId,
-                productName: product.name,
-                trackSerials: product.trackSerials,
-                serialCount: serials.length,
-                inStockCount: serials.filter((s) => s.inStock).length,
-                soldCount: serials.filter((s) => !s.inStock).length,
-                serials,
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    }
+      return jsonResult({
+        productId: product.productId,
+        productName: product.name,
+        trackSerials: product.trackSerials,
+        serialCount: serials.length,
+        inStockCount: serials.filter((s) => s.inStock).length,
+        soldCount: serials.filter((s) => !s.inStock).length,
+        serials,
+      });
+    }))
   );
 
   // List all serials across all serialized products
-  server.tool(
+  server.registerTool(
     'list_all_serials',
-    'List all serial numbers (serial numbers) across ALL products that track serials. Uses inventoryLines for fast retrieval. Much faster than order-based aggregation.',
     {
-      maxProducts: z
-        .number()
-        .optional()
-        .describe('Maximum number of products to fetch (default: 100, max: 500)'),
-      inStockOnly: z
-        .boolean()
-        .optional()
-        .describe('Only return serials that are still in stock (quantityOnHand > 0)'),
+      description: 'List all serial numbers (serial numbers) across ALL products that track serials. Uses inventoryLines for fast retrieval. Much faster than order-based aggregation.',
+      inputSchema: {
+        maxProducts: z
+          .number()
+          .optional()
+          .describe('Maximum number of products to fetch (default: 100, max: 500)'),
+        inStockOnly: z
+          .boolean()
+          .optional()
+          .describe('Only return serials that are still in stock (quantityOnHand > 0)'),
+        company: companyArg,
+      },
+      outputSchema: productSerialsListSchema,
     },
-    async (args) => {
+    withToolErrors(async (args) => {
+      const client = clients.get(args.company);
+
       const maxProducts = Math.min(args.maxProducts || 100, 500);
-      let skip = 0;
-      const pageSize = 100;
       const allSerials: ProductSerialEntry[] = [];
-      let productsFetched = 0;
-
-      while (productsFetched < maxProducts) {
-        const result = await client.getList<Product>('/products', {
-          filters: { trackSerials: true },
-          pagination: { skip, count: Math.min(pageSize, maxProducts - productsFetched) } as PaginationParams,
-          include: ['inventoryLines'],
-        });
-
-        for (const product of result.data) {
-          productsFetched++;
-          const inventoryLines = product.inventoryLines || [];
-
-          for (const line of inventoryLines) {
-            if (!line.serial) continue;
-
-            const inStock = parseFloat(line.quantityOnHand || '0') > 0;
-
-            // Skip if filtering for in-stock only
-            if (args.inStockOnly && !inStock) continue;
-
-            allSerials.push({
-              serial: line.serial,
-              productId: product.productId || '',
-              productName: product.name || '',
-              locationId: line.locationId || '',
-              quantityOnHand: line.quantityOnHand || '0',
-              sublocation: line.sublocation || '',
-              inStock,
-            });
-          }
-        }
 
-        if (result.data.length < pageSize) break;
-        skip += pageSize;
+      const products = await client.getAll<Product>('/products', {
+        filters: { trackSerials: true },
+        include: ['inventoryLines'],
+        pageSize: Math.min(maxProducts, MAX_PAGE_SIZE),
+        maxRecords: maxProducts,
+        priority: 'low',
+      });
+      const productsFetched = products.data.length;
+
+      for (const product of products.data) {
+        const inventoryLines = product.inventoryLines || [];
+
+        for (const line of inventoryLines) {
+          if (!line.serial) continue;
+
+          const inStock = parseFloat(quantityOnHand(line)) > 0;
+
+          // Skip if filtering for in-stock only
+          if (args.inStockOnly && !inStock) continue;
+
+          allSerials.push({
+            serial: line.serial,
+            productId: product.productId || '',
+            productName: product.name || '',
+            locationId: line.locationId || '',
+            quantityOnHand: quantityOnHand(line),
+            sublocation: line.sublocation || '',
+            inStock,
+          });
+        }
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                totalSerials: allSerials.length,
-                inStockCount: allSerials.filter((s) => s.inStock).length,
-                soldCount: allSerials.filter((s) => !s.inStock).length,
-                productsFetched,
-                inStockOnlyFilter: args.inStockOnly || false,
-                serials: allSerials,
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    }
+      return jsonResult({
+        totalSerials: allSerials.length,
+        inStockCount: allSerials.filter((s) => s.inStock).length,
+        soldCount: allSerials.filter((s) => !s.inStock).length,
+        productsFetched,
+        inStockOnlyFilter: args.inStockOnly || false,
+        serials: allSerials,
+      });
+    })
   );
 }
@@ -33,6 +33,15 @@ export interface ListResponse<T> {
   totalCount?: number;
 }
 
+export interface ListPage<T> extends ListResponse<T> {
+  skip: number;
+  hasMore: boolean;
+}
+
+export interface FetchAllResponse<T> extends ListResponse<T> {
+  truncated: boolean;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   hasMore?: boolean;
@@ -70,7 +79,7 @@ export interface Product {
 export interface InventoryLine {
   serial?: string;
   locationId?: string;
-  quantityOnHand?: string;
+  quantityOnHand?: string | number;
   sublocation?: string;
 }
 
@@ -187,6 +196,8 @@ export interface Customer {
 }
 
 export interface Contact {
+  // inFlow keys contacts by contactId; id is accepted for older payloads
+  contactId?: string;
   id?: string;
   name?: string;
   email?: string;
@@ -249,6 +260,7 @@ export interface SalesOrder {
   pricingSchemeId?: string;
   taxingSchemeId?: string;
   paymentTermsId?: string;
+  currencyId?: string;
   currencyCode?: string;
   exchangeRate?: number;
   subtotal?: number;
@@ -329,6 +341,7 @@ export interface PurchaseOrder {
   status?: PurchaseOrderStatus;
   inventoryStatus?: string;
   shippingAddress?: Address;
+  currencyId?: string;
   currencyCode?: string;
   exchangeRate?: number;
   subtotal?: number;
@@ -595,6 +608,7 @@ export interface TaxCode {
 }
 
 export interface Currency {
+  currencyId?: string;
   code: string;
   name: string;
   symbol?: string;
@@ -0,0 +1,496 @@
+// Output schemas for tool results, mirroring the interfaces in ./inflow.ts
+//
+// Each shape must name exactly the fields of its interface (see `Shape`), so
+// the two can't drift apart. inFlow leaves out fields it has no value for,
+// sends null for others and returns decimals as strings, so every field is
+// optional and nullable, numbers also accept decimal strings, and fields the
+// interfaces don't know about pass through. The schemas describe results to
+// clients; they don't narrow what inFlow may return.
+
+import { z } from 'zod';
+
+import type * as inflow from './inflow.js';
+
+// One schema per field of T, no more and no fewer
+type Shape<T> = { [K in keyof Required<T>]: z.ZodTypeAny };
+
+function entity<T>(shape: Shape<T>) {
+  const fields: Record<string, z.ZodTypeAny> = {};
+  for (const [key, schema] of Object.entries<z.ZodTypeAny>(shape)) {
+    fields[key] = schema.nullish();
+  }
+  return z.object(fields).passthrough();
+}
+
+// A related record embedded by `include`; its own schema lives elsewhere
+const related = z.object({}).passthrough();
+export const decimalSchema = z.union([z.number(), z.string()]);
+const decimal = decimalSchema;
+const customFields = z.record(z.string(), z.unknown());
+
+export const addressSchema = entity<inflow.Address>({
+  street1: z.string(),
+  street2: z.string(),
+  city: z.string(),
+  state: z.string(),
+  postalCode: z.string(),
+  country: z.string(),
+});
+
+export const quantityWithUomSchema = entity<inflow.QuantityWithUom>({
+  standardQuantity: decimal,
+  uomQuantity: decimal,
+  uom: z.string(),
+  serialNumbers: z.array(z.string()),
+});
+
+// Order lines carry either a plain number or a quantity with unit of measure
+const lineQuantity = z.union([decimal, quantityWithUomSchema]);
+
+export const categorySchema = entity<inflow.Category>({
+  categoryId: z.string(),
+  name: z.string(),
+  parentCategoryId: z.string(),
+  parentCategory: related,
+  subCategories: z.array(related),
+});
+
+export const inventoryLineSchema = entity<inflow.InventoryLine>({
+  serial: z.string(),
+  locationId: z.string(),
+  quantityOnHand: decimal,
+  sublocation: z.string(),
+});
+
+export const itemBomSchema = entity<inflow.ItemBom>({
+  itemBomId: z.string(),
+  productId: z.string(),
+  product: related,
+  childProductId: z.string(),
+  childProduct: related,
+  quantity: quantityWithUomSchema,
+  timestamp: z.string(),
+});
+
+export const productSchema = entity<inflow.Product>({
+  productId: z.string(),
+  name: z.string(),
+  description: z.string(),
+  barcode: z.string(),
+  sku: z.string(),
+  category: categorySchema,
+  categoryId: z.string(),
+  isActive: z.boolean(),
+  isSerialized: z.boolean(),
+  isManufacturable: z.boolean(),
+  trackSerials: z.boolean(),
+  cost: decimal,
+  defaultPrice: decimal,
+  reorderPoint: decimal,
+  reorderQuantity: decimal,
+  dimensions: entity<inflow.ProductDimensions>({
+    length: decimal,
+    width: decimal,
+    height: decimal,
+    unit: z.string(),
+  }),
+  weight: decimal,
+  weightUnit: z.string(),
+  customFields,
+  itemBoms: z.array(itemBomSchema),
+  inventoryLines: z.array(inventoryLineSchema),
+  timestamp: z.string(),
+  createdDate: z.string(),
+  modifiedDate: z.string(),
+});
+
+export const sublocationSummarySchema = entity<inflow.SublocationSummary>({
+  sublocation: z.string(),
+  quantityOnHand: decimal,
+});
+
+export const locationSummarySchema = entity<inflow.LocationSummary>({
+  locationId: z.string(),
+  locationName: z.string(),
+  quantityOnHand: decimal,
+  quantityAvailable: decimal,
+  sublocationSummaries: z.array(sublocationSummarySchema),
+});
+
+export const productSummarySchema = entity<inflow.ProductSummary>({
+  productId: z.string(),
+  quantityOnHand: decimal,
+  quantityAvailable: decimal,
+  quantityOnOrder: decimal,
+  quantityAllocated: decimal,
+  locationSummaries: z.array(locationSummarySchema),
+});
+
+export const locationSchema = entity<inflow.Location>({
+  id: z.string(),
+  name: z.string(),
+  address: addressSchema,
+  isActive: z.boolean(),
+  isDefault: z.boolean(),
+  sublocations: z.array(z.string()),
+});
+
+export const contactSchema = entity<inflow.Contact>({
+  contactId: z.string(),
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  isPrimary: z.boolean(),
+});
+
+export const pricingSchemeSchema = entity<inflow.PricingScheme>({
+  id: z.string(),
+  name: z.string(),
+  isDefault: z.boolean(),
+});
+
+export const paymentTermsSchema = entity<inflow.PaymentTerms>({
+  id: z.string(),
+  name: z.string(),
+  dueDays: decimal,
+  discountDays: decimal,
+  discountPercent: decimal,
+});
+
+export const taxCodeSchema = entity<inflow.TaxCode>({
+  id: z.string(),
+  name: z.string(),
+  rate: decimal,
+  isDefault: z.boolean(),
+});
+
+export const taxingSchemeSchema = entity<inflow.TaxingScheme>({
+  id: z.string(),
+  name: z.string(),
+  isDefault: z.boolean(),
+  taxCodes: z.array(taxCodeSchema),
+});
+
+export const currencySchema = entity<inflow.Currency>({
+  currencyId: z.string(),
+  code: z.string(),
+  name: z.string(),
+  symbol: z.string(),
+  exchangeRate: decimal,
+});
+
+export const customerSchema = entity<inflow.Customer>({
+  customerId: z.string(),
+  name: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  fax: z.string(),
+  website: z.string(),
+  billingAddress: addressSchema,
+  shippingAddress: addressSchema,
+  pricingSchemeId: z.string(),
+  pricingScheme: pricingSchemeSchema,
+  paymentTermsId: z.string(),
+  paymentTerms: paymentTermsSchema,
+  taxingSchemeId: z.string(),
+  currencyCode: z.string(),
+  contacts: z.array(contactSchema),
+  remarks: z.string(),
+  customFields,
+  isActive: z.boolean(),
+  timestamp: z.string(),
+  createdDate: z.string(),
+  modifiedDate: z.string(),
+});
+
+export const vendorSchema = entity<inflow.Vendor>({
+  vendorId: z.string(),
+  name: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  fax: z.string(),
+  website: z.string(),
+  address: addressSchema,
+  paymentTermsId: z.string(),
+  paymentTerms: paymentTermsSchema,
+  currencyCode: z.string(),
+  contacts: z.array(contactSchema),
+  customFields,
+  isActive: z.boolean(),
+  timestamp: z.string(),
+  createdDate: z.string(),
+  modifiedDate: z.string(),
+});
+
+export const salesOrderLineSchema = entity<inflow.SalesOrderLine>({
+  salesOrderLineId: z.string(),
+  productId: z.string(),
+  product: productSchema,
+  description: z.string(),
+  quantity: lineQuantity,
+  quantityPicked: decimal,
+  quantityShipped: decimal,
+  unitPrice: decimal,
+  discount: decimal,
+  discountType: z.string(),
+  taxCodeId: z.string(),
+  subtotal: decimal,
+  sublocation: z.string(),
+  lineNum: decimal,
+  timestamp: z.string(),
+});
+
+export const salesOrderSchema = entity<inflow.SalesOrder>({
+  salesOrderId: z.string(),
+  orderNumber: z.string(),
+  orderDate: z.string(),
+  requiredDate: z.string(),
+  customerId: z.string(),
+  customer: customerSchema,
+  locationId: z.string(),
+  location: locationSchema,
+  status: z.string(),
+  inventoryStatus: z.string(),
+  billingAddress: addressSchema,
+  shippingAddress: addressSchema,
+  pricingSchemeId: z.string(),
+  taxingSchemeId: z.string(),
+  paymentTermsId: z.string(),
+  currencyId: z.string(),
+  currencyCode: z.string(),
+  exchangeRate: decimal,
+  subtotal: decimal,
+  taxTotal: decimal,
+  total: decimal,
+  amountPaid: decimal,
+  balance: decimal,
+  lines: z.array(salesOrderLineSchema),
+  orderRemarks: z.string(),
+  customFields,
+  timestamp: z.string(),
+  createdDate: z.string(),
+  modifiedDate: z.string(),
+});
+
+export const purchaseOrderItemSchema = entity<inflow.PurchaseOrderItem>({
+  purchaseOrderLineId: z.string(),
+  productId: z.string(),
+  product: productSchema,
+  description: z.string(),
+  quantity: lineQuantity,
+  unitPrice: decimal,
+  taxCodeId: z.string(),
+  subtotal: decimal,
+  sublocation: z.string(),
+});
+
+export const purchaseOrderReceiveLineSchema = entity<inflow.PurchaseOrderReceiveLine>({
+  purchaseOrderReceiveLineId: z.string(),
+  productId: z.string(),
+  description: z.string(),
+  vendorItemCode: z.string(),
+  quantity: quantityWithUomSchema,
+  locationId: z.string(),
+  sublocation: z.string(),
+  receiveDate: z.string(),
+  timestamp: z.string(),
+});
+
+export const purchaseOrderSchema = entity<inflow.PurchaseOrder>({
+  purchaseOrderId: z.string(),
+  orderNumber: z.string(),
+  orderDate: z.string(),
+  expectedDate: z.string(),
+  vendorId: z.string(),
+  vendor: vendorSchema,
+  locationId: z.string(),
+  location: locationSchema,
+  status: z.string(),
+  inventoryStatus: z.string(),
+  shippingAddress: addressSchema,
+  currencyId: z.string(),
+  currencyCode: z.string(),
+  exchangeRate: decimal,
+  subtotal: decimal,
+  taxTotal: decimal,
+  total: decimal,
+  lines: z.array(purchaseOrderItemSchema),
+  receiveLines: z.array(purchaseOrderReceiveLineSchema),
+  unstockLines: z.array(z.unknown()),
+  orderRemarks: z.string(),
+  customFields,
+  timestamp: z.string(),
+  createdDate: z.string(),
+  modifiedDate: z.string(),
+});
+
+export const adjustmentReasonSchema = entity<inflow.AdjustmentReason>({
+  id: z.string(),
+  name: z.string(),
+  adjustmentType: z.string(),
+});
+
+export const stockAdjustmentSchema = entity<inflow.StockAdjustment>({
+  stockAdjustmentId: z.string(),
+  adjustmentNumber: z.string(),
+  date: z.string(),
+  locationId: z.string(),
+  location: locationSchema,
+  adjustmentReasonId: z.string(),
+  reason: adjustmentReasonSchema,
+  status: z.string(),
+  items: z.array(
+    entity<inflow.StockAdjustmentItem>({
+      id: z.string(),
+      productId: z.string(),
+      product: productSchema,
+      quantity: decimal,
+      sublocation: z.string(),
+      serialNumbers: z.array(z.string()),
+      unitCost: decimal,
+    })
+  ),
+  remarks: z.string(),
+  customFields,
+  timestamp: z.string(),
+  createdDate: z.string(),
+  modifiedDate: z.string(),
+});
+
+export const stockTransferSchema = entity<inflow.StockTransfer>({
+  stockTransferId: z.string(),
+  transferNumber: z.string(),
+  transferDate: z.string(),
+  fromLocationId: z.string(),
+  fromLocation: locationSchema,
+  toLocationId: z.string(),
+  toLocation: locationSchema,
+  status: z.string(),
+  items: z.array(
+    entity<inflow.StockTransferItem>({
+      id: z.string(),
+      productId: z.string(),
+      product: productSchema,
+      quantity: decimal,
+      quantityShipped: decimal,
+      quantityReceived: decimal,
+      fromSublocation: z.string(),
+      toSublocation: z.string(),
+      serialNumbers: z.array(z.string()),
+    })
+  ),
+  remarks: z.string(),
+  customFields,
+  timestamp: z.string(),
+  createdDate: z.string(),
+  modifiedDate: z.string(),
+});
+
+export const stockCountSchema = entity<inflow.StockCount>({
+  stockCountId: z.string(),
+  stockCountNumber: z.string(),
+  countDate: z.string(),
+  locationId: z.string(),
+  location: locationSchema,
+  status: z.string(),
+  isCancelled: z.boolean(),
+  isCompleted: z.boolean(),
+  isPrepared: z.boolean(),
+  isReviewed: z.boolean(),
+  isStarted: z.boolean(),
+  countSheets: z.array(
+    entity<inflow.CountSheet>({
+      id: z.string(),
+      name: z.string(),
+      items: z.array(
+        entity<inflow.CountSheetItem>({
+          productId: z.string(),
+          product: productSchema,
+          sublocation: z.string(),
+          expectedQuantity: decimal,
+          countedQuantity: decimal,
+          variance: decimal,
+          serialNumbers: z.array(z.string()),
+        })
+      ),
+    })
+  ),
+  remarks: z.string(),
+  timestamp: z.string(),
+  createdDate: z.string(),
+  modifiedDate: z.string(),
+});
+
+export const manufacturingOrderLineSchema = entity<inflow.ManufacturingOrderLine>({
+  manufacturingOrderLineId: z.string(),
+  manufacturingOrderId: z.string(),
+  parentManufacturingOrderLineId: z.string(),
+  productId: z.string(),
+  description: z.string(),
+  quantity: quantityWithUomSchema,
+  sublocation: z.string(),
+  // Component lines nest under their output line
+  manufacturingOrderLines: z.array(related),
+  timestamp: z.string(),
+});
+
+export const manufacturingOrderSchema = entity<inflow.ManufacturingOrder>({
+  manufacturingOrderId: z.string(),
+  manufacturingOrderNumber: z.string(),
+  orderDate: z.string(),
+  dueDate: z.string(),
+  locationId: z.string(),
+  location: locationSchema,
+  status: z.string(),
+  isCancelled: z.boolean(),
+  isCompleted: z.boolean(),
+  primaryFinishedProductId: z.string(),
+  lines: z.array(manufacturingOrderLineSchema),
+  remarks: z.string(),
+  pickRemarks: z.string(),
+  putAwayRemarks: z.string(),
+  customFields,
+  timestamp: z.string(),
+  createdDate: z.string(),
+  modifiedDate: z.string(),
+});
+
+export const customFieldDefinitionSchema = entity<inflow.CustomFieldDefinition>({
+  id: z.string(),
+  entityType: z.string(),
+  name: z.string(),
+  fieldType: z.string(),
+  isRequired: z.boolean(),
+  dropdownOptions: z.array(z.string()),
+});
+
+export const webhookSchema = entity<inflow.Webhook>({
+  id: z.string(),
+  url: z.string(),
+  events: z.array(z.string()),
+  isActive: z.boolean(),
+  secret: z.string(),
+});
+
+export const teamMemberSchema = entity<inflow.TeamMember>({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  role: z.string(),
+  isActive: z.boolean(),
+});
+
+/**
+ * Result of a list tool: one page with an optional total count, or with
+ * `fetchAll` every page, flagged `truncated` when maxRecords cut it short.
+ */
+export function listResultSchema(item: z.ZodTypeAny) {
+  return z
+    .object({
+      data: z.array(item),
+      totalCount: z.number().optional(),
+      truncated: z.boolean().optional(),
+    })
+    .passthrough();
+}